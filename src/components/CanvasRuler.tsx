@@ -0,0 +1,83 @@
+import React from 'react';
+import { CanvasRulerProps } from '../types';
+
+// Breadth of a ruler in screen pixels
+export const RULER_SIZE = 20;
+
+// Label spacings in canvas pixels. The smallest one that keeps labels at least 40 screen
+// pixels apart is used, with four unlabelled ticks in between.
+const labelSteps = [5, 10, 20, 50, 100, 200, 500];
+
+const CanvasRuler: React.FC<CanvasRulerProps> = ({ orientation, length, zoomLevel, offset, cursor, onMouseDown }) => {
+    const horizontal = orientation === 'horizontal';
+    const labelStep = labelSteps.find(step => step * zoomLevel >= 40) || labelSteps[labelSteps.length - 1];
+    const tickStep = labelStep / 5;
+
+    const marks: React.ReactNode[] = [];
+    for (let value = 0; value <= length; value += tickStep) {
+        const position = offset + value * zoomLevel;
+        const labelled = value % labelStep === 0;
+        const tickStart = RULER_SIZE - (labelled ? RULER_SIZE * 0.6 : RULER_SIZE * 0.25);
+
+        marks.push(horizontal ? (
+            <line key={`tick-${value}`} x1={position} y1={tickStart} x2={position} y2={RULER_SIZE} stroke="#888" strokeWidth={1} />
+        ) : (
+            <line key={`tick-${value}`} x1={tickStart} y1={position} x2={RULER_SIZE} y2={position} stroke="#888" strokeWidth={1} />
+        ));
+
+        if (labelled) {
+            marks.push(horizontal ? (
+                <text key={`label-${value}`} x={position + 2} y={9} fontSize={9} fill="#555">
+                    {value}
+                </text>
+            ) : (
+                // Rotated so the label reads upwards and runs down from the tick
+                <text
+                    key={`label-${value}`}
+                    x={9}
+                    y={position + 2}
+                    fontSize={9}
+                    fill="#555"
+                    textAnchor="end"
+                    transform={`rotate(-90 9 ${position + 2})`}
+                >
+                    {value}
+                </text>
+            ));
+        }
+    }
+
+    const cursorPosition = cursor !== null ? offset + (cursor + 0.5) * zoomLevel : null;
+
+    return (
+        <div
+            onMouseDown={onMouseDown}
+            title={horizontal ? 'Drag down to add a horizontal guide' : 'Drag right to add a vertical guide'}
+            style={{
+                flex: horizontal ? 1 : 'none',
+                [horizontal ? 'height' : 'width']: `${RULER_SIZE}px`,
+                overflow: 'hidden',
+                backgroundColor: '#e9ecef',
+                cursor: horizontal ? 'ns-resize' : 'ew-resize',
+                userSelect: 'none'
+            }}
+        >
+            <svg width="100%" height="100%" style={{ display: 'block' }}>
+                {/* Canvas extent */}
+                {horizontal ? (
+                    <rect x={offset} y={0} width={length * zoomLevel} height={RULER_SIZE} fill="#f8f9fa" />
+                ) : (
+                    <rect x={0} y={offset} width={RULER_SIZE} height={length * zoomLevel} fill="#f8f9fa" />
+                )}
+                {marks}
+                {cursorPosition !== null && (horizontal ? (
+                    <line x1={cursorPosition} y1={0} x2={cursorPosition} y2={RULER_SIZE} stroke="#dc3545" strokeWidth={1} />
+                ) : (
+                    <line x1={0} y1={cursorPosition} x2={RULER_SIZE} y2={cursorPosition} stroke="#dc3545" strokeWidth={1} />
+                ))}
+            </svg>
+        </div>
+    );
+};
+
+export default CanvasRuler;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { CanvasRulersProps } from '../types';
+import CanvasRuler, { RULER_SIZE } from './CanvasRuler';
+
+// Grid for the canvas area: the rulers along the top and left of the canvas container, and
+// a full-width row below it
+export const rulerAreaStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: `${RULER_SIZE}px minmax(0, 1fr)`,
+    gridTemplateRows: `${RULER_SIZE}px minmax(0, 1fr) auto`
+};
+
+// The corner and both rulers, placed in the first cells of the ruler grid. The canvas
+// container follows them in the grid.
+const CanvasRulers: React.FC<CanvasRulersProps> = ({ width, height, zoomLevel, offset, cursor, onGuideDrag }) => (
+    <>
+        <div style={{ backgroundColor: '#dee2e6' }} />
+        <CanvasRuler
+            orientation="horizontal"
+            length={width}
+            zoomLevel={zoomLevel}
+            offset={offset.x}
+            cursor={cursor ? cursor.x : null}
+            onMouseDown={(e) => onGuideDrag(e, 'horizontal')}
+        />
+        <CanvasRuler
+            orientation="vertical"
+            length={height}
+            zoomLevel={zoomLevel}
+            offset={offset.y}
+            cursor={cursor ? cursor.y : null}
+            onMouseDown={(e) => onGuideDrag(e, 'vertical')}
+        />
+    </>
+);
+
+export default CanvasRulers;
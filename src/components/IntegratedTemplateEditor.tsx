@@ -1,68 +1,53 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
+import type { Font } from 'opentype.js';
 import styles from '../styles/EslDesigner.module.css';
-
-// Canvas item types from AdvancedCanvasEditor
-interface BaseItem {
-  id: number;
-  type: string;
-  x: number;
-  y: number;
-  color: string;
-  zIndex?: number;
-}
-
-interface RectItem extends BaseItem {
-  type: "rect";
-  width: number;
-  height: number;
-}
-
-interface CircleItem extends BaseItem {
-  type: "circle";
-  radius: number;
-}
-
-interface TextItem extends BaseItem {
-  type: "text";
-  text: string;
-  fontSize: number;
-  fontFamily?: string;
-  anchor?: 'lt' | 'mt' | 'rt' | 'ls' | 'ms' | 'rs';
-  bold?: boolean;
-  italic?: boolean;
-  underline?: boolean;
-}
-
-interface LineItem extends BaseItem {
-  type: "line";
-  x2: number;
-  y2: number;
-  strokeWidth: number;
-  thickness?: number; // Pixel thickness of the line (default 1)
-}
-
-interface BarcodeItem extends BaseItem {
-  type: "barcode";
-  width: number;
-  height: number;
-  data: string;
-}
-
-interface QRCodeItem extends BaseItem {
-  type: "qrcode";
-  size: number;
-  data: string;
-}
-
-interface ImageItem extends BaseItem {
-  type: "image";
-  width: number;
-  height: number;
-  filename: string;
-  originalFilename?: string;
-}
-
-type CanvasItem = RectItem | CircleItem | TextItem | LineItem | BarcodeItem | QRCodeItem | ImageItem;
+import CanvasRulers, { rulerAreaStyle } from './CanvasRulers';
+import {
+  BarcodeItem,
+  BatchJobStatus,
+  CanvasGroup,
+  CanvasGuide,
+  CanvasItem,
+  CircleItem,
+  DitherMethod,
+  ImageItem,
+  LineItem,
+  QRCodeItem,
+  QrErrorCorrection,
+  RectItem,
+  EslTemplateDocument,
+  EslType,
+  IntegratedTemplateEditorProps,
+  LabelFont,
+  LabelProfile,
+  PriceItem,
+  TemplateExtras,
+  TemplateRevision,
+  TemplateValidationError,
+  TemplateVariables,
+  TemplateVersion,
+  TextBox,
+  TextItem,
+  TrashEntry
+} from '../types';
+import { PASTE_OFFSET, cloneItemsForPaste, parseClipboard, serializeClipboard } from '../utils/clipboard';
+import { AlignMode, DistributeAxis, alignUnits, distributeUnits } from '../utils/alignment';
+import { ESL_COLORS, ESL_TYPES, getPalette } from '../utils/palette';
+import { NEW_BARCODE_CAPTION_FONT, NEW_BARCODE_SETTINGS, barsToSvgPath, fitBoxToSymbol, getCodeWarnings, layoutCode } from '../utils/barcodes';
+import { DEFAULT_FONT_FILE, fallbackFontFamily, getFontLabel } from '../utils/fonts';
+import { cloneGroupsForPaste, expandToGroups, findSelectedGroup, getOutermostGroupId, groupItems, ungroupItems } from '../utils/groups';
+import { DEFAULT_HISTORY_DEPTH, History, createHistory, recordHistory, redoHistory, undoHistory } from '../utils/history';
+import { canRotate, normalizeRotation, rotateBounds, rotatePoint, scaleItem, translateItem } from '../utils/itemTransforms';
+import { layoutPrice, placeholderPrice } from '../utils/priceLayout';
+import { DEFAULT_SNAP_SETTINGS, SNAP_DISTANCE, SnapContext, SnapGuide, SnapSettings, snapBounds, snapPoint } from '../utils/snapping';
+import { describeElement, diffElements, formatFieldValue } from '../utils/templateDiff';
+import { ParsedTemplate, fillToColor, parseTemplate, parseTemplateYaml, templateToCanvas } from '../utils/templateParser';
+import { formatValidationError, validateTemplateDocument } from '../utils/templateValidator';
+import { diffLines } from '../utils/textDiff';
+import { estimatedMetrics, fontMetrics, layoutText, layoutTextBox } from '../utils/textLayout';
+import { applySampleRecord, getItemVariable, getVariableName, listVariables, parseSampleRecords, toGeneratorRecord } from '../utils/variables';
+import { forgetWebFont, loadWebFont, webFontFamily } from '../utils/webFonts';
+import { buildTemplateDocument, colorToFill, serializeTemplate } from '../utils/yamlGenerator';
 
 // ESL Designer menu sections
 interface SidebarSection {
@@ -73,109 +58,129 @@ interface SidebarSection {
 
 const sidebarSections: SidebarSection[] = [
   { id: 'templates', name: 'Canvas', icon: '📄' },
-  { id: 'elements', name: 'Elements', icon: '🔲' }
+  { id: 'elements', name: 'Elements', icon: '🔲' },
+  { id: 'variables', name: 'Variables', icon: '🔤' }
 ];
 
 const propertiesSections: SidebarSection[] = [
   { id: 'properties', name: 'Properties', icon: '⚙️' }
 ];
 
-// Available fonts for text elements
-const availableFonts = [
-  { label: 'System Default', value: 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif', eslFont: 'FreeMonoRegular.ttf' },
-  { label: 'Arial', value: 'Arial, sans-serif', eslFont: 'Arial.ttf' },
-  { label: 'Helvetica', value: 'Helvetica, Arial, sans-serif', eslFont: 'Helvetica.ttf' },
-  { label: 'Times New Roman', value: '"Times New Roman", Times, serif', eslFont: 'TimesNewRoman.ttf' },
-  { label: 'Georgia', value: 'Georgia, serif', eslFont: 'Georgia.ttf' },
-  { label: 'Verdana', value: 'Verdana, Geneva, sans-serif', eslFont: 'Verdana.ttf' },
-  { label: 'Courier New', value: '"Courier New", Courier, monospace', eslFont: 'CourierNew.ttf' },
-  { label: 'Monaco', value: 'Monaco, "Lucida Console", monospace', eslFont: 'Monaco.ttf' },
-  { label: 'Impact', value: 'Impact, "Arial Black", sans-serif', eslFont: 'Impact.ttf' },
-  { label: 'Comic Sans MS', value: '"Comic Sans MS", cursive', eslFont: 'ComicSansMS.ttf' },
-  { label: 'Trebuchet MS', value: '"Trebuchet MS", Arial, sans-serif', eslFont: 'TrebuchetMS.ttf' },
-  { label: 'Palatino', value: 'Palatino, "Palatino Linotype", serif', eslFont: 'Palatino.ttf' }
-];
+const initialCanvasItems: CanvasItem[] = [];
 
-// Function to get ESL font filename from web font family
-const getEslFontFromWebFont = (webFontFamily: string): string => {
-  const font = availableFonts.find(f => f.value === webFontFamily);
-  return font ? font.eslFont : 'FreeMonoRegular.ttf'; // Default fallback
+// An item's picture, turned about its x/y when it is rotated. Keyed by the item, so it can be
+// returned from a map over the items.
+const renderTurned = (item: CanvasItem, render: () => React.ReactNode): React.ReactNode => {
+    const node = render();
+    return node && item.rotation && canRotate(item) ? (
+        <g key={item.id} transform={`rotate(${item.rotation} ${item.x} ${item.y})`}>{node}</g>
+    ) : node;
 };
 
-const initialCanvasItems: CanvasItem[] = [];
+// Server render of one side of the history comparison: an image URL, or why there is none
+interface RevisionImage {
+    url?: string;
+    error?: string;
+}
 
-const IntegratedTemplateEditor: React.FC = () => {
+// One side of the history comparison, 360px wide; a placeholder of the label's shape while it renders
+const renderRevisionImage = (image: RevisionImage | undefined, width: number, height: number): React.ReactNode => {
+    const size = { width: '360px', height: `${Math.round(360 * height / width)}px` };
+    if (image?.url) {
+        return <img src={image.url} alt="" style={{ ...size, display: 'block', imageRendering: 'pixelated', border: '1px solid #ccc' }} />;
+    }
+    return (
+        <div style={{ ...size, display: 'flex', alignItems: 'center', justifyContent: 'center', border: '1px solid #ccc', fontSize: '12px', color: image?.error ? '#dc3545' : '#666', textAlign: 'center', overflow: 'hidden' }}>
+            {image?.error ? `Could not render: ${image.error}` : 'Rendering…'}
+        </div>
+    );
+};
 
-    // Helper function to calculate text position based on anchor point
-    const calculateAnchoredPosition = useCallback((item: TextItem, textWidth: number, textHeight: number) => {
-        const anchor = item.anchor || 'lt'; // Default to left-top
-        let x = item.x;
-        let y = item.y;
-        
-        // Handle horizontal anchoring
-        if (anchor.includes('m')) {
-            // Middle horizontal
-            x = item.x - (textWidth / 2);
-        } else if (anchor.includes('r')) {
-            // Right horizontal  
-            x = item.x - textWidth;
-        }
-        // 'l' (left) uses x as-is
-        
-        // Handle vertical anchoring
-        if (anchor.includes('s')) {
-            // Bottom vertical
-            y = item.y - textHeight;
-        } else if (anchor === 'ms' || anchor === 'ls' || anchor === 'rs') {
-            // Middle vertical (for anchors ending in 's' that mean bottom)
-            y = item.y - textHeight;
-        }
-        // 't' (top) uses y as-is
-        
-        return { x, y };
-    }, []);
+// Canvas state captured by each undo step
+interface CanvasSnapshot {
+    items: CanvasItem[];
+    groups: CanvasGroup[];
+    extras: TemplateExtras;
+    guides: CanvasGuide[];
+}
 
-    // Helper function to estimate text width for different font families
-    const estimateTextWidth = useCallback((text: string, fontSize: number, fontFamily?: string): number => {
-        const family = fontFamily || availableFonts[0].value;
-        
-        // Ensure text is a string
-        const safeText = String(text || '');
-        
-        // Handle multi-line text by finding the longest line
-        const lines = safeText.split('\n');
-        let maxWidth = 0;
-        
-        // Different font families have different character width ratios
-        let widthRatio = 0.6; // Default for monospace
-        
-        if (family.includes('Arial') || family.includes('Helvetica') || family.includes('sans-serif')) {
-            widthRatio = 0.55; // Sans-serif fonts are typically narrower
-        } else if (family.includes('Times') || family.includes('Georgia') || family.includes('serif')) {
-            widthRatio = 0.5; // Serif fonts are typically narrower
-        } else if (family.includes('Courier') || family.includes('Monaco') || family.includes('monospace')) {
-            widthRatio = 0.6; // Monospace fonts
-        } else if (family.includes('Impact')) {
-            widthRatio = 0.45; // Impact is condensed
-        } else if (family.includes('Comic Sans')) {
-            widthRatio = 0.58; // Comic Sans is wider
-        } else if (family.includes('Verdana')) {
-            widthRatio = 0.6; // Verdana is wider
-        }
-        
-        // Calculate width for each line and return the maximum
-        lines.forEach(line => {
-            const lineWidth = line.length * (fontSize * widthRatio);
-            if (lineWidth > maxWidth) {
-                maxWidth = lineWidth;
-            }
-        });
-        
-        return maxWidth;
-    }, []);
+// Image picked for upload, before it is converted to the panel palette
+interface ImageUpload {
+    fileName: string;
+    data: string; // File content, base64
+    url: string; // Object URL of the original, for the before preview
+    width: number; // Natural size
+    height: number;
+}
 
-    // Move getItemBounds inside component to fix Fast Refresh issues
-    const getItemBounds = useCallback((item: CanvasItem) => {
+// How an upload is converted; tuned against the preview before it is saved
+interface ImageConversionSettings {
+    name: string;
+    width: number;
+    height: number;
+    keepAspect: boolean;
+    palette: EslType;
+    method: DitherMethod;
+    threshold: number;
+}
+
+const ditherMethods: { id: DitherMethod; name: string }[] = [
+    { id: 'threshold', name: 'Threshold' },
+    { id: 'floyd-steinberg', name: 'Floyd–Steinberg' },
+    { id: 'atkinson', name: 'Atkinson' },
+    { id: 'ordered', name: 'Ordered (Bayer)' }
+];
+
+// True while the user is typing in a form field, where editor shortcuts must not apply
+const isTypingInField = (): boolean => {
+    const activeElement = document.activeElement as HTMLElement;
+    return !!activeElement && (
+        activeElement.tagName === 'INPUT' || 
+        activeElement.tagName === 'TEXTAREA' || 
+        activeElement.contentEditable === 'true'
+    );
+};
+
+const IntegratedTemplateEditor: React.FC<IntegratedTemplateEditorProps> = ({ historyDepth = DEFAULT_HISTORY_DEPTH }) => {
+
+    // Font files in the fonts root, for the font menu and the font library
+    const [fontLibrary, setFontLibrary] = useState<LabelFont[]>([]);
+
+    // Label fonts loaded from the server, by file name; null when a file could not be loaded
+    const [labelFonts, setLabelFonts] = useState<Record<string, Font | null>>({});
+
+    // Metrics of a font file at a size, measured with its TTF once that has loaded
+    const measureFont = useCallback((file: string, fontSize: number) => {
+        const font = labelFonts[file];
+        return font ? fontMetrics(font, fontSize) : estimatedMetrics(fontSize, file);
+    }, [labelFonts]);
+
+    // Lines and box of a text item; bounded text is wrapped and shrunk to fit its box
+    const getTextLayout = useCallback((item: TextItem) => {
+        const file = item.fontFile || DEFAULT_FONT_FILE;
+        const text = String(item.text || '');
+        return item.box
+            ? layoutTextBox(text, item.x, item.y, item.box, item.fontSize, fontSize => measureFont(file, fontSize))
+            : layoutText(text, item.x, item.y, item.anchor || 'lt', measureFont(file, item.fontSize));
+    }, [measureFont]);
+
+    // Parts of a price item; a price still bound to a variable shows placeholder digits
+    const getPriceLayout = useCallback((item: PriceItem) => {
+        const file = item.fontFile || DEFAULT_FONT_FILE;
+        const shown = (value: string) => getVariableName(value) !== undefined ? placeholderPrice(item.integerDigits) : value;
+        return layoutPrice(item, shown(item.data), item.originalPrice ? shown(item.originalPrice) : undefined,
+            fontSize => measureFont(file, fontSize));
+    }, [measureFont]);
+
+    // CSS font family of a font file: the label font when loaded, else a browser font like it
+    const getFontFileFamily = useCallback((file: string) =>
+        labelFonts[file] ? `"${webFontFamily(file)}", ${fallbackFontFamily(file)}` : fallbackFontFamily(file), [labelFonts]);
+
+    const getTextFontFamily = useCallback((item: TextItem) =>
+        getFontFileFamily(item.fontFile || DEFAULT_FONT_FILE), [getFontFileFamily]);
+
+    // Box of an item before any rotation
+    const getUprightBounds = useCallback((item: CanvasItem) => {
         if (item.type === "rect") {
             return { x: item.x, y: item.y, width: item.width, height: item.height };
         }
@@ -183,15 +188,9 @@ const IntegratedTemplateEditor: React.FC = () => {
             return { x: item.x - item.radius, y: item.y - item.radius, width: item.radius * 2, height: item.radius * 2 };
         }
         if (item.type === "text") {
-            // Use font-aware width calculation
-            // item.y is the top edge, text baseline is at item.y + fontSize
-            const text = String(item.text || '');
-            const estimatedWidth = estimateTextWidth(text, item.fontSize, (item as TextItem).fontFamily);
-            // Calculate height based on number of lines
-            const lines = text.split('\n');
-            const lineHeight = item.fontSize * 1.2;
-            const estimatedHeight = lines.length * lineHeight;
-            return { x: item.x, y: item.y, width: estimatedWidth, height: estimatedHeight };
+            // x/y is the anchor point, so the box starts left of and/or above it for other anchors
+            const layout = getTextLayout(item);
+            return { x: layout.x, y: layout.y, width: layout.width, height: layout.height };
         }
         if (item.type === "line") {
             const minX = Math.min(item.x, item.x2);
@@ -206,8 +205,41 @@ const IntegratedTemplateEditor: React.FC = () => {
         if (item.type === "qrcode") {
             return { x: item.x, y: item.y, width: item.size, height: item.size };
         }
+        if (item.type === "image") {
+            return { x: item.x, y: item.y, width: item.width, height: item.height };
+        }
+        if (item.type === "price") {
+            const layout = getPriceLayout(item);
+            return { x: layout.x, y: layout.y, width: layout.width, height: layout.height };
+        }
         return {};
-    }, [estimateTextWidth]);
+    }, [getTextLayout, getPriceLayout]);
+
+    // Box of an item on the canvas: for a turned item, the box around its turned outline, so
+    // selection, snapping and alignment go by what is drawn
+    const getItemBounds = useCallback((item: CanvasItem) => {
+        const bounds = getUprightBounds(item);
+        if (!item.rotation || !canRotate(item) || bounds.x === undefined) return bounds;
+        return rotateBounds(bounds, item.x, item.y, item.rotation);
+    }, [getUprightBounds]);
+
+    // Bounding box around several items
+    const getSelectionBounds = useCallback((items: CanvasItem[]) => {
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
+        items.forEach(item => {
+            const bounds = getItemBounds(item);
+            if (bounds.x === undefined || bounds.y === undefined) return;
+            minX = Math.min(minX, bounds.x);
+            minY = Math.min(minY, bounds.y);
+            maxX = Math.max(maxX, bounds.x + (bounds.width || 0));
+            maxY = Math.max(maxY, bounds.y + (bounds.height || 0));
+        });
+        if (minX === Infinity) return null;
+        return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+    }, [getItemBounds]);
 
     // Helper function for preset button styling
     const getPresetButtonStyle = useCallback((isActive: boolean) => ({
@@ -283,9 +315,11 @@ const IntegratedTemplateEditor: React.FC = () => {
 
     // Canvas state
     const [canvasItems, setCanvasItems] = useState<CanvasItem[]>(initialCanvasItems);
+    const [canvasGroups, setCanvasGroups] = useState<CanvasGroup[]>([]);
     const [selectedIds, setSelectedIds] = useState<number[]>([]); // Changed to support multiple selection
     const [dragging, setDragging] = useState<boolean>(false);
     const [dragOffset, setDragOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+    const [dragAnchorId, setDragAnchorId] = useState<number | null>(null); // Item under the mouse when dragging started
     const [editingText, setEditingText] = useState<number | null>(null);
     
     // Selection box state for drag-to-select
@@ -296,11 +330,32 @@ const IntegratedTemplateEditor: React.FC = () => {
     // Resize state
     const [resizing, setResizing] = useState<boolean>(false);
     const [resizeHandle, setResizeHandle] = useState<string | null>(null);
+    // Pointer angle and item rotation when a rotate gesture started
+    const [rotateStart, setRotateStart] = useState<{ angle: number; rotation: number }>({ angle: 0, rotation: 0 });
     const [resizeStart, setResizeStart] = useState<{ x: number; y: number; width: number; height: number }>({ x: 0, y: 0, width: 0, height: 0 });
-    
-    // Ref map to store actual SVG text elements for accurate dimension measurement
-    const textElementRefs = useRef<Map<number, SVGTextElement>>(new Map());
-    const [, forceUpdate] = useState({});
+
+    // Scaling a multi-element selection from a corner of its bounding box
+    const [groupScale, setGroupScale] = useState<{
+        handle: string;
+        bounds: { x: number; y: number; width: number; height: number };
+        items: CanvasItem[];
+    } | null>(null);
+
+    // Whether align tools line up a multi-selection with its own bounds or with the canvas
+    const [alignRelativeTo, setAlignRelativeTo] = useState<'selection' | 'canvas'>('selection');
+
+    // Grid overlay and snapping; guides are shown while a drag or resize snaps
+    const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+    const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+    const [showGridDialog, setShowGridDialog] = useState<boolean>(false);
+
+    // Rulers: guides dragged out of them, the cursor position in canvas pixels and where
+    // canvas pixel 0 sits along each ruler (it moves with zoom and scroll)
+    const [canvasGuides, setCanvasGuides] = useState<CanvasGuide[]>([]);
+    const [draggingGuideId, setDraggingGuideId] = useState<number | null>(null);
+    const [cursorPosition, setCursorPosition] = useState<{ x: number; y: number } | null>(null);
+    const [rulerOffset, setRulerOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+    const canvasContainerRef = useRef<HTMLDivElement>(null);
     
     // Canvas dimensions state
     const [canvasWidth, setCanvasWidth] = useState<number>(250);
@@ -309,9 +364,24 @@ const IntegratedTemplateEditor: React.FC = () => {
     const [lastSavedFilename, setLastSavedFilename] = useState<string>('');
     
     // ESL configuration state
-    const [eslType, setEslType] = useState<'bw' | 'bwry'>('bwry');
+    const [eslType, setEslType] = useState<EslType>('bwry');
     const [eslAxis, setEslAxis] = useState<0 | 1>(0);
     
+    // Display models from the server's registry, and the one the template is designed for
+    const [labelProfiles, setLabelProfiles] = useState<LabelProfile[]>([]);
+    const [labelModel, setLabelModel] = useState<string | undefined>(undefined);
+    const activeProfile = labelProfiles.find(profile => profile.id === labelModel);
+    
+    // A palette switch waiting for the user to decide what happens to colours the new
+    // palette lacks. `remap` maps each such colour to its replacement.
+    const [paletteChange, setPaletteChange] = useState<{ eslType: EslType; profile?: LabelProfile; remap: Record<string, string> } | null>(null);
+    
+    // Template data from the last loaded file that the canvas does not model
+    const [templateExtras, setTemplateExtras] = useState<TemplateExtras>({ rootKeys: {}, elements: [] });
+
+    // Problems found when importing or saving a template, listed in the Template Issues panel
+    const [templateIssues, setTemplateIssues] = useState<{ title: string; errors: TemplateValidationError[] } | null>(null);
+    
     // Menu dropdown state
     const [openMenu, setOpenMenu] = useState<string | null>(null);
     const [showAboutDialog, setShowAboutDialog] = useState<boolean>(false);
@@ -323,6 +393,14 @@ const IntegratedTemplateEditor: React.FC = () => {
     const [selectedFolder, setSelectedFolder] = useState<string>('');
     const [availableFiles, setAvailableFiles] = useState<string[]>([]);
     const [browserLoading, setBrowserLoading] = useState<boolean>(false);
+    // Right-click menu of the file browser, for the folder or file under the cursor or the list itself
+    const [browserContextMenu, setBrowserContextMenu] = useState<{
+        x: number;
+        y: number;
+        target: { kind: 'folder' | 'file'; name: string } | { kind: 'list' } | { kind: 'trash'; entry: TrashEntry };
+    } | null>(null);
+    const [showTrash, setShowTrash] = useState<boolean>(false);
+    const [trashEntries, setTrashEntries] = useState<TrashEntry[]>([]);
     
     // Save dialog state
     const [showSaveDialog, setShowSaveDialog] = useState<boolean>(false);
@@ -330,16 +408,65 @@ const IntegratedTemplateEditor: React.FC = () => {
     const [saveSelectedFolder, setSaveSelectedFolder] = useState<string>('');
     const [saveFilename, setSaveFilename] = useState<string>('');
     const [saveLoading, setSaveLoading] = useState<boolean>(false);
+    // Library file the template was loaded from or last saved to, and its version at that time
+    const [libraryTemplate, setLibraryTemplate] = useState<{ folder: string; fileName: string; version: TemplateVersion } | null>(null);
+    // A save the server refused because the file changed since it was loaded, or already exists
+    const [saveConflict, setSaveConflict] = useState<{
+        folder: string;
+        fileName: string;
+        content: string;
+        error: string;
+        details?: string;
+        currentContent: string;
+        currentVersion: TemplateVersion;
+    } | null>(null);
+    const [showConflictDiff, setShowConflictDiff] = useState<boolean>(false);
+    // Stored with each saved revision
+    const [saveAuthor, setSaveAuthor] = useState<string>('');
+    const [saveMessage, setSaveMessage] = useState<string>('');
+
+    // History panel: revisions of the library template, and the one being compared with the editor
+    const [showHistoryPanel, setShowHistoryPanel] = useState<boolean>(false);
+    const [templateRevisions, setTemplateRevisions] = useState<TemplateRevision[]>([]);
+    const [historyLoading, setHistoryLoading] = useState<boolean>(false);
+    const [selectedRevision, setSelectedRevision] = useState<{ revision: TemplateRevision; content: string; parsed: ParsedTemplate } | null>(null);
+    const [revisionImages, setRevisionImages] = useState<{ revision: RevisionImage; current: RevisionImage } | null>(null);
     
     // Image browser dialog state
     const [showImageBrowserDialog, setShowImageBrowserDialog] = useState<boolean>(false);
     const [availableImages, setAvailableImages] = useState<string[]>([]);
     const [selectedImage, setSelectedImage] = useState<string>('');
     const [imageBrowserLoading, setImageBrowserLoading] = useState<boolean>(false);
+    const [imageUpload, setImageUpload] = useState<ImageUpload | null>(null);
+    const [conversionSettings, setConversionSettings] = useState<ImageConversionSettings | null>(null);
+    const [convertedPreview, setConvertedPreview] = useState<string>('');
+    const [conversionError, setConversionError] = useState<string>('');
+    const [imageUploadSaving, setImageUploadSaving] = useState<boolean>(false);
+    
+    // Sample records for the template's variables. With a record selected, the canvas and
+    // the rendered preview show its values in place of "[name]".
+    const [sampleRecords, setSampleRecords] = useState<TemplateVariables[]>([]);
+    const [activeRecordIndex, setActiveRecordIndex] = useState<number | null>(null);
+    const activeSampleRecord = activeRecordIndex !== null ? sampleRecords[activeRecordIndex] ?? null : null;
+    
+    // Batch rendering dialog state. `batchMapping` holds the column for each variable.
+    const [showBatchDialog, setShowBatchDialog] = useState<boolean>(false);
+    const [batchFileName, setBatchFileName] = useState<string>('');
+    const [batchRecords, setBatchRecords] = useState<TemplateVariables[]>([]);
+    const [batchMapping, setBatchMapping] = useState<Record<string, string>>({});
+    const [batchKeyColumn, setBatchKeyColumn] = useState<string>('');
+    const [batchFormat, setBatchFormat] = useState<'png' | 'bmp'>('png');
+    const [batchJob, setBatchJob] = useState<BatchJobStatus | null>(null);
+    
+    // Font library dialog state
+    const [showFontLibraryDialog, setShowFontLibraryDialog] = useState<boolean>(false);
+    const [fontSampleText, setFontSampleText] = useState<string>('Aa Bb 0123456789 €1.99');
+    const [fontUploading, setFontUploading] = useState<boolean>(false);
     
     // Preview dialog state
     const [showPreviewDialog, setShowPreviewDialog] = useState<boolean>(false);
     const [previewImageUrl, setPreviewImageUrl] = useState<string>('');
+    const [previewWarnings, setPreviewWarnings] = useState<string[]>([]);
     const [previewZoom, setPreviewZoom] = useState<number>(1);
     const [previewCaseColor, setPreviewCaseColor] = useState<'black' | 'white'>('white');
     const [previewDialogSize, setPreviewDialogSize] = useState({ width: 800, height: 600 });
@@ -382,7 +509,7 @@ const IntegratedTemplateEditor: React.FC = () => {
         let constrainedWidth = elementWidth;
         let constrainedHeight = elementHeight;
         
-        if (item.type === 'text') {
+        if (item.type === 'text' && !item.box) {
             // For text: no constraints - allow text to be positioned anywhere, even beyond canvas
             constrainedX = newX;
             constrainedY = newY;
@@ -398,6 +525,14 @@ const IntegratedTemplateEditor: React.FC = () => {
             constrainedX = Math.max(0, Math.min(canvasWidth, newX));
             constrainedY = Math.max(0, Math.min(canvasHeight, newY));
             
+        } else if (item.rotation && canRotate(item) && bounds.x !== undefined && bounds.y !== undefined) {
+            // Turned images and codes: keep the turned outline on the canvas. x/y is the point
+            // they turn about, which need not be a corner of the outline.
+            const offsetX = bounds.x - item.x;
+            const offsetY = bounds.y - item.y;
+            constrainedX = Math.max(-offsetX, Math.min(canvasWidth - (bounds.width || 0) - offsetX, newX));
+            constrainedY = Math.max(-offsetY, Math.min(canvasHeight - (bounds.height || 0) - offsetY, newY));
+            
         } else {
             // Rectangles, barcodes, QR codes: x,y is top-left corner
             constrainedX = Math.max(0, Math.min(canvasWidth - elementWidth, newX));
@@ -418,7 +553,7 @@ const IntegratedTemplateEditor: React.FC = () => {
             ...(newWidth !== undefined && { width: constrainedWidth }),
             ...(newHeight !== undefined && { height: constrainedHeight })
         };
-    }, [getItemBounds, canvasWidth, canvasHeight, estimateTextWidth]);
+    }, [getItemBounds, canvasWidth, canvasHeight]);
 
     // Helper functions for number input fields with Enter-to-apply behavior
     const getInputValue = useCallback((fieldKey: string, actualValue: number): string => {
@@ -469,6 +604,82 @@ const IntegratedTemplateEditor: React.FC = () => {
     const [fontSizeInput, setFontSizeInput] = useState<string>('');
     const [isFontSizeEditing, setIsFontSizeEditing] = useState<boolean>(false);
 
+    const loadFontLibrary = useCallback(async (): Promise<LabelFont[]> => {
+        try {
+            const response = await fetch('/api/list-fonts', { method: 'POST' });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const data = await response.json();
+            setFontLibrary(data.fonts || []);
+            return data.fonts || [];
+        } catch (error) {
+            console.error('Error loading fonts:', error);
+            return [];
+        }
+    }, []);
+
+    useEffect(() => {
+        loadFontLibrary();
+    }, [loadFontLibrary]);
+
+    useEffect(() => {
+        fetch('/api/list-profiles', { method: 'POST' })
+            .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+            .then(data => setLabelProfiles(data.profiles || []))
+            .catch(error => console.error('Error loading label profiles:', error));
+    }, []);
+
+    // Picking a display model sets the canvas, palette, orientation and preview housing together
+    const applyLabelProfile = useCallback((profile: LabelProfile) => {
+        setCanvasWidth(profile.width);
+        setCanvasHeight(profile.height);
+        setEslType(profile.palette);
+        setEslAxis(profile.axis);
+        setPreviewCaseColor(profile.housing);
+        setLabelModel(profile.id);
+    }, []);
+
+    // Items drawn in colours a panel type cannot show. Images are reduced to the palette when rendered.
+    const getOffPaletteItems = useCallback((type: EslType): CanvasItem[] => {
+        const fills = getPalette(type).map(color => color.fill);
+        return canvasItems.filter(item => item.type !== 'image' && !fills.includes(colorToFill(item.color)));
+    }, [canvasItems]);
+
+    // Switch palette, or model and palette, asking first when items use colours the new palette lacks
+    const requestPaletteChange = useCallback((type: EslType, profile?: LabelProfile) => {
+        const offending = getOffPaletteItems(type);
+        if (offending.length === 0) {
+            if (profile) {
+                applyLabelProfile(profile);
+            } else {
+                setEslType(type);
+                setLabelModel(undefined);
+            }
+            return;
+        }
+        const remap: Record<string, string> = {};
+        offending.forEach(item => {
+            remap[item.color.toLowerCase()] = '#000000';
+        });
+        setPaletteChange({ eslType: type, profile, remap });
+    }, [getOffPaletteItems, applyLabelProfile]);
+
+    const confirmPaletteChange = useCallback((remapColors: boolean) => {
+        if (!paletteChange) return;
+        if (remapColors) {
+            setCanvasItems(items => items.map(item => {
+                const replacement = item.type !== 'image' ? paletteChange.remap[item.color.toLowerCase()] : undefined;
+                return replacement ? { ...item, color: replacement } : item;
+            }));
+        }
+        if (paletteChange.profile) {
+            applyLabelProfile(paletteChange.profile);
+        } else {
+            setEslType(paletteChange.eslType);
+            setLabelModel(undefined);
+        }
+        setPaletteChange(null);
+    }, [paletteChange, applyLabelProfile]);
+
     // Watch for font size input changes and update canvas immediately
     useEffect(() => {
         if (isFontSizeEditing && selectedIds.length === 1 && fontSizeInput) {
@@ -486,14 +697,152 @@ const IntegratedTemplateEditor: React.FC = () => {
         }
     }, [fontSizeInput, selectedIds, isFontSizeEditing]);
 
-    // Force re-render of resize handles when text elements are mounted or canvas items change
+    // Load the TTF of every font the text and price items use, from the template's font base
+    const fontbase = typeof templateExtras.rootKeys.fontbase === 'string' ? templateExtras.rootKeys.fontbase : 'fonts/';
     useEffect(() => {
-        // Small delay to ensure text elements are rendered and refs are set
-        const timer = setTimeout(() => {
-            forceUpdate({});
-        }, 50);
-        return () => clearTimeout(timer);
-    }, [canvasItems, selectedIds]);
+        const files = new Set<string>();
+        canvasItems.forEach(item => {
+            if (item.type === 'text' || item.type === 'price') files.add(item.fontFile || DEFAULT_FONT_FILE);
+        });
+        files.forEach(file => {
+            if (file in labelFonts) return;
+            loadWebFont(file, fontbase).then(font => setLabelFonts(fonts => ({ ...fonts, [file]: font })));
+        });
+    }, [canvasItems, fontbase, labelFonts]);
+
+    // The font library previews every font, so all of them are loaded
+    const loadLibraryFonts = useCallback(async () => {
+        const fonts = await loadFontLibrary();
+        fonts.filter(font => !font.error).forEach(font => {
+            loadWebFont(font.file, fontbase).then(loaded => setLabelFonts(current => ({ ...current, [font.file]: loaded })));
+        });
+    }, [loadFontLibrary, fontbase]);
+
+    const openFontLibrary = useCallback(() => {
+        setShowFontLibraryDialog(true);
+        loadLibraryFonts();
+    }, [loadLibraryFonts]);
+
+    // Add TTF or OTF files to the fonts root, asking before replacing one
+    const uploadFonts = useCallback(() => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.ttf,.otf';
+        input.multiple = true;
+        input.onchange = async (e: Event) => {
+            const files = Array.from((e.target as HTMLInputElement).files || []);
+            if (files.length === 0) return;
+            setFontUploading(true);
+            try {
+                for (const file of files) {
+                    const data = await new Promise<string>((resolve, reject) => {
+                        const reader = new FileReader();
+                        reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+                        reader.onerror = () => reject(reader.error);
+                        reader.readAsDataURL(file);
+                    });
+                    const upload = (overwrite: boolean) => fetch('/api/upload-font', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ fileName: file.name, data, overwrite })
+                    });
+                    let response = await upload(false);
+                    if (response.status === 409) {
+                        if (!confirm(`${file.name} is already in the fonts folder. Replace it?`)) continue;
+                        response = await upload(true);
+                    }
+                    const result = await response.json();
+                    if (!response.ok) {
+                        alert(`Could not add ${file.name}: ${result.details || result.error}`);
+                        continue;
+                    }
+                    // A replaced file is fetched again, so the canvas shows the new version
+                    forgetWebFont(file.name);
+                    setLabelFonts(current => {
+                        const { [file.name]: replaced, ...rest } = current;
+                        return rest;
+                    });
+                }
+            } catch (error) {
+                alert(`Failed to upload fonts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            } finally {
+                setFontUploading(false);
+                loadLibraryFonts();
+            }
+        };
+        input.click();
+    }, [loadLibraryFonts]);
+
+    // Number of text and price items using each font file, for the template's font map
+    const templateFontUsage = canvasItems.reduce<Record<string, number>>((usage, item) => {
+        if (item.type === 'text' || item.type === 'price') {
+            const file = item.fontFile || DEFAULT_FONT_FILE;
+            usage[file] = (usage[file] || 0) + 1;
+        }
+        return usage;
+    }, {});
+
+    // Point every text and price item using one font file at another, such as a missing font
+    // at one the fonts root has
+    const replaceTemplateFont = useCallback((from: string, to: string) => {
+        setCanvasItems(items => items.map(item =>
+            (item.type === 'text' || item.type === 'price') && (item.fontFile || DEFAULT_FONT_FILE) === from ? { ...item, fontFile: to } : item
+        ));
+    }, []);
+
+    // Undo/redo history of canvas items, groups, guides and the YAML the editor carries along
+    const [history, setHistory] = useState<History<CanvasSnapshot>>(() => createHistory({
+        items: canvasItems,
+        groups: canvasGroups,
+        extras: templateExtras,
+        guides: canvasGuides
+    }));
+
+    // Property input being edited. Changes made while one input keeps the focus are merged
+    // into a single undo step; focusing another input starts a new one.
+    const propertyEditKey = useRef<string | undefined>(undefined);
+    const propertyEditCount = useRef(0);
+
+    const startPropertyEdit = useCallback((e: React.FocusEvent) => {
+        const target = e.target;
+        const isTextInput = target instanceof HTMLTextAreaElement ||
+            (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'file'].includes(target.type));
+        propertyEditCount.current += 1;
+        propertyEditKey.current = isTextInput ? `property-${propertyEditCount.current}` : undefined;
+    }, []);
+
+    const endPropertyEdit = useCallback(() => {
+        propertyEditKey.current = undefined;
+    }, []);
+
+    // Record every change to the canvas state. While a drag or resize is in progress the
+    // intermediate states are skipped, so the whole gesture becomes a single undo step.
+    useEffect(() => {
+        if (dragging || resizing || groupScale || draggingGuideId !== null) return;
+        const mergeKey = propertyEditKey.current;
+        setHistory(prev => prev.present.items === canvasItems && prev.present.groups === canvasGroups &&
+            prev.present.extras === templateExtras && prev.present.guides === canvasGuides
+            ? prev
+            : recordHistory(prev, { items: canvasItems, groups: canvasGroups, extras: templateExtras, guides: canvasGuides }, historyDepth, mergeKey));
+    }, [canvasItems, canvasGroups, templateExtras, canvasGuides, dragging, resizing, groupScale, draggingGuideId, historyDepth]);
+
+    // Restore a snapshot from the history, dropping selected ids that no longer exist
+    const restoreHistory = useCallback((next: History<CanvasSnapshot>) => {
+        setHistory(next);
+        setCanvasItems(next.present.items);
+        setCanvasGroups(next.present.groups);
+        setTemplateExtras(next.present.extras);
+        setCanvasGuides(next.present.guides);
+        setSelectedIds(prev => prev.filter(id => next.present.items.some(item => item.id === id)));
+    }, []);
+
+    const undo = useCallback(() => {
+        if (history.past.length > 0) restoreHistory(undoHistory(history));
+    }, [history, restoreHistory]);
+
+    const redo = useCallback(() => {
+        if (history.future.length > 0) restoreHistory(redoHistory(history));
+    }, [history, restoreHistory]);
 
     // Handle preview dialog resize
     useEffect(() => {
@@ -547,6 +896,12 @@ const IntegratedTemplateEditor: React.FC = () => {
         };
     }, [isResizingPreview, resizeStartPos, resizeStartSize]);
 
+    // Release a rendered preview once it is replaced or the dialog closes
+    useEffect(() => {
+        if (!previewImageUrl) return;
+        return () => URL.revokeObjectURL(previewImageUrl);
+    }, [previewImageUrl]);
+
     // Delete selected item function - now handles multiple selections
     const deleteSelectedItem = useCallback(() => {
         if (selectedIds.length > 0) {
@@ -555,6 +910,152 @@ const IntegratedTemplateEditor: React.FC = () => {
         }
     }, [selectedIds]);
 
+    // Group the selected elements; wholly selected groups are nested in the new group
+    const groupSelectedItems = useCallback(() => {
+        if (selectedIds.length < 2) return;
+        const grouped = groupItems(selectedIds, canvasItems, canvasGroups);
+        setCanvasItems(grouped.items);
+        setCanvasGroups(grouped.groups);
+    }, [selectedIds, canvasItems, canvasGroups]);
+
+    // Dissolve the top-level groups of the selected elements
+    const ungroupSelectedItems = useCallback(() => {
+        const ungrouped = ungroupItems(selectedIds, canvasItems, canvasGroups);
+        setCanvasItems(ungrouped.items);
+        setCanvasGroups(ungrouped.groups);
+    }, [selectedIds, canvasItems, canvasGroups]);
+
+    const renameGroup = useCallback((groupId: number, name: string) => {
+        setCanvasGroups(groups => groups.map(group => group.id === groupId ? { ...group, name } : group));
+    }, []);
+
+    // Split the selection into units that align and distribute as one: each top-level
+    // group is a unit, every ungrouped element is its own unit
+    const getSelectionUnits = useCallback((): CanvasItem[][] => {
+        const units = new Map<string, CanvasItem[]>();
+        canvasItems.filter(item => selectedIds.includes(item.id)).forEach(item => {
+            const groupId = getOutermostGroupId(item, canvasGroups);
+            const key = groupId !== undefined ? `group-${groupId}` : `item-${item.id}`;
+            units.set(key, [...(units.get(key) || []), item]);
+        });
+        return Array.from(units.values());
+    }, [canvasItems, canvasGroups, selectedIds]);
+
+    // Replace items by id with their moved versions
+    const applyMovedItems = useCallback((movedItems: CanvasItem[]) => {
+        const moved = new Map(movedItems.map(item => [item.id, item]));
+        setCanvasItems(items => items.map(item => moved.get(item.id) || item));
+    }, []);
+
+    // Align the selection with its own bounds, or with the canvas for a single element
+    // or when the canvas is chosen as reference
+    const alignSelection = useCallback((mode: AlignMode) => {
+        const units = getSelectionUnits();
+        const selectionBounds = getSelectionBounds(units.flat());
+        if (!selectionBounds) return;
+
+        const target = units.length === 1 || alignRelativeTo === 'canvas'
+            ? { x: 0, y: 0, width: canvasWidth, height: canvasHeight }
+            : selectionBounds;
+        applyMovedItems(alignUnits(units, getSelectionBounds, mode, target));
+    }, [getSelectionUnits, getSelectionBounds, applyMovedItems, alignRelativeTo, canvasWidth, canvasHeight]);
+
+    const distributeSelection = useCallback((axis: DistributeAxis) => {
+        applyMovedItems(distributeUnits(getSelectionUnits(), getSelectionBounds, axis));
+    }, [getSelectionUnits, getSelectionBounds, applyMovedItems]);
+
+    // Align and distribute buttons for the properties panel
+    const renderAlignControls = useCallback(() => {
+        const unitCount = getSelectionUnits().length;
+        const buttonStyle: React.CSSProperties = {
+            padding: '6px 4px',
+            fontSize: '11px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            backgroundColor: '#f8f9fa',
+            cursor: 'pointer'
+        };
+        const alignButtons: Array<{ mode: AlignMode; label: string }> = [
+            { mode: 'left', label: '⇤ Left' },
+            { mode: 'center', label: '↔ Center' },
+            { mode: 'right', label: 'Right ⇥' },
+            { mode: 'top', label: '⤒ Top' },
+            { mode: 'middle', label: '↕ Middle' },
+            { mode: 'bottom', label: '⤓ Bottom' }
+        ];
+
+        return (
+            <div style={{ marginBottom: '15px' }}>
+                <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
+                    Align{unitCount === 1 ? ' to canvas' : ''}:
+                </label>
+                {unitCount > 1 && (
+                    <select
+                        value={alignRelativeTo}
+                        onChange={(e) => setAlignRelativeTo(e.target.value as 'selection' | 'canvas')}
+                        style={{ width: '100%', padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px', marginBottom: '8px' }}
+                    >
+                        <option value="selection">Relative to selection</option>
+                        <option value="canvas">Relative to canvas</option>
+                    </select>
+                )}
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '4px' }}>
+                    {alignButtons.map(button => (
+                        <button key={button.mode} onClick={() => alignSelection(button.mode)} style={buttonStyle}>
+                            {button.label}
+                        </button>
+                    ))}
+                </div>
+                {unitCount > 2 && (
+                    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '4px', marginTop: '4px' }}>
+                        <button onClick={() => distributeSelection('horizontal')} style={buttonStyle} title="Equal horizontal spacing">
+                            Distribute ↔
+                        </button>
+                        <button onClick={() => distributeSelection('vertical')} style={buttonStyle} title="Equal vertical spacing">
+                            Distribute ↕
+                        </button>
+                    </div>
+                )}
+            </div>
+        );
+    }, [getSelectionUnits, alignRelativeTo, alignSelection, distributeSelection]);
+
+    // Encoded size of a barcode or QR code and any warnings about it not fitting
+    const renderCodeSymbolInfo = useCallback((item: BarcodeItem | QRCodeItem) => {
+        const layout = layoutCode(item);
+        const warnings = getCodeWarnings(item, layout, canvasWidth, canvasHeight);
+        const isVariable = /^\[.+\]$/.test(item.data);
+
+        return (
+            <div style={{ marginBottom: '15px', fontSize: '11px', color: '#666' }}>
+                {!layout.error && (
+                    <div style={{ marginBottom: '6px' }}>
+                        Symbol: {layout.width} × {layout.height} px
+                        {isVariable && ` (sample data "${layout.data}")`}
+                    </div>
+                )}
+                {warnings.map(warning => (
+                    <div key={warning} style={{ color: '#dc3545', marginBottom: '4px' }}>⚠ {warning}</div>
+                ))}
+                {!layout.error && (
+                    <button
+                        onClick={() => setCanvasItems(items => items.map(i => i.id === item.id && (i.type === 'barcode' || i.type === 'qrcode') ? fitBoxToSymbol(i) : i))}
+                        style={{
+                            padding: '4px 8px',
+                            fontSize: '11px',
+                            border: '1px solid #ccc',
+                            borderRadius: '4px',
+                            backgroundColor: '#f8f9fa',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        Fit box to symbol
+                    </button>
+                )}
+            </div>
+        );
+    }, [canvasWidth, canvasHeight]);
+
     // Zoom functions
     const zoomIn = useCallback(() => {
         const currentIndex = zoomLevels.indexOf(zoomLevel);
@@ -661,6 +1162,59 @@ const IntegratedTemplateEditor: React.FC = () => {
         setFontSizeInput('');
     }, [selectedIds]);
 
+    // Turn bounded text on or off for the selected text. A new box starts around the text as
+    // it is now, aligned like its anchor; free text keeps its place, anchored by the alignment.
+    const setTextBoxEnabled = useCallback((enabled: boolean) => {
+        setCanvasItems(items => items.map(item => {
+            if (!selectedIds.includes(item.id) || item.type !== 'text' || enabled === !!item.box) return item;
+            if (enabled) {
+                // Boxed text is written as one element per line, so it is always upright
+                const layout = getTextLayout(item);
+                const horizontal = (item.anchor || 'lt')[0];
+                return {
+                    ...item,
+                    rotation: undefined,
+                    x: Math.round(layout.x),
+                    y: Math.round(layout.y),
+                    box: {
+                        width: Math.max(20, Math.ceil(layout.width)),
+                        height: Math.max(10, Math.ceil(layout.height)),
+                        align: horizontal === 'r' ? 'right' : horizontal === 'm' ? 'center' : 'left',
+                        verticalAlign: 'top'
+                    }
+                };
+            }
+            const { box, ...freeText } = item;
+            if (!box) return item;
+            return {
+                ...freeText,
+                x: box.align === 'right' ? item.x + box.width : box.align === 'center' ? Math.round(item.x + box.width / 2) : item.x,
+                anchor: box.align === 'right' ? 'rt' : box.align === 'center' ? 'mt' : 'lt'
+            };
+        }));
+    }, [selectedIds, getTextLayout]);
+
+    const updateTextBox = useCallback((changes: Partial<TextBox>) => {
+        setCanvasItems(items => items.map(item =>
+            selectedIds.includes(item.id) && item.type === 'text' && item.box
+                ? { ...item, box: { ...item.box, ...changes } }
+                : item
+        ));
+    }, [selectedIds]);
+
+    const updatePriceItem = useCallback((changes: Partial<PriceItem>) => {
+        setCanvasItems(items => items.map(item =>
+            selectedIds.includes(item.id) && item.type === 'price' ? { ...item, ...changes } : item
+        ));
+    }, [selectedIds]);
+
+    const setItemRotation = useCallback((degrees: number) => {
+        const rotation = normalizeRotation(degrees);
+        setCanvasItems(items => items.map(item =>
+            selectedIds.includes(item.id) && canRotate(item) ? { ...item, rotation: rotation || undefined } : item
+        ));
+    }, [selectedIds]);
+
     // Selected Element Controls Component
     const renderSelectedElementControls = useCallback(() => {
         // Don't show properties panel if multiple items are selected
@@ -674,6 +1228,64 @@ const IntegratedTemplateEditor: React.FC = () => {
                         </p>
                     </div>
                     
+                    {/* Group Controls */}
+                    {(() => {
+                        const selectedGroup = findSelectedGroup(selectedIds, canvasItems, canvasGroups);
+                        const buttonStyle: React.CSSProperties = {
+                            width: '100%',
+                            padding: '8px 12px',
+                            backgroundColor: '#f8f9fa',
+                            color: '#333',
+                            border: '1px solid #007bff',
+                            borderRadius: '4px',
+                            fontSize: '12px',
+                            cursor: 'pointer'
+                        };
+                        
+                        if (!selectedGroup) {
+                            return (
+                                <div style={{ marginBottom: '15px' }}>
+                                    <button onClick={groupSelectedItems} style={buttonStyle} title="Ctrl+G">
+                                        Group {selectedIds.length} Elements
+                                    </button>
+                                </div>
+                            );
+                        }
+                        
+                        return (
+                            <div style={{ marginBottom: '15px' }}>
+                                <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
+                                    Group name:
+                                </label>
+                                <input
+                                    type="text"
+                                    value={selectedGroup.name}
+                                    onChange={(e) => renameGroup(selectedGroup.id, e.target.value)}
+                                    style={{ 
+                                        width: '100%', 
+                                        padding: '4px 6px', 
+                                        fontSize: '12px',
+                                        border: '1px solid #ddd',
+                                        borderRadius: '3px',
+                                        marginBottom: '8px',
+                                        boxSizing: 'border-box'
+                                    }}
+                                />
+                                <div style={{ display: 'flex', gap: '8px' }}>
+                                    <button onClick={groupSelectedItems} style={buttonStyle} title="Nest this group in a new group (Ctrl+G)">
+                                        Group
+                                    </button>
+                                    <button onClick={ungroupSelectedItems} style={buttonStyle} title="Ctrl+Shift+G">
+                                        Ungroup
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })()}
+                    
+                    {/* Align and Distribute */}
+                    {renderAlignControls()}
+                    
                     {/* Delete Button for Multiple Selection */}
                     <div style={{ marginBottom: '15px' }}>
                         <button
@@ -774,6 +1386,58 @@ const IntegratedTemplateEditor: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Rotation Control */}
+                {canRotate(selectedItem) && (
+                    <div style={{ marginBottom: '15px' }}>
+                        <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
+                            Rotation:
+                        </label>
+                        <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                            <input
+                                type="number"
+                                step="1"
+                                value={selectedItem.rotation || 0}
+                                onChange={(e) => {
+                                    const degrees = parseFloat(e.target.value);
+                                    setItemRotation(isNaN(degrees) ? 0 : degrees);
+                                }}
+                                style={{
+                                    width: '70px',
+                                    padding: '4px 6px',
+                                    fontSize: '12px',
+                                    border: '1px solid #ddd',
+                                    borderRadius: '3px'
+                                }}
+                            />
+                            <span style={{ fontSize: '11px', color: '#666', marginRight: '4px' }}>°</span>
+                            {[0, 90, 180, 270].map(degrees => (
+                                <button
+                                    key={degrees}
+                                    onClick={() => setItemRotation(degrees)}
+                                    style={{
+                                        flex: 1,
+                                        padding: '4px 2px',
+                                        fontSize: '11px',
+                                        border: '1px solid #ccc',
+                                        borderRadius: '4px',
+                                        backgroundColor: (selectedItem.rotation || 0) === degrees ? '#e7f1ff' : '#f8f9fa',
+                                        cursor: 'pointer'
+                                    }}
+                                >
+                                    {degrees}°
+                                </button>
+                            ))}
+                        </div>
+                        <div style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                            Clockwise about the {selectedItem.type === 'text' ? 'anchor point' : 'top left corner'}.
+                            Drag the round handle to turn; hold Shift for 15° steps.
+                        </div>
+                    </div>
+                )}
+
+                {/* Align to Canvas */}
+                {renderAlignControls()}
+
                 {/* Color Control */}
                 <div style={{ marginBottom: '15px' }}>
                     <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
@@ -792,10 +1456,17 @@ const IntegratedTemplateEditor: React.FC = () => {
                         }}
                         style={{ width: '100%', height: '35px', border: '1px solid #ddd', borderRadius: '3px', cursor: 'pointer', backgroundColor: 'white' }}
                     >
-                        <option value="#000000">Black</option>
-                        <option value="#ffffff">White</option>
-                        <option value="#ff0000">Red</option>
-                        <option value="#ffff00">Yellow</option>
+                        {getPalette(eslType).map(color => (
+                            <option key={color.fill} value={fillToColor(color.fill)}>
+                                {color.name.charAt(0).toUpperCase() + color.name.slice(1)}
+                            </option>
+                        ))}
+                        {!getPalette(eslType).some(color => fillToColor(color.fill) === selectedItem.color.toLowerCase()) && (
+                            // Keep an off-palette colour visible until it is changed
+                            <option value={selectedItem.color} disabled>
+                                {selectedItem.color} (not on a {eslType} panel)
+                            </option>
+                        )}
                     </select>
                 </div>
 
@@ -836,18 +1507,18 @@ const IntegratedTemplateEditor: React.FC = () => {
                             />
                         </div>
 
-                        {/* Font Family Control */}
+                        {/* Font Control: the font files in the fonts root */}
                         <div style={{ marginBottom: '15px' }}>
                             <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
                                 Font:
                             </label>
                             <select 
-                                value={(selectedItem as any).fontFamily || availableFonts[0].value}
+                                value={(selectedItem as TextItem).fontFile || DEFAULT_FONT_FILE}
                                 onChange={(e) => {
                                     setCanvasItems(items =>
                                         items.map(item =>
                                             selectedIds.includes(item.id) && item.type === 'text'
-                                                ? { ...item, fontFamily: e.target.value }
+                                                ? { ...item, fontFile: e.target.value }
                                                 : item
                                         )
                                     );
@@ -862,12 +1533,23 @@ const IntegratedTemplateEditor: React.FC = () => {
                                     cursor: 'pointer'
                                 }}
                             >
-                                {availableFonts.map((font, index) => (
-                                    <option key={index} value={font.value} style={{ fontFamily: font.value }}>
-                                        {font.label}
+                                {/* A font the template names but the fonts root lacks stays selected, marked missing */}
+                                {!fontLibrary.some(font => font.file === ((selectedItem as TextItem).fontFile || DEFAULT_FONT_FILE)) && (
+                                    <option value={(selectedItem as TextItem).fontFile || DEFAULT_FONT_FILE}>
+                                        {(selectedItem as TextItem).fontFile || DEFAULT_FONT_FILE} (missing)
+                                    </option>
+                                )}
+                                {fontLibrary.filter(font => !font.error).map(font => (
+                                    <option key={font.file} value={font.file}>
+                                        {getFontLabel(font)} ({font.file})
                                     </option>
                                 ))}
                             </select>
+                            {!fontLibrary.some(font => font.file === ((selectedItem as TextItem).fontFile || DEFAULT_FONT_FILE) && !font.error) && (
+                                <div style={{ marginTop: '6px', fontSize: '11px', color: '#dc3545' }}>
+                                    ⚠ Not in the fonts folder; the generator cannot draw this text
+                                </div>
+                            )}
                         </div>
 
                         {/* Text Formatting Controls */}
@@ -1023,7 +1705,93 @@ const IntegratedTemplateEditor: React.FC = () => {
                             </div>
                         </div>
 
+                        {/* Text Box Control */}
+                        <div style={{ marginBottom: '15px' }}>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', fontWeight: 'bold', color: '#333', cursor: 'pointer' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={!!selectedItem.box}
+                                    onChange={(e) => setTextBoxEnabled(e.target.checked)}
+                                />
+                                Text box
+                            </label>
+                            <div style={{ fontSize: '10px', color: '#888', marginTop: '3px' }}>
+                                Wrap the text to a fixed area, cutting or shrinking what does not fit
+                            </div>
+                            {selectedItem.box && (
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginTop: '8px' }}>
+                                    {([
+                                        ['Width', 'width', selectedItem.box.width, 1],
+                                        ['Height', 'height', selectedItem.box.height, 1],
+                                        ['Max lines', 'maxLines', selectedItem.box.maxLines, 0],
+                                        ['Shrink to (px)', 'minFontSize', selectedItem.box.minFontSize, 0]
+                                    ] as [string, 'width' | 'height' | 'maxLines' | 'minFontSize', number | undefined, number][]).map(([label, key, value, min]) => (
+                                        <div key={key}>
+                                            <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>{label}:</label>
+                                            <input
+                                                type="number"
+                                                step="1"
+                                                min={min}
+                                                value={value ?? ''}
+                                                placeholder={min === 0 ? 'Off' : undefined}
+                                                onChange={(e) => {
+                                                    const number = parseInt(e.target.value);
+                                                    if (min === 0) {
+                                                        updateTextBox({ [key]: isNaN(number) || number <= 0 ? undefined : number });
+                                                    } else if (!isNaN(number) && number >= min) {
+                                                        updateTextBox({ [key]: number });
+                                                    }
+                                                }}
+                                                style={{
+                                                    width: '100%',
+                                                    padding: '4px 6px',
+                                                    fontSize: '12px',
+                                                    border: '1px solid #ddd',
+                                                    borderRadius: '3px'
+                                                }}
+                                            />
+                                        </div>
+                                    ))}
+                                    <div>
+                                        <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Align:</label>
+                                        <select
+                                            value={selectedItem.box.align}
+                                            onChange={(e) => updateTextBox({ align: e.target.value as TextBox['align'] })}
+                                            style={{ width: '100%', padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                        >
+                                            <option value="left">Left</option>
+                                            <option value="center">Center</option>
+                                            <option value="right">Right</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Vertical:</label>
+                                        <select
+                                            value={selectedItem.box.verticalAlign}
+                                            onChange={(e) => updateTextBox({ verticalAlign: e.target.value as TextBox['verticalAlign'] })}
+                                            style={{ width: '100%', padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                        >
+                                            <option value="top">Top</option>
+                                            <option value="middle">Middle</option>
+                                            <option value="bottom">Bottom</option>
+                                        </select>
+                                    </div>
+                                </div>
+                            )}
+                            {selectedItem.box && getTextLayout(selectedItem).truncated && (
+                                <div style={{ marginTop: '6px', fontSize: '11px', color: '#dc3545' }}>
+                                    ⚠ The text does not fit the box and is cut
+                                </div>
+                            )}
+                            {selectedItem.box && getVariableName(selectedItem.text) !== undefined && (
+                                <div style={{ marginTop: '6px', fontSize: '11px', color: '#666' }}>
+                                    Variable text is only wrapped by the Preview, /api/render and batch renders: the tag image generator prints it on one line
+                                </div>
+                            )}
+                        </div>
+
                         {/* Anchor Control */}
+                        {!selectedItem.box && (
                         <div style={{ marginBottom: '15px' }}>
                             <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
                                 Anchor:
@@ -1210,6 +1978,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 Choose the anchor point for text positioning
                             </div>
                         </div>
+                        )}
                     </>
                 )}
 
@@ -1560,28 +2329,161 @@ const IntegratedTemplateEditor: React.FC = () => {
                 )}
 
                 {/* Barcode Properties */}
-                {selectedItem.type === 'barcode' && (
+                {selectedItem.type === 'price' && (
                     <>
-                        {/* Width & Height Controls */}
+                        {/* Price Content */}
                         <div style={{ marginBottom: '15px' }}>
-                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-                                <div style={{ flex: 1 }}>
-                                    <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Width:</label>
-                                    <input 
-                                        type="number" 
-                                        step="1"
-                                        min="1"
-                                        value={(selectedItem as any).width || 100}
-                                        onChange={(e) => {
-                                            const newWidth = parseInt(e.target.value) || 100;
-                                            setCanvasItems(items =>
-                                                items.map(item => {
-                                                    if (selectedIds.includes(item.id) && item.type === 'barcode') {
-                                                        const constrained = constrainToCanvas(item, item.x, item.y, newWidth, item.height);
-                                                        return { ...item, width: constrained.width || newWidth };
-                                                    }
-                                                    return item;
-                                                })
+                            <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
+                                Price:
+                            </label>
+                            <input
+                                type="text"
+                                value={selectedItem.data}
+                                onChange={(e) => updatePriceItem({ data: e.target.value })}
+                                style={{ width: '100%', padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                            />
+                            <div style={{ fontSize: '10px', color: '#888', marginTop: '3px' }}>
+                                [name] binds to a variable. The tag image generator reads it as [name_int] and [name_dec], which its data must give; Variables → Download JSON writes them
+                            </div>
+                            <div style={{ marginTop: '8px' }}>
+                                <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Original price (struck through):</label>
+                                <input
+                                    type="text"
+                                    value={selectedItem.originalPrice || ''}
+                                    placeholder="None"
+                                    onChange={(e) => updatePriceItem({ originalPrice: e.target.value === '' ? undefined : e.target.value })}
+                                    style={{ width: '100%', padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                />
+                            </div>
+                        </div>
+
+                        {/* Price Font */}
+                        <div style={{ marginBottom: '15px' }}>
+                            <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
+                                Font:
+                            </label>
+                            <div style={{ display: 'flex', gap: '8px' }}>
+                                <select
+                                    value={selectedItem.fontFile || DEFAULT_FONT_FILE}
+                                    onChange={(e) => updatePriceItem({ fontFile: e.target.value })}
+                                    style={{ width: '100%', padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px', backgroundColor: 'white' }}
+                                >
+                                    {!fontLibrary.some(font => font.file === (selectedItem.fontFile || DEFAULT_FONT_FILE)) && (
+                                        <option value={selectedItem.fontFile || DEFAULT_FONT_FILE}>
+                                            {selectedItem.fontFile || DEFAULT_FONT_FILE} (missing)
+                                        </option>
+                                    )}
+                                    {fontLibrary.filter(font => !font.error).map(font => (
+                                        <option key={font.file} value={font.file}>
+                                            {getFontLabel(font)} ({font.file})
+                                        </option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="number"
+                                    step="1"
+                                    min="8"
+                                    max="200"
+                                    title="Size of the integer part"
+                                    value={selectedItem.fontSize}
+                                    onChange={(e) => {
+                                        const size = parseInt(e.target.value);
+                                        if (!isNaN(size) && size >= 8 && size <= 200) updatePriceItem({ fontSize: size });
+                                    }}
+                                    style={{ width: '60px', padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                />
+                            </div>
+                        </div>
+
+                        {/* Price Format */}
+                        <div style={{ marginBottom: '15px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                            <div>
+                                <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Separator:</label>
+                                <input
+                                    type="text"
+                                    maxLength={2}
+                                    value={selectedItem.separator}
+                                    disabled={selectedItem.raisedDecimals}
+                                    onChange={(e) => updatePriceItem({ separator: e.target.value })}
+                                    style={{ width: '100%', padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                />
+                            </div>
+                            <div>
+                                <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Integer digits:</label>
+                                <input
+                                    type="number"
+                                    step="1"
+                                    min="1"
+                                    max="8"
+                                    value={selectedItem.integerDigits}
+                                    onChange={(e) => {
+                                        const digits = parseInt(e.target.value);
+                                        if (!isNaN(digits) && digits >= 1 && digits <= 8) updatePriceItem({ integerDigits: digits });
+                                    }}
+                                    style={{ width: '100%', padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                />
+                            </div>
+                            <div>
+                                <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Currency:</label>
+                                <input
+                                    type="text"
+                                    maxLength={4}
+                                    value={selectedItem.currency}
+                                    placeholder="None"
+                                    onChange={(e) => updatePriceItem({ currency: e.target.value })}
+                                    style={{ width: '100%', padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                />
+                            </div>
+                            <div>
+                                <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Placement:</label>
+                                <select
+                                    value={selectedItem.currencyPosition}
+                                    onChange={(e) => updatePriceItem({ currencyPosition: e.target.value as PriceItem['currencyPosition'] })}
+                                    style={{ width: '100%', padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px', backgroundColor: 'white' }}
+                                >
+                                    <option value="before">Before</option>
+                                    <option value="after">After</option>
+                                </select>
+                            </div>
+                        </div>
+                        <div style={{ marginBottom: '15px' }}>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#333', cursor: 'pointer' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={selectedItem.raisedDecimals}
+                                    onChange={(e) => updatePriceItem({ raisedDecimals: e.target.checked })}
+                                />
+                                Raised decimals
+                            </label>
+                            <div style={{ fontSize: '10px', color: '#888', marginTop: '3px' }}>
+                                Room is kept for the integer digits, so the decimals stay in place whatever the price
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                {selectedItem.type === 'barcode' && (
+                    <>
+                        {/* Width & Height Controls */}
+                        <div style={{ marginBottom: '15px' }}>
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                <div style={{ flex: 1 }}>
+                                    <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Width:</label>
+                                    <input 
+                                        type="number" 
+                                        step="1"
+                                        min="1"
+                                        value={(selectedItem as any).width || 100}
+                                        onChange={(e) => {
+                                            const newWidth = parseInt(e.target.value) || 100;
+                                            setCanvasItems(items =>
+                                                items.map(item => {
+                                                    if (selectedIds.includes(item.id) && item.type === 'barcode') {
+                                                        const constrained = constrainToCanvas(item, item.x, item.y, newWidth, item.height);
+                                                        return { ...item, width: constrained.width || newWidth };
+                                                    }
+                                                    return item;
+                                                })
                                             );
                                         }}
                                         style={{ 
@@ -1650,6 +2552,8 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 }}
                             />
                         </div>
+                        
+                        {renderCodeSymbolInfo(selectedItem)}
                     </>
                 )}
 
@@ -1688,6 +2592,66 @@ const IntegratedTemplateEditor: React.FC = () => {
                             />
                         </div>
                         
+                        {/* Scale & Error Correction Controls */}
+                        <div style={{ marginBottom: '15px' }}>
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                <div style={{ flex: 1 }}>
+                                    <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Scale (px/module):</label>
+                                    <input 
+                                        type="number" 
+                                        step="1"
+                                        min="1"
+                                        value={(selectedItem as QRCodeItem).scale || 1}
+                                        onChange={(e) => {
+                                            const newScale = Math.max(1, parseInt(e.target.value) || 1);
+                                            setCanvasItems(items =>
+                                                items.map(item =>
+                                                    selectedIds.includes(item.id) && item.type === 'qrcode'
+                                                        ? { ...item, scale: newScale }
+                                                        : item
+                                                )
+                                            );
+                                        }}
+                                        style={{ 
+                                            width: '100%', 
+                                            padding: '4px 6px', 
+                                            fontSize: '12px',
+                                            border: '1px solid #ddd',
+                                            borderRadius: '3px'
+                                        }}
+                                    />
+                                </div>
+                                <div style={{ flex: 1 }}>
+                                    <label style={{ fontSize: '11px', color: '#666', marginBottom: '3px', display: 'block' }}>Error correction:</label>
+                                    <select 
+                                        value={(selectedItem as QRCodeItem).ecc || 'M'}
+                                        onChange={(e) => {
+                                            const newEcc = e.target.value as QrErrorCorrection;
+                                            setCanvasItems(items =>
+                                                items.map(item =>
+                                                    selectedIds.includes(item.id) && item.type === 'qrcode'
+                                                        ? { ...item, ecc: newEcc }
+                                                        : item
+                                                )
+                                            );
+                                        }}
+                                        style={{ 
+                                            width: '100%', 
+                                            padding: '4px 6px', 
+                                            fontSize: '12px',
+                                            border: '1px solid #ddd',
+                                            borderRadius: '3px'
+                                        }}
+                                    >
+                                        <option value="L">L (7%)</option>
+                                        <option value="M">M (15%)</option>
+                                        <option value="Q">Q (25%)</option>
+                                        <option value="H">H (30%)</option>
+                                    </select>
+                                </div>
+                            </div>
+                        </div>
+                        
                         {/* QR Data Control */}
                         <div style={{ marginBottom: '15px' }}>
                             <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
@@ -1714,6 +2678,8 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 }}
                             />
                         </div>
+                        
+                        {renderCodeSymbolInfo(selectedItem)}
                     </>
                 )}
 
@@ -1740,7 +2706,90 @@ const IntegratedTemplateEditor: React.FC = () => {
                 </div>
             </div>
         );
-    }, [selectedIds, canvasItems, canvasWidth, canvasHeight, deleteSelectedItem, isFontSizeEditing, fontSizeInput, handleFontSizeInputFocus, handleFontSizeInputChange, handleFontSizeInputBlur, handleFontSizeKeyDown]);
+    }, [selectedIds, canvasItems, canvasGroups, canvasWidth, canvasHeight, eslType, fontLibrary, deleteSelectedItem, groupSelectedItems, ungroupSelectedItems, renameGroup, renderAlignControls, renderCodeSymbolInfo, isFontSizeEditing, fontSizeInput, handleFontSizeInputFocus, handleFontSizeInputChange, handleFontSizeInputBlur, handleFontSizeKeyDown, setTextBoxEnabled, updateTextBox, getTextLayout, updatePriceItem, setItemRotation]);
+
+    const loadSampleRecords = useCallback(() => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json,.csv';
+        input.onchange = async (e: Event) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (!file) return;
+            try {
+                const records = parseSampleRecords(await file.text(), file.name);
+                if (records.length === 0) {
+                    alert(`${file.name} contains no records`);
+                    return;
+                }
+                setSampleRecords(records);
+                setActiveRecordIndex(0);
+            } catch (error) {
+                alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        };
+        input.click();
+    }, []);
+
+    // New records start with the variable names as values, ready to be typed over
+    const addSampleRecord = useCallback(() => {
+        const record: TemplateVariables = {};
+        listVariables(canvasItems).forEach(name => {
+            record[name] = activeSampleRecord?.[name] ?? name;
+        });
+        setSampleRecords(records => [...records, record]);
+        setActiveRecordIndex(sampleRecords.length);
+    }, [canvasItems, activeSampleRecord, sampleRecords.length]);
+
+    // Save the sample records as JSON data for the tag image generator, with bound prices split
+    const downloadGeneratorRecords = useCallback(() => {
+        const records = sampleRecords.map(record => toGeneratorRecord(canvasItems, record));
+        const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${templateFilename}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }, [sampleRecords, canvasItems, templateFilename]);
+
+    const deleteSampleRecord = useCallback(() => {
+        if (activeRecordIndex === null) return;
+        setSampleRecords(records => records.filter((_, index) => index !== activeRecordIndex));
+        setActiveRecordIndex(sampleRecords.length > 1 ? Math.max(0, activeRecordIndex - 1) : null);
+    }, [activeRecordIndex, sampleRecords.length]);
+
+    const updateSampleValue = useCallback((name: string, value: string) => {
+        if (activeRecordIndex === null) return;
+        setSampleRecords(records => records.map((record, index) =>
+            index === activeRecordIndex ? { ...record, [name]: value } : record
+        ));
+    }, [activeRecordIndex]);
+
+    // Where the active record's value for a variable does not fit on the label
+    const getSampleFitWarnings = useCallback((name: string): string[] => {
+        const warnings: string[] = [];
+        canvasItems.filter(item => getItemVariable(item) === name).forEach(item => {
+            const shown = applySampleRecord(item, activeSampleRecord);
+            if (shown.type === 'barcode' || shown.type === 'qrcode') {
+                warnings.push(...getCodeWarnings(shown, layoutCode(shown), canvasWidth, canvasHeight));
+                return;
+            }
+            if (shown.type === 'text' && shown.box && getTextLayout(shown).truncated) {
+                warnings.push('Text does not fit its box and is cut');
+            }
+            const bounds = getItemBounds(shown);
+            if (bounds.x === undefined || bounds.y === undefined) return;
+            if (bounds.x < 0 || bounds.x + (bounds.width || 0) > canvasWidth) {
+                warnings.push('Text runs past the left or right edge of the canvas');
+            }
+            if (bounds.y < 0 || bounds.y + (bounds.height || 0) > canvasHeight) {
+                warnings.push('Text runs past the top or bottom edge of the canvas');
+            }
+        });
+        return warnings.filter((warning, index) => warnings.indexOf(warning) === index);
+    }, [canvasItems, activeSampleRecord, canvasWidth, canvasHeight, getItemBounds, getTextLayout]);
 
     // ESL Designer sidebar content renderer
     const renderSidebarContent = useCallback(() => {
@@ -1748,75 +2797,29 @@ const IntegratedTemplateEditor: React.FC = () => {
             case 'templates':
                 return (
                     <div className={styles.sidebarContent}>
-                        <h3>Canvas Presets</h3>
+                        <h3>Display Models</h3>
                         
-                        {/* Canvas Dimension Presets */}
                         <div style={{ marginBottom: '20px' }}>
-                            
+                            {labelProfiles.length === 0 && (
+                                <p style={{ fontSize: '12px', color: '#666' }}>
+                                    No display models are registered. Add them to the label profile registry on the server.
+                                </p>
+                            )}
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
-                                <button 
-                                    onClick={() => setPresetDimensions(200, 200)}
-                                    style={getPresetButtonStyle(canvasWidth === 200 && canvasHeight === 200)}
-                                    {...getPresetButtonHandlers(canvasWidth === 200 && canvasHeight === 200)}
-                                >
-                                    200 × 200
-                                </button>
-                                <button 
-                                    onClick={() => setPresetDimensions(250, 122)}
-                                    style={getPresetButtonStyle(canvasWidth === 250 && canvasHeight === 122)}
-                                    {...getPresetButtonHandlers(canvasWidth === 250 && canvasHeight === 122)}
-                                >
-                                    250 × 122
-                                </button>
-                                <button 
-                                    onClick={() => setPresetDimensions(296, 152)}
-                                    style={getPresetButtonStyle(canvasWidth === 296 && canvasHeight === 152)}
-                                    {...getPresetButtonHandlers(canvasWidth === 296 && canvasHeight === 152)}
-                                >
-                                    296 × 152
-                                </button>
-                                <button 
-                                    onClick={() => setPresetDimensions(296, 128)}
-                                    style={getPresetButtonStyle(canvasWidth === 296 && canvasHeight === 128)}
-                                    {...getPresetButtonHandlers(canvasWidth === 296 && canvasHeight === 128)}
-                                >
-                                    296 × 128
-                                </button>
-                                <button 
-                                    onClick={() => setPresetDimensions(384, 184)}
-                                    style={getPresetButtonStyle(canvasWidth === 384 && canvasHeight === 184)}
-                                    {...getPresetButtonHandlers(canvasWidth === 384 && canvasHeight === 184)}
-                                >
-                                    384 × 184
-                                </button>
-                                <button 
-                                    onClick={() => setPresetDimensions(400, 300)}
-                                    style={getPresetButtonStyle(canvasWidth === 400 && canvasHeight === 300)}
-                                    {...getPresetButtonHandlers(canvasWidth === 400 && canvasHeight === 300)}
-                                >
-                                    400 × 300
-                                </button>
-                                <button 
-                                    onClick={() => setPresetDimensions(416, 240)}
-                                    style={getPresetButtonStyle(canvasWidth === 416 && canvasHeight === 240)}
-                                    {...getPresetButtonHandlers(canvasWidth === 416 && canvasHeight === 240)}
-                                >
-                                    416 × 240
-                                </button>
-                                <button 
-                                    onClick={() => setPresetDimensions(648, 480)}
-                                    style={getPresetButtonStyle(canvasWidth === 648 && canvasHeight === 480)}
-                                    {...getPresetButtonHandlers(canvasWidth === 648 && canvasHeight === 480)}
-                                >
-                                    648 × 480
-                                </button>
-                                <button 
-                                    onClick={() => setPresetDimensions(800, 480)}
-                                    style={getPresetButtonStyle(canvasWidth === 800 && canvasHeight === 480)}
-                                    {...getPresetButtonHandlers(canvasWidth === 800 && canvasHeight === 480)}
-                                >
-                                    800 × 480
-                                </button>
+                                {labelProfiles.map(profile => (
+                                    <button 
+                                        key={profile.id}
+                                        onClick={() => requestPaletteChange(profile.palette, profile)}
+                                        style={getPresetButtonStyle(labelModel === profile.id)}
+                                        {...getPresetButtonHandlers(labelModel === profile.id)}
+                                        title={`${profile.widthMm} × ${profile.heightMm} mm, ${profile.dpi} dpi, ${profile.housing} housing`}
+                                    >
+                                        <div>{profile.name}</div>
+                                        <div style={{ fontSize: '11px', fontWeight: 'normal', color: '#57606a' }}>
+                                            {profile.width} × {profile.height} · {profile.palette}
+                                        </div>
+                                    </button>
+                                ))}
                             </div>
                         </div>
                     </div>
@@ -1861,6 +2864,13 @@ const IntegratedTemplateEditor: React.FC = () => {
                             >
                                 QR Code
                             </button>
+                            <button 
+                                onClick={() => addElement('price')}
+                                style={getElementButtonStyle()}
+                                {...getElementButtonHandlers()}
+                            >
+                                Price
+                            </button>
                             <button 
                                 onClick={() => openImageBrowser()}
                                 style={getElementButtonStyle()}
@@ -1871,10 +2881,103 @@ const IntegratedTemplateEditor: React.FC = () => {
                         </div>
                     </div>
                 );
+            case 'variables': {
+                const variableNames = listVariables(canvasItems);
+                const smallButtonStyle = {
+                    padding: '4px 8px',
+                    fontSize: '12px',
+                    border: '1px solid #ccc',
+                    borderRadius: '3px',
+                    backgroundColor: '#f8f9fa',
+                    cursor: 'pointer'
+                };
+                return (
+                    <div className={styles.sidebarContent}>
+                        <h3>Variables</h3>
+                        {variableNames.length === 0 && (
+                            <p style={{ fontSize: '12px', color: '#666' }}>
+                                Set the content of a text, barcode or QR code to [name] to make it a variable.
+                            </p>
+                        )}
+
+                        {/* Sample record selection */}
+                        <div style={{ marginBottom: '15px' }}>
+                            <label style={{ display: 'block', marginBottom: '8px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
+                                Sample record:
+                            </label>
+                            <div style={{ display: 'flex', gap: '4px', marginBottom: '6px' }}>
+                                <button
+                                    onClick={() => setActiveRecordIndex(activeRecordIndex !== null && activeRecordIndex > 0 ? activeRecordIndex - 1 : activeRecordIndex)}
+                                    disabled={activeRecordIndex === null || activeRecordIndex === 0}
+                                    style={smallButtonStyle}
+                                    title="Previous record"
+                                >
+                                    ◀
+                                </button>
+                                <select
+                                    value={activeRecordIndex === null ? '' : String(activeRecordIndex)}
+                                    onChange={(e) => setActiveRecordIndex(e.target.value === '' ? null : Number(e.target.value))}
+                                    style={{ flex: 1, padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                >
+                                    <option value="">Variable names</option>
+                                    {sampleRecords.map((_, index) => (
+                                        <option key={index} value={index}>Record {index + 1} of {sampleRecords.length}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => setActiveRecordIndex(activeRecordIndex === null ? (sampleRecords.length > 0 ? 0 : null) : Math.min(sampleRecords.length - 1, activeRecordIndex + 1))}
+                                    disabled={sampleRecords.length === 0 || activeRecordIndex === sampleRecords.length - 1}
+                                    style={smallButtonStyle}
+                                    title="Next record"
+                                >
+                                    ▶
+                                </button>
+                            </div>
+                            <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+                                <button onClick={addSampleRecord} style={smallButtonStyle}>Add record</button>
+                                <button onClick={deleteSampleRecord} disabled={activeRecordIndex === null} style={smallButtonStyle}>Delete record</button>
+                                <button onClick={loadSampleRecords} style={smallButtonStyle}>Load JSON/CSV…</button>
+                                <button
+                                    onClick={downloadGeneratorRecords}
+                                    disabled={sampleRecords.length === 0}
+                                    style={smallButtonStyle}
+                                    title="The records as data for the tag image generator, with bound prices split into _int and _dec"
+                                >
+                                    Download JSON
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Values of the selected record */}
+                        {variableNames.map(name => {
+                            const fitWarnings = activeSampleRecord ? getSampleFitWarnings(name) : [];
+                            return (
+                                <div key={name} style={{ marginBottom: '10px' }}>
+                                    <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: 'bold', color: '#333' }}>
+                                        [{name}]
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={activeSampleRecord?.[name] ?? ''}
+                                        placeholder={activeSampleRecord ? 'No value in this record' : 'Select or add a record'}
+                                        disabled={!activeSampleRecord}
+                                        onChange={(e) => updateSampleValue(name, e.target.value)}
+                                        style={{ width: '100%', padding: '6px 8px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+                                    />
+                                    {fitWarnings.map(warning => (
+                                        <div key={warning} style={{ color: '#dc3545', fontSize: '11px', marginTop: '4px' }}>⚠ {warning}</div>
+                                    ))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                );
+            }
             default:
                 return null;
         }
-    }, [activeSection, canvasWidth, canvasHeight]);
+    }, [activeSection, canvasWidth, canvasHeight, labelProfiles, labelModel, requestPaletteChange, canvasItems, sampleRecords, activeRecordIndex, activeSampleRecord,
+        addSampleRecord, deleteSampleRecord, loadSampleRecords, updateSampleValue, getSampleFitWarnings]);
 
     // Properties sidebar content renderer
     const renderPropertiesContent = useCallback(() => {
@@ -1885,7 +2988,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                 return (
                     <div className={styles.sidebarContent}>
                         {selectedItem ? (
-                            <div>
+                            <div onFocus={startPropertyEdit} onBlur={endPropertyEdit}>
                                 <h3>Element Properties</h3>
                                 <div style={{ marginBottom: '10px', padding: '8px', backgroundColor: '#f5f5f5', borderRadius: '4px' }}>
                                     <strong>Type:</strong> {selectedItem.type.charAt(0).toUpperCase() + selectedItem.type.slice(1)}
@@ -2000,25 +3103,101 @@ const IntegratedTemplateEditor: React.FC = () => {
             default:
                 return null;
         }
-    }, [activePropertiesSection, selectedIds, canvasItems, renderSelectedElementControls]);
+    }, [activePropertiesSection, selectedIds, canvasItems, renderSelectedElementControls, startPropertyEdit, endPropertyEdit]);
 
     // Canvas dimension handlers
     const handleCanvasWidthChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         const width = parseInt(e.target.value) || 1;
         setCanvasWidth(Math.max(1, width)); // Min 1px
+        setLabelModel(undefined); // No longer matches the display model
     }, []);
 
     const handleCanvasHeightChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         const height = parseInt(e.target.value) || 1;
         setCanvasHeight(Math.max(1, height)); // Min 1px
+        setLabelModel(undefined);
     }, []);
 
-    // Preset dimension handlers
-    const setPresetDimensions = useCallback((width: number, height: number) => {
-        setCanvasWidth(width);
-        setCanvasHeight(height);
+    // Convert a client (screen) position to canvas pixels
+    const clientToCanvas = useCallback((clientX: number, clientY: number): { x: number; y: number } | null => {
+        const rect = document.querySelector('.template-canvas')?.getBoundingClientRect();
+        if (!rect) return null;
+        return { x: (clientX - rect.left) / zoomLevel, y: (clientY - rect.top) / zoomLevel };
+    }, [zoomLevel]);
+
+    // Keep the rulers lined up with the canvas as it scrolls, zooms or changes size
+    const updateRulerOffset = useCallback(() => {
+        const container = canvasContainerRef.current;
+        const svg = container?.querySelector('.template-canvas');
+        if (!container || !svg) return;
+        
+        const containerRect = container.getBoundingClientRect();
+        const svgRect = svg.getBoundingClientRect();
+        setRulerOffset({ x: svgRect.left - containerRect.left, y: svgRect.top - containerRect.top });
+    }, []);
+
+    useEffect(() => {
+        updateRulerOffset();
+        window.addEventListener('resize', updateRulerOffset);
+        return () => window.removeEventListener('resize', updateRulerOffset);
+    }, [updateRulerOffset, zoomLevel, canvasWidth, canvasHeight]);
+
+    // Live cursor readout, in whole canvas pixels and only over the canvas
+    const handleCanvasPointerMove = useCallback((e: React.MouseEvent) => {
+        const point = clientToCanvas(e.clientX, e.clientY);
+        const x = point ? Math.floor(point.x) : -1;
+        const y = point ? Math.floor(point.y) : -1;
+        setCursorPosition(x >= 0 && y >= 0 && x < canvasWidth && y < canvasHeight ? { x, y } : null);
+    }, [clientToCanvas, canvasWidth, canvasHeight]);
+
+    // Pressing on a ruler creates a guide and starts dragging it onto the canvas
+    const startGuideDrag = useCallback((e: React.MouseEvent, orientation: CanvasGuide['orientation']) => {
+        e.preventDefault();
+        const point = clientToCanvas(e.clientX, e.clientY);
+        if (!point) return;
+        
+        const id = canvasGuides.length > 0 ? Math.max(...canvasGuides.map(guide => guide.id)) + 1 : 1;
+        const position = Math.round(orientation === 'horizontal' ? point.y : point.x);
+        setCanvasGuides(guides => [...guides, { id, orientation, position }]);
+        setDraggingGuideId(id);
+    }, [canvasGuides, clientToCanvas]);
+
+    const handleGuideMouseDown = useCallback((e: React.MouseEvent, id: number) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDraggingGuideId(id);
     }, []);
 
+    useEffect(() => {
+        if (draggingGuideId === null) return;
+        
+        const handleGuideMouseMove = (e: MouseEvent) => {
+            const point = clientToCanvas(e.clientX, e.clientY);
+            if (!point) return;
+            setCanvasGuides(guides => guides.map(guide => guide.id === draggingGuideId
+                ? { ...guide, position: Math.round(guide.orientation === 'horizontal' ? point.y : point.x) }
+                : guide
+            ));
+        };
+        
+        // A guide dropped outside the canvas, e.g. back onto its ruler, is removed
+        const handleGuideMouseUp = () => {
+            setCanvasGuides(guides => guides.filter(guide => {
+                if (guide.id !== draggingGuideId) return true;
+                const limit = guide.orientation === 'horizontal' ? canvasHeight : canvasWidth;
+                return guide.position >= 0 && guide.position <= limit;
+            }));
+            setDraggingGuideId(null);
+        };
+        
+        document.addEventListener('mousemove', handleGuideMouseMove);
+        document.addEventListener('mouseup', handleGuideMouseUp);
+        return () => {
+            document.removeEventListener('mousemove', handleGuideMouseMove);
+            document.removeEventListener('mouseup', handleGuideMouseUp);
+        };
+    }, [draggingGuideId, clientToCanvas, canvasWidth, canvasHeight]);
+
     // Canvas event handlers
     const handleMouseDown = useCallback((e: React.MouseEvent, id: number) => {
         if (resizing) return; // Don't start dragging if we're resizing
@@ -2026,23 +3205,29 @@ const IntegratedTemplateEditor: React.FC = () => {
         // Prevent event from bubbling to canvas background handler
         e.stopPropagation();
         
+        // Clicking a grouped element selects its whole top-level group;
+        // Alt+click selects the element on its own
+        const clickedIds = e.altKey ? [id] : expandToGroups([id], canvasItems, canvasGroups);
+        
         // Support multi-selection with Ctrl/Cmd key
         if (e.ctrlKey || e.metaKey) {
             setSelectedIds(prev => {
                 if (prev.includes(id)) {
                     // Deselect if already selected
-                    return prev.filter(sid => sid !== id);
+                    return prev.filter(sid => !clickedIds.includes(sid));
                 } else {
                     // Add to selection
-                    return [...prev, id];
+                    return [...prev, ...clickedIds.filter(cid => !prev.includes(cid))];
                 }
             });
-        } else {
-            // Single selection (replace current selection)
-            setSelectedIds([id]);
+        } else if (e.altKey || !selectedIds.includes(id)) {
+            // Replace the selection, unless the element is already part of it so the
+            // whole selection can be dragged
+            setSelectedIds(clickedIds);
         }
         
         setDragging(true);
+        setDragAnchorId(id);
         const item = canvasItems.find(i => i.id === id);
         if (!item) return;
         
@@ -2060,7 +3245,7 @@ const IntegratedTemplateEditor: React.FC = () => {
             x: mouseX - item.x,
             y: mouseY - item.y
         });
-    }, [resizing, canvasItems, zoomLevel]);
+    }, [resizing, canvasItems, canvasGroups, selectedIds, zoomLevel]);
 
     // Double-click handler for text editing on canvas
     const handleTextDoubleClick = useCallback((e: React.MouseEvent, item: TextItem) => {
@@ -2158,6 +3343,52 @@ const IntegratedTemplateEditor: React.FC = () => {
         setDragging(false);
     }, [zoomLevel]);
 
+    // What dragged or resized elements can snap to: the canvas and every unselected element
+    const getSnapContext = useCallback((): SnapContext => ({
+        settings: snapSettings,
+        canvasWidth,
+        canvasHeight,
+        others: canvasItems
+            .filter(item => !selectedIds.includes(item.id))
+            .map(item => getSelectionBounds([item]))
+            .filter((bounds): bounds is NonNullable<typeof bounds> => bounds !== null),
+        guides: canvasGuides,
+        threshold: SNAP_DISTANCE / zoomLevel
+    }), [snapSettings, canvasWidth, canvasHeight, canvasItems, selectedIds, getSelectionBounds, canvasGuides, zoomLevel]);
+
+    // Snap the position the drag anchor is being moved to, so the whole selection's
+    // bounding box lines up. Holding Alt disables snapping.
+    const snapDragPosition = useCallback((newX: number, newY: number, disabled: boolean): { x: number; y: number } => {
+        const anchor = canvasItems.find(item => item.id === dragAnchorId);
+        const bounds = getSelectionBounds(canvasItems.filter(item => selectedIds.includes(item.id)));
+        if (disabled || !anchor || !bounds) {
+            setSnapGuides([]);
+            return { x: newX, y: newY };
+        }
+
+        const movedBounds = { ...bounds, x: bounds.x + newX - anchor.x, y: bounds.y + newY - anchor.y };
+        const snapped = snapBounds(movedBounds, getSnapContext());
+        setSnapGuides(snapped.guides);
+        return { x: newX + snapped.deltaX, y: newY + snapped.deltaY };
+    }, [canvasItems, dragAnchorId, selectedIds, getSelectionBounds, getSnapContext]);
+
+    // Snap the pointer while dragging a resize handle. Only the axes the handle changes
+    // snap; text resizes by font size and does not snap.
+    const snapResizePoint = useCallback((mouseX: number, mouseY: number, disabled: boolean): { x: number; y: number } => {
+        const item = canvasItems.find(i => i.id === selectedIds[0]);
+        if (disabled || !item || !resizeHandle || item.type === 'text') {
+            setSnapGuides([]);
+            return { x: mouseX, y: mouseY };
+        }
+
+        const axes = item.type === 'line'
+            ? { x: true, y: true }
+            : { x: /[ew]/.test(resizeHandle), y: /[ns]/.test(resizeHandle) };
+        const snapped = snapPoint(mouseX, mouseY, getSnapContext(), axes);
+        setSnapGuides(snapped.guides);
+        return { x: mouseX + snapped.deltaX, y: mouseY + snapped.deltaY };
+    }, [canvasItems, selectedIds, resizeHandle, getSnapContext]);
+
     const handleMouseMove = useCallback((e: MouseEvent) => {
         // Handle drag-to-select box
         if (selectingBox) {
@@ -2171,16 +3402,45 @@ const IntegratedTemplateEditor: React.FC = () => {
             return;
         }
         
+        if (dragging && selectedIds.length > 1) {
+            const rect = document.querySelector('.template-canvas')?.getBoundingClientRect();
+            if (!rect) return;
+            
+            const { x: newX, y: newY } = snapDragPosition(
+                Math.round(((e.clientX - rect.left) / zoomLevel) - dragOffset.x),
+                Math.round(((e.clientY - rect.top) / zoomLevel) - dragOffset.y),
+                e.altKey
+            );
+            
+            setCanvasItems(items => {
+                const anchor = items.find(item => item.id === dragAnchorId);
+                const bounds = getSelectionBounds(items.filter(item => selectedIds.includes(item.id)));
+                if (!anchor || !bounds) return items;
+                
+                // Move every selected element by the same amount so groups keep their layout,
+                // stopping at the canvas edges (a selection already past an edge may stay there)
+                const deltaX = Math.max(Math.min(0, -bounds.x), Math.min(Math.max(0, canvasWidth - bounds.x - bounds.width), newX - anchor.x));
+                const deltaY = Math.max(Math.min(0, -bounds.y), Math.min(Math.max(0, canvasHeight - bounds.y - bounds.height), newY - anchor.y));
+                if (deltaX === 0 && deltaY === 0) return items;
+                
+                return items.map(item => selectedIds.includes(item.id) ? translateItem(item, deltaX, deltaY) : item);
+            });
+            return;
+        }
+        
         if (dragging && selectedIds.length > 0) {
             const rect = document.querySelector('.template-canvas')?.getBoundingClientRect();
             if (!rect) return;
             
+            const { x: newX, y: newY } = snapDragPosition(
+                Math.round(((e.clientX - rect.left) / zoomLevel) - dragOffset.x),
+                Math.round(((e.clientY - rect.top) / zoomLevel) - dragOffset.y),
+                e.altKey
+            );
+            
             setCanvasItems(items =>
                 items.map(item => {
                     if (selectedIds.includes(item.id)) {
-                        const newX = Math.round(((e.clientX - rect.left) / zoomLevel) - dragOffset.x);
-                        const newY = Math.round(((e.clientY - rect.top) / zoomLevel) - dragOffset.y);
-                        
                         if (item.type === 'line') {
                             // For lines, move both endpoints together smoothly
                             const deltaX = newX - item.x;
@@ -2234,7 +3494,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                 })
             );
         }
-    }, [dragging, selectingBox, selectedIds, dragOffset, zoomLevel, constrainToCanvas, canvasWidth, canvasHeight]);
+    }, [dragging, selectingBox, selectedIds, dragOffset, dragAnchorId, zoomLevel, constrainToCanvas, getSelectionBounds, snapDragPosition, canvasWidth, canvasHeight]);
 
     const handleMouseUp = useCallback(() => {
         // Handle drag-to-select completion
@@ -2262,8 +3522,9 @@ const IntegratedTemplateEditor: React.FC = () => {
                 return !(itemMaxX < minX || itemMinX > maxX || itemMaxY < minY || itemMinY > maxY);
             });
             
-            // Add the items to selection (or replace if not holding Ctrl/Cmd)
-            const newSelection = itemsInBox.map(item => item.id);
+            // Add the items to selection (or replace if not holding Ctrl/Cmd),
+            // including the rest of any group they belong to
+            const newSelection = expandToGroups(itemsInBox.map(item => item.id), canvasItems, canvasGroups);
             setSelectedIds(prev => {
                 // If user was holding Ctrl/Cmd when starting selection, add to existing selection
                 // This would need to be tracked from the initial mousedown event
@@ -2275,9 +3536,12 @@ const IntegratedTemplateEditor: React.FC = () => {
         }
         
         setDragging(false);
+        setDragAnchorId(null);
         setResizing(false);
         setResizeHandle(null);
-    }, [selectingBox, selectionBoxStart, selectionBoxEnd, canvasItems, getItemBounds]);
+        setGroupScale(null);
+        setSnapGuides([]);
+    }, [selectingBox, selectionBoxStart, selectionBoxEnd, canvasItems, canvasGroups, getItemBounds]);
 
     // Resize event handlers
     const handleResizeMouseDown = useCallback((e: React.MouseEvent, handle: string) => {
@@ -2285,6 +3549,20 @@ const IntegratedTemplateEditor: React.FC = () => {
         if (selectedIds.length !== 1) return;
         
         const item = canvasItems.find(i => i.id === selectedIds[0]);
+        if (item && handle === 'rotate' && canRotate(item)) {
+            // Turn about the item's x/y, following the pointer's angle around it
+            const rect = document.querySelector('.template-canvas')?.getBoundingClientRect();
+            if (!rect) return;
+            const pointerX = (e.clientX - rect.left) / zoomLevel;
+            const pointerY = (e.clientY - rect.top) / zoomLevel;
+            setRotateStart({
+                angle: Math.atan2(pointerY - item.y, pointerX - item.x) * 180 / Math.PI,
+                rotation: item.rotation || 0
+            });
+            setResizing(true);
+            setResizeHandle(handle);
+            return;
+        }
         if (!item || (item.type !== 'rect' && item.type !== 'text' && item.type !== 'line' && item.type !== 'image')) return; // Rectangles, text, lines, and images can be resized
         
         setResizing(true);
@@ -2297,6 +3575,14 @@ const IntegratedTemplateEditor: React.FC = () => {
                 width: item.width,
                 height: item.height
             });
+        } else if (item.type === 'text' && item.box) {
+            // Bounded text resizes its box like a rectangle; the text rewraps to fit
+            setResizeStart({
+                x: item.x,
+                y: item.y,
+                width: item.box.width,
+                height: item.box.height
+            });
         } else if (item.type === 'text') {
             // For text, we'll use fontSize as both width and height for resize reference
             setResizeStart({
@@ -2322,25 +3608,53 @@ const IntegratedTemplateEditor: React.FC = () => {
                 height: item.height
             });
         }
-    }, [selectedIds, canvasItems]);
+    }, [selectedIds, canvasItems, zoomLevel]);
 
     const handleResizeMouseMove = useCallback((e: MouseEvent) => {
         if (resizing && selectedIds.length > 0 && resizeHandle) {
             const rect = document.querySelector('.template-canvas')?.getBoundingClientRect();
             if (!rect) return;
             
-            const mouseX = (e.clientX - rect.left) / zoomLevel;
-            const mouseY = (e.clientY - rect.top) / zoomLevel;
+            if (resizeHandle === 'rotate') {
+                const pointerX = (e.clientX - rect.left) / zoomLevel;
+                const pointerY = (e.clientY - rect.top) / zoomLevel;
+                setCanvasItems(items => items.map(item => {
+                    if (!selectedIds.includes(item.id) || !canRotate(item)) return item;
+                    const angle = Math.atan2(pointerY - item.y, pointerX - item.x) * 180 / Math.PI;
+                    let rotation = rotateStart.rotation + angle - rotateStart.angle;
+                    // Shift turns in 15° steps; otherwise the right angles snap within 4°
+                    if (e.shiftKey) {
+                        rotation = Math.round(rotation / 15) * 15;
+                    } else if (Math.abs(rotation - Math.round(rotation / 90) * 90) < 4) {
+                        rotation = Math.round(rotation / 90) * 90;
+                    }
+                    return { ...item, rotation: normalizeRotation(rotation) };
+                }));
+                return;
+            }
+            
+            const { x: pointerX, y: pointerY } = snapResizePoint(
+                (e.clientX - rect.left) / zoomLevel,
+                (e.clientY - rect.top) / zoomLevel,
+                e.altKey
+            );
             
             setCanvasItems(items =>
                 items.map(item => {
                     if (!selectedIds.includes(item.id) || (item.type !== 'rect' && item.type !== 'text' && item.type !== 'line' && item.type !== 'image')) return item;
                     
-                    if (item.type === 'rect') {
+                    // A turned item is resized in its own upright frame, about the pivot it had
+                    // when the gesture started
+                    const rotation = canRotate(item) ? item.rotation || 0 : 0;
+                    const { x: mouseX, y: mouseY } = rotation
+                        ? rotatePoint(pointerX, pointerY, resizeStart.x, resizeStart.y, -rotation)
+                        : { x: pointerX, y: pointerY };
+                    
+                    if (item.type === 'rect' || (item.type === 'text' && item.box)) {
                         let newX = item.x;
                         let newY = item.y;
-                        let newWidth = item.width;
-                        let newHeight = item.height;
+                        let newWidth = resizeStart.width;
+                        let newHeight = resizeStart.height;
                         
                         switch (resizeHandle) {
                             case 'nw': // Northwest
@@ -2405,14 +3719,14 @@ const IntegratedTemplateEditor: React.FC = () => {
                         
                         // Apply canvas boundary constraints
                         const constrained = constrainToCanvas(item, newX, newY, newWidth, newHeight);
-                        
-                        return {
-                            ...item,
-                            x: Math.round(constrained.x),
-                            y: Math.round(constrained.y),
+                        const size = {
                             width: Math.round(constrained.width || newWidth),
                             height: Math.round(constrained.height || newHeight)
                         };
+                        
+                        return item.type === 'text' && item.box
+                            ? { ...item, x: Math.round(constrained.x), y: Math.round(constrained.y), box: { ...item.box, ...size } }
+                            : { ...item, x: Math.round(constrained.x), y: Math.round(constrained.y), ...size };
                     } else if (item.type === 'text') {
                         // For text, adjust fontSize based on resize handle direction
                         let newFontSize = resizeStart.width; // Start with original fontSize
@@ -2589,6 +3903,19 @@ const IntegratedTemplateEditor: React.FC = () => {
                         newWidth = Math.max(10, newWidth);
                         newHeight = Math.max(10, newHeight);
                         
+                        // A turned image keeps turning about its old corner, so its new corner moves
+                        // with the turn and the bounds are left to the turned-bounds check
+                        if (rotation) {
+                            const corner = rotatePoint(newX, newY, resizeStart.x, resizeStart.y, rotation);
+                            return {
+                                ...item,
+                                x: Math.round(corner.x),
+                                y: Math.round(corner.y),
+                                width: Math.round(newWidth),
+                                height: Math.round(newHeight)
+                            };
+                        }
+                        
                         // Apply canvas boundary constraints
                         const constrained = constrainToCanvas(item, newX, newY, newWidth, newHeight);
                         
@@ -2605,10 +3932,49 @@ const IntegratedTemplateEditor: React.FC = () => {
                 })
             );
         }
-    }, [resizing, selectedIds, resizeHandle, resizeStart, zoomLevel, constrainToCanvas, canvasWidth, canvasHeight]);
+    }, [resizing, selectedIds, resizeHandle, resizeStart, rotateStart, zoomLevel, constrainToCanvas, snapResizePoint, canvasWidth, canvasHeight]);
+
+    // Start scaling the selected elements from a corner of their bounding box
+    const handleGroupScaleMouseDown = useCallback((e: React.MouseEvent, handle: string) => {
+        e.stopPropagation();
+        const selectedItems = canvasItems.filter(item => selectedIds.includes(item.id));
+        const bounds = getSelectionBounds(selectedItems);
+        if (!bounds || bounds.width === 0 || bounds.height === 0) return;
+        
+        setGroupScale({ handle, bounds, items: selectedItems });
+    }, [canvasItems, selectedIds, getSelectionBounds]);
+
+    const handleGroupScaleMouseMove = useCallback((e: MouseEvent) => {
+        if (!groupScale) return;
+        const rect = document.querySelector('.template-canvas')?.getBoundingClientRect();
+        if (!rect) return;
+        
+        const mouseX = (e.clientX - rect.left) / zoomLevel;
+        const mouseY = (e.clientY - rect.top) / zoomLevel;
+        
+        // Scale about the corner opposite the handle, keeping the aspect ratio
+        const { handle, bounds, items: startItems } = groupScale;
+        const originX = handle.includes('w') ? bounds.x + bounds.width : bounds.x;
+        const originY = handle.includes('n') ? bounds.y + bounds.height : bounds.y;
+        const scale = Math.max(0.1, Math.max(
+            Math.abs(mouseX - originX) / bounds.width,
+            Math.abs(mouseY - originY) / bounds.height
+        ));
+        
+        const scaledItems = new Map(startItems.map(item => [item.id, scaleItem(item, originX, originY, scale)]));
+        setCanvasItems(items => items.map(item => scaledItems.get(item.id) || item));
+    }, [groupScale, zoomLevel]);
 
     // Add mouse event listeners
     React.useEffect(() => {
+        if (groupScale) {
+            window.addEventListener("mousemove", handleGroupScaleMouseMove);
+            window.addEventListener("mouseup", handleMouseUp);
+            return () => {
+                window.removeEventListener("mousemove", handleGroupScaleMouseMove);
+                window.removeEventListener("mouseup", handleMouseUp);
+            };
+        }
         if (dragging || resizing || selectingBox) {
             const mouseMoveHandler = resizing ? handleResizeMouseMove : handleMouseMove;
             window.addEventListener("mousemove", mouseMoveHandler);
@@ -2618,24 +3984,105 @@ const IntegratedTemplateEditor: React.FC = () => {
                 window.removeEventListener("mouseup", handleMouseUp);
             };
         }
-    }, [dragging, resizing, selectingBox, handleResizeMouseMove, handleMouseMove, handleMouseUp]);
+    }, [dragging, resizing, selectingBox, groupScale, handleResizeMouseMove, handleMouseMove, handleGroupScaleMouseMove, handleMouseUp]);
+
+    // Add copies of items (and the groups they belong to) to the canvas and select them
+    const insertItemCopies = useCallback((items: CanvasItem[], groups: CanvasGroup[], offset: number) => {
+        const regrouped = cloneGroupsForPaste(items, groups, canvasGroups);
+        const copies = cloneItemsForPaste(regrouped.items, canvasItems, offset);
+        setCanvasItems(prevItems => [...prevItems, ...copies]);
+        setCanvasGroups(prevGroups => [...prevGroups, ...regrouped.groups]);
+        setSelectedIds(copies.map(item => item.id));
+    }, [canvasItems, canvasGroups]);
+
+    const duplicateSelectedItems = useCallback(() => {
+        const selectedItems = canvasItems.filter(item => selectedIds.includes(item.id));
+        if (selectedItems.length > 0) {
+            insertItemCopies(selectedItems, canvasGroups, PASTE_OFFSET);
+        }
+    }, [canvasItems, canvasGroups, selectedIds, insertItemCopies]);
+
+    // Number of times the current clipboard contents have been pasted, so repeated
+    // pastes step down and to the right instead of stacking on each other
+    const pasteCountRef = useRef(0);
+
+    // Clipboard handlers (Ctrl+C, Ctrl+X, Ctrl+V). The browser's copy/paste events give
+    // access to the system clipboard without a permission prompt.
+    const handleCopy = useCallback((e: ClipboardEvent) => {
+        if (isTypingInField() || selectedIds.length === 0 || !e.clipboardData) return;
+
+        const selectedItems = canvasItems.filter(item => selectedIds.includes(item.id));
+        e.clipboardData.setData('text/plain', serializeClipboard(selectedItems, canvasGroups, canvasWidth, canvasHeight));
+        e.preventDefault();
+        pasteCountRef.current = 0;
+
+        if (e.type === 'cut') {
+            deleteSelectedItem();
+        }
+    }, [canvasItems, canvasGroups, selectedIds, canvasWidth, canvasHeight, deleteSelectedItem]);
+
+    const handlePaste = useCallback((e: ClipboardEvent) => {
+        if (isTypingInField()) return;
+
+        const clipboard = parseClipboard(e.clipboardData?.getData('text/plain'));
+        if (!clipboard) return;
+        e.preventDefault();
+
+        // Items copied from a label of another size keep their position; on the same
+        // size the copies are offset from the originals
+        pasteCountRef.current += 1;
+        const sameSize = clipboard.canvasWidth === canvasWidth && clipboard.canvasHeight === canvasHeight;
+        insertItemCopies(clipboard.items, clipboard.groups, sameSize ? PASTE_OFFSET * pasteCountRef.current : 0);
+    }, [canvasWidth, canvasHeight, insertItemCopies]);
+
+    useEffect(() => {
+        window.addEventListener('copy', handleCopy);
+        window.addEventListener('cut', handleCopy);
+        window.addEventListener('paste', handlePaste);
+        return () => {
+            window.removeEventListener('copy', handleCopy);
+            window.removeEventListener('cut', handleCopy);
+            window.removeEventListener('paste', handlePaste);
+        };
+    }, [handleCopy, handlePaste]);
 
     // Keyboard event handler for delete and arrow key movement
     const handleKeyDown = useCallback((e: KeyboardEvent) => {
-        // Check if user is currently typing in an input field
-        // This prevents keyboard shortcuts from interfering with text input
-        const activeElement = document.activeElement as HTMLElement;
-        const isTyping = activeElement && (
-            activeElement.tagName === 'INPUT' || 
-            activeElement.tagName === 'TEXTAREA' || 
-            activeElement.contentEditable === 'true'
-        );
-
         // If user is typing in an input field, don't handle keyboard shortcuts
-        if (isTyping) return;
+        // This prevents keyboard shortcuts from interfering with text input
+        if (isTypingInField()) return;
 
-        // Handle zoom shortcuts (Ctrl/Cmd + and -, Ctrl/Cmd + 0)
+        // Handle undo (Ctrl/Cmd + Z), redo (Ctrl/Cmd + Shift + Z or Ctrl/Cmd + Y) and
+        // zoom shortcuts (Ctrl/Cmd + and -, Ctrl/Cmd + 0)
         if (e.ctrlKey || e.metaKey) {
+            if (e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    redo();
+                } else {
+                    undo();
+                }
+                return;
+            }
+            if (e.key.toLowerCase() === 'y') {
+                e.preventDefault();
+                redo();
+                return;
+            }
+            if (e.key.toLowerCase() === 'd') {
+                e.preventDefault();
+                duplicateSelectedItems();
+                return;
+            }
+            if (e.key.toLowerCase() === 'g') {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    ungroupSelectedItems();
+                } else {
+                    groupSelectedItems();
+                }
+                return;
+            }
             if (e.key === '=' || e.key === '+') {
                 e.preventDefault();
                 zoomIn();
@@ -2710,7 +4157,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                 })
             );
         }
-    }, [selectedIds, canvasWidth, canvasHeight, deleteSelectedItem, zoomIn, zoomOut, resetZoom]);
+    }, [selectedIds, canvasWidth, canvasHeight, deleteSelectedItem, duplicateSelectedItems, groupSelectedItems, ungroupSelectedItems, zoomIn, zoomOut, resetZoom, undo, redo]);
 
     // Add keyboard event listener for delete functionality and arrow key movement
     React.useEffect(() => {
@@ -2721,7 +4168,7 @@ const IntegratedTemplateEditor: React.FC = () => {
     }, [handleKeyDown]);
 
     // Render resize handles for selected rectangle, text, or line
-    const renderResizeHandles = useCallback((item: RectItem | TextItem | LineItem | ImageItem) => {
+    const renderResizeHandles = useCallback((item: RectItem | TextItem | LineItem | ImageItem | BarcodeItem | QRCodeItem) => {
         let handleSize = 8; // Default handle size for rectangles
         let handles: Array<{ id: string; x: number; y: number; cursor: string }> = [];
         
@@ -2736,43 +4183,27 @@ const IntegratedTemplateEditor: React.FC = () => {
                 { id: 'w', x: item.x - handleSize/2, y: item.y + item.height/2 - handleSize/2, cursor: 'w-resize' },
                 { id: 'e', x: item.x + item.width - handleSize/2, y: item.y + item.height/2 - handleSize/2, cursor: 'e-resize' }
             ];
+        } else if (item.type === 'text' && item.box) {
+            // Bounded text: the box itself, resized like a rectangle
+            const { width, height } = item.box;
+            handles = [
+                { id: 'nw', x: item.x - handleSize/2, y: item.y - handleSize/2, cursor: 'nw-resize' },
+                { id: 'ne', x: item.x + width - handleSize/2, y: item.y - handleSize/2, cursor: 'ne-resize' },
+                { id: 'sw', x: item.x - handleSize/2, y: item.y + height - handleSize/2, cursor: 'sw-resize' },
+                { id: 'se', x: item.x + width - handleSize/2, y: item.y + height - handleSize/2, cursor: 'se-resize' },
+                { id: 'n', x: item.x + width/2 - handleSize/2, y: item.y - handleSize/2, cursor: 'n-resize' },
+                { id: 's', x: item.x + width/2 - handleSize/2, y: item.y + height - handleSize/2, cursor: 's-resize' },
+                { id: 'w', x: item.x - handleSize/2, y: item.y + height/2 - handleSize/2, cursor: 'w-resize' },
+                { id: 'e', x: item.x + width - handleSize/2, y: item.y + height/2 - handleSize/2, cursor: 'e-resize' }
+            ];
         } else if (item.type === 'text') {
-            // For text, calculate exact dimensions matching the rendering logic
-            const text = String(item.text || '');
-            const lines = text.split('\n');
-            const lineHeight = item.fontSize * 1.2;
-            
-            // Try to get actual rendered dimensions from ref
-            const textElement = textElementRefs.current.get(item.id);
-            let textLeft, textRight, textTop, textBottom;
-            
-            // Calculate anchored position for top edge reference
-            const estimatedWidth = estimateTextWidth(text, item.fontSize, (item as TextItem).fontFamily);
-            const estimatedHeight = lines.length * lineHeight;
-            const anchoredPos = calculateAnchoredPosition(item as TextItem, estimatedWidth, estimatedHeight);
-            
-            if (textElement) {
-                try {
-                    const bbox = textElement.getBBox();
-                    textLeft = bbox.x;
-                    textRight = bbox.x + bbox.width;
-                    // Use the actual y position from anchored calculation for top (with dominantBaseline="hanging")
-                    textTop = anchoredPos.y;
-                    textBottom = bbox.y + bbox.height;
-                } catch (e) {
-                    // Fallback to estimation if getBBox fails
-                    textLeft = anchoredPos.x;
-                    textRight = anchoredPos.x + estimatedWidth;
-                    textTop = anchoredPos.y;
-                    textBottom = anchoredPos.y + estimatedHeight;
-                }
-            } else {
-                // Fallback to estimation if ref not available
-                textLeft = anchoredPos.x;
-                textRight = anchoredPos.x + estimatedWidth;
-                textTop = anchoredPos.y;
-                textBottom = anchoredPos.y + estimatedHeight;
-            }
+            // Corners of the box the generator fills: from the ascender of the first line to
+            // the descender of the last
+            const layout = getTextLayout(item);
+            const textLeft = layout.x;
+            const textRight = layout.x + layout.width;
+            const textTop = layout.y;
+            const textBottom = layout.y + layout.height;
             
             // Make handles slightly larger and proportional to text height
             handleSize = Math.max(4, Math.min(item.fontSize * 0.25, 10));
@@ -2805,7 +4236,7 @@ const IntegratedTemplateEditor: React.FC = () => {
             ];
         }
 
-        return handles.map(handle => (
+        const resizeHandles = handles.map(handle => (
             <rect
                 key={handle.id}
                 x={handle.x}
@@ -2819,7 +4250,31 @@ const IntegratedTemplateEditor: React.FC = () => {
                 onMouseDown={(e) => handleResizeMouseDown(e, handle.id)}
             />
         ));
-    }, [handleResizeMouseDown, estimateTextWidth, calculateAnchoredPosition]);
+        if (!canRotate(item)) return resizeHandles;
+
+        // Rotate handle above the top centre; the handles turn with the item
+        const { x = item.x, y = item.y, width = 0 } = getUprightBounds(item);
+        const handleX = x + width / 2;
+        const handleY = y - 20;
+        return (
+            <g transform={`rotate(${item.rotation || 0} ${item.x} ${item.y})`}>
+                {resizeHandles}
+                <line x1={handleX} y1={y} x2={handleX} y2={handleY} stroke="#007bff" strokeWidth={1} pointerEvents="none" />
+                <circle
+                    cx={handleX}
+                    cy={handleY}
+                    r={5}
+                    fill="#fff"
+                    stroke="#007bff"
+                    strokeWidth={1.5}
+                    style={{ cursor: 'grab' }}
+                    onMouseDown={(e) => handleResizeMouseDown(e, 'rotate')}
+                >
+                    <title>Rotate (Shift for 15° steps)</title>
+                </circle>
+            </g>
+        );
+    }, [handleResizeMouseDown, getTextLayout, getUprightBounds]);
 
     const addElement = useCallback((type: string) => {
         setCanvasItems(prevItems => {
@@ -2835,16 +4290,19 @@ const IntegratedTemplateEditor: React.FC = () => {
                     newItem = { id: newId, type: 'circle', x: 100, y: 100, radius: 30, color: '#ff0000', zIndex: newZIndex };
                     break;
                 case 'text':
-                    newItem = { id: newId, type: 'text', x: 50, y: 50, text: 'New Text', fontSize: 14, color: '#000000', fontFamily: availableFonts[0].value, bold: false, italic: false, underline: false, zIndex: newZIndex };
+                    newItem = { id: newId, type: 'text', x: 50, y: 50, text: 'New Text', fontSize: 14, color: '#000000', fontFile: DEFAULT_FONT_FILE, bold: false, italic: false, underline: false, zIndex: newZIndex };
                     break;
                 case 'line':
                     newItem = { id: newId, type: 'line', x: 50, y: 50, x2: 150, y2: 50, strokeWidth: 2, thickness: 1, color: '#000000', zIndex: newZIndex };
                     break;
                 case 'barcode':
-                    newItem = { id: newId, type: 'barcode', x: 50, y: 50, width: 100, height: 30, data: '123456789', color: '#000000', zIndex: newZIndex };
+                    newItem = fitBoxToSymbol({ id: newId, type: 'barcode', x: 50, y: 50, width: 100, height: 30, data: '123456789', captionFont: NEW_BARCODE_CAPTION_FONT, extra: { ...NEW_BARCODE_SETTINGS }, color: '#000000', zIndex: newZIndex });
                     break;
                 case 'qrcode':
-                    newItem = { id: newId, type: 'qrcode', x: 50, y: 50, size: 50, data: 'https://example.com', color: '#000000', zIndex: newZIndex };
+                    newItem = fitBoxToSymbol({ id: newId, type: 'qrcode', x: 50, y: 50, size: 50, data: 'https://example.com', color: '#000000', zIndex: newZIndex });
+                    break;
+                case 'price':
+                    newItem = { id: newId, type: 'price', x: 50, y: 50, data: '[price]', fontSize: 32, fontFile: DEFAULT_FONT_FILE, separator: ',', currency: '€', currencyPosition: 'after', raisedDecimals: true, integerDigits: 2, color: '#000000', zIndex: newZIndex };
                     break;
                 case 'image':
                     newItem = { id: newId, type: 'image', x: 50, y: 50, width: 100, height: 100, filename: '', originalFilename: '', color: '#000000', zIndex: newZIndex };
@@ -2906,402 +4364,21 @@ const IntegratedTemplateEditor: React.FC = () => {
         });
     }, []);
 
-    // Generate YAML content as a string (helper function for both export and save)
+    // Generate YAML content as a string (shared by export and server save)
     const generateYAMLContent = useCallback(async (): Promise<string> => {
-        const colorToFill = (color: string) => {
-            switch (color.toLowerCase()) {
-                case '#000000':
-                case '#000':
-                case 'black':
-                    return 0;
-                case '#ffffff':
-                case '#fff':
-                case 'white':
-                    return 1;
-                case '#ffff00':
-                case '#ff0':
-                case 'yellow':
-                    return 2;
-                case '#ff0000':
-                case '#f00':
-                case 'red':
-                    return 3;
-                default:
-                    return 0;
-            }
-        };
-
-        const usedFontCombinations = new Set<string>();
-        const textElements = canvasItems.filter(item => item.type === 'text') as TextItem[];
-        
-        textElements.forEach(item => {
-            const fontFamily = item.fontFamily || availableFonts[0].value;
-            const combinationKey = `${fontFamily}|${item.fontSize}`;
-            usedFontCombinations.add(combinationKey);
-        });
-
-        const defaultCombination = `${availableFonts[0].value}|16`;
-        if (!usedFontCombinations.has(defaultCombination)) {
-            usedFontCombinations.add(defaultCombination);
-        }
-
-        const fonts: string[] = [];
-        const fontCombinationToIndex = new Map<string, number>();
-        let fontIndex = 0;
-
-        usedFontCombinations.forEach(combination => {
-            const [fontFamily, fontSize] = combination.split('|');
-            const eslFontName = getEslFontFromWebFont(fontFamily);
-            fonts.push(`${eslFontName}:${fontSize}`);
-            fontCombinationToIndex.set(combination, fontIndex++);
-        });
-
-        const defaultFontIndex = fontCombinationToIndex.get(defaultCombination) || 0;
-
-        const yamlData: any = {
-            fontbase: 'fonts/',
-            fonts: fonts,
-            type: eslType,
-            x_res: canvasWidth,
-            y_res: canvasHeight,
-            axis: eslAxis,
-            el: [] as any[]
-        };
-
-        canvasItems.forEach((item, index) => {
-            if (item.type === 'text') {
-                const safeText = String(item.text || '');
-                const bracketMatch = safeText.match(/^\[(.+)\]$/);
-                
-                const varName = bracketMatch ? bracketMatch[1] : undefined;
-                const textValue = bracketMatch ? undefined : safeText;
-                
-                const fontFamily = (item as TextItem).fontFamily || availableFonts[0].value;
-                const combinationKey = `${fontFamily}|${item.fontSize}`;
-                const fontIdx = fontCombinationToIndex.get(combinationKey) || defaultFontIndex;
-                
-                const element: any = {
-                    type: 'text',
-                    font: fontIdx,
-                    fill: colorToFill(item.color),
-                    anchor: (item as TextItem).anchor || 'lt',
-                    x: item.x,
-                    y: item.y
-                };
-                
-                if (varName) {
-                    element.var = varName;
-                } else if (textValue !== undefined) {
-                    element.text = textValue;
-                }
-                
-                yamlData.el.push(element);
-            } else if (item.type === 'rect') {
-                const element: any = {
-                    type: 'rect',
-                    fill: colorToFill(item.color),
-                    x1: item.x,
-                    y1: item.y,
-                    x2: item.x + item.width,
-                    y2: item.y + item.height
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'line') {
-                const element: any = {
-                    type: 'line',
-                    fill: colorToFill(item.color),
-                    x1: item.x,
-                    y1: item.y,
-                    x2: (item as LineItem).x2,
-                    y2: (item as LineItem).y2
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'circle') {
-                const element: any = {
-                    type: 'circle',
-                    fill: colorToFill(item.color),
-                    x: item.x,
-                    y: item.y,
-                    r: (item as CircleItem).radius
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'image') {
-                const element: any = {
-                    type: 'img',
-                    filename: (item as ImageItem).filename || 'image.bmp',
-                    size_x: item.width,
-                    size_y: item.height,
-                    x_pos: item.x,
-                    y_pos: item.y
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'barcode') {
-                const safeData = String((item as BarcodeItem).data || '');
-                const bracketMatch = safeData.match(/^\[(.+)\]$/);
-                const varName = bracketMatch ? bracketMatch[1] : 'barcode';
-                
-                const element: any = {
-                    type: 'code128',
-                    var: varName,
-                    x: item.x,
-                    y: item.y,
-                    height: item.height,
-                    font: defaultFontIndex,
-                    font_size: 3,
-                    quiet_zone: 0,
-                    write_text: true,
-                    text_distance: -1
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'qrcode') {
-                const safeData = String((item as QRCodeItem).data || '');
-                const bracketMatch = safeData.match(/^\[(.+)\]$/);
-                const varName = bracketMatch ? bracketMatch[1] : 'qrdata';
-                
-                const element: any = {
-                    type: 'qrcode',
-                    var: varName,
-                    x: item.x,
-                    y: item.y,
-                    scale: 1
-                };
-                yamlData.el.push(element);
-            }
-        });
-
-        const yaml = await import('yaml');
-        const yamlString = yaml.stringify(yamlData);
-
-        return yamlString;
-    }, [canvasItems, canvasWidth, canvasHeight, eslType, eslAxis]);
+        return serializeTemplate(
+            canvasItems,
+            { width: canvasWidth, height: canvasHeight, eslType, axis: eslAxis, model: labelModel },
+            templateExtras,
+            canvasGroups,
+            canvasGuides,
+            measureFont
+        );
+    }, [canvasItems, canvasWidth, canvasHeight, eslType, eslAxis, labelModel, templateExtras, canvasGroups, canvasGuides, measureFont]);
 
     // YAML Export function based on ESL template structure
     const exportToYAML = useCallback(async () => {
-        // Helper function to convert color hex to fill value (0 or 1)
-        const colorToFill = (color: string) => {
-            // Map specific colors to fill values: black=0, white=1, yellow=2, red=3
-            switch (color.toLowerCase()) {
-                case '#000000':
-                case '#000':
-                case 'black':
-                    return 0;
-                case '#ffffff':
-                case '#fff':
-                case 'white':
-                    return 1;
-                case '#ffff00':
-                case '#ff0':
-                case 'yellow':
-                    return 2;
-                case '#ff0000':
-                case '#f00':
-                case 'red':
-                    return 3;
-                default:
-                    return 0; // Default to black if unknown color
-            }
-        };
-
-        // Create a font for each unique font family + size combination used in text elements
-        const usedFontCombinations = new Set<string>();
-        const textElements = canvasItems.filter(item => item.type === 'text') as TextItem[];
-        
-        // Collect all unique font family + size combinations from user-defined text elements
-        textElements.forEach(item => {
-            const fontFamily = item.fontFamily || availableFonts[0].value;
-            const combinationKey = `${fontFamily}|${item.fontSize}`;
-            usedFontCombinations.add(combinationKey);
-        });
-
-        // Always include a default font combination for template variables if not already present
-        const defaultCombination = `${availableFonts[0].value}|16`;
-        if (!usedFontCombinations.has(defaultCombination)) {
-            usedFontCombinations.add(defaultCombination);
-        }
-
-        // Generate fonts array with appropriate ESL font files for each combination
-        const fonts: any[] = [];
-        const fontCombinationToIndex = new Map<string, number>();
-        
-        Array.from(usedFontCombinations).sort().forEach((combination, index) => {
-            const [fontFamily, fontSize] = combination.split('|');
-            fonts.push({
-                type: getEslFontFromWebFont(fontFamily),
-                size: parseInt(fontSize)
-            });
-            fontCombinationToIndex.set(combination, index);
-        });
-
-        // Get the index for default font combination for template variables
-        const defaultFontIndex = fontCombinationToIndex.get(defaultCombination) || 0;
-
-        // Generate the YAML structure with new fields
-        const yamlData: any = {
-            fontbase: 'fonts/',
-            fonts: fonts,
-            type: eslType,
-            x_res: canvasWidth,
-            y_res: canvasHeight,
-            axis: eslAxis,
-            el: [] as any[]
-        };
-
-        // Convert canvas items to ESL elements
-        canvasItems.forEach((item, index) => {
-            if (item.type === 'text') {
-                // Check if text contains brackets indicating a variable
-                const safeText = String(item.text || '');
-                const bracketMatch = safeText.match(/^\[(.+)\]$/);
-                
-                if (bracketMatch) {
-                    // Text is in format [variableName] - create a var element
-                    const varName = bracketMatch[1];
-                    const fontFamily = item.fontFamily || availableFonts[0].value;
-                    const combinationKey = `${fontFamily}|${item.fontSize}`;
-                    const element = {
-                        type: 'var',
-                        fill: colorToFill(item.color),
-                        var: varName,
-                        x: item.x,
-                        y: item.y,
-                        anchor: item.anchor || 'ls',
-                        font: fontCombinationToIndex.get(combinationKey) || 0
-                    };
-                    yamlData.el.push(element);
-                } else {
-                    // Regular text element
-                    const fontFamily = item.fontFamily || availableFonts[0].value;
-                    const combinationKey = `${fontFamily}|${item.fontSize}`;
-                    const element: any = {
-                        type: 'text',
-                        fill: colorToFill(item.color),
-                        text: item.text,
-                        x: item.x,
-                        y: item.y,
-                        anchor: item.anchor || 'ls',
-                        font: fontCombinationToIndex.get(combinationKey) || 0
-                    };
-                    
-                    // Add formatting flags as comments (for reference, ESL may not support these)
-                    if (item.bold || item.italic || item.underline) {
-                        element._formatting = {
-                            bold: item.bold || false,
-                            italic: item.italic || false,
-                            underline: item.underline || false
-                        };
-                    }
-                    
-                    yamlData.el.push(element);
-                }
-            } else if (item.type === 'rect') {
-                // Convert rectangles to rect elements with x1,y1,x2,y2 format
-                const element = {
-                    type: 'rect',
-                    fill: colorToFill(item.color),
-                    x1: item.x,
-                    y1: item.y,
-                    x2: item.x + item.width,
-                    y2: item.y + item.height
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'line') {
-                // Convert lines to rect elements using the line's thickness
-                // Determine if line is horizontal or vertical based on orientation
-                const isHorizontal = Math.abs(item.x2 - item.x) > Math.abs(item.y2 - item.y);
-                const thickness = item.thickness || 1;
-                
-                let x1, y1, x2, y2;
-                
-                if (isHorizontal) {
-                    // Horizontal line - create a thin rectangle
-                    x1 = Math.min(item.x, item.x2);
-                    x2 = Math.max(item.x, item.x2);
-                    y1 = Math.min(item.y, item.y2);
-                    y2 = y1 + thickness;
-                } else {
-                    // Vertical line - create a thin rectangle
-                    x1 = Math.min(item.x, item.x2);
-                    x2 = x1 + thickness;
-                    y1 = Math.min(item.y, item.y2);
-                    y2 = Math.max(item.y, item.y2);
-                }
-                
-                const element = {
-                    type: 'rect',
-                    fill: colorToFill(item.color),
-                    x1: x1,
-                    y1: y1,
-                    x2: x2,
-                    y2: y2
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'barcode') {
-                // Check if data contains brackets indicating a variable
-                const safeData = String(item.data || '');
-                const bracketMatch = safeData.match(/^\[(.+)\]$/);
-                
-                const varName = bracketMatch ? bracketMatch[1] : 'gtin';
-                
-                // Convert barcode to ESL barcode element
-                const element: any = {
-                    type: 'barcode',
-                    variant: 'code128',
-                    width: 0.1,
-                    height: 1,
-                    var: varName,
-                    x: item.x,
-                    y: item.y,
-                    scale: 1,
-                    font_size: 3,
-                    quiet_zone: 0,
-                    write_text: true,
-                    text_distance: -1
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'qrcode') {
-                // Check if data contains brackets indicating a variable
-                const safeData = String(item.data || '');
-                const bracketMatch = safeData.match(/^\[(.+)\]$/);
-                
-                const varName = bracketMatch ? bracketMatch[1] : 'qrdata';
-                
-                // Convert QR code to ESL qrcode element
-                const element: any = {
-                    type: 'qrcode',
-                    var: varName,
-                    x: item.x,
-                    y: item.y,
-                    scale: 1
-                };
-                yamlData.el.push(element);
-            } else if (item.type === 'image') {
-                // Convert image to ESL image element
-                // Use originalFilename if available, otherwise generate a filename
-                let filename = (item as ImageItem).originalFilename || item.filename;
-                
-                // If filename is still a data URL, generate a default filename
-                if (filename.startsWith('data:')) {
-                    const extension = filename.includes('image/png') ? '.png' : '.bmp';
-                    filename = `image_${item.width}x${item.height}${extension}`;
-                }
-                
-                const element: any = {
-                    type: 'image',
-                    fill: 0,
-                    filename: filename,
-                    size_x: item.width,
-                    size_y: item.height,
-                    x_pos: item.x,
-                    y_pos: item.y
-                };
-                
-                console.log('Exporting image element:', element); // Debug log
-                yamlData.el.push(element);
-            }
-        });
-
-        // Convert to YAML string
-        const yamlString = convertToYAMLString(yamlData);
+        const yamlString = await generateYAMLContent();
         
         // Use File System Access API if available (Chrome/Edge), otherwise fallback to download
         if ('showSaveFilePicker' in window) {
@@ -3379,255 +4456,80 @@ const IntegratedTemplateEditor: React.FC = () => {
             document.body.removeChild(link);
             URL.revokeObjectURL(url);
         }
-    }, [canvasItems, canvasWidth, canvasHeight, templateFilename, lastSavedFilename, eslType, eslAxis]);
-
-    // Export to JPG function with pixel-accurate rendering
-    const exportToJPG = useCallback(async () => {
-        // Create a canvas for rendering
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        
-        // Set canvas size to exact template dimensions
-        canvas.width = canvasWidth;
-        canvas.height = canvasHeight;
-        
-        // Disable anti-aliasing for pixel-perfect rendering
-        ctx.imageSmoothingEnabled = false;
-        ctx.textBaseline = 'alphabetic'; // Match SVG text baseline behavior
-        
-        // Fill background with white
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-        
-        // Helper function to get exact color values
-        const getExactColor = (color: string): string => {
-            switch (color.toLowerCase()) {
-                case '#000000':
-                case '#000':
-                case 'black':
-                    return '#000000';
-                case '#ffffff':
-                case '#fff':
-                case 'white':
-                    return '#ffffff';
-                case '#ffff00':
-                case '#ff0':
-                case 'yellow':
-                    return '#ffff00';
-                case '#ff0000':
-                case '#f00':
-                case 'red':
-                    return '#ff0000';
-                default:
-                    return '#000000';
-            }
-        };
+    }, [generateYAMLContent, templateFilename, lastSavedFilename]);
 
-        // Load all images first
-        const imageElements: Map<number, HTMLImageElement> = new Map();
-        const imagePromises = canvasItems
-            .filter(item => item.type === 'image' && item.filename)
-            .map(item => {
-                return new Promise<void>((resolve, reject) => {
-                    const img = new Image();
-                    img.crossOrigin = 'anonymous'; // Allow cross-origin if needed
-                    img.onload = () => {
-                        imageElements.set(item.id, img);
-                        resolve();
-                    };
-                    img.onerror = () => {
-                        console.error(`Failed to load image: ${(item as ImageItem).filename}`);
-                        resolve(); // Continue even if image fails to load
-                    };
-                    img.src = `/api/get-image?filename=${encodeURIComponent((item as ImageItem).filename)}`;
-                });
+    // Render the template on the server, exactly as the tag image generator will
+    const requestRender = useCallback(async (format: 'png' | 'bmp'): Promise<{ blob: Blob; warnings: string[] } | null> => {
+        try {
+            const content = await generateYAMLContent();
+            const response = await fetch('/api/render', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ content, format, variables: activeSampleRecord || {} })
             });
+            if (!response.ok) {
+                const data = await response.json();
+                alert(data.details ? `${data.error}:\n${data.details}` : data.error);
+                return null;
+            }
+            const warningHeader = response.headers.get('X-Render-Warnings');
+            return {
+                blob: await response.blob(),
+                warnings: warningHeader ? JSON.parse(decodeURIComponent(warningHeader)) : []
+            };
+        } catch (error) {
+            alert(`Failed to render template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return null;
+        }
+    }, [generateYAMLContent, activeSampleRecord]);
 
-        // Wait for all images to load
-        await Promise.all(imagePromises);
-        
-        // Render each element
-        canvasItems.forEach((item) => {
-            const exactColor = getExactColor(item.color);
-            
-            if (item.type === 'rect') {
-                ctx.fillStyle = exactColor;
-                ctx.fillRect(
-                    Math.round(item.x),
-                    Math.round(item.y),
-                    Math.round(item.width),
-                    Math.round(item.height)
-                );
-            } else if (item.type === 'text') {
-                ctx.fillStyle = exactColor;
-                
-                // Use the same font family as in the SVG display
-                const fontFamily = (item as TextItem).fontFamily || availableFonts[0].value;
-                const fontWeight = ((item as TextItem).bold ?? false) ? 'bold' : 'normal';
-                const fontStyle = ((item as TextItem).italic ?? false) ? 'italic' : 'normal';
-                
-                ctx.font = `${fontStyle} ${fontWeight} ${Math.round(item.fontSize)}px ${fontFamily}`;
-                ctx.textBaseline = 'hanging'; // Use 'hanging' to match SVG's dominantBaseline="hanging"
-                
-                // Only constrain left boundary - allow text to extend beyond right edge
-                const constrainedX = Math.max(0, item.x);
-                
-                // Handle multi-line text
-                const text = String(item.text || '');
-                const lines = text.split('\n');
-                const lineHeight = item.fontSize * 1.2;
-                
-                lines.forEach((line, index) => {
-                    const y = Math.round(item.y - 2 + (index * lineHeight));
-                    ctx.fillText(
-                        line,
-                        Math.round(constrainedX - 1), // Offset by -1 for x-axis font spacing
-                        y // Offset by -2 and add line spacing
-                    );
-                    
-                    // Draw underline if enabled
-                    if ((item as TextItem).underline ?? false) {
-                        const textWidth = ctx.measureText(line).width;
-                        const underlineY = y + item.fontSize + 1;
-                        ctx.beginPath();
-                        ctx.moveTo(Math.round(constrainedX - 1), underlineY);
-                        ctx.lineTo(Math.round(constrainedX - 1 + textWidth), underlineY);
-                        ctx.strokeStyle = exactColor;
-                        ctx.lineWidth = Math.max(1, Math.round(item.fontSize / 12));
-                        ctx.stroke();
-                    }
+    // Render the selected revision and the editor's template on the server, so the comparison shows
+    // both exactly as the tag image generator draws them
+    useEffect(() => {
+        setRevisionImages(null);
+        if (!selectedRevision) return;
+        let cancelled = false;
+        const render = async (content: Promise<string> | string): Promise<RevisionImage> => {
+            try {
+                const response = await fetch('/api/render', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ content: await content, format: 'png', variables: activeSampleRecord || {} })
                 });
-            } else if (item.type === 'line') {
-                // Render line as a rectangle with specified thickness
-                const thickness = item.thickness || 1;
-                const isHorizontal = Math.abs(item.x2 - item.x) > Math.abs(item.y2 - item.y);
-                const rectX = Math.min(item.x, item.x2);
-                const rectY = Math.min(item.y, item.y2) - (isHorizontal ? thickness / 2 : 0);
-                const rectWidth = isHorizontal ? Math.abs(item.x2 - item.x) : thickness;
-                const rectHeight = isHorizontal ? thickness : Math.abs(item.y2 - item.y);
-                
-                ctx.fillStyle = exactColor;
-                ctx.fillRect(
-                    Math.round(rectX),
-                    Math.round(rectY),
-                    Math.round(rectWidth),
-                    Math.round(rectHeight)
-                );
-            } else if (item.type === 'barcode') {
-                // Render barcode as solid rectangle with bars
-                ctx.fillStyle = '#ffffff';
-                ctx.fillRect(
-                    Math.round(item.x),
-                    Math.round(item.y),
-                    Math.round(item.width),
-                    Math.round(item.height)
-                );
-                
-                // Draw barcode bars
-                ctx.fillStyle = exactColor;
-                const barWidth = Math.max(1, Math.round(item.width / 15));
-                for (let i = 0; i < 10; i++) {
-                    const barX = Math.round(item.x + 5 + i * (item.width - 10) / 10);
-                    ctx.fillRect(
-                        barX,
-                        Math.round(item.y + 3),
-                        barWidth,
-                        Math.round(item.height - 6)
-                    );
-                }
-            } else if (item.type === 'qrcode') {
-                // Render QR code as grid pattern
-                ctx.fillStyle = '#ffffff';
-                ctx.fillRect(
-                    Math.round(item.x),
-                    Math.round(item.y),
-                    Math.round(item.size),
-                    Math.round(item.size)
-                );
-                
-                // Draw QR pattern
-                ctx.fillStyle = exactColor;
-                const cellSize = Math.max(1, Math.round(item.size / 25));
-                for (let row = 0; row < 25; row++) {
-                    for (let col = 0; col < 25; col++) {
-                        // Simple QR pattern simulation
-                        if ((row + col) % 3 === 0 || (row < 7 && col < 7) || (row < 7 && col > 17) || (row > 17 && col < 7)) {
-                            ctx.fillRect(
-                                Math.round(item.x + col * cellSize),
-                                Math.round(item.y + row * cellSize),
-                                cellSize,
-                                cellSize
-                            );
-                        }
-                    }
-                }
-            } else if (item.type === 'image') {
-                // Render image
-                const img = imageElements.get(item.id);
-                if (img) {
-                    ctx.drawImage(
-                        img,
-                        Math.round(item.x),
-                        Math.round(item.y),
-                        Math.round(item.width),
-                        Math.round(item.height)
-                    );
+                if (!response.ok) {
+                    const data = await response.json();
+                    return { error: data.details ? `${data.error}: ${data.details}` : data.error };
                 }
+                return { url: URL.createObjectURL(await response.blob()) };
+            } catch (error) {
+                return { error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+        };
+        Promise.all([render(selectedRevision.content), render(generateYAMLContent())]).then(([revision, current]) => {
+            if (cancelled) {
+                [revision, current].forEach(image => image.url && URL.revokeObjectURL(image.url));
+                return;
             }
+            setRevisionImages({ revision, current });
         });
-        
-        // Get the image data and quantize to exact 4 colors
-        const imageData = ctx.getImageData(0, 0, canvasWidth, canvasHeight);
-        const data = imageData.data;
-        
-        // Define exact RGB values for our 4 colors
-        const colors = {
-            black: [0, 0, 0],
-            white: [255, 255, 255],
-            red: [255, 0, 0],
-            yellow: [255, 255, 0]
+        return () => {
+            cancelled = true;
         };
-        
-        // Function to find closest exact color
-        const getClosestColor = (r: number, g: number, b: number): number[] => {
-            let minDistance = Infinity;
-            let closestColor = colors.black;
-            
-            Object.values(colors).forEach(color => {
-                const distance = Math.sqrt(
-                    Math.pow(r - color[0], 2) +
-                    Math.pow(g - color[1], 2) +
-                    Math.pow(b - color[2], 2)
-                );
-                if (distance < minDistance) {
-                    minDistance = distance;
-                    closestColor = color;
-                }
-            });
-            
-            return closestColor;
+    }, [selectedRevision, generateYAMLContent, activeSampleRecord]);
+
+    // Release the comparison images once they are replaced or the panel closes
+    useEffect(() => {
+        if (!revisionImages) return;
+        return () => {
+            [revisionImages.revision, revisionImages.current].forEach(image => image.url && URL.revokeObjectURL(image.url));
         };
-        
-        // Quantize every pixel to exact colors
-        for (let i = 0; i < data.length; i += 4) {
-            const r = data[i];
-            const g = data[i + 1];
-            const b = data[i + 2];
-            
-            const exactColor = getClosestColor(r, g, b);
-            data[i] = exactColor[0];     // R
-            data[i + 1] = exactColor[1]; // G
-            data[i + 2] = exactColor[2]; // B
-            data[i + 3] = 255;           // A (full opacity)
-        }
-        
-        // Put the quantized data back
-        ctx.putImageData(imageData, 0, 0);
-        
-        // Convert to data URL and show in dialog
-        const dataUrl = canvas.toDataURL('image/jpeg', 1.0);
-        setPreviewImageUrl(dataUrl);
+    }, [revisionImages]);
+
+    const showRenderPreview = useCallback(async () => {
+        const rendered = await requestRender('png');
+        if (!rendered) return;
+        setPreviewImageUrl(URL.createObjectURL(rendered.blob));
+        setPreviewWarnings(rendered.warnings);
         
         // Set initial zoom based on canvas size
         // For sizes larger than 296x128, start at 50% or lower
@@ -3650,15 +4552,122 @@ const IntegratedTemplateEditor: React.FC = () => {
         setPreviewDialogSize({ width: dialogWidth, height: dialogHeight });
         
         setShowPreviewDialog(true);
-    }, [canvasItems, canvasWidth, canvasHeight]);
+    }, [requestRender, canvasWidth, canvasHeight]);
+
+    const downloadRenderedBmp = useCallback(async () => {
+        const rendered = await requestRender('bmp');
+        if (!rendered) return;
+        const url = URL.createObjectURL(rendered.blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'esl-template.bmp';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }, [requestRender]);
+
+    // Columns of the batch records, in the order they first appear
+    const batchColumns = batchRecords.reduce<string[]>((columns, record) => {
+        Object.keys(record).forEach(column => {
+            if (!columns.includes(column)) columns.push(column);
+        });
+        return columns;
+    }, []);
+
+    const loadBatchFile = useCallback(() => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json,.csv';
+        input.onchange = async (e: Event) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (!file) return;
+            let records: TemplateVariables[];
+            try {
+                records = parseSampleRecords(await file.text(), file.name);
+            } catch (error) {
+                alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                return;
+            }
+            if (records.length === 0) {
+                alert(`${file.name} contains no records`);
+                return;
+            }
+
+            // Variables are mapped to the column of the same name, ignoring case, where there is one
+            const columns = Object.keys(records[0]);
+            const mapping: Record<string, string> = {};
+            listVariables(canvasItems).forEach(name => {
+                mapping[name] = columns.find(column => column.toLowerCase() === name.toLowerCase()) || '';
+            });
+            setBatchFileName(file.name);
+            setBatchRecords(records);
+            setBatchMapping(mapping);
+            setBatchKeyColumn(columns[0] || '');
+            setBatchJob(null);
+        };
+        input.click();
+    }, [canvasItems]);
+
+    const startBatchRender = useCallback(async () => {
+        const mapping: Record<string, string> = {};
+        Object.keys(batchMapping).forEach(name => {
+            if (batchMapping[name]) mapping[name] = batchMapping[name];
+        });
+        try {
+            const response = await fetch('/api/batch-render', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    content: await generateYAMLContent(),
+                    records: batchRecords,
+                    mapping,
+                    keyColumn: batchKeyColumn,
+                    format: batchFormat
+                })
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                alert(data.details ? `${data.error}:\n${data.details}` : data.error);
+                return;
+            }
+            setBatchJob(data.job);
+        } catch (error) {
+            alert(`Failed to start batch rendering: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }, [batchMapping, batchRecords, batchKeyColumn, batchFormat, generateYAMLContent]);
+
+    // Poll a running batch job for its progress
+    useEffect(() => {
+        if (!batchJob || batchJob.status !== 'running') return;
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch('/api/batch-status', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ jobId: batchJob.id })
+                });
+                const data = await response.json();
+                setBatchJob(response.ok ? data.job : { ...batchJob, status: 'failed', error: data.error });
+            } catch (error) {
+                setBatchJob({ ...batchJob, status: 'failed', error: 'Lost contact with the server' });
+            }
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [batchJob]);
 
     // Clear canvas function
     const clearCanvas = useCallback(() => {
-        if (window.confirm('Are you sure you want to clear all elements from the canvas? This action cannot be undone.')) {
+        if (window.confirm('Are you sure you want to clear all elements from the canvas?')) {
             setCanvasItems([]);
+            setCanvasGroups([]);
+            setCanvasGuides([]);
             setSelectedIds([]);
+            setTemplateExtras({ rootKeys: {}, elements: [] });
+            setTemplateIssues(null);
             setTemplateFilename('New template');
             setLastSavedFilename(''); // Reset last saved filename
+            setLibraryTemplate(null);
         }
     }, []);
 
@@ -3673,7 +4682,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({ 
-                    path: '/opt/esl/tag_image_gen/tag_image_templates/label_templates/bwry/' 
+                    path: '' 
                 }),
             });
             
@@ -3704,7 +4713,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({ 
-                    path: `/opt/esl/tag_image_gen/tag_image_templates/label_templates/bwry/${folderName}` 
+                    path: folderName 
                 }),
             });
             
@@ -3728,47 +4737,191 @@ const IntegratedTemplateEditor: React.FC = () => {
         setShowFileBrowserDialog(true);
         setSelectedFolder('');
         setAvailableFiles([]);
+        setShowTrash(false);
+        setBrowserContextMenu(null);
         fetchAvailableFolders();
     }, [fetchAvailableFolders]);
 
-    // Open save dialog
-    const openSaveDialog = useCallback(async () => {
-        setShowSaveDialog(true);
-        setSaveSelectedFolder('');
-        setSaveFilename(templateFilename.replace(/\.ya?ml$/i, '') || 'template');
-        
-        // Fetch available folders for saving
+    // Call one of the template library endpoints. Failures are reported to the user and
+    // resolve to null.
+    const postLibraryRequest = useCallback(async (endpoint: string, body: Record<string, unknown>) => {
         try {
-            const response = await fetch('/api/list-folders', {
+            const response = await fetch(`/api/${endpoint}`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ 
-                    path: '/opt/esl/tag_image_gen/tag_image_templates/label_templates/bwry/' 
-                }),
+                body: JSON.stringify(body),
             });
-            
-            if (response.ok) {
+            const data = await response.json();
+            if (!response.ok) {
+                alert(data.details ? `${data.error}: ${data.details}` : data.error);
+                return null;
+            }
+            return data;
+        } catch (error) {
+            console.error(`Error calling ${endpoint}:`, error);
+            alert('Could not reach the template library');
+            return null;
+        }
+    }, []);
+
+    const fetchTrash = useCallback(async () => {
+        setBrowserLoading(true);
+        const data = await postLibraryRequest('list-trash', {});
+        setTrashEntries(data ? data.entries : []);
+        setBrowserLoading(false);
+    }, [postLibraryRequest]);
+
+    const createLibraryFolder = useCallback(async () => {
+        const name = prompt('New folder name:');
+        if (!name) return;
+        if (await postLibraryRequest('create-folder', { path: name })) {
+            fetchAvailableFolders();
+        }
+    }, [postLibraryRequest, fetchAvailableFolders]);
+
+    const renameLibraryFolder = useCallback(async (folder: string) => {
+        const newName = prompt(`Rename folder "${folder}" to:`, folder);
+        if (!newName || newName === folder) return;
+        if (await postLibraryRequest('rename-folder', { path: folder, newName })) {
+            fetchAvailableFolders();
+        }
+    }, [postLibraryRequest, fetchAvailableFolders]);
+
+    const renameLibraryTemplate = useCallback(async (file: string) => {
+        const newName = prompt(`Rename "${file}" to:`, file);
+        if (!newName || newName === file) return;
+        if (await postLibraryRequest('rename-template', { folderPath: selectedFolder, fileName: file, newName })) {
+            fetchFilesInFolder(selectedFolder);
+        }
+    }, [postLibraryRequest, fetchFilesInFolder, selectedFolder]);
+
+    const duplicateLibraryTemplate = useCallback(async (file: string) => {
+        if (await postLibraryRequest('duplicate-template', { folderPath: selectedFolder, fileName: file })) {
+            fetchFilesInFolder(selectedFolder);
+        }
+    }, [postLibraryRequest, fetchFilesInFolder, selectedFolder]);
+
+    const moveLibraryTemplate = useCallback(async (file: string) => {
+        const otherFolders = availableFolders.filter(folder => folder !== selectedFolder);
+        const targetFolder = prompt(`Move "${file}" to folder:\n${otherFolders.join(', ')}`);
+        if (!targetFolder || targetFolder === selectedFolder) return;
+        if (await postLibraryRequest('move-template', { folderPath: selectedFolder, fileName: file, targetFolder })) {
+            fetchFilesInFolder(selectedFolder);
+        }
+    }, [postLibraryRequest, fetchFilesInFolder, availableFolders, selectedFolder]);
+
+    const deleteLibraryTemplate = useCallback(async (file: string) => {
+        if (!confirm(`Move "${file}" to the trash? It can be restored from the trash later.`)) return;
+        if (await postLibraryRequest('delete-template', { folderPath: selectedFolder, fileName: file })) {
+            fetchFilesInFolder(selectedFolder);
+        }
+    }, [postLibraryRequest, fetchFilesInFolder, selectedFolder]);
+
+    const restoreLibraryTemplate = useCallback(async (entry: TrashEntry) => {
+        if (await postLibraryRequest('restore-template', { id: entry.id })) {
+            fetchTrash();
+            fetchAvailableFolders();
+        }
+    }, [postLibraryRequest, fetchTrash, fetchAvailableFolders]);
+
+    // Carry out a file browser context menu action and close the menu
+    const runBrowserAction = useCallback((action: () => void) => {
+        setBrowserContextMenu(null);
+        action();
+    }, []);
+
+    // Open save dialog
+    const openSaveDialog = useCallback(async () => {
+        setShowSaveDialog(true);
+        setSaveSelectedFolder(libraryTemplate ? libraryTemplate.folder : '');
+        setSaveFilename(templateFilename.replace(/\.ya?ml$/i, '') || 'template');
+        
+        // Fetch available folders for saving
+        try {
+            const response = await fetch('/api/list-folders', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ 
+                    path: '' 
+                }),
+            });
+            
+            if (response.ok) {
                 const data = await response.json();
                 setSaveFolders(data.folders || []);
             }
         } catch (error) {
             console.error('Error fetching folders:', error);
         }
-    }, [templateFilename]);
+    }, [templateFilename, libraryTemplate]);
+
+    // Write YAML to a library file. `baseVersion` is the hash of the version being replaced;
+    // a 409 from the server opens the conflict dialog instead.
+    const writeTemplateToServer = useCallback(async (folder: string, filename: string, content: string, baseVersion?: string) => {
+        const response = await fetch('/api/save-template', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                folderPath: folder,
+                filename,
+                content,
+                baseVersion,
+                author: saveAuthor,
+                message: saveMessage
+            }),
+        });
+        const data = await response.json();
+        
+        if (response.ok) {
+            alert(`Template saved successfully to ${folder}/${filename}`);
+            setShowSaveDialog(false);
+            setSaveConflict(null);
+            setSaveMessage('');
+            setTemplateFilename(filename);
+            setLastSavedFilename(filename);
+            setLibraryTemplate({ folder, fileName: filename, version: data.version });
+        } else if (response.status === 409) {
+            setShowSaveDialog(false);
+            setShowConflictDiff(false);
+            setSaveConflict({
+                folder,
+                fileName: filename,
+                content,
+                error: data.error,
+                details: data.details,
+                currentContent: data.currentContent,
+                currentVersion: data.currentVersion
+            });
+        } else if (Array.isArray(data.errors)) {
+            // The server rejected the template; list the problems next to the canvas
+            setShowSaveDialog(false);
+            setSaveConflict(null);
+            setTemplateIssues({ title: `Could not save ${filename}`, errors: data.errors });
+        } else {
+            const errorMsg = data.details 
+                ? `${data.error}\n\n${data.details}` 
+                : (data.error || 'Unknown error');
+            alert(`Failed to save template:\n${errorMsg}`);
+        }
+    }, [saveAuthor, saveMessage]);
 
     // Save template to server
     const saveTemplateToServer = useCallback(async () => {
-        if (!saveSelectedFolder || !saveFilename) {
-            alert('Please select a folder and enter a filename');
+        if (!saveFilename) {
+            alert('Please enter a filename');
             return;
         }
 
         setSaveLoading(true);
         
         try {
-            // Generate YAML content (reuse exportToYAML logic but get the content)
+            // Same serializer as File → Save, so both paths write identical YAML
             const yamlContent = await generateYAMLContent();
             
             // Ensure filename ends with .yml
@@ -3776,44 +4929,45 @@ const IntegratedTemplateEditor: React.FC = () => {
                 ? saveFilename 
                 : `${saveFilename}.yml`;
             
-            const folderPath = `/opt/esl/tag_image_gen/tag_image_templates/label_templates/bwry/${saveSelectedFolder}`;
-            
-            const response = await fetch('/api/save-template', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    folderPath,
-                    filename,
-                    content: yamlContent
-                }),
-            });
-            
-            if (response.ok) {
-                alert(`Template saved successfully to ${saveSelectedFolder}/${filename}`);
-                setShowSaveDialog(false);
-                setTemplateFilename(filename);
-                setLastSavedFilename(filename);
-            } else {
-                const data = await response.json();
-                const errorMsg = data.details 
-                    ? `${data.error}\n\n${data.details}` 
-                    : (data.error || 'Unknown error');
-                alert(`Failed to save template:\n${errorMsg}`);
-            }
+            // Replacing the file the template was loaded from is only allowed while it is unchanged
+            const baseVersion = libraryTemplate && libraryTemplate.folder === saveSelectedFolder && libraryTemplate.fileName === filename
+                ? libraryTemplate.version.hash
+                : undefined;
+
+            await writeTemplateToServer(saveSelectedFolder, filename, yamlContent, baseVersion);
         } catch (error) {
             console.error('Error saving template:', error);
             alert(`Failed to save template: ${error instanceof Error ? error.message : 'Unknown error'}`);
         } finally {
             setSaveLoading(false);
         }
-    }, [saveSelectedFolder, saveFilename]);
+    }, [saveSelectedFolder, saveFilename, generateYAMLContent, libraryTemplate, writeTemplateToServer]);
 
-    // Open image browser dialog
-    const openImageBrowser = useCallback(async () => {
-        setShowImageBrowserDialog(true);
-        setSelectedImage('');
+    // Save over the version that caused the conflict. Should that have changed again in the
+    // meantime, the server reports a new conflict.
+    const overwriteConflictingTemplate = useCallback(async () => {
+        if (!saveConflict) return;
+        setSaveLoading(true);
+        try {
+            await writeTemplateToServer(saveConflict.folder, saveConflict.fileName, saveConflict.content, saveConflict.currentVersion.hash);
+        } catch (error) {
+            console.error('Error saving template:', error);
+            alert(`Failed to save template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setSaveLoading(false);
+        }
+    }, [saveConflict, writeTemplateToServer]);
+
+    // Back to the save dialog with a new name suggested, leaving the other version alone
+    const saveConflictingTemplateAs = useCallback(() => {
+        if (!saveConflict) return;
+        setSaveConflict(null);
+        setSaveSelectedFolder(saveConflict.folder);
+        setSaveFilename(`${saveConflict.fileName.replace(/\.ya?ml$/i, '')}-copy`);
+        setShowSaveDialog(true);
+    }, [saveConflict]);
+
+    const loadImageList = useCallback(async () => {
         setImageBrowserLoading(true);
         
         try {
@@ -3822,9 +4976,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ 
-                    path: '/opt/esl/tag_image_gen/images' 
-                }),
+                body: JSON.stringify({}),
             });
             
             if (response.ok) {
@@ -3842,6 +4994,163 @@ const IntegratedTemplateEditor: React.FC = () => {
         }
     }, []);
 
+    // Open image browser dialog
+    const openImageBrowser = useCallback(() => {
+        setShowImageBrowserDialog(true);
+        setSelectedImage('');
+        loadImageList();
+    }, [loadImageList]);
+
+    const closeImageUpload = useCallback(() => {
+        if (imageUpload) URL.revokeObjectURL(imageUpload.url);
+        setImageUpload(null);
+        setConversionSettings(null);
+        setConvertedPreview('');
+        setConversionError('');
+    }, [imageUpload]);
+
+    // Pick a PNG, JPEG or SVG to convert. It starts at its natural size, scaled down to fit
+    // the label, reduced to the template's palette.
+    const pickImageUpload = useCallback(() => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.png,.jpg,.jpeg,.svg,image/png,image/jpeg,image/svg+xml';
+        input.onchange = async (e: Event) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (!file) return;
+            const url = URL.createObjectURL(file);
+            try {
+                const [data, natural] = await Promise.all([
+                    new Promise<string>((resolve, reject) => {
+                        const reader = new FileReader();
+                        reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+                        reader.onerror = () => reject(reader.error);
+                        reader.readAsDataURL(file);
+                    }),
+                    new Promise<{ width: number; height: number }>((resolve, reject) => {
+                        const img = new Image();
+                        img.onload = () => resolve({ width: img.naturalWidth || 100, height: img.naturalHeight || 100 });
+                        img.onerror = () => reject(new Error('The file is not an image the browser can show'));
+                        img.src = url;
+                    })
+                ]);
+                const scale = Math.min(1, canvasWidth / natural.width, canvasHeight / natural.height);
+                if (imageUpload) URL.revokeObjectURL(imageUpload.url);
+                setImageUpload({ fileName: file.name, data, url, ...natural });
+                setConversionSettings({
+                    name: `${file.name.replace(/\.[^.]*$/, '').replace(/[^A-Za-z0-9._-]+/g, '_')}.bmp`,
+                    width: Math.max(1, Math.round(natural.width * scale)),
+                    height: Math.max(1, Math.round(natural.height * scale)),
+                    keepAspect: true,
+                    palette: eslType,
+                    method: 'floyd-steinberg',
+                    threshold: 128
+                });
+                setConvertedPreview('');
+                setConversionError('');
+            } catch (error) {
+                URL.revokeObjectURL(url);
+                alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        };
+        input.click();
+    }, [canvasWidth, canvasHeight, eslType, imageUpload]);
+
+    // Width and height follow each other while the aspect ratio is kept
+    const updateConversionSize = useCallback((dimension: 'width' | 'height', value: number) => {
+        if (!imageUpload || !Number.isFinite(value) || value < 1) return;
+        setConversionSettings(settings => {
+            if (!settings) return settings;
+            const size = { width: settings.width, height: settings.height, [dimension]: Math.round(value) };
+            if (settings.keepAspect) {
+                if (dimension === 'width') size.height = Math.max(1, Math.round(size.width * imageUpload.height / imageUpload.width));
+                else size.width = Math.max(1, Math.round(size.height * imageUpload.width / imageUpload.height));
+            }
+            return { ...settings, ...size };
+        });
+    }, [imageUpload]);
+
+    const conversionRequest = useCallback((settings: ImageConversionSettings) => ({
+        data: imageUpload?.data,
+        width: settings.width,
+        height: settings.height,
+        palette: settings.palette,
+        method: settings.method,
+        threshold: settings.threshold
+    }), [imageUpload]);
+
+    // Convert the upload again shortly after the settings stop changing. Typing a new name
+    // does not change the result, so it does not convert again.
+    const previewSettingsKey = conversionSettings ? JSON.stringify({ ...conversionSettings, name: '' }) : '';
+    useEffect(() => {
+        if (!imageUpload || !conversionSettings) return;
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch('/api/upload-image', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ ...conversionRequest(conversionSettings), preview: true })
+                });
+                const data = await response.json();
+                if (cancelled) return;
+                if (!response.ok) {
+                    setConvertedPreview('');
+                    setConversionError(data.details || data.error || 'Conversion failed');
+                    return;
+                }
+                setConvertedPreview(data.preview);
+                setConversionError('');
+            } catch (error) {
+                if (!cancelled) setConversionError('Lost contact with the server');
+            }
+        }, 300);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [imageUpload, previewSettingsKey, conversionRequest]);
+
+    const closeImageBrowser = useCallback(() => {
+        closeImageUpload();
+        setShowImageBrowserDialog(false);
+    }, [closeImageUpload]);
+
+    // Store the converted image in the library and select it
+    const saveImageUpload = useCallback(async () => {
+        if (!imageUpload || !conversionSettings) return;
+        const name = conversionSettings.name.trim();
+        if (!/\.bmp$/i.test(name) || /[\\/]/.test(name)) {
+            alert('Image name must end with .bmp and must not contain slashes');
+            return;
+        }
+
+        setImageUploadSaving(true);
+        try {
+            const upload = (overwrite: boolean) => fetch('/api/upload-image', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ ...conversionRequest(conversionSettings), name, overwrite })
+            });
+            let response = await upload(false);
+            if (response.status === 409 && confirm(`${name} already exists in the image library. Replace it?`)) {
+                response = await upload(true);
+            }
+            const data = await response.json();
+            if (!response.ok) {
+                if (response.status !== 409) alert(`Failed to save image: ${data.details || data.error}`);
+                return;
+            }
+            closeImageUpload();
+            await loadImageList();
+            setSelectedImage(data.path);
+        } catch (error) {
+            alert(`Failed to save image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setImageUploadSaving(false);
+        }
+    }, [imageUpload, conversionSettings, conversionRequest, closeImageUpload, loadImageList]);
+
     // Add selected image to canvas
     const addImageFromBrowser = useCallback(() => {
         console.log('addImageFromBrowser called, selectedImage:', selectedImage);
@@ -3917,467 +5226,165 @@ const IntegratedTemplateEditor: React.FC = () => {
         }
     }, []);
 
+    // Apply a parsed template to the canvas and ESL configuration
+    const applyParsedTemplate = useCallback((parsed: ParsedTemplate) => {
+        if (parsed.width !== undefined) setCanvasWidth(parsed.width);
+        if (parsed.height !== undefined) setCanvasHeight(parsed.height);
+        if (parsed.eslType !== undefined) setEslType(parsed.eslType);
+        if (parsed.axis !== undefined) setEslAxis(parsed.axis);
+        setLabelModel(parsed.model);
+        const profile = labelProfiles.find(candidate => candidate.id === parsed.model);
+        if (profile) setPreviewCaseColor(profile.housing);
+        setTemplateExtras(parsed.extras);
+        setCanvasItems(parsed.items);
+        setCanvasGroups(parsed.groups);
+        setCanvasGuides(parsed.guides);
+        setSelectedIds([]);
+        // A loaded template starts with an empty history: undoing past the load would put the
+        // previous canvas back under the loaded file's name, size and version
+        setHistory(createHistory({ items: parsed.items, groups: parsed.groups, extras: parsed.extras, guides: parsed.guides }));
+    }, [labelProfiles]);
+
+    // Parse, validate and apply template YAML. Schema problems are listed in the issues panel
+    // but do not block loading, so the template can be fixed in the editor and saved again.
+    // Returns false when nothing could be loaded.
+    const loadTemplateContent = useCallback((content: string, sourceName: string): boolean => {
+        const title = `Problems in ${sourceName}`;
+        let doc: EslTemplateDocument;
+        try {
+            doc = parseTemplateYaml(content);
+        } catch (error) {
+            console.error('Error parsing template:', error);
+            setTemplateIssues({
+                title,
+                errors: [{ field: '', message: error instanceof Error ? error.message : 'Unknown error' }]
+            });
+            return false;
+        }
+
+        const { errors } = validateTemplateDocument(doc);
+        const parsed = templateToCanvas(doc);
+
+        if (parsed.items.length === 0 && parsed.extras.elements.length === 0) {
+            errors.push({ field: 'el', message: 'Could not find any elements' });
+            setTemplateIssues({ title, errors });
+            return false;
+        }
+
+        applyParsedTemplate(parsed);
+        setTemplateIssues(errors.length > 0 ? { title, errors } : null);
+        return true;
+    }, [applyParsedTemplate]);
+
     // Separate function to process the template file
     const processTemplateFile = async (file: File) => {
         try {
             const text = await file.text();
-            console.log('YAML file content:', text); // Debug log
-            
-            const parsedData = parseYAMLString(text);
-            console.log('Parsed data:', parsedData); // Debug log
-            
-            if (!parsedData || !parsedData.el || !Array.isArray(parsedData.el) || parsedData.el.length === 0) {
-                alert('Invalid YAML file format. Could not find elements.');
-                console.error('Parsed data is invalid:', parsedData);
+            if (!loadTemplateContent(text, file.name)) {
                 return;
             }
             
-            // Helper function to convert fill value to color
-            const fillToColor = (fill: number | undefined): string => {
-                if (fill === undefined || fill === null) return '#000000';
-                switch (fill) {
-                    case 0: return '#000000'; // black
-                    case 1: return '#ffffff'; // white
-                    case 2: return '#ffff00'; // yellow
-                    case 3: return '#ff0000'; // red
-                    default: return '#000000';
-                }
-            };
-            
-            // Convert YAML elements to canvas items
-            const newItems: CanvasItem[] = [];
-            let nextId = 1;
-            
-            parsedData.el.forEach((element: any) => {
-                try {
-                    console.log('Processing element:', element); // Debug log
-                    
-                    if (!element || !element.type) {
-                        console.warn('Skipping invalid element:', element);
-                        return;
-                    }
-                
-                    if (element.type === 'text' || element.type === 'var') {
-                        // Get font information with safe defaults
-                        const fontIndex = typeof element.font === 'number' ? element.font : 0;
-                        const fonts = Array.isArray(parsedData.fonts) ? parsedData.fonts : [];
-                        const font = fonts[fontIndex] || { size: 16, type: 'DejaVuSans' };
-                        
-                        // Map ESL font back to web font
-                        const webFont = getWebFontFromEslFont(font.type || 'DejaVuSans');
-                        
-                        // Safely extract formatting properties
-                        const formatting = (element._formatting && typeof element._formatting === 'object') ? element._formatting : {};
-                        
-                        const textItem: TextItem = {
-                            id: nextId++,
-                            type: 'text',
-                            x: typeof element.x === 'number' ? element.x : 0,
-                            y: typeof element.y === 'number' ? element.y : 0,
-                            text: element.type === 'var' ? `[${element.var || ''}]` : (element.text || ''),
-                            color: fillToColor(element.fill),
-                            fontSize: typeof font.size === 'number' ? font.size : 16,
-                            fontFamily: webFont,
-                            anchor: element.anchor || 'ls',
-                            bold: formatting.bold === true,
-                            italic: formatting.italic === true,
-                            underline: formatting.underline === true,
-                            zIndex: newItems.length
-                        };
-                        newItems.push(textItem);
-                        console.log('Created text item:', textItem); // Debug log
-                    } else if (element.type === 'rect') {
-                    // Convert rect from x1,y1,x2,y2 to x,y,width,height
-                    const x1 = element.x1 || 0;
-                    const y1 = element.y1 || 0;
-                    const x2 = element.x2 || 0;
-                    const y2 = element.y2 || 0;
-                    
-                    const rectItem: RectItem = {
-                        id: nextId++,
-                        type: 'rect',
-                        x: x1,
-                        y: y1,
-                        width: x2 - x1,
-                        height: y2 - y1,
-                        color: fillToColor(element.fill || 0),
-                        zIndex: newItems.length
-                    };
-                    newItems.push(rectItem);
-                    console.log('Created rect item:', rectItem); // Debug log
-                }
-                } catch (elementError) {
-                    console.error('Error processing element:', element, elementError);
-                    // Continue processing other elements
-                }
-            });
-            
-            console.log('All items created:', newItems); // Debug log
-            
             // Extract filename without extension
             const filenameWithoutExt = file.name.replace(/\.(yaml|yml)$/i, '');
             
-            // Update canvas dimensions from YAML if available
-            if (typeof parsedData.x_res === 'number' && parsedData.x_res > 0) {
-                setCanvasWidth(parsedData.x_res);
-            }
-            if (typeof parsedData.y_res === 'number' && parsedData.y_res > 0) {
-                setCanvasHeight(parsedData.y_res);
-            }
-            
-            // Update ESL type from YAML if available
-            if (parsedData.type === 'bw' || parsedData.type === 'bwry') {
-                setEslType(parsedData.type);
-            }
-            
-            // Update ESL axis from YAML if available
-            if (parsedData.axis === 0 || parsedData.axis === 1) {
-                setEslAxis(parsedData.axis);
-            }
-            
-            // Update canvas with imported items and set filename
-            setCanvasItems(newItems);
-            setSelectedIds([]);
             setTemplateFilename(filenameWithoutExt);
             setLastSavedFilename(filenameWithoutExt); // Track as last saved since it was loaded
+            setLibraryTemplate(null);
             
-            alert(`Successfully imported ${newItems.length} element(s) from template.`);
+            alert('Successfully imported template.');
         } catch (error) {
             console.error('Error importing template:', error);
             alert(`Error importing template: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     };
 
-    // Helper function to parse YAML string to object
-    const parseYAMLString = (yamlString: string): any => {
-        const lines = yamlString.split('\n');
-        const result: any = { fonts: [], el: [] };
-        let currentElement: any = null;
-        let inFonts = false;
-        let inElements = false;
-        
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trim();
-            
-            // Skip empty lines and comments
-            if (!trimmed || trimmed.startsWith('#')) continue;
-            
-            // Check for main keys
-            if (trimmed.startsWith('fontbase:')) {
-                result.fontbase = trimmed.split(':')[1].trim().replace(/['"]/g, '');
-            } else if (trimmed === 'fonts:') {
-                inFonts = true;
-                inElements = false;
-                currentElement = null;
-            } else if (trimmed === 'el:') {
-                // Save any pending font element
-                if (currentElement && inFonts) {
-                    result.fonts.push(currentElement);
-                }
-                inElements = true;
-                inFonts = false;
-                currentElement = null;
-            } else if (trimmed.startsWith('type:') && !inFonts && !inElements) {
-                // Root level type
-                result.type = trimmed.split(':')[1].trim().replace(/['"]/g, '');
-            } else if (trimmed.startsWith('x_res:')) {
-                result.x_res = parseInt(trimmed.split(':')[1].trim());
-            } else if (trimmed.startsWith('y_res:')) {
-                result.y_res = parseInt(trimmed.split(':')[1].trim());
-            } else if (trimmed.startsWith('axis:')) {
-                result.axis = parseInt(trimmed.split(':')[1].trim());
-            } else if (trimmed.startsWith('- ')) {
-                // List item - start a new element
-                if (currentElement) {
-                    if (inFonts) {
-                        result.fonts.push(currentElement);
-                    } else if (inElements) {
-                        result.el.push(currentElement);
-                    }
-                }
-                currentElement = {};
-                
-                // Parse the property on the same line as the dash
-                const content = trimmed.substring(2).trim();
-                if (content) {
-                    const match = content.match(/^(\w+):\s*(.+)$/);
-                    if (match) {
-                        const key = match[1];
-                        let value: any = match[2].replace(/['"]/g, '');
-                        if (!isNaN(Number(value))) {
-                            value = Number(value);
-                        }
-                        currentElement[key] = value;
-                    }
-                }
-            } else if (currentElement && (line.startsWith('    ') || line.startsWith('  '))) {
-                // Property of current element (indented)
-                const match = trimmed.match(/^(\w+):\s*(.+)$/);
-                if (match) {
-                    const key = match[1];
-                    let value: any = match[2].replace(/['"]/g, '');
-                    
-                    // Convert numeric values
-                    if (!isNaN(Number(value))) {
-                        value = Number(value);
-                    }
-                    
-                    currentElement[key] = value;
-                }
-            }
-        }
-        
-        // Push the last element
-        if (currentElement) {
-            if (inFonts) {
-                result.fonts.push(currentElement);
-            } else if (inElements) {
-                result.el.push(currentElement);
-            }
-        }
-        
-        console.log('Parsed YAML:', result); // Debug log
-        return result;
-    };
-
-    // Helper function to convert ESL font to web font
-    const getWebFontFromEslFont = (eslFont: string): string => {
-        const fontMap: { [key: string]: string } = {
-            'DejaVuSans': 'Arial, sans-serif',
-            'DejaVuSans-Bold': 'Arial, sans-serif',
-            'DejaVuSerif': 'Georgia, serif',
-            'DejaVuSerif-Bold': 'Georgia, serif',
-            'DejaVuSansMono': 'Courier New, monospace',
-            'DejaVuSansMono-Bold': 'Courier New, monospace',
-            'LiberationSans-Regular': 'Liberation Sans, sans-serif',
-            'LiberationSans-Bold': 'Liberation Sans, sans-serif',
-            'LiberationSerif-Regular': 'Liberation Serif, serif',
-            'LiberationSerif-Bold': 'Liberation Serif, serif',
-            'LiberationMono-Regular': 'Liberation Mono, monospace',
-            'LiberationMono-Bold': 'Liberation Mono, monospace'
-        };
-        
-        return fontMap[eslFont] || availableFonts[0].value;
-    };
+    // Import YAML from string content (for server-loaded templates)
+    const importYAMLFromContent = useCallback((content: string, fileName: string) =>
+        loadTemplateContent(content, fileName), [loadTemplateContent]);
 
-    // Helper function to convert object to YAML string
-    const convertToYAMLString = (data: any): string => {
-        let yaml = '';
-        
-        // Add fontbase
-        yaml += `fontbase: ${data.fontbase}\n`;
-        
-        // Add fonts array
-        yaml += 'fonts:\n';
-        data.fonts.forEach((font: any) => {
-            yaml += `  - type: ${font.type}\n`;
-            yaml += `    size: ${font.size}\n`;
-        });
-        
-        // Add type
-        yaml += `type: ${data.type}\n`;
-        
-        // Add new ESL configuration fields
-        yaml += `x_res: ${data.x_res}\n`;
-        yaml += `y_res: ${data.y_res}\n`;
-        yaml += `axis: ${data.axis}\n`;
-        
-        // Add elements array
-        yaml += 'el:\n';
-        data.el.forEach((element: any) => {
-            yaml += `  - type: ${element.type}\n`;
-            if (element.fill !== undefined) {
-                yaml += `    fill: ${element.fill}\n`;
-            }
-            if (element.var) {
-                yaml += `    var: ${element.var}\n`;
-            }
-            if (element.text) {
-                yaml += `    text: "${element.text}"\n`;
-            }
+    // Load a template from the folder open in the file browser
+    const loadLibraryTemplate = useCallback(async (file: string) => {
+        try {
+            const response = await fetch('/api/load-template', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    folderPath: selectedFolder,
+                    fileName: file
+                }),
+            });
             
-            // Handle element-specific fields
-            if (element.type === 'image') {
-                // Image elements use filename, size_x, size_y, x_pos, y_pos
-                if (element.filename) {
-                    yaml += `    filename: ${element.filename}\n`;
-                }
-                if (element.size_x !== undefined) {
-                    yaml += `    size_x: ${element.size_x}\n`;
-                }
-                if (element.size_y !== undefined) {
-                    yaml += `    size_y: ${element.size_y}\n`;
-                }
-                if (element.x_pos !== undefined) {
-                    yaml += `    x_pos: ${element.x_pos}\n`;
-                }
-                if (element.y_pos !== undefined) {
-                    yaml += `    y_pos: ${element.y_pos}\n`;
+            if (response.ok) {
+                const data = await response.json();
+                if (importYAMLFromContent(data.content, file)) {
+                    setTemplateFilename(file);
+                    setLibraryTemplate({ folder: selectedFolder, fileName: file, version: data.version });
                 }
-            } else if (element.type === 'rect') {
-                // Rectangle uses x1, y1, x2, y2 format
-                yaml += `    x1: ${element.x1}\n`;
-                yaml += `    y1: ${element.y1}\n`;
-                yaml += `    x2: ${element.x2}\n`;
-                yaml += `    y2: ${element.y2}\n`;
+                setShowFileBrowserDialog(false);
             } else {
-                // Other elements use x, y format
-                yaml += `    x: ${element.x}\n`;
-                yaml += `    y: ${element.y}\n`;
-            }
-            
-            if (element.anchor) {
-                yaml += `    anchor: ${element.anchor}\n`;
-            }
-            if (element.font !== undefined) {
-                yaml += `    font: ${element.font}\n`;
-            }
-            if (element.scale !== undefined) {
-                yaml += `    scale: ${element.scale}\n`;
+                const error = await response.json();
+                alert(`Error loading template: ${error.error}`);
             }
-            yaml += '\n';
+        } catch (error) {
+            console.error('Error loading template:', error);
+            alert('Failed to load template');
+        }
+    }, [importYAMLFromContent, selectedFolder]);
+
+    const fetchTemplateRevisions = useCallback(async () => {
+        if (!libraryTemplate) return;
+        setHistoryLoading(true);
+        const data = await postLibraryRequest('list-revisions', { folderPath: libraryTemplate.folder, fileName: libraryTemplate.fileName });
+        setTemplateRevisions(data ? data.revisions : []);
+        setHistoryLoading(false);
+    }, [libraryTemplate, postLibraryRequest]);
+
+    const openHistoryPanel = useCallback(() => {
+        if (!libraryTemplate) {
+            alert('Load a template from the template library or save it there to see its history.');
+            return;
+        }
+        setShowHistoryPanel(true);
+        setSelectedRevision(null);
+        fetchTemplateRevisions();
+    }, [libraryTemplate, fetchTemplateRevisions]);
+
+    const selectTemplateRevision = useCallback(async (revision: TemplateRevision) => {
+        if (!libraryTemplate) return;
+        const data = await postLibraryRequest('get-revision', {
+            folderPath: libraryTemplate.folder,
+            fileName: libraryTemplate.fileName,
+            id: revision.id
         });
-        
-        return yaml;
-    };
-
-    // Import YAML from string content (for server-loaded templates)
-    const importYAMLFromContent = useCallback((content: string) => {
+        if (!data) return;
         try {
-            console.log('YAML content:', content); // Debug log
-            
-            const parsedData = parseYAMLString(content);
-            console.log('Parsed data:', parsedData); // Debug log
-            
-            if (!parsedData || !parsedData.el || !Array.isArray(parsedData.el) || parsedData.el.length === 0) {
-                alert('Invalid YAML file format. Could not find elements.');
-                console.error('Parsed data is invalid:', parsedData);
-                return;
-            }
-            
-            // Helper function to convert fill value to color
-            const fillToColor = (fill: number | undefined): string => {
-                if (fill === undefined || fill === null) return '#000000';
-                switch (fill) {
-                    case 0: return '#000000'; // black
-                    case 1: return '#ffffff'; // white
-                    case 2: return '#ffff00'; // yellow
-                    case 3: return '#ff0000'; // red
-                    default: return '#000000';
-                }
-            };
-            
-            // Convert YAML elements to canvas items
-            const newItems: CanvasItem[] = [];
-            let nextId = 1;
-            
-            parsedData.el.forEach((element: any) => {
-                try {
-                    console.log('Processing element:', element); // Debug log
-                    
-                    if (!element || !element.type) {
-                        console.warn('Skipping invalid element:', element);
-                        return;
-                    }
-                
-                    if (element.type === 'text' || element.type === 'var') {
-                        // Get font information with safe defaults
-                        const fontIndex = typeof element.font === 'number' ? element.font : 0;
-                        const fontInfo = parsedData.fonts?.[fontIndex] || { type: 'LiberationSans-Regular', size: 12 };
-                        const webFont = getWebFontFromEslFont(fontInfo.type);
-                        
-                        const textItem: TextItem = {
-                            id: nextId++,
-                            type: 'text',
-                            x: Number(element.x) || 0,
-                            y: Number(element.y) || 0,
-                            color: fillToColor(element.fill),
-                            text: element.content || (element.type === 'var' ? `{${element.var || 'variable'}}` : 'Sample Text'),
-                            fontSize: fontInfo.size,
-                            fontFamily: webFont,
-                            anchor: element.anchor || 'lt'
-                        };
-                        
-                        newItems.push(textItem);
-                    } else if (element.type === 'rect') {
-                        // Rectangles use x1,y1,x2,y2 format (two corner points)
-                        const x1 = Number(element.x1) || Number(element.x) || 0;
-                        const y1 = Number(element.y1) || Number(element.y) || 0;
-                        const x2 = Number(element.x2) || (x1 + 50);
-                        const y2 = Number(element.y2) || (y1 + 30);
-                        
-                        const rectItem: RectItem = {
-                            id: nextId++,
-                            type: 'rect',
-                            x: Math.min(x1, x2),
-                            y: Math.min(y1, y2),
-                            color: fillToColor(element.fill),
-                            width: Math.abs(x2 - x1),
-                            height: Math.abs(y2 - y1)
-                        };
-                        
-                        newItems.push(rectItem);
-                    } else if (element.type === 'line') {
-                        // Handle line elements with x1,y1,x2,y2 format
-                        const lineItem: LineItem = {
-                            id: nextId++,
-                            type: 'line',
-                            x: Number(element.x1) || 0,
-                            y: Number(element.y1) || 0,
-                            color: fillToColor(element.fill),
-                            x2: Number(element.x2) || 50,
-                            y2: Number(element.y2) || 0,
-                            strokeWidth: 1
-                        };
-                        
-                        newItems.push(lineItem);
-                    } else if (element.type === 'circle') {
-                        const circleItem: CircleItem = {
-                            id: nextId++,
-                            type: 'circle',
-                            x: Number(element.x) || 0,
-                            y: Number(element.y) || 0,
-                            color: fillToColor(element.fill),
-                            radius: 15
-                        };
-                        
-                        newItems.push(circleItem);
-                    } else if (element.type === 'image') {
-                        // Handle image elements
-                        const imageItem: ImageItem = {
-                            id: nextId++,
-                            type: 'image',
-                            x: Number(element.x_pos) || Number(element.x) || 0,
-                            y: Number(element.y_pos) || Number(element.y) || 0,
-                            color: fillToColor(element.fill),
-                            width: Number(element.size_x) || Number(element.width) || 100,
-                            height: Number(element.size_y) || Number(element.height) || 100,
-                            filename: element.filename || 'unknown.png'
-                        };
-                        
-                        newItems.push(imageItem);
-                    }
-                } catch (elementError) {
-                    console.error('Error processing element:', elementError, element);
-                }
-            });
-            
-            // Update canvas with imported items
-            setCanvasItems(newItems);
-            setSelectedIds([]);
-            
-            // Update ESL configuration if available
-            if (parsedData.x_res !== undefined) setCanvasWidth(parsedData.x_res);
-            if (parsedData.y_res !== undefined) setCanvasHeight(parsedData.y_res);
-            
-            console.log('Successfully imported', newItems.length, 'items from YAML content');
-            
+            setSelectedRevision({ revision, content: data.content, parsed: parseTemplate(data.content) });
         } catch (error) {
-            console.error('Error importing YAML content:', error);
-            alert('Failed to import template. Please check the file format.');
+            alert(`Revision could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-    }, []);
+    }, [libraryTemplate, postLibraryRequest]);
+
+    // Write the selected revision back to the library and load it into the editor
+    const restoreSelectedRevision = useCallback(async () => {
+        if (!libraryTemplate || !selectedRevision) return;
+        const { revision } = selectedRevision;
+        if (!confirm(`Restore the revision from ${new Date(revision.savedAt).toLocaleString()}? Unsaved changes in the editor will be lost.`)) return;
+
+        const data = await postLibraryRequest('restore-revision', {
+            folderPath: libraryTemplate.folder,
+            fileName: libraryTemplate.fileName,
+            id: revision.id,
+            baseVersion: libraryTemplate.version.hash,
+            author: saveAuthor
+        });
+        if (!data) return;
+        importYAMLFromContent(data.content, libraryTemplate.fileName);
+        setLibraryTemplate({ ...libraryTemplate, version: data.version });
+        setSelectedRevision(null);
+        fetchTemplateRevisions();
+    }, [libraryTemplate, selectedRevision, saveAuthor, postLibraryRequest, importYAMLFromContent, fetchTemplateRevisions]);
 
     // Menu handlers
     const handleMenuClick = (menuName: string) => {
@@ -4395,21 +5402,46 @@ const IntegratedTemplateEditor: React.FC = () => {
                 // Show options: save to server or export locally
                 openSaveDialog();
                 break;
+            case 'history':
+                openHistoryPanel();
+                break;
+            case 'batch':
+                setShowBatchDialog(true);
+                break;
+            case 'fonts':
+                openFontLibrary();
+                break;
             case 'quit':
                 if (confirm('Are you sure you want to quit? Any unsaved changes will be lost.')) {
                     window.close();
                 }
                 break;
+            case 'undo':
+                undo();
+                break;
+            case 'redo':
+                redo();
+                break;
             case 'selectAll':
                 setSelectedIds(canvasItems.map(item => item.id));
                 break;
             case 'selectNone':
                 setSelectedIds([]);
                 break;
+            case 'group':
+                groupSelectedItems();
+                break;
+            case 'ungroup':
+                ungroupSelectedItems();
+                break;
             case 'clearCanvas':
-                if (confirm('Are you sure you want to clear the canvas? This cannot be undone.')) {
+                if (confirm('Are you sure you want to clear the canvas?')) {
                     setCanvasItems([]);
+                    setCanvasGroups([]);
+                    setCanvasGuides([]);
                     setSelectedIds([]);
+                    setTemplateExtras({ rootKeys: {}, elements: [] });
+                    setTemplateIssues(null);
                 }
                 break;
             case 'eslConfig':
@@ -4424,8 +5456,14 @@ const IntegratedTemplateEditor: React.FC = () => {
             case 'resetZoom':
                 resetZoom();
                 break;
+            case 'toggleGrid':
+                setSnapSettings(settings => ({ ...settings, showGrid: !settings.showGrid }));
+                break;
+            case 'gridSettings':
+                setShowGridDialog(true);
+                break;
             case 'preview':
-                exportToJPG();
+                showRenderPreview();
                 break;
             case 'about':
                 setShowAboutDialog(true);
@@ -4579,14 +5617,39 @@ const IntegratedTemplateEditor: React.FC = () => {
                             >
                                 Save template
                             </button>
-                            <div style={{ borderTop: '1px solid #eee', margin: '4px 0' }} />
                             <button 
-                                onClick={() => handleMenuItemClick('quit')} 
-                                style={menuItemStyle}
+                                onClick={() => handleMenuItemClick('history')} 
+                                disabled={!libraryTemplate}
+                                style={{ ...menuItemStyle, color: !libraryTemplate ? '#aaa' : '#333', cursor: !libraryTemplate ? 'default' : 'pointer' }}
                                 onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
                                 onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
                             >
-                                Quit
+                                History
+                            </button>
+                            <button 
+                                onClick={() => handleMenuItemClick('batch')} 
+                                style={menuItemStyle}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                Batch render…
+                            </button>
+                            <button 
+                                onClick={() => handleMenuItemClick('fonts')} 
+                                style={menuItemStyle}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                Fonts…
+                            </button>
+                            <div style={{ borderTop: '1px solid #eee', margin: '4px 0' }} />
+                            <button 
+                                onClick={() => handleMenuItemClick('quit')} 
+                                style={menuItemStyle}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                Quit
                             </button>
                         </div>
                     )}
@@ -4621,6 +5684,25 @@ const IntegratedTemplateEditor: React.FC = () => {
                             minWidth: '180px',
                             zIndex: 1001
                         }}>
+                            <button 
+                                onClick={() => handleMenuItemClick('undo')} 
+                                disabled={history.past.length === 0}
+                                style={{ ...menuItemStyle, color: history.past.length === 0 ? '#aaa' : '#333', cursor: history.past.length === 0 ? 'default' : 'pointer' }}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                Undo <span style={{ float: 'right', color: '#999' }}>Ctrl+Z</span>
+                            </button>
+                            <button 
+                                onClick={() => handleMenuItemClick('redo')} 
+                                disabled={history.future.length === 0}
+                                style={{ ...menuItemStyle, color: history.future.length === 0 ? '#aaa' : '#333', cursor: history.future.length === 0 ? 'default' : 'pointer' }}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                Redo <span style={{ float: 'right', color: '#999' }}>Ctrl+Shift+Z</span>
+                            </button>
+                            <div style={{ borderTop: '1px solid #eee', margin: '4px 0' }} />
                             <button 
                                 onClick={() => handleMenuItemClick('selectAll')} 
                                 style={menuItemStyle}
@@ -4638,6 +5720,23 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 Select none
                             </button>
                             <div style={{ borderTop: '1px solid #eee', margin: '4px 0' }} />
+                            <button 
+                                onClick={() => handleMenuItemClick('group')} 
+                                style={menuItemStyle}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                Group <span style={{ float: 'right', color: '#999' }}>Ctrl+G</span>
+                            </button>
+                            <button 
+                                onClick={() => handleMenuItemClick('ungroup')} 
+                                style={menuItemStyle}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                Ungroup <span style={{ float: 'right', color: '#999' }}>Ctrl+Shift+G</span>
+                            </button>
+                            <div style={{ borderTop: '1px solid #eee', margin: '4px 0' }} />
                             <button 
                                 onClick={() => handleMenuItemClick('clearCanvas')} 
                                 style={menuItemStyle}
@@ -4713,6 +5812,23 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 Reset
                             </button>
                             <div style={{ borderTop: '1px solid #eee', margin: '4px 0' }} />
+                            <button 
+                                onClick={() => handleMenuItemClick('toggleGrid')} 
+                                style={menuItemStyle}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                {snapSettings.showGrid ? 'Hide grid' : 'Show grid'}
+                            </button>
+                            <button 
+                                onClick={() => handleMenuItemClick('gridSettings')} 
+                                style={menuItemStyle}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            >
+                                Grid & snapping
+                            </button>
+                            <div style={{ borderTop: '1px solid #eee', margin: '4px 0' }} />
                             <button 
                                 onClick={() => handleMenuItemClick('preview')} 
                                 style={menuItemStyle}
@@ -4812,6 +5928,76 @@ const IntegratedTemplateEditor: React.FC = () => {
                 </div>
             )}
 
+            {/* Template Issues Panel */}
+            {templateIssues && (
+                <div style={{
+                    position: 'fixed',
+                    top: '50px',
+                    right: '20px',
+                    width: '360px',
+                    maxHeight: '50vh',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    backgroundColor: 'white',
+                    border: '1px solid #f5c6cb',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 20px rgba(0,0,0,0.2)',
+                    zIndex: 1500
+                }}>
+                    <div style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        padding: '10px 14px',
+                        backgroundColor: '#f8d7da',
+                        borderBottom: '1px solid #f5c6cb',
+                        borderRadius: '8px 8px 0 0'
+                    }}>
+                        <span style={{ fontSize: '14px', fontWeight: 'bold', color: '#721c24' }}>
+                            {templateIssues.title} ({templateIssues.errors.length})
+                        </span>
+                        <button
+                            onClick={() => setTemplateIssues(null)}
+                            title="Dismiss"
+                            style={{
+                                background: 'none',
+                                border: 'none',
+                                fontSize: '18px',
+                                lineHeight: 1,
+                                color: '#721c24',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            ×
+                        </button>
+                    </div>
+                    <div style={{ overflowY: 'auto', padding: '6px 0' }}>
+                        {templateIssues.errors.map((error, index) => (
+                            <div
+                                key={index}
+                                title={formatValidationError(error)}
+                                style={{
+                                    display: 'flex',
+                                    gap: '8px',
+                                    padding: '6px 14px',
+                                    fontSize: '13px',
+                                    borderBottom: index < templateIssues.errors.length - 1 ? '1px solid #eee' : 'none'
+                                }}
+                            >
+                                <span style={{ minWidth: '70px', color: '#666', fontFamily: 'monospace' }}>
+                                    {error.elementIndex !== undefined ? `el[${error.elementIndex}]` : 'template'}
+                                </span>
+                                <span style={{ color: '#333' }}>
+                                    {error.field && <strong>{error.field}</strong>}
+                                    {error.field && ' '}
+                                    {error.message}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* File Browser Dialog */}
             {showFileBrowserDialog && (
                 <div style={{
@@ -4835,7 +6021,10 @@ const IntegratedTemplateEditor: React.FC = () => {
                         maxHeight: '70vh',
                         display: 'flex',
                         flexDirection: 'column'
-                    }} onClick={(e) => e.stopPropagation()}>
+                    }} onClick={(e) => {
+                        e.stopPropagation();
+                        setBrowserContextMenu(null);
+                    }}>
                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
                             <h2 style={{ margin: '0', fontSize: '18px', color: '#333' }}>Select Template</h2>
                             <button 
@@ -4853,7 +6042,8 @@ const IntegratedTemplateEditor: React.FC = () => {
                         </div>
                         
                         <div style={{ fontSize: '14px', color: '#666', marginBottom: '10px' }}>
-                            Location: /opt/esl/tag_image_gen/tag_image_templates/label_templates/bwry/
+                            Location: template library{showTrash ? ' / trash' : ''}
+                            <span style={{ float: 'right', fontSize: '12px', color: '#999' }}>Right-click for more actions</span>
                         </div>
 
                         {browserLoading ? (
@@ -4862,10 +6052,25 @@ const IntegratedTemplateEditor: React.FC = () => {
                             </div>
                         ) : (
                             <div style={{ flex: 1, overflow: 'auto' }}>
-                                {!selectedFolder ? (
-                                    /* Folder selection view */
+                                {showTrash ? (
+                                    /* Trash view */
                                     <div>
-                                        <h3 style={{ margin: '0 0 10px 0', fontSize: '16px', color: '#333' }}>Select Folder:</h3>
+                                        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '10px' }}>
+                                            <button 
+                                                onClick={() => setShowTrash(false)}
+                                                style={{
+                                                    background: 'none',
+                                                    border: 'none',
+                                                    cursor: 'pointer',
+                                                    color: '#007bff',
+                                                    fontSize: '14px',
+                                                    marginRight: '10px'
+                                                }}
+                                            >
+                                                ← Back
+                                            </button>
+                                            <h3 style={{ margin: '0', fontSize: '16px', color: '#333' }}>Trash</h3>
+                                        </div>
                                         <div style={{ 
                                             border: '1px solid #ddd', 
                                             borderRadius: '4px', 
@@ -4873,6 +6078,68 @@ const IntegratedTemplateEditor: React.FC = () => {
                                             overflow: 'auto',
                                             backgroundColor: '#f9f9f9'
                                         }}>
+                                            {trashEntries.length > 0 ? (
+                                                trashEntries.map((entry, index) => (
+                                                    <div 
+                                                        key={entry.id}
+                                                        onContextMenu={(e) => {
+                                                            e.preventDefault();
+                                                            setBrowserContextMenu({ x: e.clientX, y: e.clientY, target: { kind: 'trash', entry } });
+                                                        }}
+                                                        style={{
+                                                            padding: '12px',
+                                                            borderBottom: index < trashEntries.length - 1 ? '1px solid #eee' : 'none',
+                                                            display: 'flex',
+                                                            alignItems: 'center'
+                                                        }}
+                                                    >
+                                                        <span style={{ marginRight: '8px' }}>📄</span>
+                                                        <span style={{ flex: 1 }}>
+                                                            {entry.folderPath}/{entry.fileName}
+                                                            <small style={{ display: 'block', fontSize: '12px', color: '#999' }}>
+                                                                Deleted {new Date(entry.deletedAt).toLocaleString()}
+                                                            </small>
+                                                        </span>
+                                                        <button
+                                                            onClick={() => restoreLibraryTemplate(entry)}
+                                                            style={{
+                                                                padding: '4px 10px',
+                                                                backgroundColor: '#007bff',
+                                                                color: 'white',
+                                                                border: 'none',
+                                                                borderRadius: '4px',
+                                                                cursor: 'pointer',
+                                                                fontSize: '12px'
+                                                            }}
+                                                        >
+                                                            Restore
+                                                        </button>
+                                                    </div>
+                                                ))
+                                            ) : (
+                                                <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>
+                                                    The trash is empty
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                ) : !selectedFolder ? (
+                                    /* Folder selection view */
+                                    <div>
+                                        <h3 style={{ margin: '0 0 10px 0', fontSize: '16px', color: '#333' }}>Select Folder:</h3>
+                                        <div 
+                                            onContextMenu={(e) => {
+                                                e.preventDefault();
+                                                setBrowserContextMenu({ x: e.clientX, y: e.clientY, target: { kind: 'list' } });
+                                            }}
+                                            style={{ 
+                                                border: '1px solid #ddd', 
+                                                borderRadius: '4px', 
+                                                maxHeight: '300px', 
+                                                overflow: 'auto',
+                                                backgroundColor: '#f9f9f9'
+                                            }}
+                                        >
                                             {availableFolders.length > 0 ? (
                                                 availableFolders.map((folder, index) => (
                                                     <div 
@@ -4881,6 +6148,11 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                             setSelectedFolder(folder);
                                                             fetchFilesInFolder(folder);
                                                         }}
+                                                        onContextMenu={(e) => {
+                                                            e.preventDefault();
+                                                            e.stopPropagation();
+                                                            setBrowserContextMenu({ x: e.clientX, y: e.clientY, target: { kind: 'folder', name: folder } });
+                                                        }}
                                                         style={{
                                                             padding: '12px',
                                                             borderBottom: index < availableFolders.length - 1 ? '1px solid #eee' : 'none',
@@ -4898,8 +6170,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                 ))
                                             ) : (
                                                 <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>
-                                                    No template folders found in:<br />
-                                                    /opt/esl/tag_image_gen/tag_image_templates/label_templates/bwry/<br />
+                                                    No template folders found in the template library<br />
                                                     <small style={{ fontSize: '12px', marginTop: '10px', display: 'block' }}>
                                                         Create some template folders to get started
                                                     </small>
@@ -4942,31 +6213,10 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                 availableFiles.map((file, index) => (
                                                     <div 
                                                         key={index}
-                                                        onClick={async () => {
-                                                            try {
-                                                                const response = await fetch('/api/load-template', {
-                                                                    method: 'POST',
-                                                                    headers: {
-                                                                        'Content-Type': 'application/json',
-                                                                    },
-                                                                    body: JSON.stringify({
-                                                                        folderPath: `/opt/esl/tag_image_gen/tag_image_templates/label_templates/bwry/${selectedFolder}`,
-                                                                        fileName: file
-                                                                    }),
-                                                                });
-                                                                
-                                                                if (response.ok) {
-                                                                    const data = await response.json();
-                                                                    importYAMLFromContent(data.content);
-                                                                    setShowFileBrowserDialog(false);
-                                                                } else {
-                                                                    const error = await response.json();
-                                                                    alert(`Error loading template: ${error.error}`);
-                                                                }
-                                                            } catch (error) {
-                                                                console.error('Error loading template:', error);
-                                                                alert('Failed to load template');
-                                                            }
+                                                        onClick={() => loadLibraryTemplate(file)}
+                                                        onContextMenu={(e) => {
+                                                            e.preventDefault();
+                                                            setBrowserContextMenu({ x: e.clientX, y: e.clientY, target: { kind: 'file', name: file } });
                                                         }}
                                                         style={{
                                                             padding: '12px',
@@ -5012,6 +6262,25 @@ const IntegratedTemplateEditor: React.FC = () => {
                             >
                                 📁 Load Local
                             </button>
+                            <button 
+                                onClick={() => {
+                                    setShowTrash(true);
+                                    fetchTrash();
+                                }}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'white',
+                                    color: '#333',
+                                    border: '1px solid #ccc',
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '14px',
+                                    marginLeft: '10px',
+                                    marginRight: 'auto'
+                                }}
+                            >
+                                🗑 Trash
+                            </button>
                             <button 
                                 onClick={() => setShowFileBrowserDialog(false)}
                                 style={{
@@ -5028,6 +6297,69 @@ const IntegratedTemplateEditor: React.FC = () => {
                             </button>
                         </div>
                     </div>
+
+                    {browserContextMenu && (
+                        <div
+                            style={{
+                                position: 'fixed',
+                                left: browserContextMenu.x,
+                                top: browserContextMenu.y,
+                                backgroundColor: 'white',
+                                border: '1px solid #ddd',
+                                borderRadius: '4px',
+                                boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+                                minWidth: '180px',
+                                zIndex: 2100
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                            onContextMenu={(e) => e.preventDefault()}
+                        >
+                            {(() => {
+                                const target = browserContextMenu.target;
+                                const item = (label: string, action: () => void) => (
+                                    <button
+                                        key={label}
+                                        style={menuItemStyle}
+                                        onClick={() => runBrowserAction(action)}
+                                        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
+                                        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                                    >
+                                        {label}
+                                    </button>
+                                );
+                                const separator = <div key="separator" style={{ borderTop: '1px solid #eee', margin: '4px 0' }} />;
+
+                                switch (target.kind) {
+                                    case 'folder':
+                                        return [
+                                            item('Open', () => {
+                                                setSelectedFolder(target.name);
+                                                fetchFilesInFolder(target.name);
+                                            }),
+                                            item('Rename folder...', () => renameLibraryFolder(target.name)),
+                                            separator,
+                                            item('New folder...', createLibraryFolder)
+                                        ];
+                                    case 'list':
+                                        return [
+                                            item('New folder...', createLibraryFolder),
+                                            item('Refresh', fetchAvailableFolders)
+                                        ];
+                                    case 'file':
+                                        return [
+                                            item('Open', () => loadLibraryTemplate(target.name)),
+                                            item('Rename...', () => renameLibraryTemplate(target.name)),
+                                            item('Duplicate', () => duplicateLibraryTemplate(target.name)),
+                                            item('Move to folder...', () => moveLibraryTemplate(target.name)),
+                                            separator,
+                                            item('Move to trash', () => deleteLibraryTemplate(target.name))
+                                        ];
+                                    case 'trash':
+                                        return [item('Restore', () => restoreLibraryTemplate(target.entry))];
+                                }
+                            })()}
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -5113,24 +6445,65 @@ const IntegratedTemplateEditor: React.FC = () => {
                                     boxSizing: 'border-box'
                                 }}
                             >
-                                <option value="">-- Select a folder --</option>
+                                <option value="">Templates root</option>
                                 {saveFolders.map(folder => (
                                     <option key={folder} value={folder}>{folder}</option>
                                 ))}
                             </select>
                         </div>
 
+                        <div style={{ display: 'flex', gap: '10px', marginBottom: '15px' }}>
+                            <div style={{ flex: 1 }}>
+                                <label style={{ display: 'block', marginBottom: '5px', fontSize: '14px', fontWeight: 'bold', color: '#555' }}>
+                                    Your name:
+                                </label>
+                                <input
+                                    type="text"
+                                    value={saveAuthor}
+                                    onChange={(e) => setSaveAuthor(e.target.value)}
+                                    placeholder="Recorded in the history"
+                                    style={{
+                                        width: '100%',
+                                        padding: '8px',
+                                        fontSize: '14px',
+                                        border: '1px solid #ddd',
+                                        borderRadius: '4px',
+                                        boxSizing: 'border-box'
+                                    }}
+                                />
+                            </div>
+                            <div style={{ flex: 2 }}>
+                                <label style={{ display: 'block', marginBottom: '5px', fontSize: '14px', fontWeight: 'bold', color: '#555' }}>
+                                    Message (optional):
+                                </label>
+                                <input
+                                    type="text"
+                                    value={saveMessage}
+                                    onChange={(e) => setSaveMessage(e.target.value)}
+                                    placeholder="What changed?"
+                                    style={{
+                                        width: '100%',
+                                        padding: '8px',
+                                        fontSize: '14px',
+                                        border: '1px solid #ddd',
+                                        borderRadius: '4px',
+                                        boxSizing: 'border-box'
+                                    }}
+                                />
+                            </div>
+                        </div>
+
                         <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
                             <button
                                 onClick={saveTemplateToServer}
-                                disabled={!saveSelectedFolder || !saveFilename || saveLoading}
+                                disabled={!saveFilename || saveLoading}
                                 style={{
                                     padding: '8px 16px',
-                                    backgroundColor: (!saveSelectedFolder || !saveFilename || saveLoading) ? '#ccc' : '#007bff',
+                                    backgroundColor: (!saveFilename || saveLoading) ? '#ccc' : '#007bff',
                                     color: 'white',
                                     border: 'none',
                                     borderRadius: '4px',
-                                    cursor: (!saveSelectedFolder || !saveFilename || saveLoading) ? 'not-allowed' : 'pointer',
+                                    cursor: (!saveFilename || saveLoading) ? 'not-allowed' : 'pointer',
                                     fontSize: '14px'
                                 }}
                             >
@@ -5172,6 +6545,621 @@ const IntegratedTemplateEditor: React.FC = () => {
                 </div>
             )}
 
+            {/* Save Conflict Dialog */}
+            {saveConflict && (
+                <div style={{
+                    position: 'fixed',
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    backgroundColor: 'rgba(0,0,0,0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 2000
+                }} onClick={() => setSaveConflict(null)}>
+                    <div style={{
+                        backgroundColor: 'white',
+                        padding: '20px',
+                        borderRadius: '8px',
+                        boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+                        width: showConflictDiff ? '90vw' : '500px',
+                        maxHeight: '85vh',
+                        display: 'flex',
+                        flexDirection: 'column'
+                    }} onClick={(e) => e.stopPropagation()}>
+                        <h2 style={{ margin: '0 0 15px 0', fontSize: '18px', color: '#333' }}>{saveConflict.error}</h2>
+                        <div style={{ fontSize: '14px', color: '#666', marginBottom: '15px' }}>
+                            {saveConflict.details}
+                            <br />
+                            Overwrite it with your version, save yours under another name, or compare the two first.
+                        </div>
+
+                        {showConflictDiff && (
+                            <div style={{ flex: 1, overflow: 'auto', border: '1px solid #ddd', borderRadius: '4px', marginBottom: '15px' }}>
+                                <table style={{ width: '100%', borderCollapse: 'collapse', fontFamily: 'monospace', fontSize: '12px' }}>
+                                    <thead>
+                                        <tr style={{ backgroundColor: '#f8f9fa', position: 'sticky', top: 0 }}>
+                                            <th colSpan={2} style={{ padding: '6px', textAlign: 'left', borderBottom: '1px solid #ddd' }}>
+                                                On the server ({new Date(saveConflict.currentVersion.mtime).toLocaleString()})
+                                            </th>
+                                            <th colSpan={2} style={{ padding: '6px', textAlign: 'left', borderBottom: '1px solid #ddd', borderLeft: '1px solid #ddd' }}>
+                                                Your version
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {diffLines(saveConflict.currentContent, saveConflict.content).map((row, index) => {
+                                            const leftColor = row.kind === 'same' ? 'transparent' : row.left ? '#fdecea' : '#f5f5f5';
+                                            const rightColor = row.kind === 'same' ? 'transparent' : row.right ? '#e6f4ea' : '#f5f5f5';
+                                            return (
+                                                <tr key={index}>
+                                                    <td style={{ width: '40px', padding: '0 6px', color: '#999', textAlign: 'right', backgroundColor: leftColor }}>
+                                                        {row.left?.number}
+                                                    </td>
+                                                    <td style={{ padding: '0 6px', whiteSpace: 'pre', backgroundColor: leftColor }}>{row.left?.text}</td>
+                                                    <td style={{ width: '40px', padding: '0 6px', color: '#999', textAlign: 'right', backgroundColor: rightColor, borderLeft: '1px solid #ddd' }}>
+                                                        {row.right?.number}
+                                                    </td>
+                                                    <td style={{ padding: '0 6px', whiteSpace: 'pre', backgroundColor: rightColor }}>{row.right?.text}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+                            <button
+                                onClick={() => setShowConflictDiff(!showConflictDiff)}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'white',
+                                    color: '#333',
+                                    border: '1px solid #ccc',
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '14px',
+                                    marginRight: 'auto'
+                                }}
+                            >
+                                {showConflictDiff ? 'Hide differences' : 'Show differences'}
+                            </button>
+                            <button
+                                onClick={overwriteConflictingTemplate}
+                                disabled={saveLoading}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: saveLoading ? '#ccc' : '#dc3545',
+                                    color: 'white',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: saveLoading ? 'not-allowed' : 'pointer',
+                                    fontSize: '14px'
+                                }}
+                            >
+                                {saveLoading ? 'Saving...' : 'Overwrite'}
+                            </button>
+                            <button
+                                onClick={saveConflictingTemplateAs}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: '#007bff',
+                                    color: 'white',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '14px'
+                                }}
+                            >
+                                Save As...
+                            </button>
+                            <button 
+                                onClick={() => setSaveConflict(null)}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: '#6c757d',
+                                    color: 'white',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '14px'
+                                }}
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* History Panel */}
+            {showHistoryPanel && libraryTemplate && (
+                <div style={{
+                    position: 'fixed',
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    backgroundColor: 'rgba(0,0,0,0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 2000
+                }} onClick={() => setShowHistoryPanel(false)}>
+                    <div style={{
+                        backgroundColor: 'white',
+                        padding: '20px',
+                        borderRadius: '8px',
+                        boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+                        width: '90vw',
+                        height: '80vh',
+                        display: 'flex',
+                        flexDirection: 'column'
+                    }} onClick={(e) => e.stopPropagation()}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+                            <h2 style={{ margin: '0', fontSize: '18px', color: '#333' }}>
+                                History of {libraryTemplate.folder}/{libraryTemplate.fileName}
+                            </h2>
+                            <button 
+                                onClick={() => setShowHistoryPanel(false)}
+                                style={{
+                                    background: 'none',
+                                    border: 'none',
+                                    fontSize: '20px',
+                                    cursor: 'pointer',
+                                    color: '#999'
+                                }}
+                            >
+                                ×
+                            </button>
+                        </div>
+
+                        <div style={{ flex: 1, display: 'flex', gap: '20px', minHeight: 0 }}>
+                            {/* Revision list */}
+                            <div style={{ width: '280px', border: '1px solid #ddd', borderRadius: '4px', overflow: 'auto', backgroundColor: '#f9f9f9' }}>
+                                {historyLoading ? (
+                                    <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>Loading history...</div>
+                                ) : templateRevisions.length === 0 ? (
+                                    <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>No revisions saved yet</div>
+                                ) : (
+                                    templateRevisions.map((revision, index) => (
+                                        <div
+                                            key={revision.id}
+                                            onClick={() => selectTemplateRevision(revision)}
+                                            style={{
+                                                padding: '10px 12px',
+                                                borderBottom: index < templateRevisions.length - 1 ? '1px solid #eee' : 'none',
+                                                cursor: 'pointer',
+                                                backgroundColor: selectedRevision?.revision.id === revision.id ? '#e3f2fd' : 'transparent'
+                                            }}
+                                        >
+                                            <div style={{ fontSize: '13px', fontWeight: 'bold', color: '#333' }}>
+                                                {new Date(revision.savedAt).toLocaleString()}
+                                                {revision.hash === libraryTemplate.version.hash && (
+                                                    <span style={{ marginLeft: '6px', fontSize: '11px', fontWeight: 'normal', color: '#28a745' }}>loaded</span>
+                                                )}
+                                            </div>
+                                            <div style={{ fontSize: '12px', color: '#666' }}>{revision.author}</div>
+                                            {revision.message && (
+                                                <div style={{ fontSize: '12px', color: '#333', marginTop: '2px' }}>{revision.message}</div>
+                                            )}
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+
+                            {/* Comparison of the selected revision with the editor */}
+                            <div style={{ flex: 1, overflow: 'auto' }}>
+                                {!selectedRevision ? (
+                                    <div style={{ padding: '40px', textAlign: 'center', color: '#666' }}>
+                                        Select a revision to compare it with the template in the editor
+                                    </div>
+                                ) : (() => {
+                                    const { revision, parsed } = selectedRevision;
+                                    const revisionWidth = parsed.width || canvasWidth;
+                                    const revisionHeight = parsed.height || canvasHeight;
+                                    // Both sides go through the generator, so only real changes show up
+                                    const revisionDocument = buildTemplateDocument(
+                                        parsed.items,
+                                        { width: revisionWidth, height: revisionHeight, eslType: parsed.eslType || eslType, axis: parsed.axis ?? eslAxis, model: parsed.model },
+                                        parsed.extras,
+                                        parsed.groups,
+                                        parsed.guides,
+                                        measureFont
+                                    );
+                                    const currentDocument = buildTemplateDocument(
+                                        canvasItems,
+                                        { width: canvasWidth, height: canvasHeight, eslType, axis: eslAxis, model: labelModel },
+                                        templateExtras,
+                                        canvasGroups,
+                                        canvasGuides,
+                                        measureFont
+                                    );
+                                    const changes = diffElements(revisionDocument.el || [], currentDocument.el || []);
+                                    const unchanged = changes.filter(change => change.kind === 'same').length;
+                                    const changeColors = { added: '#28a745', removed: '#dc3545', changed: '#fd7e14', same: '#666' };
+                                    const changeSymbols = { added: '+', removed: '−', changed: '~', same: ' ' };
+
+                                    return (
+                                        <div>
+                                            <div style={{ display: 'flex', gap: '20px', marginBottom: '20px' }}>
+                                                <div style={{ flex: 1 }}>
+                                                    <h3 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#333' }}>
+                                                        Revision of {new Date(revision.savedAt).toLocaleString()}
+                                                    </h3>
+                                                    {renderRevisionImage(revisionImages?.revision, revisionWidth, revisionHeight)}
+                                                </div>
+                                                <div style={{ flex: 1 }}>
+                                                    <h3 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#333' }}>In the editor</h3>
+                                                    {renderRevisionImage(revisionImages?.current, canvasWidth, canvasHeight)}
+                                                </div>
+                                            </div>
+
+                                            <h3 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#333' }}>
+                                                Changes to el ({changes.length - unchanged} changed, {unchanged} unchanged)
+                                            </h3>
+                                            {(revisionWidth !== canvasWidth || revisionHeight !== canvasHeight) && (
+                                                <div style={{ fontSize: '13px', color: '#fd7e14', marginBottom: '8px' }}>
+                                                    Label size changed from {revisionWidth}×{revisionHeight} to {canvasWidth}×{canvasHeight}
+                                                </div>
+                                            )}
+                                            <div style={{ border: '1px solid #ddd', borderRadius: '4px', fontFamily: 'monospace', fontSize: '12px' }}>
+                                                {changes.filter(change => change.kind !== 'same').map((change, index) => (
+                                                    <div key={index} style={{ padding: '6px 10px', borderBottom: '1px solid #eee' }}>
+                                                        <span style={{ color: changeColors[change.kind], fontWeight: 'bold', marginRight: '8px' }}>
+                                                            {changeSymbols[change.kind]}
+                                                        </span>
+                                                        <span style={{ color: '#666', marginRight: '8px' }}>
+                                                            el[{change.kind === 'removed' ? change.beforeIndex : change.afterIndex}]
+                                                        </span>
+                                                        {describeElement(change.element)}
+                                                        {change.fields.map(field => (
+                                                            <div key={field.key} style={{ paddingLeft: '24px', color: '#555' }}>
+                                                                {field.key}: {formatFieldValue(field.before)} → {formatFieldValue(field.after)}
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                ))}
+                                                {changes.length === unchanged && (
+                                                    <div style={{ padding: '10px', color: '#666' }}>No differences in el</div>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })()}
+                            </div>
+                        </div>
+
+                        <div style={{ marginTop: '15px', display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+                            <button
+                                onClick={restoreSelectedRevision}
+                                disabled={!selectedRevision}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: selectedRevision ? '#007bff' : '#ccc',
+                                    color: 'white',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: selectedRevision ? 'pointer' : 'not-allowed',
+                                    fontSize: '14px'
+                                }}
+                            >
+                                Restore this revision
+                            </button>
+                            <button 
+                                onClick={() => setShowHistoryPanel(false)}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: '#6c757d',
+                                    color: 'white',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '14px'
+                                }}
+                            >
+                                Close
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Font Library Dialog */}
+            {showFontLibraryDialog && (
+                <div style={{
+                    position: 'fixed',
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    backgroundColor: 'rgba(0,0,0,0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 2000
+                }} onClick={() => setShowFontLibraryDialog(false)}>
+                    <div style={{
+                        backgroundColor: 'white',
+                        padding: '20px',
+                        borderRadius: '8px',
+                        boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+                        width: '700px',
+                        maxHeight: '85vh',
+                        overflow: 'auto'
+                    }} onClick={(e) => e.stopPropagation()}>
+                        <h2 style={{ margin: '0 0 15px 0', fontSize: '18px', color: '#333' }}>Fonts</h2>
+
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '15px', fontSize: '13px' }}>
+                            <button
+                                onClick={uploadFonts}
+                                disabled={fontUploading}
+                                style={{ padding: '8px 16px', backgroundColor: fontUploading ? '#ccc' : '#007bff', color: 'white', border: 'none', borderRadius: '4px', cursor: fontUploading ? 'not-allowed' : 'pointer' }}
+                            >
+                                {fontUploading ? 'Uploading...' : 'Upload TTF/OTF…'}
+                            </button>
+                            <label style={{ flex: 1, display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                Sample
+                                <input
+                                    type="text"
+                                    value={fontSampleText}
+                                    onChange={(e) => setFontSampleText(e.target.value)}
+                                    style={{ flex: 1, padding: '4px' }}
+                                />
+                            </label>
+                        </div>
+
+                        {/* The template's font map: each font file its text uses */}
+                        {Object.keys(templateFontUsage).length > 0 && (
+                            <div style={{ marginBottom: '15px', fontSize: '13px' }}>
+                                <h3 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#333' }}>Used in this template</h3>
+                                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                                    <tbody>
+                                        {Object.keys(templateFontUsage).sort().map(file => {
+                                            const available = fontLibrary.some(font => font.file === file && !font.error);
+                                            return (
+                                                <tr key={file}>
+                                                    <td style={{ padding: '4px', fontFamily: 'monospace' }}>{file}</td>
+                                                    <td style={{ padding: '4px', color: '#666' }}>
+                                                        {templateFontUsage[file]} element{templateFontUsage[file] === 1 ? '' : 's'}
+                                                    </td>
+                                                    <td style={{ padding: '4px', color: available ? '#28a745' : '#dc3545' }}>
+                                                        {available ? '✓ in fonts folder' : '⚠ missing'}
+                                                    </td>
+                                                    <td style={{ padding: '4px' }}>
+                                                        <select
+                                                            value=""
+                                                            onChange={(e) => e.target.value && replaceTemplateFont(file, e.target.value)}
+                                                            style={{ width: '100%', padding: '4px' }}
+                                                        >
+                                                            <option value="">Replace with…</option>
+                                                            {fontLibrary.filter(font => !font.error && font.file !== file).map(font => (
+                                                                <option key={font.file} value={font.file}>{getFontLabel(font)} ({font.file})</option>
+                                                            ))}
+                                                        </select>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        <h3 style={{ margin: '0 0 8px 0', fontSize: '14px', color: '#333' }}>Fonts folder</h3>
+                        {fontLibrary.length === 0 ? (
+                            <div style={{ padding: '20px', textAlign: 'center', color: '#666', fontSize: '13px' }}>
+                                No .ttf or .otf fonts found
+                            </div>
+                        ) : (
+                            <div style={{ border: '1px solid #ddd', borderRadius: '4px', marginBottom: '15px' }}>
+                                {fontLibrary.map(font => (
+                                    <div key={font.file} style={{ padding: '10px', borderBottom: '1px solid #eee' }}>
+                                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px', marginBottom: '6px' }}>
+                                            <span>
+                                                <strong>{font.family}</strong> {font.style}
+                                            </span>
+                                            <span style={{ color: '#666', fontFamily: 'monospace' }}>
+                                                {font.file}{font.error ? '' : ` · ${font.glyphs} glyphs`}
+                                            </span>
+                                        </div>
+                                        {font.error ? (
+                                            <div style={{ color: '#dc3545', fontSize: '12px' }}>⚠ {font.error}</div>
+                                        ) : (
+                                            // Sample at sizes common on shelf labels, one screen pixel per panel pixel
+                                            [12, 16, 24, 32].map(size => (
+                                                <div key={size} style={{ display: 'flex', alignItems: 'baseline', gap: '10px', overflow: 'hidden', whiteSpace: 'nowrap' }}>
+                                                    <span style={{ width: '36px', flexShrink: 0, fontSize: '11px', color: '#999' }}>{size}px</span>
+                                                    <span style={{ fontFamily: getFontFileFamily(font.file), fontSize: `${size}px`, lineHeight: 1.3, color: '#000' }}>
+                                                        {fontSampleText}
+                                                    </span>
+                                                </div>
+                                            ))
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                            <button
+                                onClick={() => setShowFontLibraryDialog(false)}
+                                style={{ padding: '8px 16px', backgroundColor: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                            >
+                                Close
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Batch Render Dialog */}
+            {showBatchDialog && (
+                <div style={{
+                    position: 'fixed',
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    backgroundColor: 'rgba(0,0,0,0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 2000
+                }} onClick={() => setShowBatchDialog(false)}>
+                    <div style={{
+                        backgroundColor: 'white',
+                        padding: '20px',
+                        borderRadius: '8px',
+                        boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+                        width: '600px',
+                        maxHeight: '85vh',
+                        overflow: 'auto'
+                    }} onClick={(e) => e.stopPropagation()}>
+                        <h2 style={{ margin: '0 0 15px 0', fontSize: '18px', color: '#333' }}>Batch render</h2>
+
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '15px' }}>
+                            <button
+                                onClick={loadBatchFile}
+                                disabled={batchJob?.status === 'running'}
+                                style={{ padding: '8px 16px', backgroundColor: '#007bff', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                            >
+                                Load CSV/JSON…
+                            </button>
+                            <span style={{ fontSize: '13px', color: '#666' }}>
+                                {batchRecords.length > 0 ? `${batchFileName}: ${batchRecords.length} rows` : 'No data loaded'}
+                            </span>
+                        </div>
+
+                        {batchRecords.length > 0 && (
+                            <>
+                                {/* Column for each template variable */}
+                                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px', marginBottom: '15px' }}>
+                                    <thead>
+                                        <tr>
+                                            <th style={{ textAlign: 'left', borderBottom: '1px solid #ddd', padding: '4px' }}>Variable</th>
+                                            <th style={{ textAlign: 'left', borderBottom: '1px solid #ddd', padding: '4px' }}>Column</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {listVariables(canvasItems).map(name => (
+                                            <tr key={name}>
+                                                <td style={{ padding: '4px', fontFamily: 'monospace' }}>[{name}]</td>
+                                                <td style={{ padding: '4px' }}>
+                                                    <select
+                                                        value={batchMapping[name] || ''}
+                                                        onChange={(e) => setBatchMapping(mapping => ({ ...mapping, [name]: e.target.value }))}
+                                                        style={{ width: '100%', padding: '4px' }}
+                                                    >
+                                                        <option value="">(not mapped)</option>
+                                                        {batchColumns.map(column => (
+                                                            <option key={column} value={column}>{column}</option>
+                                                        ))}
+                                                    </select>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+
+                                <div style={{ display: 'flex', gap: '20px', marginBottom: '15px', fontSize: '13px' }}>
+                                    <label>
+                                        Name files by{' '}
+                                        <select value={batchKeyColumn} onChange={(e) => setBatchKeyColumn(e.target.value)} style={{ padding: '4px' }}>
+                                            <option value="">(row number)</option>
+                                            {batchColumns.map(column => (
+                                                <option key={column} value={column}>{column}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                    <label>
+                                        Format{' '}
+                                        <select value={batchFormat} onChange={(e) => setBatchFormat(e.target.value as 'png' | 'bmp')} style={{ padding: '4px' }}>
+                                            <option value="png">PNG</option>
+                                            <option value="bmp">BMP</option>
+                                        </select>
+                                    </label>
+                                </div>
+                            </>
+                        )}
+
+                        {batchJob && (
+                            <div style={{ marginBottom: '15px' }}>
+                                <div style={{ height: '12px', backgroundColor: '#e9ecef', borderRadius: '6px', overflow: 'hidden' }}>
+                                    <div style={{
+                                        width: `${batchJob.total > 0 ? (batchJob.done / batchJob.total) * 100 : 0}%`,
+                                        height: '100%',
+                                        backgroundColor: batchJob.status === 'failed' ? '#dc3545' : '#28a745',
+                                        transition: 'width 0.3s ease'
+                                    }} />
+                                </div>
+                                <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
+                                    {batchJob.status === 'failed'
+                                        ? `Failed: ${batchJob.error || 'Unknown error'}`
+                                        : `${batchJob.done} of ${batchJob.total} labels rendered`}
+                                </div>
+
+                                {batchJob.status === 'done' && (
+                                    <div style={{ marginTop: '10px', fontSize: '13px' }}>
+                                        {batchJob.report.length === 0 ? (
+                                            <div style={{ color: '#28a745' }}>Every row rendered without problems.</div>
+                                        ) : (
+                                            <>
+                                                <div style={{ marginBottom: '6px' }}>{batchJob.report.length} rows have problems:</div>
+                                                <div style={{ maxHeight: '200px', overflow: 'auto', border: '1px solid #ddd', borderRadius: '4px', padding: '6px' }}>
+                                                    {batchJob.report.map(entry => (
+                                                        <div key={entry.row} style={{ marginBottom: '6px' }}>
+                                                            <strong>Row {entry.row}</strong> ({entry.fileName})
+                                                            {entry.problems.map(problem => (
+                                                                <div key={problem} style={{ color: '#dc3545', fontSize: '12px' }}>⚠ {problem}</div>
+                                                            ))}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '10px' }}>
+                            {batchJob?.status === 'done' && (
+                                <a
+                                    href={`/api/batch-download?jobId=${encodeURIComponent(batchJob.id)}`}
+                                    style={{ padding: '8px 16px', backgroundColor: '#28a745', color: 'white', borderRadius: '4px', textDecoration: 'none', fontSize: '14px' }}
+                                >
+                                    Download ZIP
+                                </a>
+                            )}
+                            <button
+                                onClick={startBatchRender}
+                                disabled={batchRecords.length === 0 || batchJob?.status === 'running'}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: batchRecords.length === 0 || batchJob?.status === 'running' ? '#ccc' : '#007bff',
+                                    color: 'white',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: batchRecords.length === 0 || batchJob?.status === 'running' ? 'default' : 'pointer'
+                                }}
+                            >
+                                {batchRecords.length > 0 ? `Render ${batchRecords.length} labels` : 'Render labels'}
+                            </button>
+                            <button
+                                onClick={() => setShowBatchDialog(false)}
+                                style={{ padding: '8px 16px', backgroundColor: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                            >
+                                Close
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Image Browser Dialog */}
             {showImageBrowserDialog && (
                 <div style={{
@@ -5185,21 +7173,21 @@ const IntegratedTemplateEditor: React.FC = () => {
                     alignItems: 'center',
                     justifyContent: 'center',
                     zIndex: 2000
-                }} onClick={() => setShowImageBrowserDialog(false)}>
+                }} onClick={closeImageBrowser}>
                     <div style={{
                         backgroundColor: 'white',
                         padding: '20px',
                         borderRadius: '8px',
                         boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
-                        width: '500px',
-                        maxHeight: '70vh',
+                        width: imageUpload ? '760px' : '500px',
+                        maxHeight: imageUpload ? '90vh' : '70vh',
                         display: 'flex',
                         flexDirection: 'column'
                     }} onClick={(e) => e.stopPropagation()}>
                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
-                            <h2 style={{ margin: '0', fontSize: '18px', color: '#333' }}>Select Image</h2>
+                            <h2 style={{ margin: '0', fontSize: '18px', color: '#333' }}>{imageUpload ? 'Upload Image' : 'Select Image'}</h2>
                             <button 
-                                onClick={() => setShowImageBrowserDialog(false)}
+                                onClick={closeImageBrowser}
                                 style={{
                                     background: 'none',
                                     border: 'none',
@@ -5219,10 +7207,113 @@ const IntegratedTemplateEditor: React.FC = () => {
                         </div>
 
                         <div style={{ fontSize: '14px', color: '#666', marginBottom: '15px' }}>
-                            <strong>Location:</strong> /opt/esl/tag_image_gen/images
+                            <strong>Location:</strong> image library
                         </div>
 
-                        {imageBrowserLoading ? (
+                        {imageUpload && conversionSettings ? (
+                            <div style={{ flex: 1, overflowY: 'auto', marginBottom: '15px', fontSize: '13px' }}>
+                                {/* Original next to the converted image, both fitted to the same box */}
+                                <div style={{ display: 'flex', gap: '15px', marginBottom: '15px' }}>
+                                    <div style={{ flex: 1 }}>
+                                        <div style={{ color: '#666', marginBottom: '4px' }}>
+                                            Before: {imageUpload.fileName} ({imageUpload.width}×{imageUpload.height})
+                                        </div>
+                                        <div style={{ height: '240px', border: '1px solid #ddd', borderRadius: '4px', backgroundColor: '#f8f9fa', padding: '10px', boxSizing: 'border-box' }}>
+                                            <img src={imageUpload.url} alt="Original" style={{ width: '100%', height: '100%', objectFit: 'contain' }} />
+                                        </div>
+                                    </div>
+                                    <div style={{ flex: 1 }}>
+                                        <div style={{ color: '#666', marginBottom: '4px' }}>
+                                            After: {conversionSettings.width}×{conversionSettings.height}, {conversionSettings.palette}
+                                        </div>
+                                        <div style={{ height: '240px', border: '1px solid #ddd', borderRadius: '4px', backgroundColor: '#f8f9fa', padding: '10px', boxSizing: 'border-box', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#666' }}>
+                                            {convertedPreview ? (
+                                                <img src={convertedPreview} alt="Converted" style={{ width: '100%', height: '100%', objectFit: 'contain', imageRendering: 'pixelated' }} />
+                                            ) : conversionError ? null : 'Converting…'}
+                                        </div>
+                                    </div>
+                                </div>
+
+                                {conversionError && (
+                                    <div style={{ color: '#dc3545', marginBottom: '10px' }}>⚠ {conversionError}</div>
+                                )}
+
+                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '15px 20px', alignItems: 'center' }}>
+                                    <label>
+                                        Width{' '}
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={conversionSettings.width}
+                                            onChange={(e) => updateConversionSize('width', parseInt(e.target.value))}
+                                            style={{ width: '70px', padding: '4px' }}
+                                        />
+                                    </label>
+                                    <label>
+                                        Height{' '}
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={conversionSettings.height}
+                                            onChange={(e) => updateConversionSize('height', parseInt(e.target.value))}
+                                            style={{ width: '70px', padding: '4px' }}
+                                        />
+                                    </label>
+                                    <label>
+                                        <input
+                                            type="checkbox"
+                                            checked={conversionSettings.keepAspect}
+                                            onChange={(e) => setConversionSettings({ ...conversionSettings, keepAspect: e.target.checked })}
+                                        />{' '}
+                                        Keep aspect ratio
+                                    </label>
+                                    <label>
+                                        Palette{' '}
+                                        <select
+                                            value={conversionSettings.palette}
+                                            onChange={(e) => setConversionSettings({ ...conversionSettings, palette: e.target.value as EslType })}
+                                            style={{ padding: '4px' }}
+                                        >
+                                            {ESL_TYPES.map(type => (
+                                                <option key={type} value={type}>{type}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                    <label>
+                                        Method{' '}
+                                        <select
+                                            value={conversionSettings.method}
+                                            onChange={(e) => setConversionSettings({ ...conversionSettings, method: e.target.value as DitherMethod })}
+                                            style={{ padding: '4px' }}
+                                        >
+                                            {ditherMethods.map(method => (
+                                                <option key={method.id} value={method.id}>{method.name}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                    <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                        Threshold
+                                        <input
+                                            type="range"
+                                            min={0}
+                                            max={255}
+                                            value={conversionSettings.threshold}
+                                            onChange={(e) => setConversionSettings({ ...conversionSettings, threshold: parseInt(e.target.value) })}
+                                        />
+                                        <span style={{ width: '28px' }}>{conversionSettings.threshold}</span>
+                                    </label>
+                                    <label>
+                                        Save as{' '}
+                                        <input
+                                            type="text"
+                                            value={conversionSettings.name}
+                                            onChange={(e) => setConversionSettings({ ...conversionSettings, name: e.target.value })}
+                                            style={{ width: '200px', padding: '4px' }}
+                                        />
+                                    </label>
+                                </div>
+                            </div>
+                        ) : imageBrowserLoading ? (
                             <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>
                                 Loading images...
                             </div>
@@ -5273,38 +7364,87 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 ))}
                             </div>
                         )}
-
-                        <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
-                            <button
-                                onClick={addImageFromBrowser}
-                                disabled={!selectedImage || imageBrowserLoading}
-                                style={{
-                                    padding: '8px 16px',
-                                    backgroundColor: (!selectedImage || imageBrowserLoading) ? '#ccc' : '#007bff',
-                                    color: 'white',
-                                    border: 'none',
-                                    borderRadius: '4px',
-                                    cursor: (!selectedImage || imageBrowserLoading) ? 'not-allowed' : 'pointer',
-                                    fontSize: '14px'
-                                }}
-                            >
-                                Add Image
-                            </button>
-                            <button 
-                                onClick={() => setShowImageBrowserDialog(false)}
-                                style={{
-                                    padding: '8px 16px',
-                                    backgroundColor: '#6c757d',
-                                    color: 'white',
-                                    border: 'none',
-                                    borderRadius: '4px',
-                                    cursor: 'pointer',
-                                    fontSize: '14px'
-                                }}
-                            >
-                                Cancel
-                            </button>
-                        </div>
+
+                        {imageUpload ? (
+                            <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+                                <button
+                                    onClick={saveImageUpload}
+                                    disabled={imageUploadSaving || !!conversionError}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: (imageUploadSaving || conversionError) ? '#ccc' : '#28a745',
+                                        color: 'white',
+                                        border: 'none',
+                                        borderRadius: '4px',
+                                        cursor: (imageUploadSaving || conversionError) ? 'not-allowed' : 'pointer',
+                                        fontSize: '14px'
+                                    }}
+                                >
+                                    {imageUploadSaving ? 'Saving...' : 'Save to Library'}
+                                </button>
+                                <button
+                                    onClick={closeImageUpload}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: '#6c757d',
+                                        color: 'white',
+                                        border: 'none',
+                                        borderRadius: '4px',
+                                        cursor: 'pointer',
+                                        fontSize: '14px'
+                                    }}
+                                >
+                                    Back
+                                </button>
+                            </div>
+                        ) : (
+                            <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+                                <button
+                                    onClick={pickImageUpload}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: '#28a745',
+                                        color: 'white',
+                                        border: 'none',
+                                        borderRadius: '4px',
+                                        cursor: 'pointer',
+                                        fontSize: '14px',
+                                        marginRight: 'auto'
+                                    }}
+                                >
+                                    Upload…
+                                </button>
+                                <button
+                                    onClick={addImageFromBrowser}
+                                    disabled={!selectedImage || imageBrowserLoading}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: (!selectedImage || imageBrowserLoading) ? '#ccc' : '#007bff',
+                                        color: 'white',
+                                        border: 'none',
+                                        borderRadius: '4px',
+                                        cursor: (!selectedImage || imageBrowserLoading) ? 'not-allowed' : 'pointer',
+                                        fontSize: '14px'
+                                    }}
+                                >
+                                    Add Image
+                                </button>
+                                <button 
+                                    onClick={closeImageBrowser}
+                                    style={{
+                                        padding: '8px 16px',
+                                        backgroundColor: '#6c757d',
+                                        color: 'white',
+                                        border: 'none',
+                                        borderRadius: '4px',
+                                        cursor: 'pointer',
+                                        fontSize: '14px'
+                                    }}
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
@@ -5412,6 +7552,24 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 >
                                     Reset
                                 </button>
+                                {activeProfile && (
+                                    <button
+                                        // CSS pixels are 1/96 inch, so this shows the label at its physical size
+                                        onClick={() => setPreviewZoom(activeProfile.widthMm / 25.4 * 96 / canvasWidth)}
+                                        style={{
+                                            padding: '4px 12px',
+                                            backgroundColor: '#6c757d',
+                                            color: 'white',
+                                            border: 'none',
+                                            borderRadius: '4px',
+                                            cursor: 'pointer',
+                                            fontSize: '12px'
+                                        }}
+                                        title="Show the label at its physical size"
+                                    >
+                                        Actual size
+                                    </button>
+                                )}
                             </div>
                             <button 
                                 onClick={() => {
@@ -5439,6 +7597,12 @@ const IntegratedTemplateEditor: React.FC = () => {
                             </button>
                         </div>
 
+                        {activeProfile && (
+                            <div style={{ textAlign: 'center', fontSize: '13px', color: '#666', marginBottom: '10px' }}>
+                                {activeProfile.name} · {activeProfile.widthMm} × {activeProfile.heightMm} mm · {activeProfile.dpi} dpi
+                            </div>
+                        )}
+
                         {/* Case Color Selector */}
                         <div style={{ 
                             display: 'flex', 
@@ -5535,13 +7699,21 @@ const IntegratedTemplateEditor: React.FC = () => {
                             </div>
                         </div>
 
+                        {previewWarnings.length > 0 && (
+                            <div style={{ marginTop: '10px', fontSize: '12px', maxHeight: '80px', overflowY: 'auto' }}>
+                                {previewWarnings.map(warning => (
+                                    <div key={warning} style={{ color: '#dc3545', marginBottom: '4px' }}>⚠ {warning}</div>
+                                ))}
+                            </div>
+                        )}
+
                         <div style={{ marginTop: '15px', display: 'flex', justifyContent: 'center', gap: '10px' }}>
                             <button
                                 onClick={() => {
                                     // Download the preview image
                                     const link = document.createElement('a');
                                     link.href = previewImageUrl;
-                                    link.download = 'esl-template.jpg';
+                                    link.download = 'esl-template.png';
                                     document.body.appendChild(link);
                                     link.click();
                                     document.body.removeChild(link);
@@ -5558,6 +7730,20 @@ const IntegratedTemplateEditor: React.FC = () => {
                             >
                                 Download
                             </button>
+                            <button
+                                onClick={downloadRenderedBmp}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: '#28a745',
+                                    color: 'white',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '14px'
+                                }}
+                            >
+                                Download BMP
+                            </button>
                             <button 
                                 onClick={() => {
                                     setShowPreviewDialog(false);
@@ -5580,6 +7766,91 @@ const IntegratedTemplateEditor: React.FC = () => {
                 </div>
             )}
 
+            {/* Palette Change Dialog */}
+            {paletteChange && (() => {
+                const offending = getOffPaletteItems(paletteChange.eslType);
+                const palette = getPalette(paletteChange.eslType);
+                const colorName = (color: string) => {
+                    const fill = colorToFill(color);
+                    const paletteColor = ESL_COLORS.find(candidate => candidate.fill === fill);
+                    return paletteColor ? paletteColor.name : color;
+                };
+                return (
+                    <div style={{
+                        position: 'fixed',
+                        top: 0,
+                        left: 0,
+                        right: 0,
+                        bottom: 0,
+                        backgroundColor: 'rgba(0,0,0,0.5)',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        zIndex: 2100
+                    }} onClick={() => setPaletteChange(null)}>
+                        <div style={{
+                            backgroundColor: 'white',
+                            padding: '20px',
+                            borderRadius: '8px',
+                            boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+                            width: '480px',
+                            maxHeight: '80vh',
+                            overflow: 'auto'
+                        }} onClick={(e) => e.stopPropagation()}>
+                            <h2 style={{ margin: '0 0 10px 0', fontSize: '18px', color: '#333' }}>
+                                Switch to {paletteChange.eslType}{paletteChange.profile ? ` (${paletteChange.profile.name})` : ''}
+                            </h2>
+                            <p style={{ fontSize: '14px', color: '#555', margin: '0 0 10px 0' }}>
+                                {offending.length} element{offending.length === 1 ? ' uses a colour' : 's use colours'} a {paletteChange.eslType} panel cannot show:
+                            </p>
+                            <ul style={{ fontSize: '13px', margin: '0 0 15px 0', paddingLeft: '20px', maxHeight: '150px', overflow: 'auto' }}>
+                                {offending.map(item => (
+                                    <li key={item.id}>
+                                        {item.type}
+                                        {item.type === 'text' ? ` "${item.text}"` : item.type === 'barcode' || item.type === 'qrcode' || item.type === 'price' ? ` "${item.data}"` : ''}
+                                        {' '}({colorName(item.color)})
+                                    </li>
+                                ))}
+                            </ul>
+                            {Object.keys(paletteChange.remap).map(color => (
+                                <label key={color} style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', marginBottom: '8px' }}>
+                                    <span style={{ minWidth: '80px' }}>{colorName(color)} →</span>
+                                    <select
+                                        value={paletteChange.remap[color]}
+                                        onChange={(e) => setPaletteChange({ ...paletteChange, remap: { ...paletteChange.remap, [color]: e.target.value } })}
+                                        style={{ flex: 1, padding: '6px', border: '1px solid #ddd', borderRadius: '4px' }}
+                                    >
+                                        {palette.map(paletteColor => (
+                                            <option key={paletteColor.fill} value={fillToColor(paletteColor.fill)}>{paletteColor.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            ))}
+                            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '10px', marginTop: '15px' }}>
+                                <button
+                                    onClick={() => setPaletteChange(null)}
+                                    style={{ padding: '8px 16px', backgroundColor: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={() => confirmPaletteChange(false)}
+                                    style={{ padding: '8px 16px', backgroundColor: '#6c757d', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                                >
+                                    Switch without remapping
+                                </button>
+                                <button
+                                    onClick={() => confirmPaletteChange(true)}
+                                    style={{ padding: '8px 16px', backgroundColor: '#007bff', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                                >
+                                    Remap and switch
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })()}
+
             {/* ESL Config Dialog */}
             {showEslConfigDialog && (
                 <div style={{
@@ -5653,7 +7924,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                                     <span style={{ fontWeight: '500', minWidth: '70px' }}>Type:</span>
                                     <select 
                                         value={eslType}
-                                        onChange={(e) => setEslType(e.target.value as 'bw' | 'bwry')}
+                                        onChange={(e) => requestPaletteChange(e.target.value as EslType)}
                                         style={{ 
                                             flex: 1,
                                             padding: '6px 10px', 
@@ -5665,6 +7936,8 @@ const IntegratedTemplateEditor: React.FC = () => {
                                         }}
                                     >
                                         <option value="bw">Black & White (bw)</option>
+                                        <option value="bwr">Black, White, Red (bwr)</option>
+                                        <option value="bwy">Black, White, Yellow (bwy)</option>
                                         <option value="bwry">Black, White, Red, Yellow (bwry)</option>
                                     </select>
                                 </label>
@@ -5710,6 +7983,108 @@ const IntegratedTemplateEditor: React.FC = () => {
                 </div>
             )}
 
+            {/* Grid & Snapping Dialog */}
+            {showGridDialog && (
+                <div style={{
+                    position: 'fixed',
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    backgroundColor: 'rgba(0,0,0,0.5)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    zIndex: 2000
+                }} onClick={() => setShowGridDialog(false)}>
+                    <div style={{
+                        backgroundColor: 'white',
+                        padding: '30px',
+                        borderRadius: '8px',
+                        boxShadow: '0 4px 20px rgba(0,0,0,0.3)',
+                        maxWidth: '400px',
+                        width: '90%'
+                    }} onClick={(e) => e.stopPropagation()}>
+                        <h2 style={{ margin: '0 0 25px 0', fontSize: '20px', color: '#333' }}>Grid & Snapping</h2>
+                        
+                        <div style={{ marginBottom: '25px' }}>
+                            <h3 style={{ margin: '0 0 15px 0', fontSize: '16px', color: '#555', fontWeight: '600' }}>Grid</h3>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                                <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '10px' }}>
+                                    <span style={{ fontWeight: '500', minWidth: '70px' }}>Spacing:</span>
+                                    <input 
+                                        type="number" 
+                                        value={snapSettings.gridSize}
+                                        onChange={(e) => {
+                                            const gridSize = Math.max(1, parseInt(e.target.value) || 1);
+                                            setSnapSettings(settings => ({ ...settings, gridSize }));
+                                        }}
+                                        min="1"
+                                        style={{ 
+                                            flex: 1,
+                                            padding: '6px 10px', 
+                                            border: '1px solid #ddd', 
+                                            borderRadius: '4px',
+                                            fontSize: '14px'
+                                        }}
+                                    />
+                                    <span style={{ fontSize: '13px', color: '#666' }}>px</span>
+                                </label>
+                                <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
+                                    <input 
+                                        type="checkbox" 
+                                        checked={snapSettings.showGrid}
+                                        onChange={(e) => setSnapSettings(settings => ({ ...settings, showGrid: e.target.checked }))}
+                                    />
+                                    Show grid
+                                </label>
+                            </div>
+                        </div>
+
+                        <div style={{ marginBottom: '25px' }}>
+                            <h3 style={{ margin: '0 0 15px 0', fontSize: '16px', color: '#555', fontWeight: '600' }}>Snap To</h3>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                                {([
+                                    { key: 'snapToGrid', label: 'Grid' },
+                                    { key: 'snapToCanvas', label: 'Canvas edges and centre' },
+                                    { key: 'snapToElements', label: 'Other elements\' edges and centres' },
+                                    { key: 'snapToGuides', label: 'Ruler guides' }
+                                ] as Array<{ key: 'snapToGrid' | 'snapToCanvas' | 'snapToElements' | 'snapToGuides'; label: string }>).map(option => (
+                                    <label key={option.key} style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
+                                        <input 
+                                            type="checkbox" 
+                                            checked={snapSettings[option.key]}
+                                            onChange={(e) => setSnapSettings(settings => ({ ...settings, [option.key]: e.target.checked }))}
+                                        />
+                                        {option.label}
+                                    </label>
+                                ))}
+                            </div>
+                            <p style={{ margin: '12px 0 0 0', fontSize: '12px', color: '#666' }}>
+                                Hold Alt while dragging or resizing to place elements freely.
+                            </p>
+                        </div>
+
+                        <button 
+                            onClick={() => setShowGridDialog(false)}
+                            style={{
+                                width: '100%',
+                                padding: '10px 24px',
+                                backgroundColor: '#007bff',
+                                color: 'white',
+                                border: 'none',
+                                borderRadius: '4px',
+                                cursor: 'pointer',
+                                fontSize: '14px',
+                                fontWeight: '500'
+                            }}
+                        >
+                            Done
+                        </button>
+                    </div>
+                </div>
+            )}
+
             <div className={styles.mainLayout}>
                 {/* Left Sidebar with Navigation */}
                 <div className={styles.sidebar}>
@@ -5733,8 +8108,17 @@ const IntegratedTemplateEditor: React.FC = () => {
                 </div>
 
                 {/* Main Canvas Area */}
-                <div className={styles.canvasArea}>
+                <div className={styles.canvasArea} style={rulerAreaStyle}>
+                    <CanvasRulers
+                        width={canvasWidth}
+                        height={canvasHeight}
+                        zoomLevel={zoomLevel}
+                        offset={rulerOffset}
+                        cursor={cursorPosition}
+                        onGuideDrag={startGuideDrag}
+                    />
                     <div 
+                        ref={canvasContainerRef}
                         className={styles.canvasContainer} 
                         style={{ 
                             position: 'relative', 
@@ -5744,9 +8128,13 @@ const IntegratedTemplateEditor: React.FC = () => {
                             justifyContent: 'flex-start',
                             alignItems: 'flex-start',
                             padding: '20px',
-                            minHeight: 0 // Critical for flex child to enable scrolling
+                            minHeight: 0, // Critical for flex child to enable scrolling
+                            minWidth: 0
                         }}
                         onMouseDown={handleContainerMouseDown}
+                        onMouseMove={handleCanvasPointerMove}
+                        onMouseLeave={() => setCursorPosition(null)}
+                        onScroll={updateRulerOffset}
                     >
                         <div 
                             className={styles.canvas} 
@@ -5776,11 +8164,29 @@ const IntegratedTemplateEditor: React.FC = () => {
                                     onMouseDown={handleCanvasMouseDown}
                                 >
                                     <rect className="canvas-background" width="100%" height="100%" fill="white"/>
-                                    
+                                
+                                    {/* Pixel Grid */}
+                                    {snapSettings.showGrid && (
+                                        <g style={{ pointerEvents: "none" }}>
+                                            <defs>
+                                                <pattern id="canvas-grid" width={snapSettings.gridSize} height={snapSettings.gridSize} patternUnits="userSpaceOnUse">
+                                                    <path
+                                                        d={`M ${snapSettings.gridSize} 0 L 0 0 0 ${snapSettings.gridSize}`}
+                                                        fill="none"
+                                                        stroke="#d0d7de"
+                                                        strokeWidth={1 / zoomLevel}
+                                                    />
+                                                </pattern>
+                                            </defs>
+                                            <rect x={0} y={0} width={canvasWidth} height={canvasHeight} fill="url(#canvas-grid)" />
+                                        </g>
+                                    )}
+                                
                                     {/* Canvas Items */}
                                     {canvasItems
+                                        .map(item => applySampleRecord(item, activeSampleRecord))
                                         .sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
-                                        .map(item => {
+                                        .map(item => renderTurned(item, () => {
                                         if (item.type === "rect") {
                                             return (
                                                 <rect
@@ -5814,23 +8220,17 @@ const IntegratedTemplateEditor: React.FC = () => {
                                         }
                                         if (item.type === "text") {
                                             const text = String(item.text || '');
-                                            const lines = text.split('\n');
-                                            const lineHeight = item.fontSize * 1.2;
-                                            
-                                            // Calculate anchor-based positioning for both edit and display modes
-                                            const estimatedTextWidth = estimateTextWidth(text, item.fontSize, (item as TextItem).fontFamily);
-                                            const estimatedTextHeight = lines.length * lineHeight;
-                                            const textAnchoredPosition = calculateAnchoredPosition(item as TextItem, estimatedTextWidth, estimatedTextHeight);
-                                            
+                                            const textLayout = getTextLayout(item);
+                                    
                                             // If this text is being edited, show input instead
                                             if (editingTextId === item.id) {
                                                 return (
                                                     <foreignObject
                                                         key={item.id}
-                                                        x={textAnchoredPosition.x}
-                                                        y={textAnchoredPosition.y}
-                                                        width={Math.max(200, text.length * item.fontSize * 0.6)}
-                                                        height={Math.max(item.fontSize * 1.5, lines.length * lineHeight + 10)}
+                                                        x={textLayout.x}
+                                                        y={textLayout.y}
+                                                        width={item.box ? item.box.width : Math.max(200, textLayout.width + 20)}
+                                                        height={item.box ? item.box.height : Math.max(item.fontSize * 1.5, textLayout.height + 10)}
                                                     >
                                                         <textarea
                                                             autoFocus
@@ -5850,7 +8250,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                                 width: '100%',
                                                                 height: '100%',
                                                                 fontSize: `${item.fontSize}px`,
-                                                                fontFamily: (item as TextItem).fontFamily || availableFonts[0].value,
+                                                                fontFamily: getTextFontFamily(item),
                                                                 fontWeight: ((item as TextItem).bold ?? false) ? 'bold' : 'normal',
                                                                 fontStyle: ((item as TextItem).italic ?? false) ? 'italic' : 'normal',
                                                                 textDecoration: ((item as TextItem).underline ?? false) ? 'underline' : 'none',
@@ -5865,27 +8265,17 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                     </foreignObject>
                                                 );
                                             }
-                                            
-                                            return (
+                                    
+                                            const textElement = (
                                                 <text
                                                     key={item.id}
-                                                    ref={(el) => {
-                                                        if (el) {
-                                                            textElementRefs.current.set(item.id, el);
-                                                        } else {
-                                                            textElementRefs.current.delete(item.id);
-                                                        }
-                                                    }}
-                                                    x={textAnchoredPosition.x}
-                                                    y={textAnchoredPosition.y}
                                                     fill={item.color}
-                                                    fontSize={item.fontSize}
-                                                    dominantBaseline="hanging"
+                                                    fontSize={textLayout.fontSize}
                                                     textAnchor="start"
                                                     style={{ 
                                                         cursor: "grab", 
                                                         userSelect: "none",
-                                                        fontFamily: (item as TextItem).fontFamily || availableFonts[0].value,
+                                                        fontFamily: getTextFontFamily(item),
                                                         lineHeight: 1,
                                                         fontWeight: ((item as TextItem).bold ?? false) ? 'bold' : 'normal',
                                                         fontStyle: ((item as TextItem).italic ?? false) ? 'italic' : 'normal',
@@ -5894,17 +8284,38 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                     onMouseDown={(e) => handleMouseDown(e, item.id)}
                                                     onDoubleClick={(e) => handleTextDoubleClick(e, item as TextItem)}
                                                 >
-                                                    {lines.map((line, index) => (
+                                                    {/* Each line on its own baseline, where the generator draws it */}
+                                                    {textLayout.lines.map((line, index) => (
                                                         <tspan
                                                             key={index}
-                                                            x={textAnchoredPosition.x}
-                                                            dy={index === 0 ? 0 : lineHeight}
+                                                            x={line.x}
+                                                            y={line.baseline}
                                                         >
-                                                            {line}
+                                                            {line.text}
                                                         </tspan>
                                                     ))}
                                                 </text>
                                             );
+                                            if (!item.box) return textElement;
+                                            // Bounded text: the box outline, which also takes clicks between the lines
+                                            return (
+                                                <g key={item.id}>
+                                                    <rect
+                                                        x={item.x}
+                                                        y={item.y}
+                                                        width={item.box.width}
+                                                        height={item.box.height}
+                                                        fill="transparent"
+                                                        stroke={textLayout.truncated ? '#dc3545' : '#999'}
+                                                        strokeWidth={1 / zoomLevel}
+                                                        strokeDasharray={`${4 / zoomLevel} ${3 / zoomLevel}`}
+                                                        style={{ cursor: "grab" }}
+                                                        onMouseDown={(e) => handleMouseDown(e, item.id)}
+                                                        onDoubleClick={(e) => handleTextDoubleClick(e, item as TextItem)}
+                                                    />
+                                                    {textElement}
+                                                </g>
+                                            );
                                         }
                                         if (item.type === "line") {
                                             return (
@@ -5916,7 +8327,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                         const rectY = Math.min(item.y, item.y2) - (isHorizontal ? thickness / 2 : 0);
                                                         const rectWidth = isHorizontal ? Math.abs(item.x2 - item.x) : thickness;
                                                         const rectHeight = isHorizontal ? thickness : Math.abs(item.y2 - item.y);
-                                                        
+                                                
                                                         return (
                                                             <>
                                                                 {/* Selection outline for selected line */}
@@ -5947,72 +8358,73 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                 </g>
                                             );
                                         }
-                                        if (item.type === "barcode") {
+                                        if (item.type === "price") {
+                                            const priceLayout = getPriceLayout(item);
                                             return (
-                                                <g key={item.id}>
-                                                    <rect
-                                                        x={item.x}
-                                                        y={item.y}
-                                                        width={item.width}
-                                                        height={item.height}
-                                                        fill="white"
-                                                        stroke={item.color}
-                                                        strokeWidth={1}
-                                                        style={{ cursor: "grab" }}
-                                                        onMouseDown={(e) => handleMouseDown(e, item.id)}
-                                                    />
-                                                    {/* Barcode bars simulation */}
-                                                    {Array.from({ length: 10 }, (_, i) => (
+                                                <g
+                                                    key={item.id}
+                                                    fill={item.color}
+                                                    style={{ cursor: "grab", userSelect: "none", fontFamily: getFontFileFamily(item.fontFile || DEFAULT_FONT_FILE) }}
+                                                    onMouseDown={(e) => handleMouseDown(e, item.id)}
+                                                >
+                                                    {/* Catches clicks between the parts */}
+                                                    <rect x={priceLayout.x} y={priceLayout.y} width={priceLayout.width} height={priceLayout.height} fill="transparent" />
+                                                    {priceLayout.parts.map((part, index) => (
+                                                        <text key={index} x={part.left} y={part.baseline} fontSize={part.fontSize}>
+                                                            {part.text}
+                                                        </text>
+                                                    ))}
+                                                    {priceLayout.strike && (
                                                         <rect
-                                                            key={i}
-                                                            x={item.x + 5 + i * (item.width - 10) / 10}
-                                                            y={item.y + 3}
-                                                            width={Math.max(1, (item.width - 10) / 15)}
-                                                            height={item.height - 6}
-                                                            fill={item.color}
-                                                            style={{ pointerEvents: "none" }}
+                                                            x={priceLayout.strike.x1}
+                                                            y={priceLayout.strike.y}
+                                                            width={priceLayout.strike.x2 - priceLayout.strike.x1}
+                                                            height={priceLayout.strike.thickness}
                                                         />
-                                                    ))}
-                                                    <text
-                                                        x={item.x + item.width / 2}
-                                                        y={item.y + item.height + 12}
-                                                        fill={item.color}
-                                                        fontSize="8"
-                                                        textAnchor="middle"
-                                                        style={{ pointerEvents: "none" }}
-                                                    >
-                                                        {item.data}
-                                                    </text>
+                                                    )}
                                                 </g>
                                             );
                                         }
-                                        if (item.type === "qrcode") {
+                                        if (item.type === "barcode" || item.type === "qrcode") {
+                                            // The box is the space reserved for the symbol; it turns
+                                            // red when the encoded symbol does not fit
+                                            const layout = layoutCode(item);
+                                            const warnings = getCodeWarnings(item, layout, canvasWidth, canvasHeight);
+                                            const boxWidth = item.type === "barcode" ? item.width : item.size;
+                                            const boxHeight = item.type === "barcode" ? item.height : item.size;
                                             return (
                                                 <g key={item.id}>
                                                     <rect
                                                         x={item.x}
                                                         y={item.y}
-                                                        width={item.size}
-                                                        height={item.size}
+                                                        width={boxWidth}
+                                                        height={boxHeight}
                                                         fill="white"
-                                                        stroke={item.color}
-                                                        strokeWidth={1}
+                                                        stroke={warnings.length > 0 ? "#dc3545" : "#bbb"}
+                                                        strokeWidth={1 / zoomLevel}
+                                                        strokeDasharray={`${3 / zoomLevel} ${2 / zoomLevel}`}
                                                         style={{ cursor: "grab" }}
                                                         onMouseDown={(e) => handleMouseDown(e, item.id)}
+                                                    >
+                                                        {warnings.length > 0 && <title>{warnings.join('\n')}</title>}
+                                                    </rect>
+                                                    <path
+                                                        d={barsToSvgPath(layout.bars, item.x, item.y)}
+                                                        fill={item.color}
+                                                        shapeRendering="crispEdges"
+                                                        style={{ pointerEvents: "none" }}
                                                     />
-                                                    {/* QR code pattern simulation */}
-                                                    {Array.from({ length: 7 }, (_, row) =>
-                                                        Array.from({ length: 7 }, (_, col) => (
-                                                            <rect
-                                                                key={`${row}-${col}`}
-                                                                x={item.x + 3 + col * (item.size - 6) / 7}
-                                                                y={item.y + 3 + row * (item.size - 6) / 7}
-                                                                width={(item.size - 6) / 9}
-                                                                height={(item.size - 6) / 9}
-                                                                fill={(row + col) % 2 === 0 ? item.color : "transparent"}
-                                                                style={{ pointerEvents: "none" }}
-                                                            />
-                                                        ))
+                                                    {item.type === "barcode" && (
+                                                        <text
+                                                            x={item.x + item.width / 2}
+                                                            y={item.y + item.height + 12}
+                                                            fill={item.color}
+                                                            fontSize="8"
+                                                            textAnchor="middle"
+                                                            style={{ pointerEvents: "none" }}
+                                                        >
+                                                            {item.data}
+                                                        </text>
                                                     )}
                                                 </g>
                                             );
@@ -6064,8 +8476,8 @@ const IntegratedTemplateEditor: React.FC = () => {
                                             );
                                         }
                                         return null;
-                                    })}
-                                    
+                                    }))}
+                                
                                     {/* Resize Handles for Selected Elements */}
                                     {(() => {
                                         // For single selection, show resize handles for rect, text, or line
@@ -6079,30 +8491,72 @@ const IntegratedTemplateEditor: React.FC = () => {
                                                 return renderResizeHandles(selectedItem as LineItem);
                                             } else if (selectedItem?.type === 'image') {
                                                 return renderResizeHandles(selectedItem as ImageItem);
+                                            } else if (selectedItem?.type === 'barcode' || selectedItem?.type === 'qrcode') {
+                                                return renderResizeHandles(selectedItem);
                                             }
                                             return null;
                                         }
-                                        
-                                        // For multiple selection, show resize handles for all text elements
+                                    
+                                        // For multiple selection, outline the selection (labelled with the group
+                                        // name when it is a group) with corner handles that scale it as one unit
                                         if (selectedIds.length > 1) {
-                                            const textItems = canvasItems.filter(item => 
-                                                selectedIds.includes(item.id) && item.type === 'text'
-                                            ) as TextItem[];
-                                            
+                                            const bounds = getSelectionBounds(canvasItems.filter(item => selectedIds.includes(item.id)));
+                                            if (!bounds) return null;
+                                        
+                                            const selectedGroup = findSelectedGroup(selectedIds, canvasItems, canvasGroups);
+                                            const handleSize = 8;
+                                            const corners = [
+                                                { id: 'nw', x: bounds.x, y: bounds.y, cursor: 'nw-resize' },
+                                                { id: 'ne', x: bounds.x + bounds.width, y: bounds.y, cursor: 'ne-resize' },
+                                                { id: 'sw', x: bounds.x, y: bounds.y + bounds.height, cursor: 'sw-resize' },
+                                                { id: 'se', x: bounds.x + bounds.width, y: bounds.y + bounds.height, cursor: 'se-resize' }
+                                            ];
+                                        
                                             return (
-                                                <>
-                                                    {textItems.map(textItem => (
-                                                        <g key={`resize-${textItem.id}`}>
-                                                            {renderResizeHandles(textItem)}
-                                                        </g>
+                                                <g>
+                                                    <rect
+                                                        x={bounds.x}
+                                                        y={bounds.y}
+                                                        width={bounds.width}
+                                                        height={bounds.height}
+                                                        fill="none"
+                                                        stroke="#007bff"
+                                                        strokeWidth={1}
+                                                        strokeDasharray="4 2"
+                                                        style={{ pointerEvents: "none" }}
+                                                    />
+                                                    {selectedGroup && (
+                                                        <text
+                                                            x={bounds.x}
+                                                            y={bounds.y - 4}
+                                                            fill="#007bff"
+                                                            fontSize="10"
+                                                            style={{ pointerEvents: "none", userSelect: "none" }}
+                                                        >
+                                                            {selectedGroup.name}
+                                                        </text>
+                                                    )}
+                                                    {corners.map(corner => (
+                                                        <rect
+                                                            key={corner.id}
+                                                            x={corner.x - handleSize / 2}
+                                                            y={corner.y - handleSize / 2}
+                                                            width={handleSize}
+                                                            height={handleSize}
+                                                            fill="#007bff"
+                                                            stroke="#fff"
+                                                            strokeWidth={1}
+                                                            style={{ cursor: corner.cursor }}
+                                                            onMouseDown={(e) => handleGroupScaleMouseDown(e, corner.id)}
+                                                        />
                                                     ))}
-                                                </>
+                                                </g>
                                             );
                                         }
-                                        
+                                    
                                         return null;
                                     })()}
-                                    
+                                
                                     {/* Drag-to-Select Box */}
                                     {selectingBox && (
                                         <rect
@@ -6117,10 +8571,47 @@ const IntegratedTemplateEditor: React.FC = () => {
                                             style={{ pointerEvents: "none" }}
                                         />
                                     )}
+                                
+                                    {/* Smart Guides */}
+                                    {snapGuides.map((guide, index) => (
+                                        <line
+                                            key={`guide-${index}`}
+                                            x1={guide.orientation === 'vertical' ? guide.position : 0}
+                                            y1={guide.orientation === 'vertical' ? 0 : guide.position}
+                                            x2={guide.orientation === 'vertical' ? guide.position : canvasWidth}
+                                            y2={guide.orientation === 'vertical' ? canvasHeight : guide.position}
+                                            stroke="#ff00aa"
+                                            strokeWidth={1 / zoomLevel}
+                                            style={{ pointerEvents: "none" }}
+                                        />
+                                    ))}
+                                    
+                                    {/* Ruler Guides - drag to move, drop outside the canvas to remove */}
+                                    {canvasGuides.map(guide => {
+                                        const vertical = guide.orientation === 'vertical';
+                                        const lineProps = {
+                                            x1: vertical ? guide.position : 0,
+                                            y1: vertical ? 0 : guide.position,
+                                            x2: vertical ? guide.position : canvasWidth,
+                                            y2: vertical ? canvasHeight : guide.position
+                                        };
+                                        return (
+                                            <g key={`ruler-guide-${guide.id}`}>
+                                                <line {...lineProps} stroke="#00a2e8" strokeWidth={1 / zoomLevel} style={{ pointerEvents: "none" }} />
+                                                <line
+                                                    {...lineProps}
+                                                    stroke="transparent"
+                                                    strokeWidth={6 / zoomLevel}
+                                                    style={{ cursor: vertical ? "ew-resize" : "ns-resize" }}
+                                                    onMouseDown={(e) => handleGuideMouseDown(e, guide.id)}
+                                                />
+                                            </g>
+                                        );
+                                    })}
                                 </svg>
                             </div>
                         </div>
-                        
+                    
                         {/* Floating Zoom Controls - Bottom Right of canvas area */}
                         <div 
                             onMouseDown={handleZoomControlMouseDown}
@@ -6163,7 +8654,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                                         {Math.round(zoomLevel * 100)}%
                                     </div>
                                 </div>
-                                
+                            
                                 {/* Buttons container */}
                                 <div style={{
                                     display: 'flex',
@@ -6204,7 +8695,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 >
                                     +
                                 </button>
-                                
+                            
                                 <button 
                                     onClick={resetZoom}
                                     title="Reset Zoom (100%)"
@@ -6229,7 +8720,7 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 >
                                     ○
                                 </button>
-                                
+                            
                                 <button 
                                     onClick={zoomOut}
                                     disabled={zoomLevel === zoomLevels[0]}
@@ -6266,6 +8757,20 @@ const IntegratedTemplateEditor: React.FC = () => {
                                 </div>
                             </div>
                     </div>
+
+                    {/* Cursor Position */}
+                    <div style={{
+                        gridColumn: '1 / -1',
+                        padding: '4px 10px',
+                        backgroundColor: '#f8f9fa',
+                        borderTop: '1px solid #ddd',
+                        fontSize: '12px',
+                        fontFamily: 'monospace',
+                        color: '#333'
+                    }}>
+                        {cursorPosition ? `x: ${cursorPosition.x}  y: ${cursorPosition.y}` : 'x: –  y: –'}
+                        <span style={{ marginLeft: '20px', color: '#888' }}>{canvasWidth} × {canvasHeight} px</span>
+                    </div>
                 </div>
 
                 {/* Properties sidebar on the right */}
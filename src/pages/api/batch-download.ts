@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getBatchArchive, getBatchStatus } from '../../utils/batchJobs';
+
+// ZIP of a finished batch job: one image per record, plus report.csv
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { jobId } = req.query;
+    const job = typeof jobId === 'string' ? getBatchStatus(jobId) : undefined;
+
+    if (!job || typeof jobId !== 'string') {
+        return res.status(404).json({ error: 'Batch job not found' });
+    }
+    const archive = getBatchArchive(jobId);
+    if (!archive) {
+        return res.status(409).json({ error: 'Batch job has not finished', details: job.error });
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="labels-${jobId}.zip"`);
+    res.send(archive);
+}
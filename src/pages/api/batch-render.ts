@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { startBatchJob } from '../../utils/batchJobs';
+import { formatValidationError, validateTemplateYaml } from '../../utils/templateValidator';
+
+// Uploaded product feeds can be large
+export const config = {
+    api: {
+        bodyParser: { sizeLimit: '20mb' }
+    }
+};
+
+// Most rows a single batch may have
+const MAX_BATCH_ROWS = 10000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Start rendering one label per record. `mapping` names the column holding each variable;
+// image files are named after `keyColumn`. Poll /api/batch-status with the returned job id
+// and fetch the ZIP from /api/batch-download once it is done.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { content, records, mapping = {}, keyColumn, format = 'png' } = req.body || {};
+
+    if (!content || typeof content !== 'string') {
+        return res.status(400).json({ error: 'Template content is required' });
+    }
+    if (!Array.isArray(records) || records.length === 0 || !records.every(isRecord)) {
+        return res.status(400).json({ error: 'Records must be a non-empty array of objects' });
+    }
+    if (records.length > MAX_BATCH_ROWS) {
+        return res.status(400).json({ error: `A batch can have at most ${MAX_BATCH_ROWS} rows` });
+    }
+    if (!isRecord(mapping) || !Object.values(mapping).every(column => typeof column === 'string')) {
+        return res.status(400).json({ error: 'Mapping must name a column for each variable' });
+    }
+    if (keyColumn !== undefined && keyColumn !== null && typeof keyColumn !== 'string') {
+        return res.status(400).json({ error: 'Key column must be a column name' });
+    }
+    if (format !== 'png' && format !== 'bmp') {
+        return res.status(400).json({ error: 'Format must be png or bmp' });
+    }
+
+    const validation = validateTemplateYaml(content);
+    if (!validation.isValid) {
+        return res.status(400).json({
+            error: 'Template does not match the ESL template format',
+            details: validation.errors.map(formatValidationError).join('\n'),
+            errors: validation.errors
+        });
+    }
+
+    const job = startBatchJob({
+        content,
+        records,
+        mapping: mapping as Record<string, string>,
+        keyColumn: keyColumn || undefined,
+        format
+    });
+    res.status(202).json({ job });
+}
@@ -0,0 +1,17 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getBatchStatus } from '../../utils/batchJobs';
+
+// Progress of a batch job, and its report once it is done
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { jobId } = req.body || {};
+    const job = typeof jobId === 'string' ? getBatchStatus(jobId) : undefined;
+
+    if (!job) {
+        return res.status(404).json({ error: 'Batch job not found' });
+    }
+    res.status(200).json({ job });
+}
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createFolder, sendLibraryError } from '../../utils/templateLibrary';
+
+// Create a folder; `path` is relative to the template root
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { path } = req.body || {};
+
+    try {
+        const created = createFolder(path);
+        res.status(200).json({ success: true, path: created });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to create folder');
+    }
+}
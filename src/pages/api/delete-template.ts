@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { deleteTemplate, sendLibraryError } from '../../utils/templateLibrary';
+
+// Move a template to the trash; it can be brought back with restore-template
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { folderPath, fileName } = req.body || {};
+
+    try {
+        const entry = deleteTemplate(folderPath, fileName);
+        res.status(200).json({ success: true, trashEntry: entry });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to delete template');
+    }
+}
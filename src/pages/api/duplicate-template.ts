@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { duplicateTemplate, sendLibraryError } from '../../utils/templateLibrary';
+
+// Copy a template within its folder, under `newName` or "<name> copy.yml"
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { folderPath, fileName, newName } = req.body || {};
+
+    try {
+        const copy = duplicateTemplate(folderPath, fileName, newName);
+        res.status(200).json({ success: true, path: copy });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to duplicate template');
+    }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+import path from 'path';
+import { isFontFileName, resolveFontFile } from '../../utils/fontFiles';
+import { StoragePathError } from '../../utils/storage';
+
+// Serve a TTF or OTF file from the fonts root, so the editor can measure and show text in
+// the typeface the tag image generator uses. `fontbase` is the template's font folder,
+// looked in first as the generator does.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { file, fontbase } = req.query;
+
+    if (!file || typeof file !== 'string') {
+        return res.status(400).json({ error: 'Font file is required' });
+    }
+    if (!isFontFileName(file)) {
+        return res.status(400).json({ error: 'Font file must be a .ttf or .otf file' });
+    }
+
+    try {
+        const fontPath = resolveFontFile(typeof fontbase === 'string' ? fontbase : '', file);
+        if (!fs.existsSync(fontPath)) {
+            return res.status(404).json({ error: 'Font not found' });
+        }
+
+        res.setHeader('Content-Type', path.extname(file).toLowerCase() === '.otf' ? 'font/otf' : 'font/ttf');
+        // Font files can be replaced in place, so the browser checks back each time
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Last-Modified', fs.statSync(fontPath).mtime.toUTCString());
+        res.send(fs.readFileSync(fontPath));
+    } catch (error) {
+        if (error instanceof StoragePathError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error serving font:', error);
+        res.status(500).json({ error: 'Failed to load font' });
+    }
+}
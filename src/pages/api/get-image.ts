@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import fs from 'fs';
 import path from 'path';
+import { StoragePathError, resolveStoragePath } from '../../utils/storage';
 
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'GET') {
@@ -14,7 +15,8 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
     }
 
     try {
-        const imagePath = path.join('/opt/esl/tag_image_gen/images', filename);
+        // The filename is relative to the image root
+        const imagePath = resolveStoragePath('images', filename);
         
         // Check if file exists
         if (!fs.existsSync(imagePath)) {
@@ -41,6 +43,9 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
         // Send the image
         res.send(imageBuffer);
     } catch (error) {
+        if (error instanceof StoragePathError) {
+            return res.status(400).json({ error: error.message });
+        }
         console.error('Error serving image:', error);
         res.status(500).json({ error: 'Failed to load image' });
     }
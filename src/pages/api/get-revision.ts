@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRevision, sendLibraryError } from '../../utils/templateLibrary';
+
+// Content of one revision of a template
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { folderPath, fileName, id } = req.body || {};
+
+    try {
+        const { revision, content } = getRevision(folderPath, fileName, id);
+        res.status(200).json({ revision, content });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to read revision');
+    }
+}
@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import fs from 'fs';
 import path from 'path';
+import { StoragePathError, resolveStoragePath } from '../../utils/storage';
 
 type Data = {
   files?: string[];
@@ -16,11 +17,9 @@ export default function handler(
   }
 
   try {
-    const { path: dirPath } = req.body;
-
-    if (!dirPath || typeof dirPath !== 'string') {
-      return res.status(400).json({ error: 'Invalid path provided' });
-    }
+    // `path` is the folder relative to the storage root
+    const { root = 'templates', path: relativePath = '' } = req.body || {};
+    const dirPath = resolveStoragePath(root, relativePath);
 
     // Check if directory exists
     if (!fs.existsSync(dirPath)) {
@@ -46,7 +45,10 @@ export default function handler(
 
     res.status(200).json({ files });
   } catch (error) {
+    if (error instanceof StoragePathError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error reading directory:', error);
     res.status(500).json({ error: 'Failed to read directory' });
   }
-}
\ No newline at end of file
+}
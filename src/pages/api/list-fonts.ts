@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listFonts } from '../../utils/fontFiles';
+import { StoragePathError } from '../../utils/storage';
+
+// Font files in the fonts root, with the family and style names read from each file
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        res.status(200).json({ fonts: listFonts() });
+    } catch (error) {
+        if (error instanceof StoragePathError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error reading fonts:', error);
+        res.status(500).json({
+            error: 'Failed to read fonts',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
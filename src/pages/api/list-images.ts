@@ -1,19 +1,18 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import fs from 'fs';
 import path from 'path';
+import { StoragePathError, resolveStoragePath } from '../../utils/storage';
 
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'POST') {
         return res.status(405).json({ error: 'Method not allowed' });
     }
 
-    const { path: dirPath } = req.body;
-
-    if (!dirPath) {
-        return res.status(400).json({ error: 'Path is required' });
-    }
-
     try {
+        // `path` is an optional folder relative to the image root
+        const { root = 'images', path: relativePath = '' } = req.body || {};
+        const dirPath = resolveStoragePath(root, relativePath);
+
         // Read directory contents
         const files = fs.readdirSync(dirPath);
         
@@ -25,6 +24,9 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
 
         res.status(200).json({ files: imageFiles });
     } catch (error) {
+        if (error instanceof StoragePathError) {
+            return res.status(400).json({ error: error.message });
+        }
         console.error('Error reading directory:', error);
         res.status(500).json({ error: 'Failed to read directory' });
     }
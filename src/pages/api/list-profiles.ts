@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLabelProfiles } from '../../utils/labelProfiles';
+
+// Display models from the label profile registry
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        res.status(200).json({ profiles: getLabelProfiles() });
+    } catch (error) {
+        console.error('Error reading label profiles:', error);
+        res.status(500).json({
+            error: 'Failed to read label profiles',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
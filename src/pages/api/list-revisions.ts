@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listRevisions, sendLibraryError } from '../../utils/templateLibrary';
+
+// Saved revisions of a template, newest first
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { folderPath, fileName } = req.body || {};
+
+    try {
+        const revisions = listRevisions(folderPath, fileName);
+        res.status(200).json({ revisions });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to read template history');
+    }
+}
@@ -0,0 +1,16 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listTrash, sendLibraryError } from '../../utils/templateLibrary';
+
+// Templates in the trash, most recently deleted first
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const entries = listTrash();
+        res.status(200).json({ entries });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to read trash');
+    }
+}
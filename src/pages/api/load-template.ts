@@ -1,10 +1,14 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import fs from 'fs';
-import path from 'path';
+import { TemplateVersion } from '../../types';
+import { StoragePathError, resolveStorageFile } from '../../utils/storage';
+import { getTemplateVersion, isHiddenTemplatePath } from '../../utils/templateLibrary';
 
 type Data = {
   content?: string;
+  version?: TemplateVersion; // Send back as `baseVersion` when saving
   error?: string;
+  details?: string;
 };
 
 export default function handler(
@@ -16,13 +20,18 @@ export default function handler(
   }
 
   try {
-    const { folderPath, fileName } = req.body;
+    // `folderPath` is relative to the template root
+    const { folderPath = '', fileName } = req.body || {};
 
-    if (!folderPath || !fileName || typeof folderPath !== 'string' || typeof fileName !== 'string') {
+    if (typeof folderPath !== 'string' || !fileName || typeof fileName !== 'string') {
       return res.status(400).json({ error: 'Invalid folder path or file name provided' });
     }
+    // Revisions and trashed templates are only reached through the library routes
+    if (isHiddenTemplatePath(folderPath, fileName)) {
+      return res.status(400).json({ error: 'Invalid path', details: 'Templates cannot be loaded from hidden folders or files' });
+    }
 
-    const filePath = path.join(folderPath, fileName);
+    const filePath = resolveStorageFile('templates', folderPath, fileName);
 
     // Check if file exists
     if (!fs.existsSync(filePath)) {
@@ -43,8 +52,11 @@ export default function handler(
     // Read file content
     const content = fs.readFileSync(filePath, 'utf8');
     
-    res.status(200).json({ content });
+    res.status(200).json({ content, version: getTemplateVersion(filePath, content) });
   } catch (error) {
+    if (error instanceof StoragePathError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error reading file:', error);
     res.status(500).json({ error: 'Failed to read template file' });
   }
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { moveTemplate, sendLibraryError } from '../../utils/templateLibrary';
+
+// Move a template to another folder, keeping its name
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { folderPath, fileName, targetFolder } = req.body || {};
+
+    try {
+        const moved = moveTemplate(folderPath, fileName, targetFolder);
+        res.status(200).json({ success: true, path: moved });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to move template');
+    }
+}
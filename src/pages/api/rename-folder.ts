@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { renameFolder, sendLibraryError } from '../../utils/templateLibrary';
+
+// Rename a folder in place; `newName` is the new name, not a path
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { path, newName } = req.body || {};
+
+    try {
+        const renamed = renameFolder(path, newName);
+        res.status(200).json({ success: true, path: renamed });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to rename folder');
+    }
+}
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { renameTemplate, sendLibraryError } from '../../utils/templateLibrary';
+
+// Rename a template within its folder
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { folderPath, fileName, newName } = req.body || {};
+
+    try {
+        const renamed = renameTemplate(folderPath, fileName, newName);
+        res.status(200).json({ success: true, path: renamed });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to rename template');
+    }
+}
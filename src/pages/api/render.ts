@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { encodeRaster } from '../../utils/rasterImage';
+import { renderTemplate } from '../../utils/templateRenderer';
+import { formatValidationError, validateTemplateYaml } from '../../utils/templateValidator';
+
+// Render template YAML to the palette image the tag image generator would produce.
+// `variables` fills `var` elements; `format` is 'png' (default) or 'bmp'. Anything that
+// could not be drawn is listed in the X-Render-Warnings header as URI-encoded JSON.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { content, variables = {}, format = 'png' } = req.body || {};
+
+    if (!content || typeof content !== 'string') {
+        return res.status(400).json({ error: 'Template content is required' });
+    }
+    if (format !== 'png' && format !== 'bmp') {
+        return res.status(400).json({ error: 'Format must be png or bmp' });
+    }
+    if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+        return res.status(400).json({ error: 'Variables must be an object of names and values' });
+    }
+
+    const validation = validateTemplateYaml(content);
+    if (!validation.isValid) {
+        return res.status(400).json({
+            error: 'Template does not match the ESL template format',
+            details: validation.errors.map(formatValidationError).join('\n'),
+            errors: validation.errors
+        });
+    }
+
+    try {
+        const { image, warnings } = renderTemplate(content, variables);
+        res.setHeader('Content-Type', format === 'bmp' ? 'image/bmp' : 'image/png');
+        res.setHeader('Cache-Control', 'no-store');
+        res.setHeader('X-Render-Warnings', encodeURIComponent(JSON.stringify(warnings)));
+        res.status(200).send(encodeRaster(image, format));
+    } catch (error) {
+        console.error('Error rendering template:', error);
+        res.status(500).json({
+            error: 'Failed to render template',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
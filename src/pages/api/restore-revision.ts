@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { restoreRevision, sendLibraryError } from '../../utils/templateLibrary';
+
+// Write a revision back to its template, recording the restore as a new revision. `baseVersion`
+// is the hash of the version the editor loaded, as for save-template.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { folderPath, fileName, id, baseVersion, author } = req.body || {};
+
+    try {
+        const restored = restoreRevision(folderPath, fileName, id, baseVersion, author);
+        res.status(200).json({ success: true, ...restored });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to restore revision');
+    }
+}
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { restoreTemplate, sendLibraryError } from '../../utils/templateLibrary';
+
+// Restore a template from the trash to the folder it was deleted from
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { id } = req.body || {};
+
+    try {
+        const restored = restoreTemplate(id);
+        res.status(200).json({ success: true, path: restored });
+    } catch (error) {
+        sendLibraryError(res, error, 'Failed to restore template');
+    }
+}
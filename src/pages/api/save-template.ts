@@ -1,35 +1,56 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import fs from 'fs';
 import path from 'path';
+import { StoragePathError, resolveStorageFile, toStorageRelativePath } from '../../utils/storage';
+import { getTemplateVersion, isHiddenTemplatePath, recordBaseRevision, recordRevision } from '../../utils/templateLibrary';
+import { formatValidationError, validateTemplateYaml } from '../../utils/templateValidator';
 
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'POST') {
         return res.status(405).json({ error: 'Method not allowed' });
     }
 
-    const { folderPath, filename, content } = req.body;
+    // `folderPath` is relative to the template root. `baseVersion` is the hash of the version
+    // the editor loaded; an existing file is only replaced when it still has that hash.
+    // `author` and `message` are stored with the revision.
+    const { folderPath, filename, content, baseVersion, author, message } = req.body || {};
 
-    if (!folderPath || !filename || !content) {
+    // An empty `folderPath` is the template root itself
+    if (typeof folderPath !== 'string' || !filename || !content || typeof filename !== 'string') {
         return res.status(400).json({ error: 'Missing required parameters' });
     }
+    if (isHiddenTemplatePath(folderPath, filename)) {
+        return res.status(400).json({ error: 'Invalid path', details: 'Templates cannot be saved to hidden folders or files' });
+    }
 
     try {
         // Construct full file path
-        const fullPath = path.join(folderPath, filename);
+        const fullPath = resolveStorageFile('templates', folderPath, filename);
+        const dirPath = path.dirname(fullPath);
         
         // Ensure the filename ends with .yml or .yaml
         if (!filename.endsWith('.yml') && !filename.endsWith('.yaml')) {
             return res.status(400).json({ error: 'Filename must end with .yml or .yaml' });
         }
 
+        // Refuse to write templates the tag image generator cannot use
+        const validation = validateTemplateYaml(content);
+        if (!validation.isValid) {
+            return res.status(400).json({
+                error: 'Template does not match the ESL template format',
+                details: validation.errors.map(formatValidationError).join('\n'),
+                errors: validation.errors
+            });
+        }
+
         // Check if directory exists
-        if (!fs.existsSync(folderPath)) {
+        if (!fs.existsSync(dirPath)) {
             return res.status(400).json({ error: 'Directory does not exist' });
         }
 
         // Check if directory is writable
         try {
-            fs.accessSync(folderPath, fs.constants.W_OK);
+            fs.accessSync(dirPath, fs.constants.W_OK);
         } catch (permError) {
             return res.status(403).json({ 
                 error: 'Permission denied: Directory is not writable',
@@ -37,15 +58,39 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
             });
         }
 
-        // Write the file
+        // Refuse to overwrite a file that changed since it was loaded, or that the editor
+        // never loaded, and hand back what is there now
+        if (fs.existsSync(fullPath)) {
+            const currentContent = fs.readFileSync(fullPath, 'utf8');
+            const currentVersion = getTemplateVersion(fullPath, currentContent);
+            if (baseVersion !== currentVersion.hash) {
+                return res.status(409).json({
+                    error: baseVersion ? 'Template was changed by someone else' : 'Template already exists',
+                    details: baseVersion
+                        ? `${filename} was saved at ${currentVersion.mtime}, after you loaded it.`
+                        : `${filename} already exists in ${folderPath}.`,
+                    currentContent,
+                    currentVersion
+                });
+            }
+        }
+
+        // Write the file, keeping the old and new content in its history
+        recordBaseRevision(fullPath);
         fs.writeFileSync(fullPath, content, 'utf8');
+        const revision = recordRevision(fullPath, content, author, message);
 
         res.status(200).json({ 
             success: true, 
             message: 'Template saved successfully',
-            path: fullPath 
+            path: toStorageRelativePath('templates', fullPath),
+            version: getTemplateVersion(fullPath, content),
+            revision
         });
     } catch (error) {
+        if (error instanceof StoragePathError) {
+            return res.status(400).json({ error: error.message });
+        }
         console.error('Error saving template:', error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         res.status(500).json({ 
@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+import { describeFont, isFontFileName, parseFont } from '../../utils/fontFiles';
+import { StoragePathError, resolveStorageFile } from '../../utils/storage';
+
+// Font files arrive as base64 in the JSON body
+export const config = {
+    api: {
+        bodyParser: { sizeLimit: '20mb' }
+    }
+};
+
+// Add a TTF or OTF file (`data`, base64) to the fonts root as `fileName`. The file must
+// parse as a font. An existing file is only replaced with `overwrite`.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { fileName, data, overwrite = false } = req.body || {};
+
+    if (!fileName || typeof fileName !== 'string' || !isFontFileName(fileName)) {
+        return res.status(400).json({ error: 'File name must end with .ttf or .otf' });
+    }
+    if (!data || typeof data !== 'string') {
+        return res.status(400).json({ error: 'Font data is required' });
+    }
+
+    const buffer = Buffer.from(data, 'base64');
+    let font;
+    try {
+        font = describeFont(fileName, parseFont(buffer));
+    } catch (error) {
+        return res.status(400).json({
+            error: 'File is not a font that can be used on labels',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    try {
+        const fullPath = resolveStorageFile('fonts', '', fileName);
+        if (fs.existsSync(fullPath) && !overwrite) {
+            return res.status(409).json({
+                error: 'Font already exists',
+                details: `${fileName} already exists in the fonts folder.`
+            });
+        }
+
+        fs.writeFileSync(fullPath, buffer);
+        res.status(200).json({ success: true, font });
+    } catch (error) {
+        if (error instanceof StoragePathError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error saving font:', error);
+        res.status(500).json({
+            error: 'Failed to save font',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
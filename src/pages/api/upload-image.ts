@@ -0,0 +1,113 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+import path from 'path';
+import { DITHER_METHODS, MAX_IMAGE_SIZE, convertImage } from '../../utils/imageConversion';
+import { getPalette, isEslType } from '../../utils/palette';
+import { encodeBmp, encodePng } from '../../utils/rasterImage';
+import { StoragePathError, resolveStorageFile, toStorageRelativePath } from '../../utils/storage';
+
+// Photos and logos arrive as base64 in the JSON body
+export const config = {
+    api: {
+        bodyParser: { sizeLimit: '20mb' }
+    }
+};
+
+const isSize = (value: unknown): boolean =>
+    value === undefined || (Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_IMAGE_SIZE);
+
+// Convert an uploaded PNG, JPEG or SVG (`data`, base64) to the `palette` of a panel type,
+// resized to `width`×`height` and reduced with `method` at `threshold`. With `preview` the
+// result comes back as a PNG data URL; otherwise it is stored as the palette BMP `name` in
+// `folder` of the image root. An existing file is only replaced with `overwrite`.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const {
+        data,
+        width,
+        height,
+        palette = 'bwry',
+        method = 'floyd-steinberg',
+        threshold = 128,
+        preview = false,
+        folder = '',
+        name,
+        overwrite = false
+    } = req.body || {};
+
+    if (!data || typeof data !== 'string') {
+        return res.status(400).json({ error: 'Image data is required' });
+    }
+    if (!isSize(width) || !isSize(height)) {
+        return res.status(400).json({ error: `Width and height must be whole numbers from 1 to ${MAX_IMAGE_SIZE}` });
+    }
+    if (!isEslType(palette)) {
+        return res.status(400).json({ error: 'Palette must be bw, bwr, bwy or bwry' });
+    }
+    if (!DITHER_METHODS.includes(method)) {
+        return res.status(400).json({ error: `Method must be one of ${DITHER_METHODS.join(', ')}` });
+    }
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 255) {
+        return res.status(400).json({ error: 'Threshold must be a number from 0 to 255' });
+    }
+    if (!preview && (typeof name !== 'string' || !name.toLowerCase().endsWith('.bmp'))) {
+        return res.status(400).json({ error: 'Image name must end with .bmp' });
+    }
+
+    let image;
+    try {
+        image = convertImage(Buffer.from(data, 'base64'), {
+            width,
+            height,
+            palette: getPalette(palette),
+            method,
+            threshold
+        });
+    } catch (error) {
+        return res.status(400).json({
+            error: 'Image could not be converted',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+
+    if (preview) {
+        return res.status(200).json({
+            preview: `data:image/png;base64,${encodePng(image).toString('base64')}`,
+            width: image.width,
+            height: image.height
+        });
+    }
+
+    try {
+        const fullPath = resolveStorageFile('images', folder, name);
+        if (!fs.existsSync(path.dirname(fullPath))) {
+            return res.status(400).json({ error: 'Directory does not exist' });
+        }
+        if (fs.existsSync(fullPath) && !overwrite) {
+            return res.status(409).json({
+                error: 'Image already exists',
+                details: `${name} already exists in the image library.`
+            });
+        }
+
+        fs.writeFileSync(fullPath, encodeBmp(image));
+        res.status(200).json({
+            success: true,
+            path: toStorageRelativePath('images', fullPath),
+            width: image.width,
+            height: image.height
+        });
+    } catch (error) {
+        if (error instanceof StoragePathError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Error saving image:', error);
+        res.status(500).json({
+            error: 'Failed to save image',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
@@ -1,3 +1,6 @@
+import type React from 'react';
+import type { TextMetrics } from '../utils/textLayout';
+
 export interface Template {
     id?: string;
     title: string;
@@ -13,15 +16,268 @@ export interface TemplateEditorProps {
     onTemplateChange: (template: Template) => void;
 }
 
+export interface IntegratedTemplateEditorProps {
+    historyDepth?: number; // Number of undo steps to keep (default 100)
+}
+
 export interface PreviewPanelProps {
     template: Template;
 }
 
+export interface CanvasRulerProps {
+    orientation: 'horizontal' | 'vertical';
+    length: number; // Canvas size along the ruler, in canvas pixels
+    zoomLevel: number;
+    offset: number; // Screen distance from the ruler's start to canvas pixel 0
+    cursor: number | null; // Cursor position in canvas pixels, marked on the ruler
+    onMouseDown?: (e: React.MouseEvent) => void;
+}
+
+export interface CanvasRulersProps {
+    width: number; // Canvas size in canvas pixels
+    height: number;
+    zoomLevel: number;
+    offset: { x: number; y: number }; // Screen position of canvas pixel 0 along each ruler
+    cursor: { x: number; y: number } | null;
+    onGuideDrag: (e: React.MouseEvent, orientation: 'horizontal' | 'vertical') => void;
+}
+
 export interface YamlExport {
     templates: Template[];
 }
 
+// A single problem found when validating a template. `elementIndex` is the
+// position in the `el` list; it is absent for root-level problems.
+export interface TemplateValidationError {
+    elementIndex?: number;
+    field: string;
+    message: string;
+}
+
 export interface ValidationResult {
     isValid: boolean;
-    errors: string[];
-}
\ No newline at end of file
+    errors: TemplateValidationError[];
+}
+
+// Canvas item model used by the template editor
+export interface BaseItem {
+    id: number;
+    type: string;
+    x: number;
+    y: number;
+    color: string;
+    zIndex?: number;
+    // Degrees clockwise about x/y: the anchor point of free text, the top left corner of
+    // images, barcodes and QR codes. Other items are always drawn upright.
+    rotation?: number;
+    groupId?: number; // Innermost group the item belongs to
+    // Keys from an imported YAML element that the editor does not model.
+    // They are written back unchanged on export so other tools' settings survive a round trip.
+    extra?: Record<string, unknown>;
+}
+
+export interface RectItem extends BaseItem {
+    type: "rect";
+    width: number;
+    height: number;
+}
+
+export interface CircleItem extends BaseItem {
+    type: "circle";
+    radius: number;
+}
+
+export interface TextItem extends BaseItem {
+    type: "text";
+    text: string;
+    fontSize: number;
+    fontFile?: string; // TTF or OTF file in the fonts root, such as DejaVuSans.ttf
+    anchor?: TextAnchor; // Ignored for bounded text, which is placed by its box
+    box?: TextBox;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+export interface LineItem extends BaseItem {
+    type: "line";
+    x2: number;
+    y2: number;
+    strokeWidth: number;
+    thickness?: number; // Pixel thickness of the line (default 1)
+}
+
+export interface BarcodeItem extends BaseItem {
+    type: "barcode";
+    width: number;
+    height: number;
+    data: string;
+    captionFont?: string; // Font of the printed digits as "File.ttf:size"; without it the generator's default
+}
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRCodeItem extends BaseItem {
+    type: "qrcode";
+    size: number; // Space reserved for the symbol
+    data: string;
+    scale?: number; // Pixels per module (default 1)
+    ecc?: QrErrorCorrection; // Error correction level (default M)
+}
+
+export interface ImageItem extends BaseItem {
+    type: "image";
+    width: number;
+    height: number;
+    filename: string;
+    originalFilename?: string;
+}
+
+// A shelf price drawn as integer part, decimals and currency symbol, with an optional
+// struck-through original price above it. x/y is the top left corner of the layout.
+export interface PriceItem extends BaseItem {
+    type: "price";
+    data: string; // "[name]" to bind to a variable, or a literal price such as "12.99"
+    fontSize: number; // Size of the integer part
+    fontFile?: string;
+    separator: string; // Written between integer and decimals, such as "," or "."
+    currency: string; // Symbol such as "€"; empty for none
+    currencyPosition: 'before' | 'after';
+    raisedDecimals: boolean; // Decimals and currency smaller and level with the top of the integer, without a separator
+    integerDigits: number; // Integer digits the layout leaves room for, so the decimals stay put
+    originalPrice?: string; // "[name]" or literal; shown struck through when set
+}
+
+export type CanvasItem = RectItem | CircleItem | TextItem | LineItem | BarcodeItem | QRCodeItem | ImageItem | PriceItem;
+
+// A named set of canvas items that is selected, moved and scaled as one unit.
+// Groups nest through `parentId`; items point at their innermost group.
+export interface CanvasGroup {
+    id: number;
+    name: string;
+    parentId?: number;
+}
+
+// A guide line dragged out of a ruler: horizontal guides sit at y = position,
+// vertical guides at x = position. Guides are editor metadata, not label content.
+export interface CanvasGuide {
+    id: number;
+    orientation: 'horizontal' | 'vertical';
+    position: number;
+}
+
+export type TextAnchor = 'lt' | 'mt' | 'rt' | 'ls' | 'ms' | 'rs';
+
+// Bounded text is wrapped into a box with its top left corner at the item's x/y
+export interface TextBox {
+    width: number;
+    height: number;
+    maxLines?: number; // Lines past this are cut, the last one ending in an ellipsis
+    minFontSize?: number; // Auto-shrink: the font size steps down to this until the text fits
+    align: 'left' | 'center' | 'right';
+    verticalAlign: 'top' | 'middle' | 'bottom';
+}
+
+// ESL template YAML, as consumed by the tag image generator
+export type EslType = 'bw' | 'bwr' | 'bwy' | 'bwry';
+export type EslAxis = 0 | 1;
+
+// A display model from the server's label profile registry
+export interface LabelProfile {
+    id: string; // Recorded in templates as `_model`
+    name: string;
+    width: number; // Resolution in pixels
+    height: number;
+    palette: EslType;
+    widthMm: number; // Size of the active area
+    heightMm: number;
+    dpi: number;
+    axis: EslAxis; // Default orientation as mounted
+    housing: 'black' | 'white';
+}
+
+// A single entry of the template's `el` list. Only `type` is guaranteed;
+// the remaining keys depend on the element type.
+export interface EslElement {
+    type: string;
+    [key: string]: unknown;
+}
+
+export interface EslTemplateDocument {
+    fontbase?: string;
+    fonts?: unknown[];
+    type?: string;
+    x_res?: number;
+    y_res?: number;
+    axis?: number;
+    el?: EslElement[];
+    [key: string]: unknown;
+}
+
+// Values for the `var` fields of a template's elements, keyed by variable name
+export type TemplateVariables = Record<string, string>;
+
+// A row of a batch whose label could not be drawn as the template asks
+export interface BatchReportEntry {
+    row: number; // 1-based position in the uploaded records
+    fileName: string; // Image file in the archive
+    problems: string[];
+}
+
+// Progress of a batch rendering job
+export interface BatchJobStatus {
+    id: string;
+    status: 'running' | 'done' | 'failed';
+    total: number;
+    done: number;
+    report: BatchReportEntry[];
+    error?: string;
+}
+
+// A font file in the fonts root, named as its name table names it
+export interface LabelFont {
+    file: string;
+    family: string;
+    style: string;
+    glyphs: number;
+    error?: string; // Why the file could not be read as a font
+}
+
+// How uploaded images are reduced to the panel palette
+export type DitherMethod = 'threshold' | 'floyd-steinberg' | 'atkinson' | 'ordered';
+
+// Template-level data that has no place on the canvas but must be written back on save
+export interface TemplateExtras {
+    rootKeys: Record<string, unknown>;
+    elements: EslElement[];
+    // Number of canvas items before each of `elements` in the loaded file, so they are
+    // written back between the same layers. Elements without one go last.
+    elementLayers?: number[];
+    // `fonts` of the loaded file. Saving keeps them in place, so the font indices of
+    // elements the editor does not model stay valid.
+    fonts?: unknown[];
+}
+
+// A template in the library's trash, with the folder it was deleted from
+export interface TrashEntry {
+    id: string;
+    folderPath: string;
+    fileName: string;
+    deletedAt: string; // ISO timestamp
+}
+
+// Version of a template file in the library, returned when it is loaded or saved. A save
+// sends back the hash it was based on, so the server can tell when someone else saved in between.
+export interface TemplateVersion {
+    hash: string; // SHA-256 of the file content
+    mtime: string; // ISO timestamp of the last write
+}
+
+// A saved revision of a library template
+export interface TemplateRevision {
+    id: string;
+    author: string;
+    message?: string;
+    savedAt: string; // ISO timestamp
+    hash: string; // SHA-256 of the content, as in TemplateVersion
+}
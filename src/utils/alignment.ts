@@ -0,0 +1,71 @@
+import { CanvasItem } from '../types';
+import { translateItem } from './itemTransforms';
+
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Alignment and distribution work on units: lists of items that move together,
+// such as the members of a group. A unit's position is its bounding box.
+type UnitBounds = (items: CanvasItem[]) => Bounds | null;
+
+const moveUnit = (unit: CanvasItem[], deltaX: number, deltaY: number): CanvasItem[] =>
+    deltaX === 0 && deltaY === 0 ? unit : unit.map(item => translateItem(item, deltaX, deltaY));
+
+// Line up each unit's edge or centre with the same edge or centre of `target`
+export const alignUnits = (units: CanvasItem[][], getBounds: UnitBounds, mode: AlignMode, target: Bounds): CanvasItem[] =>
+    units.flatMap(unit => {
+        const bounds = getBounds(unit);
+        if (!bounds) return unit;
+
+        switch (mode) {
+            case 'left':
+                return moveUnit(unit, Math.round(target.x - bounds.x), 0);
+            case 'center':
+                return moveUnit(unit, Math.round(target.x + target.width / 2 - (bounds.x + bounds.width / 2)), 0);
+            case 'right':
+                return moveUnit(unit, Math.round(target.x + target.width - (bounds.x + bounds.width)), 0);
+            case 'top':
+                return moveUnit(unit, 0, Math.round(target.y - bounds.y));
+            case 'middle':
+                return moveUnit(unit, 0, Math.round(target.y + target.height / 2 - (bounds.y + bounds.height / 2)));
+            case 'bottom':
+                return moveUnit(unit, 0, Math.round(target.y + target.height - (bounds.y + bounds.height)));
+        }
+    });
+
+// Space units evenly between the first and last along an axis, leaving the outer two in place.
+// Needs at least three units; otherwise they are returned unchanged.
+export const distributeUnits = (units: CanvasItem[][], getBounds: UnitBounds, axis: DistributeAxis): CanvasItem[] => {
+    const measured = units
+        .map(unit => ({ unit, bounds: getBounds(unit) }))
+        .filter((entry): entry is { unit: CanvasItem[]; bounds: Bounds } => entry.bounds !== null);
+    if (measured.length < 3) return units.flat();
+
+    const start = (bounds: Bounds) => axis === 'horizontal' ? bounds.x : bounds.y;
+    const size = (bounds: Bounds) => axis === 'horizontal' ? bounds.width : bounds.height;
+
+    measured.sort((a, b) => start(a.bounds) - start(b.bounds));
+    const first = measured[0].bounds;
+    const last = measured[measured.length - 1].bounds;
+    const span = start(last) + size(last) - start(first);
+    const totalSize = measured.reduce((sum, entry) => sum + size(entry.bounds), 0);
+    const gap = (span - totalSize) / (measured.length - 1);
+
+    let position = start(first);
+    const moved = measured.map(({ unit, bounds }) => {
+        const delta = Math.round(position - start(bounds));
+        position += size(bounds) + gap;
+        return axis === 'horizontal' ? moveUnit(unit, delta, 0) : moveUnit(unit, 0, delta);
+    });
+
+    // Units without bounds are kept as they are
+    const unmeasured = units.filter(unit => !measured.some(entry => entry.unit === unit));
+    return [...moved, ...unmeasured].flat();
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { BarcodeItem } from '../types';
+import { encodeCode128, encodeCode128Values, getCodeWarnings, layoutBarcode } from './barcodes';
+
+const barcode = (data: string): BarcodeItem =>
+    ({ id: 1, type: 'barcode', x: 10, y: 10, width: 200, height: 40, color: 'black', data });
+
+// Values without their checksum and stop
+const dataValues = (text: string): number[] => encodeCode128Values(text).slice(0, -2);
+
+describe('encodeCode128Values', () => {
+    it('packs digits in pairs with set C', () => {
+        expect(encodeCode128Values('12345678')).toEqual([105, 12, 34, 56, 78, 47, 106]);
+        expect(dataValues('00')).toEqual([105, 0]);
+    });
+
+    it('keeps short or odd digit runs in the text set', () => {
+        expect(dataValues('123')).toEqual([104, 17, 18, 19]);
+        expect(dataValues('PJJ123C')).toEqual([104, 48, 42, 42, 17, 18, 19, 35]);
+    });
+
+    it('switches sets for mixed text', () => {
+        // B for the letters, C for the six digits, back to B for the lower case
+        expect(dataValues('AB123456cd')).toEqual([104, 33, 34, 99, 12, 34, 56, 100, 67, 68]);
+        // A for the control character, B around it
+        expect(dataValues('a\tb')).toEqual([104, 65, 101, 73, 100, 66]);
+        // An odd trailing run leaves its first digit in set B
+        expect(dataValues('X12345')).toEqual([104, 56, 17, 99, 23, 45]);
+    });
+
+    it('appends the checksum: the start plus each value times its position, modulo 103', () => {
+        // 104 + 48×1 + 42×2 + 42×3 + 17×4 + 18×5 + 19×6 + 35×7 = 879, and 879 mod 103 = 55
+        expect(encodeCode128Values('PJJ123C').slice(-2)).toEqual([55, 106]);
+        ['12345678', 'AB123456cd', 'a\tb', 'Hello, World!'].forEach(text => {
+            const values = encodeCode128Values(text);
+            const sum = values.slice(0, -2).reduce((total, value, position) => total + value * Math.max(1, position), 0);
+            expect(values[values.length - 2]).toBe(sum % 103);
+        });
+    });
+
+    it('rejects empty and non-ASCII data', () => {
+        expect(() => encodeCode128Values('')).toThrow('No data to encode');
+        expect(() => encodeCode128Values('Café')).toThrow('"é" cannot be encoded in Code 128');
+    });
+});
+
+describe('encodeCode128', () => {
+    it('is 11 modules per value and 13 for the stop', () => {
+        const modules = encodeCode128('12345678');
+        expect(modules).toHaveLength(6 * 11 + 13);
+        expect(modules.slice(0, 11)).toEqual([true, true, false, true, false, false, true, true, true, false, false]);
+    });
+});
+
+describe('layoutBarcode', () => {
+    it('reports data that cannot be encoded as a warning instead of throwing', () => {
+        const item = barcode('Café');
+        const layout = layoutBarcode(item);
+        expect(layout).toMatchObject({ width: 0, height: 0, bars: [] });
+        expect(getCodeWarnings(item, layout, 296, 128)).toEqual(['Cannot encode "Café": "é" cannot be encoded in Code 128']);
+    });
+
+    it('lays out encodable data without warnings', () => {
+        const item = barcode('12345678');
+        const layout = layoutBarcode(item);
+        expect(layout.error).toBeUndefined();
+        expect(layout.width).toBe(79);
+        expect(getCodeWarnings(item, layout, 296, 128)).toEqual([]);
+    });
+});
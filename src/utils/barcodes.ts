@@ -0,0 +1,254 @@
+import { create as createQrCode } from 'qrcode';
+import { BarcodeItem, QRCodeItem, QrErrorCorrection } from '../types';
+import { DEFAULT_FONT_FILE } from './fonts';
+import { getVariableName } from './variables';
+
+export const DEFAULT_QR_ECC: QrErrorCorrection = 'M';
+
+// Caption of barcodes added in the editor: digits in the default font right under the bars
+// and no quiet zone, as the canvas draws them. Loaded barcodes keep the settings of their file.
+export const NEW_BARCODE_CAPTION_FONT = `${DEFAULT_FONT_FILE}:16`;
+export const NEW_BARCODE_SETTINGS = { font_size: 3, quiet_zone: 0, write_text: true, text_distance: -1 };
+
+// Sample data drawn for "[name]" variables, so the editor shows a symbol of realistic size
+export const CODE128_PLACEHOLDER = '1234567890128';
+export const QR_PLACEHOLDER = 'https://example.com/p/1234567890128';
+
+// A dark area of a symbol, relative to the item's x/y
+export interface SymbolBar {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// An encoded barcode or QR code laid out in label pixels. The generator prints Code 128
+// at one pixel per module and QR codes at `scale` pixels per module, without quiet zone.
+export interface CodeLayout {
+    data: string; // What was encoded: the item's data, or the placeholder for a variable
+    width: number;
+    height: number;
+    bars: SymbolBar[];
+    error?: string; // Set when the data cannot be encoded; the layout is then empty
+}
+
+// Bar/space widths of Code 128 symbol values 0-105, then the stop pattern (106)
+const CODE128_PATTERNS = [
+    '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+    '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+    '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+    '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+    '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+    '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+    '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+    '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+    '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+    '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+    '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const CODE_C = 99;
+const CODE_B = 100;
+const CODE_A = 101;
+const START = { A: 103, B: 104, C: 105 };
+const STOP = 106;
+
+type Code128Set = 'A' | 'B' | 'C';
+
+const isDigit = (text: string, index: number): boolean => /[0-9]/.test(text.charAt(index));
+
+const digitRunLength = (text: string, from: number): number => {
+    let end = from;
+    while (end < text.length && isDigit(text, end)) end++;
+    return end - from;
+};
+
+// Set A holds control characters and upper case, set B upper and lower case
+const fitsSet = (code: number, set: 'A' | 'B'): boolean => set === 'A' ? code < 96 : code >= 32;
+
+const valueInSet = (code: number, set: 'A' | 'B'): number => set === 'A' && code < 32 ? code + 64 : code - 32;
+
+// A or B, whichever is needed first by the text from `from` on
+const chooseTextSet = (text: string, from: number): 'A' | 'B' => {
+    for (let i = from; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code < 32) return 'A';
+        if (code >= 96) return 'B';
+    }
+    return 'B';
+};
+
+// Symbol values for `text`, switching between sets A, B and C: runs of at least four
+// digits at the start or end, or six in the middle, are packed in pairs with set C
+export const encodeCode128Values = (text: string): number[] => {
+    if (text.length === 0) throw new Error('No data to encode');
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) > 127) {
+            throw new Error(`"${text.charAt(i)}" cannot be encoded in Code 128`);
+        }
+    }
+
+    const leadingDigits = digitRunLength(text, 0);
+    const startWithC = leadingDigits >= 4 || (leadingDigits === text.length && leadingDigits % 2 === 0);
+    let set: Code128Set = startWithC ? 'C' : chooseTextSet(text, 0);
+    const values: number[] = [START[set]];
+
+    let i = 0;
+    while (i < text.length) {
+        if (set === 'C') {
+            if (digitRunLength(text, i) >= 2) {
+                values.push(parseInt(text.substr(i, 2), 10));
+                i += 2;
+            } else {
+                set = chooseTextSet(text, i);
+                values.push(set === 'A' ? CODE_A : CODE_B);
+            }
+            continue;
+        }
+
+        const run = digitRunLength(text, i);
+        if (run >= 6 || (run >= 4 && i + run === text.length)) {
+            // An odd run keeps its first digit in the current set
+            if (run % 2 === 1) {
+                values.push(valueInSet(text.charCodeAt(i), set));
+                i++;
+            }
+            values.push(CODE_C);
+            set = 'C';
+            continue;
+        }
+
+        const code = text.charCodeAt(i);
+        if (!fitsSet(code, set)) {
+            set = set === 'A' ? 'B' : 'A';
+            values.push(set === 'A' ? CODE_A : CODE_B);
+        }
+        values.push(valueInSet(code, set));
+        i++;
+    }
+
+    const checksum = values.reduce((sum, value, position) => sum + value * Math.max(1, position), 0) % 103;
+    return [...values, checksum, STOP];
+};
+
+// Modules of a Code 128 symbol, true for bars
+export const encodeCode128 = (text: string): boolean[] => {
+    const modules: boolean[] = [];
+    encodeCode128Values(text).forEach(value => {
+        CODE128_PATTERNS[value].split('').forEach((width, index) => {
+            for (let m = 0; m < Number(width); m++) modules.push(index % 2 === 0);
+        });
+    });
+    return modules;
+};
+
+// Encoded QR codes by ECC level and data. The canvas redraws on every mouse move while
+// dragging, and encoding is the slow part of drawing a QR code.
+const qrCache = new Map<string, boolean[][]>();
+const QR_CACHE_SIZE = 50;
+
+// Modules of a QR code, row by row
+export const encodeQrCode = (text: string, ecc: QrErrorCorrection = DEFAULT_QR_ECC): boolean[][] => {
+    if (text.length === 0) throw new Error('No data to encode');
+
+    const cacheKey = `${ecc}:${text}`;
+    const cached = qrCache.get(cacheKey);
+    if (cached) return cached;
+
+    let matrix;
+    try {
+        matrix = createQrCode(text, { errorCorrectionLevel: ecc }).modules;
+    } catch (error) {
+        throw new Error(error instanceof Error ? error.message : 'Data cannot be encoded as a QR code');
+    }
+
+    const rows: boolean[][] = [];
+    for (let row = 0; row < matrix.size; row++) {
+        const cells: boolean[] = [];
+        for (let col = 0; col < matrix.size; col++) cells.push(matrix.get(row, col) === 1);
+        rows.push(cells);
+    }
+
+    if (qrCache.size >= QR_CACHE_SIZE) qrCache.clear();
+    qrCache.set(cacheKey, rows);
+    return rows;
+};
+
+// Join neighbouring dark modules of a row into one bar
+const rowBars = (modules: boolean[], y: number, moduleSize: number, height: number): SymbolBar[] => {
+    const bars: SymbolBar[] = [];
+    let start = -1;
+    modules.concat(false).forEach((dark, index) => {
+        if (dark && start === -1) start = index;
+        if (!dark && start !== -1) {
+            bars.push({ x: start * moduleSize, y, width: (index - start) * moduleSize, height });
+            start = -1;
+        }
+    });
+    return bars;
+};
+
+export const layoutBarcode = (item: BarcodeItem): CodeLayout => {
+    const data = getVariableName(item.data) !== undefined ? CODE128_PLACEHOLDER : item.data;
+    try {
+        const modules = encodeCode128(data);
+        return { data, width: modules.length, height: item.height, bars: rowBars(modules, 0, 1, item.height) };
+    } catch (error) {
+        return { data, width: 0, height: 0, bars: [], error: (error as Error).message };
+    }
+};
+
+export const layoutQrCode = (item: QRCodeItem): CodeLayout => {
+    const data = getVariableName(item.data) !== undefined ? QR_PLACEHOLDER : item.data;
+    const scale = Math.max(1, Math.round(item.scale || 1));
+    try {
+        const rows = encodeQrCode(data, item.ecc || DEFAULT_QR_ECC);
+        const bars = rows.flatMap((modules, row) => rowBars(modules, row * scale, scale, scale));
+        return { data, width: rows.length * scale, height: rows.length * scale, bars };
+    } catch (error) {
+        return { data, width: 0, height: 0, bars: [], error: (error as Error).message };
+    }
+};
+
+export const layoutCode = (item: BarcodeItem | QRCodeItem): CodeLayout =>
+    item.type === 'barcode' ? layoutBarcode(item) : layoutQrCode(item);
+
+// SVG path drawing the bars of a symbol placed at x/y
+export const barsToSvgPath = (bars: SymbolBar[], x: number, y: number): string =>
+    bars.map(bar => `M${x + bar.x} ${y + bar.y}h${bar.width}v${bar.height}h${-bar.width}z`).join('');
+
+// Size the item's box to fit its symbol: the width of a barcode (its height is the bar
+// height) or the size of a QR code. Items whose data cannot be encoded are left as they are.
+export const fitBoxToSymbol = (item: BarcodeItem | QRCodeItem): BarcodeItem | QRCodeItem => {
+    const layout = layoutCode(item);
+    if (layout.error) return item;
+    return item.type === 'barcode' ? { ...item, width: layout.width } : { ...item, size: layout.width };
+};
+
+// Problems with an encoded symbol: data that cannot be encoded, or a symbol that does not
+// fit the space reserved by the item or runs off the canvas
+export const getCodeWarnings = (
+    item: BarcodeItem | QRCodeItem,
+    layout: CodeLayout,
+    canvasWidth: number,
+    canvasHeight: number
+): string[] => {
+    if (layout.error) return [`Cannot encode "${layout.data}": ${layout.error}`];
+
+    const warnings: string[] = [];
+    const boxWidth = item.type === 'barcode' ? item.width : item.size;
+    const boxHeight = item.type === 'barcode' ? item.height : item.size;
+    if (layout.width > boxWidth) {
+        warnings.push(`Symbol is ${layout.width}px wide, ${layout.width - boxWidth}px wider than its box`);
+    }
+    if (layout.height > boxHeight) {
+        warnings.push(`Symbol is ${layout.height}px tall, ${layout.height - boxHeight}px taller than its box`);
+    }
+    if (item.x + layout.width > canvasWidth || item.x < 0) {
+        warnings.push('Symbol runs past the left or right edge of the canvas');
+    }
+    if (item.y + layout.height > canvasHeight || item.y < 0) {
+        warnings.push('Symbol runs past the top or bottom edge of the canvas');
+    }
+    return warnings;
+};
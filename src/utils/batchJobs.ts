@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { BatchJobStatus, BatchReportEntry, TemplateVariables } from '../types';
+import { RasterFormat, encodeRaster } from './rasterImage';
+import { parseTemplateYaml } from './templateParser';
+import { renderTemplateDocument } from './templateRenderer';
+import { ZipEntry, createZip } from './zipArchive';
+
+// Server-side only. Batch jobs render one label per record into a ZIP archive. They run
+// in the background so the editor can poll their progress and download the result.
+
+export interface BatchRequest {
+    content: string; // Template YAML
+    records: Record<string, unknown>[]; // Rows of the uploaded CSV or JSON
+    mapping: Record<string, string>; // Column holding each variable, by variable name
+    keyColumn?: string; // Column the image files are named after
+    format: RasterFormat;
+}
+
+interface BatchJob {
+    status: BatchJobStatus;
+    archive?: Buffer;
+    finishedAt?: number;
+}
+
+// Finished jobs are kept this long for their archive to be downloaded
+const JOB_LIFETIME = 60 * 60 * 1000;
+
+// Rows rendered between chances for other requests, such as status polls, to be answered
+const ROWS_PER_TICK = 10;
+
+// Kept on the global object: API routes may be bundled separately, and every route must
+// see the same jobs
+const globalJobs = global as typeof global & { eslBatchJobs?: Map<string, BatchJob> };
+const jobs = globalJobs.eslBatchJobs || (globalJobs.eslBatchJobs = new Map<string, BatchJob>());
+
+const pruneJobs = () => {
+    const now = Date.now();
+    jobs.forEach((job, id) => {
+        if (job.finishedAt !== undefined && now - job.finishedAt > JOB_LIFETIME) jobs.delete(id);
+    });
+};
+
+// Variables for one record. Empty cells count as missing, so the report lists them.
+export const recordVariables = (record: Record<string, unknown>, mapping: Record<string, string>): TemplateVariables => {
+    const variables: TemplateVariables = {};
+    Object.keys(mapping).forEach(name => {
+        const value = record[mapping[name]];
+        if (value !== undefined && value !== null && String(value) !== '') variables[name] = String(value);
+    });
+    return variables;
+};
+
+// File name from the key column, safe in any archive tool and unique within the batch
+const imageFileName = (key: string, row: number, extension: string, used: Set<string>): string => {
+    const base = key.trim().replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '').slice(0, 100) || `row-${row}`;
+    let name = `${base}.${extension}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}.${extension}`;
+    used.add(name.toLowerCase());
+    return name;
+};
+
+const csvField = (value: string | number): string => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per problem, so the report opens cleanly in a spreadsheet
+const reportCsv = (report: BatchReportEntry[]): string =>
+    ['row,file,problem']
+        .concat(...report.map(entry => entry.problems.map(problem =>
+            [entry.row, entry.fileName, problem].map(csvField).join(','))))
+        .join('\r\n') + '\r\n';
+
+const runJob = async (job: BatchJob, request: BatchRequest) => {
+    try {
+        const doc = parseTemplateYaml(request.content);
+        const entries: ZipEntry[] = [];
+        const usedNames = new Set<string>();
+
+        for (let index = 0; index < request.records.length; index++) {
+            if (index % ROWS_PER_TICK === 0) await new Promise(resolve => setImmediate(resolve));
+
+            const record = request.records[index];
+            const key = request.keyColumn ? String(record[request.keyColumn] ?? '') : '';
+            const fileName = imageFileName(key, index + 1, request.format, usedNames);
+            const { image, warnings } = renderTemplateDocument(doc, recordVariables(record, request.mapping));
+
+            entries.push({ name: fileName, data: encodeRaster(image, request.format) });
+            if (warnings.length > 0) job.status.report.push({ row: index + 1, fileName, problems: warnings });
+            job.status.done = index + 1;
+        }
+
+        entries.push({ name: 'report.csv', data: Buffer.from(reportCsv(job.status.report), 'utf8') });
+        job.archive = createZip(entries);
+        job.status.status = 'done';
+    } catch (error) {
+        console.error('Batch rendering failed:', error);
+        job.status.status = 'failed';
+        job.status.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    job.finishedAt = Date.now();
+};
+
+// Start rendering a batch and return its initial status
+export const startBatchJob = (request: BatchRequest): BatchJobStatus => {
+    pruneJobs();
+    const job: BatchJob = {
+        status: {
+            id: crypto.randomBytes(8).toString('hex'),
+            status: 'running',
+            total: request.records.length,
+            done: 0,
+            report: []
+        }
+    };
+    jobs.set(job.status.id, job);
+    runJob(job, request);
+    return job.status;
+};
+
+export const getBatchStatus = (id: string): BatchJobStatus | undefined => jobs.get(id)?.status;
+
+// The archive of a finished job
+export const getBatchArchive = (id: string): Buffer | undefined => jobs.get(id)?.archive;
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasGroup, CanvasItem } from '../types';
+import { cloneItemsForPaste, parseClipboard, serializeClipboard } from './clipboard';
+
+const rect: CanvasItem = { id: 1, type: 'rect', x: 10, y: 20, width: 30, height: 40, color: 'black', groupId: 2, zIndex: 1 };
+const line: CanvasItem = { id: 2, type: 'line', x: 0, y: 0, x2: 50, y2: 5, strokeWidth: 1, color: 'red', zIndex: 0 };
+const groups: CanvasGroup[] = [{ id: 1, name: 'Outer' }, { id: 2, name: 'Inner', parentId: 1 }, { id: 3, name: 'Other' }];
+
+const clipboardText = (items: unknown[], extra: Record<string, unknown> = {}): string =>
+    JSON.stringify({ format: 'esl-template-designer/canvas-items', canvasWidth: 296, canvasHeight: 128, items, groups: [], ...extra });
+
+describe('parseClipboard', () => {
+    it('reads back what was copied, with the groups of the copied items', () => {
+        const parsed = parseClipboard(serializeClipboard([rect, line], groups, 296, 128));
+        expect(parsed).toMatchObject({ canvasWidth: 296, canvasHeight: 128, items: [rect, line] });
+        expect(parsed?.groups).toEqual(groups.slice(0, 2));
+    });
+
+    it('ignores text that was not copied from the editor', () => {
+        expect(parseClipboard(undefined)).toBeNull();
+        expect(parseClipboard('')).toBeNull();
+        expect(parseClipboard('hello')).toBeNull();
+        expect(parseClipboard('[1, 2]')).toBeNull();
+        expect(parseClipboard(JSON.stringify({ format: 'other', items: [rect] }))).toBeNull();
+        expect(parseClipboard(clipboardText([rect], { items: 'rect' }))).toBeNull();
+    });
+
+    it('drops items of unknown types or missing a field their type needs', () => {
+        const items = [
+            rect,
+            { ...rect, type: 'triangle' },
+            { ...rect, width: undefined },
+            { ...rect, x: '10' },
+            { ...rect, height: null },
+            { id: 3, type: 'text', x: 0, y: 0, color: 'black', text: 'Price', fontSize: Infinity },
+            { type: 'constructor', id: 4, x: 0, y: 0, color: 'black' },
+            null,
+            'rect'
+        ];
+        expect(parseClipboard(clipboardText(items))?.items).toEqual([rect]);
+        expect(parseClipboard(clipboardText(items.slice(1)))).toBeNull();
+    });
+
+    it('drops malformed groups and reads a missing canvas size as 0', () => {
+        const parsed = parseClipboard(JSON.stringify({
+            format: 'esl-template-designer/canvas-items',
+            items: [rect],
+            groups: [groups[0], { id: '2', name: 'Inner' }, { id: 5 }]
+        }));
+        expect(parsed).toMatchObject({ canvasWidth: 0, canvasHeight: 0, groups: [groups[0]] });
+    });
+});
+
+describe('cloneItemsForPaste', () => {
+    it('gives copies new ids and zIndex above the canvas, keeping their stacking order, and moves them', () => {
+        const copies = cloneItemsForPaste([rect, line], [{ ...rect, id: 7, zIndex: 4 }], 10);
+        expect(copies).toMatchObject([
+            { type: 'line', id: 8, zIndex: 5, x: 10, y: 10, x2: 60, y2: 15 },
+            { type: 'rect', id: 9, zIndex: 6, x: 20, y: 30 }
+        ]);
+        expect(rect.x).toBe(10);
+    });
+});
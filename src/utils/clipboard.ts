@@ -0,0 +1,115 @@
+import { CanvasGroup, CanvasItem } from '../types';
+import { getGroupChain } from './groups';
+import { isPlainObject } from './templateParser';
+
+// Copied canvas elements, written to the system clipboard as JSON so they can be
+// pasted into another template or another browser tab
+export interface CanvasClipboard {
+    format: typeof CLIPBOARD_FORMAT;
+    canvasWidth: number;
+    canvasHeight: number;
+    items: CanvasItem[];
+    groups: CanvasGroup[];
+}
+
+const CLIPBOARD_FORMAT = 'esl-template-designer/canvas-items';
+
+// Distance pasted and duplicated items are moved so they don't cover the originals
+export const PASTE_OFFSET = 10;
+
+// Only the groups the copied items belong to are included
+export const serializeClipboard = (items: CanvasItem[], groups: CanvasGroup[], canvasWidth: number, canvasHeight: number): string => {
+    const groupIds: number[] = [];
+    items.forEach(item => groupIds.push(...getGroupChain(item.groupId, groups)));
+
+    const clipboard: CanvasClipboard = {
+        format: CLIPBOARD_FORMAT,
+        canvasWidth,
+        canvasHeight,
+        items,
+        groups: groups.filter(group => groupIds.includes(group.id))
+    };
+    return JSON.stringify(clipboard);
+};
+
+type FieldType = 'number' | 'string' | 'boolean';
+
+// Fields every item of a type needs before the editor can draw it
+const baseFields: Record<string, FieldType> = { id: 'number', x: 'number', y: 'number', color: 'string' };
+const itemFields: Record<CanvasItem['type'], Record<string, FieldType>> = {
+    rect: { width: 'number', height: 'number' },
+    circle: { radius: 'number' },
+    text: { text: 'string', fontSize: 'number' },
+    line: { x2: 'number', y2: 'number', strokeWidth: 'number' },
+    barcode: { width: 'number', height: 'number', data: 'string' },
+    qrcode: { size: 'number', data: 'string' },
+    image: { width: 'number', height: 'number', filename: 'string' },
+    price: {
+        data: 'string',
+        fontSize: 'number',
+        separator: 'string',
+        currency: 'string',
+        currencyPosition: 'string',
+        raisedDecimals: 'boolean',
+        integerDigits: 'number'
+    }
+};
+
+const hasFields = (value: Record<string, unknown>, fields: Record<string, FieldType>): boolean =>
+    Object.keys(fields).every(field =>
+        typeof value[field] === fields[field] && (fields[field] !== 'number' || isFinite(value[field] as number))
+    );
+
+const isCanvasItem = (value: unknown): value is CanvasItem =>
+    isPlainObject(value) &&
+    typeof value.type === 'string' &&
+    Object.prototype.hasOwnProperty.call(itemFields, value.type) &&
+    hasFields(value, baseFields) &&
+    hasFields(value, itemFields[value.type as CanvasItem['type']]);
+
+const isCanvasGroup = (value: unknown): value is CanvasGroup =>
+    isPlainObject(value) && typeof value.id === 'number' && typeof value.name === 'string';
+
+// Returns null for clipboard text that was not copied from the editor. Items missing a
+// field their type needs are dropped.
+export const parseClipboard = (text: string | undefined | null): CanvasClipboard | null => {
+    if (!text) return null;
+
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+
+    if (!isPlainObject(data) || data.format !== CLIPBOARD_FORMAT || !Array.isArray(data.items)) return null;
+
+    const items = data.items.filter(isCanvasItem);
+    if (items.length === 0) return null;
+
+    return {
+        format: CLIPBOARD_FORMAT,
+        canvasWidth: Number(data.canvasWidth) || 0,
+        canvasHeight: Number(data.canvasHeight) || 0,
+        items,
+        groups: Array.isArray(data.groups) ? data.groups.filter(isCanvasGroup) : []
+    };
+};
+
+// Copy items for insertion into `existing`: fresh ids, zIndex above everything already on
+// the canvas (keeping the copied stacking order) and positions moved by `offset`
+export const cloneItemsForPaste = (items: CanvasItem[], existing: CanvasItem[], offset: number): CanvasItem[] => {
+    let nextId = existing.length > 0 ? Math.max(...existing.map(item => item.id)) + 1 : 1;
+    let nextZIndex = existing.length > 0 ? Math.max(...existing.map(item => item.zIndex || 0)) + 1 : 0;
+
+    return [...items]
+        .sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
+        .map(item => {
+            const copy: CanvasItem = { ...item, id: nextId++, zIndex: nextZIndex++, x: item.x + offset, y: item.y + offset };
+            if (copy.type === 'line') {
+                copy.x2 += offset;
+                copy.y2 += offset;
+            }
+            return copy;
+        });
+};
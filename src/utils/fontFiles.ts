@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import opentype from 'opentype.js';
+import { LabelFont } from '../types';
+import { StoragePathError, resolveStoragePath } from './storage';
+
+// Server-side only. The TTF and OTF files in the fonts root, as the tag image generator
+// finds them.
+
+export const isFontFileName = (fileName: string): boolean => /\.(ttf|otf)$/i.test(fileName);
+
+// Loaded fonts by file path and modification time, so replaced files are picked up
+const fontCache = new Map<string, opentype.Font>();
+
+export const loadFont = (filePath: string): opentype.Font => {
+    const cacheKey = `${filePath}@${fs.statSync(filePath).mtimeMs}`;
+    let font = fontCache.get(cacheKey);
+    if (!font) {
+        font = parseFont(fs.readFileSync(filePath));
+        fontCache.set(cacheKey, font);
+    }
+    return font;
+};
+
+// Font files are looked up in the fonts root, or in the template's `fontbase` folder when
+// that is a folder inside the fonts root
+export const resolveFontFile = (fontbase: unknown, file: string): string => {
+    if (typeof fontbase === 'string' && fontbase !== '') {
+        try {
+            const candidate = resolveStoragePath('fonts', path.join(fontbase, file));
+            if (fs.existsSync(candidate)) return candidate;
+        } catch (error) {
+            if (!(error instanceof StoragePathError)) throw error;
+        }
+    }
+    return resolveStoragePath('fonts', file);
+};
+
+// Parse font data, refusing files that are not fonts or that have no glyphs to draw
+export const parseFont = (data: Buffer): opentype.Font => {
+    const font = opentype.parse(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+    if (!font.glyphs || font.glyphs.length === 0) throw new Error('The font has no glyphs');
+    return font;
+};
+
+// English name from the name table. Depending on the opentype.js version, names are grouped
+// by platform or already merged.
+const englishName = (font: opentype.Font, key: string): string | undefined => {
+    const names = font.names as unknown as Record<string, Record<string, Record<string, string>> | undefined>;
+    for (const table of [names.windows, names.macintosh, names]) {
+        const name = table?.[key];
+        if (name && typeof name === 'object') {
+            const value = name.en || Object.values(name)[0];
+            if (typeof value === 'string' && value.trim() !== '') return value.trim();
+        }
+    }
+    return undefined;
+};
+
+// Family and style of a font, preferring the typographic names that group weights into
+// one family, as in "Lato" / "Light Italic" rather than "Lato Light" / "Italic"
+export const describeFont = (file: string, font: opentype.Font): LabelFont => ({
+    file,
+    family: englishName(font, 'preferredFamily') || englishName(font, 'fontFamily') || file.replace(/\.(ttf|otf)$/i, ''),
+    style: englishName(font, 'preferredSubfamily') || englishName(font, 'fontSubfamily') || 'Regular',
+    glyphs: font.glyphs.length
+});
+
+// The TTF and OTF files in the fonts root, by family and style. Files that cannot be read
+// are listed with the reason, so they can be replaced.
+export const listFonts = (): LabelFont[] => {
+    const root = resolveStoragePath('fonts');
+    if (!fs.existsSync(root)) return [];
+
+    return fs.readdirSync(root)
+        .filter(file => isFontFileName(file) && fs.statSync(path.join(root, file)).isFile())
+        .map(file => {
+            try {
+                return describeFont(file, loadFont(path.join(root, file)));
+            } catch (error) {
+                return {
+                    file,
+                    family: file.replace(/\.(ttf|otf)$/i, ''),
+                    style: '',
+                    glyphs: 0,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                };
+            }
+        })
+        .sort((a, b) => a.family.localeCompare(b.family) || a.style.localeCompare(b.style) || a.file.localeCompare(b.file));
+};
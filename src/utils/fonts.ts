@@ -0,0 +1,17 @@
+import { LabelFont } from '../types';
+
+// Text items name their label font by file, as templates do. The files, and the family and
+// style names menus show for them, come from the fonts root through /api/list-fonts.
+
+// Font of text without one, and of barcode captions
+export const DEFAULT_FONT_FILE = 'FreeMonoRegular.ttf';
+
+// Browser font shown while a label font loads, or when the fonts root does not have it
+export const fallbackFontFamily = (file: string): string => {
+    if (/mono|courier|consol/i.test(file)) return 'monospace';
+    if (/serif|times|georgia|palatino/i.test(file) && !/sans/i.test(file)) return 'serif';
+    return 'sans-serif';
+};
+
+// Name of a font in menus
+export const getFontLabel = (font: LabelFont): string => font.error ? font.file : `${font.family} ${font.style}`.trim();
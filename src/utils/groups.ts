@@ -0,0 +1,154 @@
+import { CanvasGroup, CanvasItem } from '../types';
+
+export interface GroupedItems {
+    items: CanvasItem[];
+    groups: CanvasGroup[];
+}
+
+const nextGroupId = (groups: CanvasGroup[]): number =>
+    groups.length > 0 ? Math.max(...groups.map(group => group.id)) + 1 : 1;
+
+// Ids of a group and its ancestors, innermost first. Stops at missing parents and cycles.
+export const getGroupChain = (groupId: number | undefined, groups: CanvasGroup[]): number[] => {
+    const chain: number[] = [];
+    let current = groups.find(group => group.id === groupId);
+    while (current && !chain.includes(current.id)) {
+        chain.push(current.id);
+        const parentId = current.parentId;
+        current = parentId === undefined ? undefined : groups.find(group => group.id === parentId);
+    }
+    return chain;
+};
+
+export const getOutermostGroupId = (item: CanvasItem, groups: CanvasGroup[]): number | undefined => {
+    const chain = getGroupChain(item.groupId, groups);
+    return chain.length > 0 ? chain[chain.length - 1] : undefined;
+};
+
+// Ids of all items in a group, including those in nested groups
+export const getGroupMemberIds = (groupId: number, items: CanvasItem[], groups: CanvasGroup[]): number[] =>
+    items.filter(item => getGroupChain(item.groupId, groups).includes(groupId)).map(item => item.id);
+
+// Grow a selection so every grouped item brings the rest of its top-level group along
+export const expandToGroups = (ids: number[], items: CanvasItem[], groups: CanvasGroup[]): number[] => {
+    const groupIds: number[] = [];
+    items.forEach(item => {
+        const outermost = ids.includes(item.id) ? getOutermostGroupId(item, groups) : undefined;
+        if (outermost !== undefined && !groupIds.includes(outermost)) groupIds.push(outermost);
+    });
+
+    return items
+        .filter(item => {
+            if (ids.includes(item.id)) return true;
+            const outermost = getOutermostGroupId(item, groups);
+            return outermost !== undefined && groupIds.includes(outermost);
+        })
+        .map(item => item.id);
+};
+
+// The outermost group whose members are exactly the selected items, if there is one
+export const findSelectedGroup = (ids: number[], items: CanvasItem[], groups: CanvasGroup[]): CanvasGroup | undefined => {
+    const first = items.find(item => item.id === ids[0]);
+    if (!first) return undefined;
+
+    const chain = getGroupChain(first.groupId, groups);
+    for (let i = chain.length - 1; i >= 0; i--) {
+        const memberIds = getGroupMemberIds(chain[i], items, groups);
+        if (memberIds.length === ids.length && memberIds.every(id => ids.includes(id))) {
+            return groups.find(group => group.id === chain[i]);
+        }
+    }
+    return undefined;
+};
+
+// Drop groups that no longer contain any items, e.g. after their members were deleted
+export const pruneGroups = (groups: CanvasGroup[], items: CanvasItem[]): CanvasGroup[] => {
+    const usedIds: number[] = [];
+    items.forEach(item => usedIds.push(...getGroupChain(item.groupId, groups)));
+    return groups.filter(group => usedIds.includes(group.id));
+};
+
+// Put the selected items in a new group. Top-level groups that are wholly selected become
+// child groups of the new one; other selected items join it directly.
+export const groupItems = (
+    ids: number[],
+    items: CanvasItem[],
+    groups: CanvasGroup[],
+    name?: string
+): GroupedItems & { groupId: number } => {
+    const groupId = nextGroupId(groups);
+    const childGroupIds: number[] = [];
+    const directIds: number[] = [];
+
+    items.filter(item => ids.includes(item.id)).forEach(item => {
+        const outermost = getOutermostGroupId(item, groups);
+        const wholeGroupSelected = outermost !== undefined &&
+            getGroupMemberIds(outermost, items, groups).every(id => ids.includes(id));
+        if (wholeGroupSelected) {
+            if (!childGroupIds.includes(outermost)) childGroupIds.push(outermost);
+        } else {
+            directIds.push(item.id);
+        }
+    });
+
+    const newItems = items.map(item => directIds.includes(item.id) ? { ...item, groupId } : item);
+    const newGroups = [
+        ...groups.map(group => childGroupIds.includes(group.id) ? { ...group, parentId: groupId } : group),
+        { id: groupId, name: name || `Group ${groupId}` }
+    ];
+
+    return { items: newItems, groups: pruneGroups(newGroups, newItems), groupId };
+};
+
+// Dissolve the top-level groups of the selected items. Their child groups become
+// top-level groups and their direct members become ungrouped.
+export const ungroupItems = (ids: number[], items: CanvasItem[], groups: CanvasGroup[]): GroupedItems => {
+    const removedIds: number[] = [];
+    items.forEach(item => {
+        const outermost = ids.includes(item.id) ? getOutermostGroupId(item, groups) : undefined;
+        if (outermost !== undefined && !removedIds.includes(outermost)) removedIds.push(outermost);
+    });
+    if (removedIds.length === 0) return { items, groups };
+
+    const newGroups = groups
+        .filter(group => !removedIds.includes(group.id))
+        .map(({ parentId, ...group }) =>
+            parentId !== undefined && !removedIds.includes(parentId) ? { ...group, parentId } : group
+        );
+    const newItems = items.map(({ groupId, ...item }) =>
+        (groupId !== undefined && !removedIds.includes(groupId) ? { ...item, groupId } : item) as CanvasItem
+    );
+
+    return { items: newItems, groups: newGroups };
+};
+
+// Copy the groups used by `items` under ids that are free in `existingGroups`, so
+// pasted or duplicated items form their own groups instead of joining the originals
+export const cloneGroupsForPaste = (
+    items: CanvasItem[],
+    sourceGroups: CanvasGroup[],
+    existingGroups: CanvasGroup[]
+): GroupedItems => {
+    let groupId = nextGroupId(existingGroups);
+    const idMap = new Map<number, number>();
+    items.forEach(item => {
+        getGroupChain(item.groupId, sourceGroups).forEach(id => {
+            if (!idMap.has(id)) idMap.set(id, groupId++);
+        });
+    });
+
+    const groups = sourceGroups
+        .filter(group => idMap.has(group.id))
+        .map(group => {
+            const parentId = group.parentId !== undefined ? idMap.get(group.parentId) : undefined;
+            const copy: CanvasGroup = { id: idMap.get(group.id) as number, name: group.name };
+            if (parentId !== undefined) copy.parentId = parentId;
+            return copy;
+        });
+    const newItems = items.map(({ groupId: oldGroupId, ...item }) => {
+        const newGroupId = oldGroupId !== undefined ? idMap.get(oldGroupId) : undefined;
+        return (newGroupId !== undefined ? { ...item, groupId: newGroupId } : item) as CanvasItem;
+    });
+
+    return { items: newItems, groups };
+};
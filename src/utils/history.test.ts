@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, recordHistory, redoHistory, undoHistory } from './history';
+
+describe('history', () => {
+    it('undoes and redoes recorded states in order', () => {
+        let history = createHistory('a');
+        history = recordHistory(history, 'b');
+        history = recordHistory(history, 'c');
+
+        history = undoHistory(history);
+        expect(history.present).toBe('b');
+        history = undoHistory(history);
+        expect(history.present).toBe('a');
+        expect(undoHistory(history)).toBe(history);
+
+        history = redoHistory(history);
+        expect(history.present).toBe('b');
+        expect(history.future).toEqual(['c']);
+    });
+
+    it('drops the redo stack when a new state is recorded', () => {
+        let history = recordHistory(recordHistory(createHistory('a'), 'b'), 'c');
+        history = recordHistory(undoHistory(history), 'd');
+        expect(history).toMatchObject({ past: ['a', 'b'], present: 'd', future: [] });
+        expect(redoHistory(history)).toBe(history);
+    });
+
+    it('ignores recording the present state again', () => {
+        const history = recordHistory(createHistory('a'), 'b');
+        expect(recordHistory(history, 'b')).toBe(history);
+    });
+
+    it('keeps at most `depth` undo steps', () => {
+        let history = createHistory(0);
+        for (let i = 1; i <= 5; i++) history = recordHistory(history, i, 3);
+        expect(history.past).toEqual([2, 3, 4]);
+        expect(recordHistory(history, 6, 0).past).toEqual([]);
+    });
+
+    it('merges a run of edits with the same key into one undo step', () => {
+        let history = createHistory('a');
+        history = recordHistory(history, 'ab', undefined, 'text');
+        history = recordHistory(history, 'abc', undefined, 'text');
+        history = recordHistory(history, 'abcd', undefined, 'text');
+        expect(history).toMatchObject({ past: ['a'], present: 'abcd' });
+
+        history = undoHistory(history);
+        expect(history.present).toBe('a');
+        expect(history.future).toEqual(['abcd']);
+    });
+
+    it('starts a new step when the key changes or an edit has none', () => {
+        let history = createHistory('a');
+        history = recordHistory(history, 'b', undefined, 'x');
+        history = recordHistory(history, 'c', undefined, 'y');
+        history = recordHistory(history, 'd');
+        history = recordHistory(history, 'e');
+        expect(history.past).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('does not merge into a state reached by undo or redo', () => {
+        let history = createHistory('a');
+        history = recordHistory(history, 'b', undefined, 'x');
+        history = recordHistory(history, 'c');
+        history = undoHistory(history);
+        history = recordHistory(history, 'b2', undefined, 'x');
+        expect(history).toMatchObject({ past: ['a', 'b'], present: 'b2' });
+    });
+});
@@ -0,0 +1,52 @@
+// Undo/redo stack of immutable snapshots. `present` is the current state;
+// `past` holds older snapshots (most recent last) and `future` the undone ones.
+export interface History<T> {
+    past: T[];
+    present: T;
+    future: T[];
+    // Key of the edit that produced `present`, while later edits with the same key may replace it
+    mergeKey?: string;
+}
+
+// Number of undo steps kept when the editor is not given a depth
+export const DEFAULT_HISTORY_DEPTH = 100;
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+// Record a new state. Drops the redo stack and the oldest snapshots beyond `depth`.
+// A state recorded with the same `mergeKey` as the present one replaces it instead of
+// adding an undo step, so a run of edits to one field is undone at once.
+export const recordHistory = <T>(history: History<T>, next: T, depth: number = DEFAULT_HISTORY_DEPTH, mergeKey?: string): History<T> => {
+    if (next === history.present) return history;
+    if (mergeKey !== undefined && mergeKey === history.mergeKey) {
+        return { past: history.past, present: next, future: [], mergeKey };
+    }
+
+    const past = [...history.past, history.present];
+    return {
+        past: past.slice(Math.max(0, past.length - Math.max(0, depth))),
+        present: next,
+        future: [],
+        mergeKey
+    };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+    if (history.past.length === 0) return history;
+
+    return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future]
+    };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+    if (history.future.length === 0) return history;
+
+    return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1)
+    };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { decodeUpload, readImageSize } from './imageConversion';
+
+const svg = (attributes: string): Buffer =>
+    Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" ${attributes}><rect width="10" height="10"/></svg>`);
+
+describe('decodeUpload', () => {
+    it('rejects SVGs larger than the maximum from their pixel size', () => {
+        expect(() => decodeUpload(svg('width="5000" height="10"'))).toThrow('Images can be at most 2000×2000 pixels, this one is 5000×10');
+        expect(() => decodeUpload(svg('viewBox="0 0 10 10"'), 3000)).toThrow('this one is 3000×3000');
+    });
+
+    // 1000mm is about 3780px; the header check can't read the unit, so resvg's size decides
+    it('rejects SVGs whose size is given in other units', () => {
+        const buffer = svg('width="1000mm" height="10in"');
+        expect(readImageSize(buffer)).toBeNull();
+        expect(() => decodeUpload(buffer)).toThrow('this one is 3780×960');
+    });
+
+    it('draws SVGs in other units when the target width fits', () => {
+        const image = decodeUpload(svg('width="1000mm" height="10mm"'), 200);
+        expect(image.width).toBe(200);
+        expect(image.height).toBe(2);
+    });
+});
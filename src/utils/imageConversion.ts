@@ -0,0 +1,222 @@
+import { Resvg } from '@resvg/resvg-js';
+import jpeg from 'jpeg-js';
+import { DitherMethod } from '../types';
+import { PaletteColor, nearestPaletteIndex } from './palette';
+import { IndexedImage, RgbaImage, decodeImage } from './rasterImage';
+
+// Server-side only. Converts uploaded PNG, JPEG and SVG images into palette images the
+// tag image generator can place on a label.
+
+export const DITHER_METHODS: DitherMethod[] = ['threshold', 'floyd-steinberg', 'atkinson', 'ordered'];
+
+// Largest width or height an upload may have or be converted to
+export const MAX_IMAGE_SIZE = 2000;
+
+export interface ConversionOptions {
+    width?: number; // Target size in pixels; with only one of them the aspect ratio is kept
+    height?: number;
+    palette: PaletteColor[];
+    method: DitherMethod;
+    threshold?: number; // 0-255, where mid-grey turns black; 128 leaves brightness as it is
+}
+
+const isSvg = (buffer: Buffer): boolean => /<svg[\s>]/i.test(buffer.toString('utf8', 0, Math.min(buffer.length, 4096)));
+
+// Length of an SVG width or height attribute in pixels; null for percentages and other units
+const svgLength = (value: string | undefined): number | null => {
+    const match = value ? /^\s*([\d.]+)\s*(px)?\s*$/.exec(value) : null;
+    return match && parseFloat(match[1]) > 0 ? parseFloat(match[1]) : null;
+};
+
+// Size of an SVG from the width and height of its root element, or else from its viewBox
+const svgSize = (buffer: Buffer): { width: number; height: number } | null => {
+    const tag = /<svg\b[^>]*>/i.exec(buffer.toString('utf8'));
+    if (!tag) return null;
+    const attribute = (name: string) => {
+        const match = new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(tag[0]);
+        return match ? match[1] : undefined;
+    };
+    const viewBox = (attribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+    const boxWidth = viewBox.length === 4 && viewBox[2] > 0 ? viewBox[2] : null;
+    const boxHeight = viewBox.length === 4 && viewBox[3] > 0 ? viewBox[3] : null;
+    const width = svgLength(attribute('width')) || boxWidth;
+    const height = svgLength(attribute('height')) || boxHeight;
+    return width && height ? { width, height } : null;
+};
+
+// Size of a JPEG from its start-of-frame segment
+const jpegSize = (buffer: Buffer): { width: number; height: number } | null => {
+    let offset = 2;
+    while (offset + 9 < buffer.length && buffer[offset] === 0xff) {
+        const marker = buffer[offset + 1];
+        // SOF0-SOF15, leaving out DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+    return null;
+};
+
+// Width and height an upload declares in its header, read without decoding the pixels.
+// Null when the header can't be read; decoding then reports the problem.
+export const readImageSize = (buffer: Buffer): { width: number; height: number } | null => {
+    if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return jpegSize(buffer);
+    }
+    if (buffer.length > 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+        return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+    if (buffer.length > 26 && buffer[0] === 0x42 && buffer[1] === 0x4d) {
+        // Top-down bitmaps store a negative height
+        return { width: Math.abs(buffer.readInt32LE(18)), height: Math.abs(buffer.readInt32LE(22)) };
+    }
+    return isSvg(buffer) ? svgSize(buffer) : null;
+};
+
+// Pixel size of an image scaled to fit the requested size
+const targetSize = (image: { width: number; height: number }, width?: number, height?: number) => {
+    if (width && height) return { width, height };
+    if (width) return { width, height: Math.max(1, Math.round(image.height * width / image.width)) };
+    if (height) return { width: Math.max(1, Math.round(image.width * height / image.height)), height };
+    return { width: image.width, height: image.height };
+};
+
+// Reject an image that would be drawn larger than MAX_IMAGE_SIZE
+const checkDrawnSize = (drawn: { width: number; height: number }) => {
+    if (drawn.width > MAX_IMAGE_SIZE || drawn.height > MAX_IMAGE_SIZE) {
+        throw new Error(`Images can be at most ${MAX_IMAGE_SIZE}×${MAX_IMAGE_SIZE} pixels, this one is ${Math.round(drawn.width)}×${Math.round(drawn.height)}`);
+    }
+};
+
+// Decode a PNG, JPEG, BMP or SVG upload. SVGs are drawn at the target width, so they stay
+// sharp instead of being scaled as pixels. Images larger than MAX_IMAGE_SIZE are rejected
+// from their header, before any pixels are decoded.
+export const decodeUpload = (buffer: Buffer, width?: number): RgbaImage => {
+    const declared = readImageSize(buffer);
+    if (declared) checkDrawnSize(width && isSvg(buffer) ? targetSize(declared, width) : declared);
+    if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 256 });
+        return { width: decoded.width, height: decoded.height, data: decoded.data };
+    }
+    if (isSvg(buffer)) {
+        const svg = new Resvg(buffer, width ? { fitTo: { mode: 'width', value: width } } : {});
+        // Checked again with the size resvg read, which covers the units the header check
+        // can't (mm, in, em) and SVGs that give no size at all
+        checkDrawnSize(targetSize({ width: svg.width, height: svg.height }, width));
+        const rendered = svg.render();
+        return { width: rendered.width, height: rendered.height, data: new Uint8Array(rendered.pixels) };
+    }
+    try {
+        return decodeImage(buffer);
+    } catch (error) {
+        throw new Error('Only PNG, JPEG, BMP and SVG images can be uploaded');
+    }
+};
+
+// RGB on white: transparent areas print as the label background
+const flattenAlpha = (image: RgbaImage): Float32Array => {
+    const rgb = new Float32Array(image.width * image.height * 3);
+    for (let i = 0; i < image.width * image.height; i++) {
+        const alpha = image.data[i * 4 + 3] / 255;
+        for (let c = 0; c < 3; c++) rgb[i * 3 + c] = image.data[i * 4 + c] * alpha + 255 * (1 - alpha);
+    }
+    return rgb;
+};
+
+// Resize by averaging the source area under each target pixel, which keeps thin lines and
+// even tones when shrinking a logo
+const resizeRgb = (rgb: Float32Array, width: number, height: number, targetWidth: number, targetHeight: number): Float32Array => {
+    if (width === targetWidth && height === targetHeight) return rgb;
+    const out = new Float32Array(targetWidth * targetHeight * 3);
+    const scaleX = width / targetWidth;
+    const scaleY = height / targetHeight;
+
+    for (let ty = 0; ty < targetHeight; ty++) {
+        const y0 = ty * scaleY;
+        const y1 = Math.min(height, y0 + scaleY);
+        for (let tx = 0; tx < targetWidth; tx++) {
+            const x0 = tx * scaleX;
+            const x1 = Math.min(width, x0 + scaleX);
+            const sum = [0, 0, 0];
+            let total = 0;
+            for (let sy = Math.floor(y0); sy < Math.min(height, Math.ceil(y1)); sy++) {
+                const wy = Math.min(y1, sy + 1) - Math.max(y0, sy);
+                for (let sx = Math.floor(x0); sx < Math.min(width, Math.ceil(x1)); sx++) {
+                    const weight = wy * (Math.min(x1, sx + 1) - Math.max(x0, sx));
+                    if (weight <= 0) continue;
+                    const source = (sy * width + sx) * 3;
+                    for (let c = 0; c < 3; c++) sum[c] += rgb[source + c] * weight;
+                    total += weight;
+                }
+            }
+            const target = (ty * targetWidth + tx) * 3;
+            for (let c = 0; c < 3; c++) out[target + c] = total > 0 ? sum[c] / total : 255;
+        }
+    }
+    return out;
+};
+
+// Share of the quantisation error passed to each neighbour, as [dx, dy, weight]
+const DIFFUSION: Record<'floyd-steinberg' | 'atkinson', [number, number, number][]> = {
+    'floyd-steinberg': [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]],
+    // Atkinson passes on only 3/4 of the error, which keeps highlights and shadows clean
+    atkinson: [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]]
+};
+
+const BAYER_4X4 = [
+    [0, 8, 2, 10],
+    [12, 4, 14, 6],
+    [3, 11, 1, 9],
+    [15, 7, 13, 5]
+];
+
+// Reduce RGB pixels to palette indices. The threshold shifts brightness before the nearest
+// palette colour is picked, so a higher threshold turns more of the image black.
+const quantize = (rgb: Float32Array, width: number, height: number, palette: PaletteColor[], method: DitherMethod, threshold: number): Uint8Array => {
+    const pixels = new Uint8Array(width * height);
+    const work = Float32Array.from(rgb, value => value + 128 - threshold);
+    const diffusion = method === 'floyd-steinberg' || method === 'atkinson' ? DIFFUSION[method] : [];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            let [r, g, b] = [work[i * 3], work[i * 3 + 1], work[i * 3 + 2]];
+            if (method === 'ordered') {
+                const offset = ((BAYER_4X4[y % 4][x % 4] + 0.5) / 16 - 0.5) * 255;
+                [r, g, b] = [r + offset, g + offset, b + offset];
+            }
+            const index = nearestPaletteIndex(r, g, b, palette);
+            pixels[i] = index;
+
+            const color = palette[index].rgb;
+            const error = [r - color[0], g - color[1], b - color[2]];
+            diffusion.forEach(([dx, dy, weight]) => {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx < 0 || nx >= width || ny >= height) return;
+                const target = (ny * width + nx) * 3;
+                for (let c = 0; c < 3; c++) work[target + c] += error[c] * weight;
+            });
+        }
+    }
+    return pixels;
+};
+
+// Convert an uploaded image to a palette image of the requested size
+export const convertImage = (buffer: Buffer, options: ConversionOptions): IndexedImage => {
+    const source = decodeUpload(buffer, options.width);
+    const { width, height } = targetSize(source, options.width, options.height);
+    if (width > MAX_IMAGE_SIZE || height > MAX_IMAGE_SIZE) {
+        throw new Error(`Images can be at most ${MAX_IMAGE_SIZE}×${MAX_IMAGE_SIZE} pixels`);
+    }
+
+    const rgb = resizeRgb(flattenAlpha(source), source.width, source.height, width, height);
+    const threshold = options.threshold === undefined ? 128 : options.threshold;
+    return {
+        width,
+        height,
+        pixels: quantize(rgb, width, height, options.palette, options.method, threshold),
+        palette: options.palette
+    };
+};
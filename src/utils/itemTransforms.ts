@@ -0,0 +1,89 @@
+import { CanvasItem } from '../types';
+
+// Move an item by (deltaX, deltaY); lines move both endpoints
+export const translateItem = (item: CanvasItem, deltaX: number, deltaY: number): CanvasItem => {
+    if (item.type === 'line') {
+        return { ...item, x: item.x + deltaX, y: item.y + deltaY, x2: item.x2 + deltaX, y2: item.y2 + deltaY };
+    }
+    return { ...item, x: item.x + deltaX, y: item.y + deltaY };
+};
+
+// Scale an item about (originX, originY). Single-valued sizes (font size, radius,
+// QR code size) use the same factor, so a group keeps its proportions. A text box scales
+// with its font, so the text wraps as before.
+export const scaleItem = (item: CanvasItem, originX: number, originY: number, scale: number): CanvasItem => {
+    const scaleX = (value: number) => Math.round(originX + (value - originX) * scale);
+    const scaleY = (value: number) => Math.round(originY + (value - originY) * scale);
+    const scaleSize = (value: number) => Math.max(1, Math.round(value * scale));
+    const position = { x: scaleX(item.x), y: scaleY(item.y) };
+
+    switch (item.type) {
+        case 'rect':
+        case 'barcode':
+        case 'image':
+            return { ...item, ...position, width: scaleSize(item.width), height: scaleSize(item.height) };
+        case 'circle':
+            return { ...item, ...position, radius: scaleSize(item.radius) };
+        case 'text':
+            return {
+                ...item,
+                ...position,
+                fontSize: scaleSize(item.fontSize),
+                ...(item.box && {
+                    box: {
+                        ...item.box,
+                        width: scaleSize(item.box.width),
+                        height: scaleSize(item.box.height),
+                        ...(item.box.minFontSize && { minFontSize: scaleSize(item.box.minFontSize) })
+                    }
+                })
+            };
+        case 'price':
+            return { ...item, ...position, fontSize: scaleSize(item.fontSize) };
+        case 'line':
+            return { ...item, ...position, x2: scaleX(item.x2), y2: scaleY(item.y2) };
+        case 'qrcode':
+            return { ...item, ...position, size: scaleSize(item.size) };
+    }
+};
+
+// Items that can be turned: free text, images, barcodes and QR codes. Text boxes and prices
+// are written as several elements, which the generator could not turn as one.
+export const canRotate = (item: CanvasItem): boolean =>
+    (item.type === 'text' && !item.box) || item.type === 'image' || item.type === 'barcode' || item.type === 'qrcode';
+
+// An angle in degrees between 0 and 360, to a tenth of a degree
+export const normalizeRotation = (degrees: number): number => {
+    const angle = Math.round(degrees * 10) / 10 % 360;
+    return angle < 0 ? angle + 360 : angle;
+};
+
+// A point turned clockwise on the canvas, where y runs down, about (originX, originY)
+export const rotatePoint = (x: number, y: number, originX: number, originY: number, degrees: number): { x: number; y: number } => {
+    const angle = degrees * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const dx = x - originX;
+    const dy = y - originY;
+    return { x: originX + dx * cos - dy * sin, y: originY + dx * sin + dy * cos };
+};
+
+// The upright box around a box turned about (originX, originY)
+export const rotateBounds = (
+    bounds: { x: number; y: number; width: number; height: number },
+    originX: number,
+    originY: number,
+    degrees: number
+): { x: number; y: number; width: number; height: number } => {
+    const corners = [
+        rotatePoint(bounds.x, bounds.y, originX, originY, degrees),
+        rotatePoint(bounds.x + bounds.width, bounds.y, originX, originY, degrees),
+        rotatePoint(bounds.x, bounds.y + bounds.height, originX, originY, degrees),
+        rotatePoint(bounds.x + bounds.width, bounds.y + bounds.height, originX, originY, degrees)
+    ];
+    const xs = corners.map(corner => corner.x);
+    const ys = corners.map(corner => corner.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { LabelProfile } from '../types';
+import { isEslType } from './palette';
+import { readDesignerConfig } from './storage';
+
+// Server-side only. The registry of display models templates are designed for, read from
+// a JSON file with `{ "profiles": [ ... ] }`. The file is ESL_LABEL_PROFILES, the
+// `profiles` entry of the config file, or label-profiles.json in the project directory.
+
+const getProfilesFilePath = (): string => {
+    const configured = process.env.ESL_LABEL_PROFILES || readDesignerConfig().profiles;
+    return typeof configured === 'string' && configured !== ''
+        ? path.resolve(configured)
+        : path.join(process.cwd(), 'label-profiles.json');
+};
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+// Why an entry cannot be used, or null if it is a valid profile
+const profileProblem = (entry: Record<string, unknown>): string | null => {
+    if (typeof entry.id !== 'string' || entry.id === '') return 'id must be a non-empty string';
+    if (typeof entry.name !== 'string' || entry.name === '') return 'name must be a non-empty string';
+    if (!Number.isInteger(entry.width) || !isPositive(entry.width)) return 'width must be a positive integer';
+    if (!Number.isInteger(entry.height) || !isPositive(entry.height)) return 'height must be a positive integer';
+    if (!isEslType(entry.palette)) return 'palette must be bw, bwr, bwy or bwry';
+    if (!isPositive(entry.widthMm) || !isPositive(entry.heightMm)) return 'widthMm and heightMm must be positive';
+    if (!isPositive(entry.dpi)) return 'dpi must be positive';
+    if (entry.axis !== 0 && entry.axis !== 1) return 'axis must be 0 or 1';
+    if (entry.housing !== 'black' && entry.housing !== 'white') return 'housing must be black or white';
+    return null;
+};
+
+let cached: { file: string; mtime: number; profiles: LabelProfile[] } | null = null;
+
+// Profiles in file order. Invalid entries and repeated ids are skipped with a warning, so
+// one bad entry does not take the others away; a missing file gives an empty registry.
+export const getLabelProfiles = (): LabelProfile[] => {
+    const file = getProfilesFilePath();
+    if (!fs.existsSync(file)) {
+        console.warn(`Label profile registry ${file} does not exist`);
+        return [];
+    }
+    const mtime = fs.statSync(file).mtimeMs;
+    if (cached && cached.file === file && cached.mtime === mtime) return cached.profiles;
+
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const entries: unknown[] = data && Array.isArray(data.profiles) ? data.profiles : [];
+    const profiles: LabelProfile[] = [];
+    entries.forEach((entry, index) => {
+        const problem = typeof entry === 'object' && entry !== null && !Array.isArray(entry)
+            ? profileProblem(entry as Record<string, unknown>)
+            : 'entry must be an object';
+        if (problem) {
+            console.warn(`Skipping label profile ${index + 1} in ${file}: ${problem}`);
+            return;
+        }
+        const profile = entry as LabelProfile;
+        if (profiles.some(existing => existing.id === profile.id)) {
+            console.warn(`Skipping label profile ${index + 1} in ${file}: id "${profile.id}" is used twice`);
+            return;
+        }
+        const { id, name, width, height, palette, widthMm, heightMm, dpi, axis, housing } = profile;
+        profiles.push({ id, name, width, height, palette, widthMm, heightMm, dpi, axis, housing });
+    });
+
+    cached = { file, mtime, profiles };
+    return profiles;
+};
@@ -0,0 +1,46 @@
+import { EslType } from '../types';
+
+// Colours an ESL panel can show. Palette indices are the `fill` values used in templates:
+// black=0, white=1, yellow=2, red=3.
+export interface PaletteColor {
+    fill: number;
+    name: string;
+    rgb: [number, number, number];
+}
+
+export const ESL_COLORS: PaletteColor[] = [
+    { fill: 0, name: 'black', rgb: [0, 0, 0] },
+    { fill: 1, name: 'white', rgb: [255, 255, 255] },
+    { fill: 2, name: 'yellow', rgb: [255, 255, 0] },
+    { fill: 3, name: 'red', rgb: [255, 0, 0] }
+];
+
+// Panel types are named after their colours: b(lack), w(hite), r(ed), y(ellow)
+export const ESL_TYPES: EslType[] = ['bw', 'bwr', 'bwy', 'bwry'];
+
+// Palette of each panel type, in the order its pixels are indexed in rendered images
+export const getPalette = (eslType: EslType): PaletteColor[] =>
+    ESL_COLORS.filter(color => eslType.includes(color.name[0]));
+
+export const isEslType = (value: unknown): value is EslType => ESL_TYPES.includes(value as EslType);
+
+// Palette index for a template `fill` value. Colours the panel cannot show print black,
+// as on a black and white panel.
+export const fillToPaletteIndex = (fill: unknown, palette: PaletteColor[]): number => {
+    const index = palette.findIndex(color => color.fill === fill);
+    return index === -1 ? 0 : index;
+};
+
+// Index of the palette colour closest to an RGB value
+export const nearestPaletteIndex = (r: number, g: number, b: number, palette: PaletteColor[]): number => {
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach((color, index) => {
+        const distance = (r - color.rgb[0]) ** 2 + (g - color.rgb[1]) ** 2 + (b - color.rgb[2]) ** 2;
+        if (distance < bestDistance) {
+            best = index;
+            bestDistance = distance;
+        }
+    });
+    return best;
+};
@@ -0,0 +1,126 @@
+import { PriceItem } from '../types';
+import { LINE_SPACING, TextMetrics } from './textLayout';
+
+// Where the parts of a price element go. The decimals stay at a fixed point: the integer
+// part is right-aligned against them in room reserved for `integerDigits` digits, so a
+// template holds prices of any length without re-aligning. The editor canvas, the YAML
+// export and the renderer all place prices with this.
+
+export type PricePartRole = 'currency' | 'integer' | 'separator' | 'decimals' | 'original';
+
+export interface PricePart {
+    role: PricePartRole;
+    text: string;
+    x: number; // Anchor point, as written to the template
+    anchor: 'ls' | 'rs';
+    baseline: number;
+    left: number; // Left edge of the text as laid out
+    width: number;
+    fontSize: number;
+}
+
+export interface PriceLayout {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    parts: PricePart[];
+    strike?: { x1: number; x2: number; y: number; thickness: number }; // Through the original price
+}
+
+// Raised decimals, the currency beside them and the original price are drawn smaller
+const RAISED_SCALE = 0.5;
+const ORIGINAL_SCALE = 0.4;
+
+// Variables a bound price is split into on export: the generator draws each part on its own
+export const priceVariables = (name: string) => ({ integer: `${name}_int`, decimals: `${name}_dec` });
+
+// Integer part and two decimals of a price written with "." or "," before the decimals.
+// Anything else, such as "1.234" with a thousands separator, is taken as a whole number.
+export const splitPrice = (value: string): { integer: string; decimals: string } => {
+    const match = value.trim().match(/^(.*?)[.,](\d{1,2})$/);
+    if (!match) return { integer: value.trim(), decimals: '00' };
+    return { integer: match[1], decimals: match[2].padEnd(2, '0') };
+};
+
+// Stands in for a bound price whose value is not known, as wide as the reserved digits
+export const placeholderPrice = (integerDigits: number): string => `${'9'.repeat(Math.max(1, integerDigits))}.99`;
+
+export const raisedFontSize = (item: PriceItem): number =>
+    item.raisedDecimals ? Math.max(1, Math.round(item.fontSize * RAISED_SCALE)) : item.fontSize;
+
+export const originalFontSize = (item: PriceItem): number => Math.max(1, Math.round(item.fontSize * ORIGINAL_SCALE));
+
+// Lay out a price at the item's position. `value` and `original` are the prices to show,
+// with variables already filled in; `metricsAt` gives the font's metrics at a size.
+export const layoutPrice = (
+    item: PriceItem,
+    value: string,
+    original: string | undefined,
+    metricsAt: (fontSize: number) => TextMetrics
+): PriceLayout => {
+    const main = metricsAt(item.fontSize);
+    const small = metricsAt(raisedFontSize(item));
+    const reference = main.advance('0');
+    const gap = Math.round(item.fontSize * 0.1);
+    const { integer, decimals } = splitPrice(value);
+    const parts: PricePart[] = [];
+
+    const originalMetrics = original !== undefined ? metricsAt(originalFontSize(item)) : undefined;
+    const originalRow = originalMetrics ? originalMetrics.ascent + originalMetrics.descent + LINE_SPACING : 0;
+    const top = item.y + originalRow;
+    const baseline = Math.round(top + main.ascent);
+    // Raised parts hang from the top of the integer part rather than sitting on its baseline
+    const sideBaseline = item.raisedDecimals ? Math.round(top + small.ascent) : baseline;
+
+    const addPart = (role: PricePartRole, text: string, x: number, anchor: 'ls' | 'rs', metrics: TextMetrics, partBaseline: number) => {
+        const width = metrics.advance(text);
+        const anchorX = Math.round(x);
+        parts.push({ role, text, x: anchorX, anchor, baseline: partBaseline, left: anchor === 'rs' ? anchorX - width : anchorX, width, fontSize: metrics.fontSize });
+        return width;
+    };
+
+    let cursor = item.x;
+    if (item.currency !== '' && item.currencyPosition === 'before') {
+        cursor += addPart('currency', item.currency, cursor, 'ls', small, sideBaseline) + gap;
+    }
+
+    const split = Math.round(cursor + Math.max(reference * Math.max(1, item.integerDigits), main.advance(integer)));
+    addPart('integer', integer, split, 'rs', main, baseline);
+    cursor = split;
+    if (item.raisedDecimals) {
+        cursor += Math.round(gap / 2);
+    } else {
+        cursor += addPart('separator', item.separator, cursor, 'ls', main, baseline);
+    }
+
+    const decimalsWidth = addPart('decimals', decimals, cursor, 'ls', small, sideBaseline);
+    cursor += Math.max(decimalsWidth, small.advance('00'));
+    if (item.currency !== '' && item.currencyPosition === 'after') {
+        cursor += gap + addPart('currency', item.currency, cursor + gap, 'ls', small, sideBaseline);
+    }
+    const right = Math.round(cursor);
+
+    let strike: PriceLayout['strike'];
+    if (original !== undefined && originalMetrics) {
+        const originalBaseline = Math.round(item.y + originalMetrics.ascent);
+        const width = addPart('original', original, right, 'rs', originalMetrics, originalBaseline);
+        // The line covers the room the original price may take, as its value can change
+        const reserved = originalMetrics.advance(`${'0'.repeat(Math.max(1, item.integerDigits))}${item.separator}00`);
+        strike = {
+            x1: Math.round(right - Math.max(width, reserved)),
+            x2: right,
+            y: Math.round(originalBaseline - originalMetrics.ascent * 0.35),
+            thickness: Math.max(1, Math.round(originalFontSize(item) / 12))
+        };
+    }
+
+    return {
+        x: item.x,
+        y: item.y,
+        width: right - item.x,
+        height: originalRow + main.ascent + main.descent,
+        parts,
+        strike
+    };
+};
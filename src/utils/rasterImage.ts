@@ -0,0 +1,190 @@
+import zlib from 'zlib';
+import { PNG } from 'pngjs';
+import { PaletteColor } from './palette';
+
+// Server-side only. Palette images as written for the tag image generator, and decoding of
+// the BMP and PNG files templates place on a label.
+
+// Pixels are palette indices, row by row from the top left
+export interface IndexedImage {
+    width: number;
+    height: number;
+    pixels: Uint8Array;
+    palette: PaletteColor[];
+}
+
+// Pixels are RGBA bytes, row by row from the top left
+export interface RgbaImage {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+export type RasterFormat = 'png' | 'bmp';
+
+// Fewest bits per pixel that hold every palette index: 1 for bw, 2 for three or four colours
+const bitsForPalette = (palette: PaletteColor[]): number => palette.length <= 2 ? 1 : palette.length <= 4 ? 2 : 8;
+
+// Rows of packed pixels, most significant bits first, each row padded to `rowAlign` bytes
+const packRows = (image: IndexedImage, bits: number, rowAlign: number, bottomUp: boolean): Buffer => {
+    const rowBytes = Math.ceil(Math.ceil(image.width * bits / 8) / rowAlign) * rowAlign;
+    const packed = Buffer.alloc(rowBytes * image.height);
+    for (let y = 0; y < image.height; y++) {
+        const rowStart = (bottomUp ? image.height - 1 - y : y) * rowBytes;
+        for (let x = 0; x < image.width; x++) {
+            const bitOffset = x * bits;
+            const shift = 8 - bits - (bitOffset % 8);
+            packed[rowStart + (bitOffset >> 3)] |= image.pixels[y * image.width + x] << shift;
+        }
+    }
+    return packed;
+};
+
+const crcTable: number[] = [];
+for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    crcTable[n] = c >>> 0;
+}
+
+// CRC-32 as used by PNG chunks and ZIP entries
+export const crc32 = (data: Buffer): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length, 0);
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData), 0);
+    return Buffer.concat([length, typeAndData, crc]);
+};
+
+// Indexed-colour PNG with a 1- or 2-bit palette
+export const encodePng = (image: IndexedImage): Buffer => {
+    const bits = bitsForPalette(image.palette);
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(image.width, 0);
+    header.writeUInt32BE(image.height, 4);
+    header[8] = bits;
+    header[9] = 3; // Indexed colour
+    header[10] = 0; // Deflate
+    header[11] = 0; // Adaptive filtering
+    header[12] = 0; // No interlace
+
+    // Every row starts with filter type 0 (none)
+    const packed = packRows(image, bits, 1, false);
+    const rowBytes = packed.length / image.height;
+    const filtered = Buffer.alloc(packed.length + image.height);
+    for (let y = 0; y < image.height; y++) {
+        packed.copy(filtered, y * (rowBytes + 1) + 1, y * rowBytes, (y + 1) * rowBytes);
+    }
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('PLTE', Buffer.from(image.palette.flatMap(color => color.rgb))),
+        pngChunk('IDAT', zlib.deflateSync(filtered)),
+        pngChunk('IEND', Buffer.alloc(0))
+    ]);
+};
+
+// Palette BMP: 1-bit for two colours, otherwise 4-bit, as 2-bit BMPs are not part of the
+// format most readers accept
+export const encodeBmp = (image: IndexedImage): Buffer => {
+    const bits = image.palette.length <= 2 ? 1 : image.palette.length <= 16 ? 4 : 8;
+    const pixelData = packRows(image, bits, 4, true);
+    const paletteSize = image.palette.length * 4;
+    const dataOffset = 14 + 40 + paletteSize;
+
+    const header = Buffer.alloc(dataOffset);
+    header.write('BM', 0, 'ascii');
+    header.writeUInt32LE(dataOffset + pixelData.length, 2);
+    header.writeUInt32LE(dataOffset, 10);
+    header.writeUInt32LE(40, 14); // BITMAPINFOHEADER
+    header.writeInt32LE(image.width, 18);
+    header.writeInt32LE(image.height, 22); // Positive: rows stored bottom-up
+    header.writeUInt16LE(1, 26); // Planes
+    header.writeUInt16LE(bits, 28);
+    header.writeUInt32LE(0, 30); // BI_RGB
+    header.writeUInt32LE(pixelData.length, 34);
+    header.writeInt32LE(2835, 38); // 72 dpi
+    header.writeInt32LE(2835, 42);
+    header.writeUInt32LE(image.palette.length, 46);
+    header.writeUInt32LE(image.palette.length, 50);
+    image.palette.forEach((color, index) => {
+        const offset = 54 + index * 4;
+        header[offset] = color.rgb[2];
+        header[offset + 1] = color.rgb[1];
+        header[offset + 2] = color.rgb[0];
+    });
+
+    return Buffer.concat([header, pixelData]);
+};
+
+export const encodeRaster = (image: IndexedImage, format: RasterFormat): Buffer =>
+    format === 'bmp' ? encodeBmp(image) : encodePng(image);
+
+// Uncompressed BMPs with 1, 4, 8, 24 or 32 bits per pixel
+const decodeBmp = (buffer: Buffer): RgbaImage => {
+    const dataOffset = buffer.readUInt32LE(10);
+    const headerSize = buffer.readUInt32LE(14);
+    const width = buffer.readInt32LE(18);
+    const rawHeight = buffer.readInt32LE(22);
+    const bits = buffer.readUInt16LE(28);
+    const compression = headerSize >= 40 ? buffer.readUInt32LE(30) : 0;
+    // BI_BITFIELDS is accepted for 32-bit images in the usual BGRA layout
+    if (compression !== 0 && !(compression === 3 && bits === 32)) {
+        throw new Error('Compressed BMP files are not supported');
+    }
+    if (![1, 4, 8, 24, 32].includes(bits)) {
+        throw new Error(`${bits}-bit BMP files are not supported`);
+    }
+
+    const height = Math.abs(rawHeight);
+    const bottomUp = rawHeight > 0;
+    const colorsUsed = headerSize >= 40 ? buffer.readUInt32LE(46) : 0;
+    const paletteLength = bits <= 8 ? colorsUsed || 1 << bits : 0;
+    const paletteOffset = 14 + headerSize;
+    const rowBytes = Math.ceil(width * bits / 32) * 4;
+    const data = new Uint8Array(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+        const row = dataOffset + (bottomUp ? height - 1 - y : y) * rowBytes;
+        for (let x = 0; x < width; x++) {
+            const out = (y * width + x) * 4;
+            if (bits <= 8) {
+                const bitOffset = x * bits;
+                const byte = buffer[row + (bitOffset >> 3)];
+                const index = (byte >> (8 - bits - (bitOffset % 8))) & ((1 << bits) - 1);
+                const entry = paletteOffset + Math.min(index, paletteLength - 1) * 4;
+                data[out] = buffer[entry + 2];
+                data[out + 1] = buffer[entry + 1];
+                data[out + 2] = buffer[entry];
+                data[out + 3] = 255;
+            } else {
+                const pixel = row + x * (bits / 8);
+                data[out] = buffer[pixel + 2];
+                data[out + 1] = buffer[pixel + 1];
+                data[out + 2] = buffer[pixel];
+                data[out + 3] = bits === 32 ? buffer[pixel + 3] : 255;
+            }
+        }
+    }
+    return { width, height, data };
+};
+
+// Decode a BMP or PNG file by its signature
+export const decodeImage = (buffer: Buffer): RgbaImage => {
+    if (buffer.length > 26 && buffer[0] === 0x42 && buffer[1] === 0x4d) {
+        return decodeBmp(buffer);
+    }
+    if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+        const png = PNG.sync.read(buffer);
+        return { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+    }
+    throw new Error('Only BMP and PNG images are supported');
+};
@@ -0,0 +1,117 @@
+import { CanvasGuide } from '../types';
+import { Bounds } from './alignment';
+
+export interface SnapSettings {
+    showGrid: boolean;
+    gridSize: number;
+    snapToGrid: boolean;
+    snapToCanvas: boolean;
+    snapToElements: boolean;
+    snapToGuides: boolean;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+    showGrid: false,
+    gridSize: 8,
+    snapToGrid: false,
+    snapToCanvas: true,
+    snapToElements: true,
+    snapToGuides: true
+};
+
+// Distance in screen pixels within which an edge or centre is pulled onto a target
+export const SNAP_DISTANCE = 5;
+
+// A line something snapped to: a vertical guide at x = position or a horizontal one at y = position
+export interface SnapGuide {
+    orientation: 'vertical' | 'horizontal';
+    position: number;
+}
+
+export interface SnapResult {
+    deltaX: number;
+    deltaY: number;
+    guides: SnapGuide[];
+}
+
+export interface SnapContext {
+    settings: SnapSettings;
+    canvasWidth: number;
+    canvasHeight: number;
+    // Bounds of the elements that can be snapped to
+    others: Bounds[];
+    // Ruler guides
+    guides: CanvasGuide[];
+    // Snap distance in canvas pixels
+    threshold: number;
+}
+
+// Left/top edge, centre and right/bottom edge along one axis
+const edges = (start: number, size: number): number[] => [start, start + size / 2, start + size];
+
+// Smallest whole-pixel offset that puts one of `sources` on one of `targets`, and every
+// target that is hit with that offset
+const snapAxis = (sources: number[], targets: number[], threshold: number): { offset: number; hits: number[] } | null => {
+    const offsets = sources
+        .flatMap(source => targets.map(target => target - source))
+        .filter(offset => Math.abs(offset) <= threshold);
+    if (offsets.length === 0) return null;
+
+    const offset = Math.round(offsets.reduce((best, next) => Math.abs(next) < Math.abs(best) ? next : best));
+    const hits = targets.filter((target, index) =>
+        targets.indexOf(target) === index && sources.some(source => Math.abs(source + offset - target) <= 0.5)
+    );
+    return { offset, hits };
+};
+
+const snapToGridLine = (value: number, gridSize: number): number =>
+    Math.round(value / gridSize) * gridSize - value;
+
+// Offset that snaps `bounds` along the x axis (horizontal) or y axis (vertical). Canvas and element
+// edges and centres and ruler guides win over the grid, which only aligns the left/top edge.
+const snapBoundsAxis = (bounds: Bounds, axis: 'x' | 'y', context: SnapContext): { offset: number; guides: SnapGuide[] } => {
+    const { settings } = context;
+    const start = axis === 'x' ? bounds.x : bounds.y;
+    const size = axis === 'x' ? bounds.width : bounds.height;
+    const canvasSize = axis === 'x' ? context.canvasWidth : context.canvasHeight;
+    const orientation = axis === 'x' ? 'vertical' : 'horizontal';
+
+    const targets: number[] = [];
+    if (settings.snapToCanvas) targets.push(...edges(0, canvasSize));
+    if (settings.snapToElements) {
+        context.others.forEach(other => targets.push(...(axis === 'x' ? edges(other.x, other.width) : edges(other.y, other.height))));
+    }
+    if (settings.snapToGuides) {
+        context.guides.forEach(guide => {
+            if (guide.orientation === orientation) targets.push(guide.position);
+        });
+    }
+
+    const snapped = snapAxis(edges(start, size), targets, context.threshold);
+    if (snapped) {
+        return { offset: snapped.offset, guides: snapped.hits.map(position => ({ orientation, position })) };
+    }
+    if (settings.snapToGrid && settings.gridSize > 0) {
+        return { offset: snapToGridLine(start, settings.gridSize), guides: [] };
+    }
+    return { offset: 0, guides: [] };
+};
+
+// Offset to apply to elements being moved so their bounding box snaps
+export const snapBounds = (
+    bounds: Bounds,
+    context: SnapContext,
+    axes: { x: boolean; y: boolean } = { x: true, y: true }
+): SnapResult => {
+    const x = axes.x ? snapBoundsAxis(bounds, 'x', context) : { offset: 0, guides: [] };
+    const y = axes.y ? snapBoundsAxis(bounds, 'y', context) : { offset: 0, guides: [] };
+    return { deltaX: x.offset, deltaY: y.offset, guides: [...x.guides, ...y.guides] };
+};
+
+// Snap a single point, such as a resize handle being dragged
+export const snapPoint = (
+    x: number,
+    y: number,
+    context: SnapContext,
+    axes: { x: boolean; y: boolean } = { x: true, y: true }
+): SnapResult => snapBounds({ x, y, width: 0, height: 0 }, context, axes);
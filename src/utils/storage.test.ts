@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { StoragePathError, resolveStorageFile, resolveStoragePath } from './storage';
+
+describe('resolveStoragePath', () => {
+    let root: string;
+    let outside: string;
+
+    beforeAll(() => {
+        root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'esl-storage-')));
+        outside = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'esl-outside-')));
+        fs.mkdirSync(path.join(root, 'shelf'));
+        fs.symlinkSync(outside, path.join(root, 'escape'));
+        fs.symlinkSync(path.join(root, 'shelf'), path.join(root, 'shortcut'));
+        // Roots are read once per process, so they are set before the first lookup
+        process.env.ESL_TEMPLATES_ROOT = root;
+        process.env.ESL_DESIGNER_CONFIG = path.join(root, 'missing-config.json');
+    });
+
+    afterAll(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+        fs.rmSync(outside, { recursive: true, force: true });
+    });
+
+    it('resolves an empty path to the root itself', () => {
+        expect(resolveStoragePath('templates', '')).toBe(root);
+        expect(resolveStoragePath('templates')).toBe(root);
+    });
+
+    it('resolves nested relative paths inside the root, whether or not they exist', () => {
+        expect(resolveStoragePath('templates', 'shelf')).toBe(path.join(root, 'shelf'));
+        expect(resolveStoragePath('templates', 'shelf/new/label.yaml')).toBe(path.join(root, 'shelf', 'new', 'label.yaml'));
+        expect(resolveStorageFile('templates', '', 'label.yaml')).toBe(path.join(root, 'label.yaml'));
+        expect(resolveStorageFile('templates', 'shelf/', 'label.yaml')).toBe(path.join(root, 'shelf', 'label.yaml'));
+    });
+
+    it('follows symlinks that stay inside the root', () => {
+        expect(resolveStoragePath('templates', 'shortcut/label.yaml')).toBe(path.join(root, 'shortcut', 'label.yaml'));
+    });
+
+    it('rejects absolute paths', () => {
+        expect(() => resolveStoragePath('templates', '/etc/passwd')).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', path.join(root, 'shelf'))).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', 'C:\\templates')).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', '\\\\server\\share')).toThrow(StoragePathError);
+    });
+
+    it('rejects ".." segments', () => {
+        expect(() => resolveStoragePath('templates', '..')).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', '../outside')).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', 'shelf/../../outside')).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', 'shelf\\..\\..\\outside')).toThrow(StoragePathError);
+    });
+
+    it('rejects symlinks that lead out of the root', () => {
+        expect(() => resolveStoragePath('templates', 'escape')).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', 'escape/label.yaml')).toThrow(StoragePathError);
+        expect(() => resolveStorageFile('templates', 'escape', 'label.yaml')).toThrow(StoragePathError);
+    });
+
+    it('rejects file names that name another folder', () => {
+        expect(() => resolveStorageFile('templates', 'shelf', '../label.yaml')).toThrow(StoragePathError);
+        expect(() => resolveStorageFile('templates', 'shelf', 'sub/label.yaml')).toThrow(StoragePathError);
+        expect(() => resolveStorageFile('templates', 'shelf', '')).toThrow(StoragePathError);
+    });
+
+    it('rejects unknown roots and paths that are not strings', () => {
+        expect(() => resolveStoragePath('home', '')).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', 42)).toThrow(StoragePathError);
+        expect(() => resolveStoragePath('templates', 'shelf\0.yaml')).toThrow(StoragePathError);
+    });
+});
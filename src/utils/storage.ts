@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+
+// Server-side only. API routes never see absolute paths from the client: they name a
+// storage root and give a path relative to it, which is resolved and checked here.
+
+export type StorageRoots = Record<string, string>;
+
+// Where the tag image generator keeps its files unless configured otherwise
+const defaultRoots: StorageRoots = {
+    templates: '/opt/esl/tag_image_gen/tag_image_templates/label_templates/bwry',
+    images: '/opt/esl/tag_image_gen/images',
+    fonts: '/opt/esl/tag_image_gen/fonts'
+};
+
+// Environment variables that override a root from the config file
+const rootEnvironmentVariables: Record<string, string> = {
+    templates: 'ESL_TEMPLATES_ROOT',
+    images: 'ESL_IMAGES_ROOT',
+    fonts: 'ESL_FONTS_ROOT'
+};
+
+// Config file with `{ "roots": { "<name>": "<absolute directory>" } }` and other settings
+const getConfigFilePath = (): string =>
+    process.env.ESL_DESIGNER_CONFIG || path.join(process.cwd(), 'esl-designer.config.json');
+
+// Contents of the config file, or an empty object when there is none or it cannot be read
+export const readDesignerConfig = (): Record<string, unknown> => {
+    const configFile = getConfigFilePath();
+    if (!fs.existsSync(configFile)) return {};
+
+    try {
+        const config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+        return typeof config === 'object' && config !== null && !Array.isArray(config) ? config : {};
+    } catch (error) {
+        console.error(`Ignoring unreadable config ${configFile}:`, error);
+        return {};
+    }
+};
+
+// A client-supplied path that is malformed or points outside its root. API routes
+// answer these with 400.
+export class StoragePathError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StoragePathError';
+    }
+}
+
+let cachedRoots: StorageRoots | null = null;
+
+const readConfigRoots = (): StorageRoots => {
+    const configRoots = readDesignerConfig().roots as Record<string, unknown> | undefined;
+    const roots: StorageRoots = {};
+    if (typeof configRoots === 'object' && configRoots !== null) {
+        Object.keys(configRoots).forEach(name => {
+            const root = configRoots[name];
+            if (typeof root === 'string') roots[name] = root;
+        });
+    }
+    return roots;
+};
+
+// Named roots: defaults, then the config file, then environment variables
+export const getStorageRoots = (): StorageRoots => {
+    if (cachedRoots) return cachedRoots;
+
+    const roots: StorageRoots = { ...defaultRoots, ...readConfigRoots() };
+    Object.keys(rootEnvironmentVariables).forEach(name => {
+        const value = process.env[rootEnvironmentVariables[name]];
+        if (value) roots[name] = value;
+    });
+
+    Object.keys(roots).forEach(name => {
+        if (!path.isAbsolute(roots[name])) {
+            console.warn(`Storage root "${name}" is relative; resolving it against ${process.cwd()}`);
+        }
+        roots[name] = path.resolve(roots[name]);
+    });
+
+    cachedRoots = roots;
+    return roots;
+};
+
+const isInside = (parent: string, child: string): boolean => {
+    const relative = path.relative(parent, child);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+// Real path of `target`, or of its nearest existing ancestor for paths that do not exist yet
+const realPathOfExisting = (target: string): string => {
+    let current = target;
+    while (!fs.existsSync(current)) {
+        const parent = path.dirname(current);
+        if (parent === current) break;
+        current = parent;
+    }
+    return path.join(fs.realpathSync(current), path.relative(current, target));
+};
+
+// Resolve a path relative to a named root. Absolute paths, `..` segments and paths that
+// leave the root through a symlink are rejected with a StoragePathError.
+export const resolveStoragePath = (rootName: string, relativePath: unknown = ''): string => {
+    const roots = getStorageRoots();
+    if (!Object.prototype.hasOwnProperty.call(roots, rootName)) {
+        throw new StoragePathError(`Unknown storage root "${rootName}"`);
+    }
+    if (typeof relativePath !== 'string') {
+        throw new StoragePathError('Path must be a string');
+    }
+    if (relativePath.includes('\0')) {
+        throw new StoragePathError('Path contains invalid characters');
+    }
+    if (path.isAbsolute(relativePath) || /^[a-zA-Z]:/.test(relativePath) || relativePath.startsWith('\\')) {
+        throw new StoragePathError('Absolute paths are not allowed; use a path relative to the storage root');
+    }
+    if (relativePath.split(/[\\/]/).includes('..')) {
+        throw new StoragePathError('Path must not contain ".." segments');
+    }
+
+    const root = roots[rootName];
+    const resolved = path.resolve(root, relativePath);
+    if (!isInside(root, resolved)) {
+        throw new StoragePathError('Path is outside the storage root');
+    }
+
+    // Follow symlinks on both sides, so a link inside the root cannot lead out of it
+    const realRoot = fs.existsSync(root) ? fs.realpathSync(root) : root;
+    if (!isInside(realRoot, realPathOfExisting(resolved))) {
+        throw new StoragePathError('Path is outside the storage root');
+    }
+
+    return resolved;
+};
+
+// Resolve a file inside a folder of a root. The file name must be a plain name, so it
+// cannot move the path to another folder.
+export const resolveStorageFile = (rootName: string, folder: unknown, fileName: unknown): string => {
+    if (typeof fileName !== 'string' || fileName === '' || fileName === '.' || fileName === '..' || /[\\/]/.test(fileName)) {
+        throw new StoragePathError('File name must not be empty or contain path separators');
+    }
+    const folderPath = folder === undefined || folder === null ? '' : folder;
+    if (typeof folderPath !== 'string') {
+        throw new StoragePathError('Path must be a string');
+    }
+    return resolveStoragePath(rootName, folderPath ? `${folderPath.replace(/[\\/]+$/, '')}/${fileName}` : fileName);
+};
+
+// Path relative to its root, for responses; clients never see absolute server paths
+export const toStorageRelativePath = (rootName: string, absolutePath: string): string =>
+    path.relative(getStorageRoots()[rootName], absolutePath).split(path.sep).join('/');
@@ -0,0 +1,71 @@
+import { EslElement } from '../types';
+import { diffSequences } from './textDiff';
+
+// A key of an element whose value differs between two versions
+export interface ElementFieldChange {
+    key: string;
+    before: unknown;
+    after: unknown;
+}
+
+// How an `el` entry changed between two versions of a template
+export interface ElementChange {
+    kind: 'same' | 'changed' | 'removed' | 'added';
+    beforeIndex?: number;
+    afterIndex?: number;
+    element: EslElement; // The newer version, or the removed element
+    fields: ElementFieldChange[]; // Only set for changed elements
+}
+
+// JSON with sorted keys, so elements that differ only in key order compare equal
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (typeof value === 'object' && value !== null) {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const changedFields = (before: EslElement, after: EslElement): ElementFieldChange[] => {
+    const keys = Object.keys(before).concat(Object.keys(after).filter(key => !(key in before)));
+    return keys
+        .filter(key => canonicalJson(before[key]) !== canonicalJson(after[key]))
+        .map(key => ({ key, before: before[key], after: after[key] }));
+};
+
+// Compare the `el` lists of two template versions. Elements are matched by content; an
+// edited element is reported as changed when it kept its type, otherwise as removed and added.
+export const diffElements = (before: EslElement[], after: EslElement[]): ElementChange[] => {
+    const beforeKeys = before.map(canonicalJson);
+    const afterKeys = after.map(canonicalJson);
+
+    return diffSequences(beforeKeys, afterKeys).flatMap((row): ElementChange[] => {
+        const old = row.leftIndex !== undefined ? before[row.leftIndex] : undefined;
+        const current = row.rightIndex !== undefined ? after[row.rightIndex] : undefined;
+
+        if (old && current && row.kind === 'changed' && old.type !== current.type) {
+            return [
+                { kind: 'removed', beforeIndex: row.leftIndex, element: old, fields: [] },
+                { kind: 'added', afterIndex: row.rightIndex, element: current, fields: [] }
+            ];
+        }
+        return [{
+            kind: row.kind,
+            beforeIndex: row.leftIndex,
+            afterIndex: row.rightIndex,
+            element: (current || old) as EslElement,
+            fields: old && current && row.kind === 'changed' ? changedFields(old, current) : []
+        }];
+    });
+};
+
+// Short description of an element for change lists, e.g. `text "Price"`
+export const describeElement = (element: EslElement): string => {
+    const label = element.text ?? element.data ?? element.filename ?? element.var;
+    return label !== undefined ? `${element.type} "${String(label)}"` : element.type;
+};
+
+// A field value as shown in change lists
+export const formatFieldValue = (value: unknown): string =>
+    value === undefined ? '(none)' : typeof value === 'string' ? `"${value}"` : canonicalJson(value);
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+    HISTORY_FOLDER,
+    LibraryError,
+    getRevision,
+    getTemplateVersion,
+    listRevisions,
+    recordRevision,
+    renameTemplate,
+    restoreRevision
+} from './templateLibrary';
+
+const template = (width: number): string =>
+    `type: bw\nx_res: ${width}\ny_res: 20\nfonts: []\nel:\n  - type: rect\n    fill: 0\n    x1: 1\n    y1: 1\n    x2: 5\n    y2: 5\n`;
+
+// Error thrown by `run`, so its status can be checked
+const libraryError = (run: () => unknown): LibraryError => {
+    try {
+        run();
+    } catch (error) {
+        expect(error).toBeInstanceOf(LibraryError);
+        return error as LibraryError;
+    }
+    throw new Error('Expected a LibraryError');
+};
+
+describe('template library', () => {
+    let root: string;
+    let filePath: string;
+
+    // Write a template to the shelf and record it as a revision, as the save route does
+    const save = (content: string, author: string, savedAt: Date) => {
+        fs.writeFileSync(filePath, content, 'utf8');
+        return recordRevision(filePath, content, author, undefined, savedAt);
+    };
+
+    beforeAll(() => {
+        root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'esl-library-')));
+        // Roots are read once per process, so they are set before the first lookup
+        process.env.ESL_TEMPLATES_ROOT = root;
+        process.env.ESL_DESIGNER_CONFIG = path.join(root, 'missing-config.json');
+    });
+
+    beforeEach(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+        fs.mkdirSync(path.join(root, 'shelf'), { recursive: true });
+        filePath = path.join(root, 'shelf', 'label.yaml');
+    });
+
+    afterAll(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    describe('renameTemplate', () => {
+        it('takes the history along', () => {
+            const first = save(template(40), 'ann', new Date('2024-01-01T10:00:00Z'));
+            const second = save(template(50), 'bob', new Date('2024-01-02T10:00:00Z'));
+
+            expect(renameTemplate('shelf', 'label.yaml', 'renamed.yaml')).toBe('shelf/renamed.yaml');
+            expect(fs.existsSync(filePath)).toBe(false);
+            expect(listRevisions('shelf', 'renamed.yaml').map(revision => revision.id)).toEqual([second.id, first.id]);
+            expect(listRevisions('shelf', 'label.yaml')).toEqual([]);
+            expect(fs.existsSync(path.join(root, HISTORY_FOLDER, 'shelf', 'label.yaml'))).toBe(false);
+            expect(getRevision('shelf', 'renamed.yaml', first.id).content).toBe(template(40));
+        });
+
+        it('does not replace a template of the new name', () => {
+            save(template(40), 'ann', new Date('2024-01-01T10:00:00Z'));
+            fs.writeFileSync(path.join(root, 'shelf', 'other.yaml'), template(60), 'utf8');
+
+            expect(libraryError(() => renameTemplate('shelf', 'label.yaml', 'other.yaml')).status).toBe(409);
+            expect(fs.readFileSync(filePath, 'utf8')).toBe(template(40));
+            expect(fs.readFileSync(path.join(root, 'shelf', 'other.yaml'), 'utf8')).toBe(template(60));
+            expect(listRevisions('shelf', 'label.yaml')).toHaveLength(1);
+        });
+    });
+
+    describe('restoreRevision', () => {
+        it('writes the revision back and records the restore as a new revision', () => {
+            const first = save(template(40), 'ann', new Date('2024-01-01T10:00:00Z'));
+            save(template(50), 'bob', new Date('2024-01-02T10:00:00Z'));
+            const baseVersion = getTemplateVersion(filePath, template(50)).hash;
+
+            const restored = restoreRevision('shelf', 'label.yaml', first.id, baseVersion, 'cat');
+            expect(fs.readFileSync(filePath, 'utf8')).toBe(template(40));
+            expect(restored.version.hash).toBe(getTemplateVersion(filePath, template(40)).hash);
+            expect(restored.revision).toMatchObject({ author: 'cat', message: 'Restored revision from 2024-01-01T10:00:00.000Z by ann' });
+            expect(listRevisions('shelf', 'label.yaml')).toHaveLength(3);
+        });
+
+        it('refuses with 409 when the template changed since `baseVersion` was loaded', () => {
+            const first = save(template(40), 'ann', new Date('2024-01-01T10:00:00Z'));
+            const staleVersion = getTemplateVersion(filePath, template(40)).hash;
+            save(template(50), 'bob', new Date('2024-01-02T10:00:00Z'));
+
+            const error = libraryError(() => restoreRevision('shelf', 'label.yaml', first.id, staleVersion, 'cat'));
+            expect(error.status).toBe(409);
+            expect(error.message).toBe('Template was changed by someone else');
+            expect(libraryError(() => restoreRevision('shelf', 'label.yaml', first.id, undefined, 'cat')).status).toBe(409);
+
+            expect(fs.readFileSync(filePath, 'utf8')).toBe(template(50));
+            expect(listRevisions('shelf', 'label.yaml')).toHaveLength(2);
+        });
+
+        it('restores a deleted template without a base version', () => {
+            const first = save(template(40), 'ann', new Date('2024-01-01T10:00:00Z'));
+            fs.unlinkSync(filePath);
+
+            restoreRevision('shelf', 'label.yaml', first.id, undefined, 'cat');
+            expect(fs.readFileSync(filePath, 'utf8')).toBe(template(40));
+        });
+
+        it('rejects unknown revisions and revisions the generator cannot use', () => {
+            const broken = save('type: bw\nel: nothing\n', 'ann', new Date('2024-01-01T10:00:00Z'));
+            save(template(50), 'bob', new Date('2024-01-02T10:00:00Z'));
+            const baseVersion = getTemplateVersion(filePath, template(50)).hash;
+
+            expect(libraryError(() => restoreRevision('shelf', 'label.yaml', 'missing', baseVersion, 'cat')).status).toBe(404);
+            expect(libraryError(() => restoreRevision('shelf', 'label.yaml', '../label', baseVersion, 'cat')).status).toBe(400);
+            expect(libraryError(() => restoreRevision('shelf', 'label.yaml', broken.id, baseVersion, 'cat')).status).toBe(400);
+            expect(fs.readFileSync(filePath, 'utf8')).toBe(template(50));
+        });
+    });
+});
@@ -0,0 +1,383 @@
+import type { NextApiResponse } from 'next';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { TemplateRevision, TemplateVersion, TrashEntry } from '../types';
+import { StoragePathError, resolveStorageFile, resolveStoragePath, toStorageRelativePath } from './storage';
+import { formatValidationError, validateTemplateYaml } from './templateValidator';
+
+// Server-side only. File operations on the template library behind the folder and
+// template API routes. Paths are relative to the `templates` storage root.
+
+// Deleted templates are moved here, one folder per deletion, so they can be restored
+export const TRASH_FOLDER = '.trash';
+const TRASH_INFO_FILE = 'trash-info.json';
+
+// Every saved revision of a template is kept here, under the template's own path: the
+// content as `<id>.yml` next to its author, time and message in `<id>.json`
+export const HISTORY_FOLDER = '.history';
+
+// A request the library cannot carry out, answered with `status` and `{ error, details }`
+export class LibraryError extends Error {
+    status: number;
+    details?: string;
+
+    constructor(status: number, message: string, details?: string) {
+        super(message);
+        this.name = 'LibraryError';
+        this.status = status;
+        this.details = details;
+    }
+}
+
+const isYamlFile = (fileName: string): boolean => /\.ya?ml$/i.test(fileName);
+
+// A name for a new folder or file: not empty, no separators, not hidden (which would hide it
+// from the listings and could clash with the trash)
+const checkName = (name: unknown, kind: string): string => {
+    if (typeof name !== 'string' || name.trim() === '') {
+        throw new LibraryError(400, `Missing ${kind} name`);
+    }
+    if (/[\\/\0]/.test(name) || name.startsWith('.')) {
+        throw new LibraryError(400, `Invalid ${kind} name`, `"${name}" must not start with "." or contain path separators`);
+    }
+    return name.trim();
+};
+
+const checkTemplateName = (name: unknown): string => {
+    const fileName = checkName(name, 'template');
+    if (!isYamlFile(fileName)) {
+        throw new LibraryError(400, 'Filename must end with .yml or .yaml');
+    }
+    return fileName;
+};
+
+const checkFolderPath = (folderPath: unknown): string => {
+    if (typeof folderPath !== 'string' || folderPath === '') {
+        throw new LibraryError(400, 'Missing folder path');
+    }
+    if (folderPath.split(/[\\/]/).some(segment => segment.startsWith('.'))) {
+        throw new LibraryError(400, 'Invalid folder path', 'Hidden folders cannot be managed through the library');
+    }
+    return folderPath;
+};
+
+// True when a template path runs through a hidden folder such as the trash or the history, or
+// names a hidden file. The load and save routes refuse these, so only the library touches them.
+export const isHiddenTemplatePath = (folderPath: string, fileName: string): boolean =>
+    [...folderPath.split(/[\\/]/), fileName].some(segment => segment.startsWith('.'));
+
+const requireDirectory = (dirPath: string, folderPath: string): void => {
+    if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+        throw new LibraryError(404, 'Folder not found', `"${folderPath}" does not exist in the template library`);
+    }
+};
+
+const requireTemplate = (filePath: string, folderPath: string, fileName: string): void => {
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        throw new LibraryError(404, 'Template not found', `"${fileName}" does not exist in "${folderPath}"`);
+    }
+};
+
+const requireFree = (targetPath: string, description: string): void => {
+    if (fs.existsSync(targetPath)) {
+        throw new LibraryError(409, 'Target already exists', `${description} already exists`);
+    }
+};
+
+const hashTemplateContent = (content: string): string =>
+    crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+
+// Version of a template file whose content has just been read or written
+export const getTemplateVersion = (filePath: string, content: string): TemplateVersion => ({
+    hash: hashTemplateContent(content),
+    mtime: fs.statSync(filePath).mtime.toISOString()
+});
+
+const historyDirOf = (relativePath: string): string =>
+    resolveStoragePath('templates', `${HISTORY_FOLDER}/${relativePath}`);
+
+// Move the history of a template or folder along with it. Revision ids are unique, so history
+// left behind by an earlier template of the same name is merged rather than replaced.
+const moveHistory = (fromRelativePath: string, toRelativePath: string): void => {
+    const from = historyDirOf(fromRelativePath);
+    if (!fs.existsSync(from)) return;
+    const to = historyDirOf(toRelativePath);
+
+    if (!fs.existsSync(to)) {
+        fs.mkdirSync(path.dirname(to), { recursive: true });
+        fs.renameSync(from, to);
+        return;
+    }
+    fs.readdirSync(from).forEach(entry => {
+        const source = path.join(from, entry);
+        if (fs.statSync(source).isDirectory()) {
+            moveHistory(`${fromRelativePath}/${entry}`, `${toRelativePath}/${entry}`);
+        } else if (!fs.existsSync(path.join(to, entry))) {
+            fs.renameSync(source, path.join(to, entry));
+        }
+    });
+    fs.rmSync(from, { recursive: true, force: true });
+};
+
+export const createFolder = (folderPath: unknown): string => {
+    const relativePath = checkFolderPath(folderPath);
+    checkName(path.basename(relativePath), 'folder');
+    const dirPath = resolveStoragePath('templates', relativePath);
+
+    requireDirectory(path.dirname(dirPath), path.dirname(relativePath));
+    requireFree(dirPath, `Folder "${relativePath}"`);
+    fs.mkdirSync(dirPath);
+    return toStorageRelativePath('templates', dirPath);
+};
+
+export const renameFolder = (folderPath: unknown, newName: unknown): string => {
+    const relativePath = checkFolderPath(folderPath);
+    const name = checkName(newName, 'folder');
+    const dirPath = resolveStoragePath('templates', relativePath);
+    const targetPath = resolveStoragePath('templates', path.join(path.dirname(relativePath), name));
+
+    requireDirectory(dirPath, relativePath);
+    requireFree(targetPath, `Folder "${name}"`);
+    fs.renameSync(dirPath, targetPath);
+    moveHistory(toStorageRelativePath('templates', dirPath), toStorageRelativePath('templates', targetPath));
+    return toStorageRelativePath('templates', targetPath);
+};
+
+export const renameTemplate = (folderPath: unknown, fileName: unknown, newName: unknown): string => {
+    const folder = checkFolderPath(folderPath);
+    const name = checkTemplateName(newName);
+    const filePath = resolveStorageFile('templates', folder, fileName);
+    const targetPath = resolveStorageFile('templates', folder, name);
+
+    requireTemplate(filePath, folder, String(fileName));
+    requireFree(targetPath, `"${name}" in "${folder}"`);
+    fs.renameSync(filePath, targetPath);
+    moveHistory(toStorageRelativePath('templates', filePath), toStorageRelativePath('templates', targetPath));
+    return toStorageRelativePath('templates', targetPath);
+};
+
+// "name copy.yml", then "name copy 2.yml" and so on
+const nextCopyName = (dirPath: string, fileName: string): string => {
+    const extension = path.extname(fileName);
+    const base = path.basename(fileName, extension);
+    let candidate = `${base} copy${extension}`;
+    for (let n = 2; fs.existsSync(path.join(dirPath, candidate)); n++) {
+        candidate = `${base} copy ${n}${extension}`;
+    }
+    return candidate;
+};
+
+// Copy a template within its folder. Without `newName` the copy is named after the original.
+export const duplicateTemplate = (folderPath: unknown, fileName: unknown, newName?: unknown): string => {
+    const folder = checkFolderPath(folderPath);
+    const filePath = resolveStorageFile('templates', folder, fileName);
+    requireTemplate(filePath, folder, String(fileName));
+
+    const dirPath = path.dirname(filePath);
+    const name = newName === undefined || newName === '' ? nextCopyName(dirPath, path.basename(filePath)) : checkTemplateName(newName);
+    const targetPath = resolveStorageFile('templates', folder, name);
+
+    requireFree(targetPath, `"${name}" in "${folder}"`);
+    fs.copyFileSync(filePath, targetPath, fs.constants.COPYFILE_EXCL);
+    return toStorageRelativePath('templates', targetPath);
+};
+
+export const moveTemplate = (folderPath: unknown, fileName: unknown, targetFolder: unknown): string => {
+    const folder = checkFolderPath(folderPath);
+    const target = checkFolderPath(targetFolder);
+    const filePath = resolveStorageFile('templates', folder, fileName);
+    const targetDir = resolveStoragePath('templates', target);
+    const targetPath = resolveStorageFile('templates', target, fileName);
+
+    requireTemplate(filePath, folder, String(fileName));
+    requireDirectory(targetDir, target);
+    requireFree(targetPath, `"${fileName}" in "${target}"`);
+    fs.renameSync(filePath, targetPath);
+    moveHistory(toStorageRelativePath('templates', filePath), toStorageRelativePath('templates', targetPath));
+    return toStorageRelativePath('templates', targetPath);
+};
+
+// Move a template to the trash and return its entry
+export const deleteTemplate = (folderPath: unknown, fileName: unknown): TrashEntry => {
+    const folder = checkFolderPath(folderPath);
+    const filePath = resolveStorageFile('templates', folder, fileName);
+    requireTemplate(filePath, folder, String(fileName));
+
+    const deletedAt = new Date();
+    const id = `${deletedAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`;
+    const entryDir = resolveStoragePath('templates', `${TRASH_FOLDER}/${id}`);
+    const entry: TrashEntry = {
+        id,
+        folderPath: toStorageRelativePath('templates', path.dirname(filePath)),
+        fileName: path.basename(filePath),
+        deletedAt: deletedAt.toISOString()
+    };
+
+    fs.mkdirSync(entryDir, { recursive: true });
+    fs.writeFileSync(path.join(entryDir, TRASH_INFO_FILE), JSON.stringify(entry, null, 2), 'utf8');
+    fs.renameSync(filePath, path.join(entryDir, entry.fileName));
+    return entry;
+};
+
+const readTrashEntry = (id: string): TrashEntry | null => {
+    try {
+        const infoPath = resolveStoragePath('templates', `${TRASH_FOLDER}/${id}/${TRASH_INFO_FILE}`);
+        const entry = JSON.parse(fs.readFileSync(infoPath, 'utf8'));
+        return entry && entry.id === id ? entry : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+// Trashed templates, most recently deleted first
+export const listTrash = (): TrashEntry[] => {
+    const trashDir = resolveStoragePath('templates', TRASH_FOLDER);
+    if (!fs.existsSync(trashDir)) return [];
+
+    return fs.readdirSync(trashDir)
+        .map(readTrashEntry)
+        .filter((entry): entry is TrashEntry => entry !== null)
+        .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+// Put a trashed template back where it was deleted from. The folder is recreated if it
+// has gone; a template of the same name that has taken its place is not overwritten.
+export const restoreTemplate = (id: unknown): string => {
+    if (typeof id !== 'string' || !/^[\w-]+$/.test(id)) {
+        throw new LibraryError(400, 'Invalid trash entry');
+    }
+    const entry = readTrashEntry(id);
+    if (!entry) {
+        throw new LibraryError(404, 'Trash entry not found');
+    }
+
+    const entryDir = resolveStoragePath('templates', `${TRASH_FOLDER}/${id}`);
+    const targetPath = resolveStorageFile('templates', entry.folderPath, entry.fileName);
+    requireFree(targetPath, `"${entry.fileName}" in "${entry.folderPath}"`);
+
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    fs.renameSync(path.join(entryDir, entry.fileName), targetPath);
+    fs.rmSync(entryDir, { recursive: true, force: true });
+    return toStorageRelativePath('templates', targetPath);
+};
+
+const readRevision = (historyDir: string, id: string): TemplateRevision | null => {
+    try {
+        const revision = JSON.parse(fs.readFileSync(path.join(historyDir, `${id}.json`), 'utf8'));
+        return revision && revision.id === id ? revision : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+const checkRevisionId = (id: unknown): string => {
+    if (typeof id !== 'string' || !/^[\w-]+$/.test(id)) {
+        throw new LibraryError(400, 'Invalid revision');
+    }
+    return id;
+};
+
+const revisionsIn = (historyDir: string): TemplateRevision[] => {
+    if (!fs.existsSync(historyDir)) return [];
+    return fs.readdirSync(historyDir)
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => readRevision(historyDir, entry.replace(/\.json$/, '')))
+        .filter((revision): revision is TemplateRevision => revision !== null)
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt) || b.id.localeCompare(a.id));
+};
+
+// Keep `content`, just written to `filePath`, as a new revision
+export const recordRevision = (
+    filePath: string,
+    content: string,
+    author: unknown,
+    message?: unknown,
+    savedAt: Date = new Date()
+): TemplateRevision => {
+    const historyDir = historyDirOf(toStorageRelativePath('templates', filePath));
+    const revision: TemplateRevision = {
+        id: `${savedAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+        author: typeof author === 'string' && author.trim() !== '' ? author.trim() : 'anonymous',
+        message: typeof message === 'string' && message.trim() !== '' ? message.trim() : undefined,
+        savedAt: savedAt.toISOString(),
+        hash: hashTemplateContent(content)
+    };
+
+    fs.mkdirSync(historyDir, { recursive: true });
+    fs.writeFileSync(path.join(historyDir, `${revision.id}.yml`), content, 'utf8');
+    fs.writeFileSync(path.join(historyDir, `${revision.id}.json`), JSON.stringify(revision, null, 2), 'utf8');
+    return revision;
+};
+
+// Templates saved before revisions were kept have no history. Before such a file is first
+// overwritten, its current content becomes the first revision.
+export const recordBaseRevision = (filePath: string): void => {
+    if (!fs.existsSync(filePath)) return;
+    if (revisionsIn(historyDirOf(toStorageRelativePath('templates', filePath))).length > 0) return;
+    recordRevision(filePath, fs.readFileSync(filePath, 'utf8'), 'unknown', 'Version saved before revisions were kept', fs.statSync(filePath).mtime);
+};
+
+// Revisions of a template, newest first. History outlives the file, so a template in the
+// trash still has its revisions.
+export const listRevisions = (folderPath: unknown, fileName: unknown): TemplateRevision[] => {
+    const filePath = resolveStorageFile('templates', checkFolderPath(folderPath), fileName);
+    return revisionsIn(historyDirOf(toStorageRelativePath('templates', filePath)));
+};
+
+export const getRevision = (folderPath: unknown, fileName: unknown, id: unknown): { revision: TemplateRevision; content: string } => {
+    const revisionId = checkRevisionId(id);
+    const filePath = resolveStorageFile('templates', checkFolderPath(folderPath), fileName);
+    const historyDir = historyDirOf(toStorageRelativePath('templates', filePath));
+    const revision = readRevision(historyDir, revisionId);
+    if (!revision) {
+        throw new LibraryError(404, 'Revision not found', `No revision ${revisionId} of "${fileName}"`);
+    }
+    return { revision, content: fs.readFileSync(path.join(historyDir, `${revisionId}.yml`), 'utf8') };
+};
+
+// Write an old revision back to the template. The restore is itself recorded as a revision,
+// so nothing saved in between is lost. Like a save, it only replaces the template when it
+// still has the hash in `baseVersion`, and only with content the generator can use.
+export const restoreRevision = (
+    folderPath: unknown,
+    fileName: unknown,
+    id: unknown,
+    baseVersion: unknown,
+    author: unknown
+): { revision: TemplateRevision; content: string; version: TemplateVersion } => {
+    const { revision: restored, content } = getRevision(folderPath, fileName, id);
+    const filePath = resolveStorageFile('templates', String(folderPath), fileName);
+
+    if (fs.existsSync(filePath)) {
+        const currentVersion = getTemplateVersion(filePath, fs.readFileSync(filePath, 'utf8'));
+        if (baseVersion !== currentVersion.hash) {
+            throw new LibraryError(409, 'Template was changed by someone else', `"${fileName}" was saved at ${currentVersion.mtime}, after you loaded it. Load it again before restoring.`);
+        }
+    }
+    const validation = validateTemplateYaml(content);
+    if (!validation.isValid) {
+        throw new LibraryError(400, 'Revision does not match the ESL template format', validation.errors.map(formatValidationError).join('\n'));
+    }
+
+    recordBaseRevision(filePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf8');
+    const revision = recordRevision(filePath, content, author, `Restored revision from ${restored.savedAt} by ${restored.author}`);
+    return { revision, content, version: getTemplateVersion(filePath, content) };
+};
+
+// Answer a failed library request with `{ error, details }`
+export const sendLibraryError = (res: NextApiResponse, error: unknown, fallbackMessage: string) => {
+    if (error instanceof LibraryError) {
+        return res.status(error.status).json({ error: error.message, details: error.details });
+    }
+    if (error instanceof StoragePathError) {
+        return res.status(400).json({ error: error.message });
+    }
+    console.error(`${fallbackMessage}:`, error);
+    return res.status(500).json({
+        error: fallbackMessage,
+        details: error instanceof Error ? error.message : 'Unknown error'
+    });
+};
@@ -0,0 +1,422 @@
+import YAML from 'yaml';
+import {
+    CanvasGroup,
+    CanvasGuide,
+    CanvasItem,
+    EslAxis,
+    EslElement,
+    EslTemplateDocument,
+    EslType,
+    PriceItem,
+    QRCodeItem,
+    QrErrorCorrection,
+    TemplateExtras,
+    TextAnchor,
+    TextBox
+} from '../types';
+import { fitBoxToSymbol } from './barcodes';
+import { DEFAULT_FONT_FILE } from './fonts';
+import { canRotate, normalizeRotation } from './itemTransforms';
+import { isEslType } from './palette';
+
+export interface FontSpec {
+    file: string;
+    size: number;
+}
+
+export interface ParsedTemplate {
+    items: CanvasItem[];
+    width?: number;
+    height?: number;
+    eslType?: EslType;
+    axis?: EslAxis;
+    model?: string; // Id of the display model the template was designed for
+    groups: CanvasGroup[];
+    guides: CanvasGuide[];
+    extras: TemplateExtras;
+}
+
+// A text box read back from `_box`, with the text and font size the editor gave it
+export interface ParsedTextBox {
+    x: number;
+    y: number;
+    box: TextBox;
+    text?: string; // Literal text, split into lines on export
+    size?: number; // Font size before any auto-shrink
+    anchor?: TextAnchor; // Anchor of the text outside the box
+}
+
+const textAnchors: TextAnchor[] = ['lt', 'mt', 'rt', 'ls', 'ms', 'rs'];
+const boxAligns: TextBox['align'][] = ['left', 'center', 'right'];
+const boxVerticalAligns: TextBox['verticalAlign'][] = ['top', 'middle', 'bottom'];
+const qrErrorCorrectionLevels: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+
+// Root keys the editor turns into canvas state; everything else is carried in TemplateExtras
+const modelledRootKeys = ['fonts', 'type', 'x_res', 'y_res', 'axis', '_model', '_groups', '_guides', 'el'];
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown, fallback: number): number => {
+    const num = typeof value === 'number' ? value : Number(value);
+    return value === undefined || value === null || value === '' || isNaN(num) ? fallback : num;
+};
+
+// Convert an ESL fill value to the editor's colour
+export const fillToColor = (fill: unknown): string => {
+    switch (fill) {
+        case 0: return '#000000'; // black
+        case 1: return '#ffffff'; // white
+        case 2: return '#ffff00'; // yellow
+        case 3: return '#ff0000'; // red
+        default: return '#000000';
+    }
+};
+
+// Fonts are written either as "File.ttf:16" strings or as { type, size } maps
+export const parseFontSpec = (font: unknown): FontSpec | null => {
+    if (typeof font === 'string') {
+        const separator = font.lastIndexOf(':');
+        if (separator === -1) return { file: font, size: 16 };
+        return {
+            file: font.substring(0, separator),
+            size: toNumber(font.substring(separator + 1), 16)
+        };
+    }
+    if (isPlainObject(font) && typeof font.type === 'string') {
+        return { file: font.type, size: toNumber(font.size, 16) };
+    }
+    return null;
+};
+
+// The `_box` of a bounded text element, or null if it has none the editor can use
+export const parseTextBox = (value: unknown): ParsedTextBox | null => {
+    if (!isPlainObject(value)) return null;
+    const width = toNumber(value.width, 0);
+    const height = toNumber(value.height, 0);
+    if (width <= 0 || height <= 0) return null;
+
+    const maxLines = Math.floor(toNumber(value.max_lines, 0));
+    const minFontSize = toNumber(value.min_size, 0);
+    const box: TextBox = {
+        width,
+        height,
+        align: boxAligns.includes(value.align as TextBox['align']) ? value.align as TextBox['align'] : 'left',
+        verticalAlign: boxVerticalAligns.includes(value.valign as TextBox['verticalAlign'])
+            ? value.valign as TextBox['verticalAlign']
+            : 'top'
+    };
+    if (maxLines > 0) box.maxLines = maxLines;
+    if (minFontSize > 0) box.minFontSize = minFontSize;
+
+    return {
+        x: toNumber(value.x, 0),
+        y: toNumber(value.y, 0),
+        box,
+        text: typeof value.text === 'string' ? value.text : undefined,
+        size: typeof value.size === 'number' && value.size > 0 ? value.size : undefined,
+        anchor: textAnchors.includes(value.anchor as TextAnchor) ? value.anchor as TextAnchor : undefined
+    };
+};
+
+// Parse template YAML into a plain document. Throws if the text is not valid YAML
+// or the top level is not a mapping.
+export const parseTemplateYaml = (yamlString: string): EslTemplateDocument => {
+    const data = YAML.parse(yamlString);
+    if (!isPlainObject(data)) {
+        throw new Error('Template must be a YAML mapping');
+    }
+    return data as EslTemplateDocument;
+};
+
+// Split an element into the keys the editor consumes and the rest
+const collectExtra = (element: EslElement, consumed: string[]): Record<string, unknown> | undefined => {
+    const extra: Record<string, unknown> = {};
+    Object.keys(element).forEach(key => {
+        if (!consumed.includes(key)) {
+            extra[key] = element[key];
+        }
+    });
+    return Object.keys(extra).length > 0 ? extra : undefined;
+};
+
+const variableText = (element: EslElement, fallback: string): string =>
+    element.var !== undefined && element.var !== null ? `[${String(element.var)}]` : fallback;
+
+// A price read back from the `_price` settings on its first element
+const elementToPriceItem = (element: EslElement, fonts: (FontSpec | null)[], id: number, zIndex: number): PriceItem | null => {
+    const price = element._price;
+    if (!isPlainObject(price) || typeof price.data !== 'string') return null;
+    const font = fonts[toNumber(element.font, 0)];
+    return {
+        id,
+        type: 'price',
+        x: toNumber(price.x, toNumber(element.x, 0)),
+        y: toNumber(price.y, toNumber(element.y, 0)),
+        color: fillToColor(element.fill),
+        data: price.data,
+        fontSize: toNumber(price.size, font ? font.size : 32),
+        fontFile: font?.file || DEFAULT_FONT_FILE,
+        separator: typeof price.separator === 'string' ? price.separator : '.',
+        currency: typeof price.currency === 'string' ? price.currency : '',
+        currencyPosition: price.currency_position === 'before' ? 'before' : 'after',
+        raisedDecimals: price.raised === true,
+        integerDigits: Math.max(1, Math.floor(toNumber(price.digits, 2))),
+        ...(typeof price.original === 'string' && { originalPrice: price.original }),
+        zIndex,
+        extra: collectExtra(element, ['type', 'font', 'fill', 'x', 'y', 'text', 'var', 'anchor', 'x1', 'y1', 'x2', 'y2', '_price'])
+    };
+};
+
+// Convert a single `el` entry to a canvas item, or null if the editor cannot show it
+const elementToCanvasItem = (element: EslElement, fonts: (FontSpec | null)[], id: number, zIndex: number): CanvasItem | null => {
+    if (element._price !== undefined) {
+        const price = elementToPriceItem(element, fonts, id, zIndex);
+        if (price) return price;
+    }
+    switch (element.type) {
+        case 'text':
+        case 'var': {
+            const font = fonts[toNumber(element.font, 0)] || { file: '', size: 16 };
+            const formatting = isPlainObject(element._formatting) ? element._formatting : {};
+            const anchorIsKnown = textAnchors.includes(element.anchor as TextAnchor);
+            const consumed = ['type', 'font', 'fill', 'x', 'y', 'text', 'var', '_formatting'];
+            if (anchorIsKnown || element.anchor === undefined) consumed.push('anchor');
+            const textBox = parseTextBox(element._box);
+            if (textBox) consumed.push('_box');
+            const text = element.text === undefined || element.text === null ? '' : String(element.text);
+
+            return {
+                id,
+                type: 'text',
+                x: textBox ? textBox.x : toNumber(element.x, 0),
+                y: textBox ? textBox.y : toNumber(element.y, 0),
+                color: fillToColor(element.fill),
+                text: variableText(element, textBox?.text ?? text),
+                fontSize: textBox?.size ?? font.size,
+                fontFile: font.file || DEFAULT_FONT_FILE,
+                // Boxed text is anchored by its box; its own anchor is kept in `_box`
+                anchor: textBox ? textBox.anchor || 'lt' : anchorIsKnown ? element.anchor as TextAnchor : 'lt',
+                ...(textBox && { box: textBox.box }),
+                bold: formatting.bold === true,
+                italic: formatting.italic === true,
+                underline: formatting.underline === true,
+                zIndex,
+                extra: collectExtra(element, consumed)
+            };
+        }
+        case 'rect': {
+            const x1 = toNumber(element.x1, 0);
+            const y1 = toNumber(element.y1, 0);
+            const x2 = toNumber(element.x2, x1);
+            const y2 = toNumber(element.y2, y1);
+            return {
+                id,
+                type: 'rect',
+                x: Math.min(x1, x2),
+                y: Math.min(y1, y2),
+                width: Math.abs(x2 - x1),
+                height: Math.abs(y2 - y1),
+                color: fillToColor(element.fill),
+                zIndex,
+                extra: collectExtra(element, ['type', 'fill', 'x1', 'y1', 'x2', 'y2'])
+            };
+        }
+        case 'line':
+            return {
+                id,
+                type: 'line',
+                x: toNumber(element.x1, 0),
+                y: toNumber(element.y1, 0),
+                x2: toNumber(element.x2, 0),
+                y2: toNumber(element.y2, 0),
+                strokeWidth: 1,
+                thickness: 1,
+                color: fillToColor(element.fill),
+                zIndex,
+                extra: collectExtra(element, ['type', 'fill', 'x1', 'y1', 'x2', 'y2'])
+            };
+        case 'circle':
+            return {
+                id,
+                type: 'circle',
+                x: toNumber(element.x, 0),
+                y: toNumber(element.y, 0),
+                radius: toNumber(element.r, 15),
+                color: fillToColor(element.fill),
+                zIndex,
+                extra: collectExtra(element, ['type', 'fill', 'x', 'y', 'r'])
+            };
+        case 'img':
+        case 'image':
+            return {
+                id,
+                type: 'image',
+                x: toNumber(element.x_pos, 0),
+                y: toNumber(element.y_pos, 0),
+                width: toNumber(element.size_x, 100),
+                height: toNumber(element.size_y, 100),
+                filename: element.filename === undefined ? '' : String(element.filename),
+                color: '#000000',
+                zIndex,
+                extra: collectExtra(element, ['type', 'filename', 'size_x', 'size_y', 'x_pos', 'y_pos'])
+            };
+        case 'code128':
+        case 'barcode': {
+            // `barcode` elements use height as a scale factor, so only code128 heights are pixels.
+            // The editor's box is sized to the symbol the generator will print.
+            const font = element.font === undefined ? null : fonts[toNumber(element.font, 0)];
+            const consumed = element.type === 'code128'
+                ? ['type', 'var', 'data', 'x', 'y', 'height']
+                : ['type', 'var', 'data', 'x', 'y'];
+            // A font index missing from the font list is kept as it is
+            if (font) consumed.push('font');
+            return fitBoxToSymbol({
+                id,
+                type: 'barcode',
+                x: toNumber(element.x, 0),
+                y: toNumber(element.y, 0),
+                width: 100,
+                height: element.type === 'code128' ? toNumber(element.height, 30) : 30,
+                data: variableText(element, element.data === undefined ? '' : String(element.data)),
+                ...(font && { captionFont: `${font.file}:${font.size}` }),
+                color: '#000000',
+                zIndex,
+                extra: collectExtra(element, consumed)
+            });
+        }
+        case 'qrcode': {
+            const eccIsKnown = qrErrorCorrectionLevels.includes(element.ecc as QrErrorCorrection);
+            const consumed = ['type', 'var', 'data', 'x', 'y', 'scale'];
+            if (eccIsKnown) consumed.push('ecc');
+
+            const item: QRCodeItem = {
+                id,
+                type: 'qrcode',
+                x: toNumber(element.x, 0),
+                y: toNumber(element.y, 0),
+                size: 50,
+                data: variableText(element, element.data === undefined ? '' : String(element.data)),
+                scale: toNumber(element.scale, 1),
+                color: '#000000',
+                zIndex,
+                extra: collectExtra(element, consumed)
+            };
+            if (eccIsKnown) item.ecc = element.ecc as QrErrorCorrection;
+            return fitBoxToSymbol(item);
+        }
+        default:
+            return null;
+    }
+};
+
+// Groups are editor metadata: `_groups` lists { id, name, parent } and each member
+// element carries `_group` with the id of its innermost group
+const parseGroups = (value: unknown[]): CanvasGroup[] => {
+    const groups: CanvasGroup[] = [];
+    value.forEach(entry => {
+        if (!isPlainObject(entry) || typeof entry.id !== 'number') return;
+        const group: CanvasGroup = {
+            id: entry.id,
+            name: typeof entry.name === 'string' ? entry.name : `Group ${entry.id}`
+        };
+        if (typeof entry.parent === 'number') group.parentId = entry.parent;
+        groups.push(group);
+    });
+    return groups;
+};
+
+// Ruler guides are editor metadata: `_guides` lists { orientation, position }
+const parseGuides = (value: unknown[]): CanvasGuide[] => {
+    const guides: CanvasGuide[] = [];
+    value.forEach(entry => {
+        if (!isPlainObject(entry) || typeof entry.position !== 'number') return;
+        if (entry.orientation !== 'horizontal' && entry.orientation !== 'vertical') return;
+        guides.push({ id: guides.length + 1, orientation: entry.orientation, position: entry.position });
+    });
+    return guides;
+};
+
+// Move a known `_group` reference from the item's unmodelled keys to its groupId
+const assignGroup = (item: CanvasItem, groups: CanvasGroup[]): CanvasItem => {
+    const groupId = item.extra?._group;
+    if (typeof groupId !== 'number' || !groups.some(group => group.id === groupId)) return item;
+
+    const { _group, ...extra } = item.extra as Record<string, unknown>;
+    return { ...item, groupId, extra: Object.keys(extra).length > 0 ? extra : undefined };
+};
+
+// Move an element's `rotate` onto items the editor can turn; others keep it as extra
+const assignRotation = (item: CanvasItem): CanvasItem => {
+    const rotate = item.extra?.rotate;
+    if (typeof rotate !== 'number' || !isFinite(rotate) || !canRotate(item)) return item;
+
+    const { rotate: _rotate, ...extra } = item.extra as Record<string, unknown>;
+    const rotation = normalizeRotation(rotate);
+    return { ...item, ...(rotation !== 0 && { rotation }), extra: Object.keys(extra).length > 0 ? extra : undefined };
+};
+
+// Convert a parsed template document into canvas items and editor configuration
+export const templateToCanvas = (doc: EslTemplateDocument): ParsedTemplate => {
+    const fonts = Array.isArray(doc.fonts) ? doc.fonts.map(parseFontSpec) : [];
+    const extras: TemplateExtras = { rootKeys: {}, elements: [] };
+    if (Array.isArray(doc.fonts)) extras.fonts = doc.fonts;
+    const items: CanvasItem[] = [];
+
+    Object.keys(doc).forEach(key => {
+        if (!modelledRootKeys.includes(key)) {
+            extras.rootKeys[key] = doc[key];
+        }
+    });
+
+    const eslType = isEslType(doc.type) ? doc.type : undefined;
+    if (doc.type !== undefined && !eslType) extras.rootKeys.type = doc.type;
+
+    const axis = doc.axis === 0 || doc.axis === 1 ? doc.axis : undefined;
+    if (doc.axis !== undefined && axis === undefined) extras.rootKeys.axis = doc.axis;
+
+    const model = typeof doc._model === 'string' && doc._model !== '' ? doc._model : undefined;
+    if (doc._model !== undefined && model === undefined) extras.rootKeys._model = doc._model;
+
+    const groups = Array.isArray(doc._groups) ? parseGroups(doc._groups) : [];
+    if (doc._groups !== undefined && !Array.isArray(doc._groups)) extras.rootKeys._groups = doc._groups;
+
+    const guides = Array.isArray(doc._guides) ? parseGuides(doc._guides) : [];
+    if (doc._guides !== undefined && !Array.isArray(doc._guides)) extras.rootKeys._guides = doc._guides;
+
+    // Bounded text and prices are written as several elements; the first holds the whole item
+    let partKey: string | undefined;
+    (Array.isArray(doc.el) ? doc.el : []).forEach((element: unknown) => {
+        if (!isPlainObject(element) || typeof element.type !== 'string') {
+            console.warn('Skipping invalid element:', element);
+            return;
+        }
+        if (partKey !== undefined && element[partKey] === true) return;
+        const item = elementToCanvasItem(element as EslElement, fonts, items.length + 1, items.length);
+        partKey = item?.type === 'price' ? '_price_part'
+            : item?.type === 'text' && item.box ? '_box_line'
+            : undefined;
+        if (item) {
+            items.push(assignGroup(assignRotation(item), groups));
+        } else {
+            // Keep element types the editor cannot draw so saving writes them back in place
+            extras.elements.push(element as EslElement);
+            extras.elementLayers = [...(extras.elementLayers || []), items.length];
+        }
+    });
+
+    return {
+        items,
+        width: typeof doc.x_res === 'number' && doc.x_res > 0 ? doc.x_res : undefined,
+        height: typeof doc.y_res === 'number' && doc.y_res > 0 ? doc.y_res : undefined,
+        eslType,
+        axis,
+        model,
+        groups,
+        guides,
+        extras
+    };
+};
+
+export const parseTemplate = (yamlString: string): ParsedTemplate =>
+    templateToCanvas(parseTemplateYaml(yamlString));
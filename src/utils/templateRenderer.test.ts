@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { EslTemplateDocument } from '../types';
+import { renderTemplateDocument } from './templateRenderer';
+
+const template = (el: EslTemplateDocument['el']): EslTemplateDocument =>
+    ({ fonts: [], type: 'bw', x_res: 40, y_res: 20, axis: 0, el });
+
+// Palette index of the pixel at x/y
+const pixel = (doc: EslTemplateDocument, x: number, y: number): number => {
+    const { image } = renderTemplateDocument(doc);
+    return image.pixels[y * image.width + x];
+};
+
+describe('renderTemplateDocument', () => {
+    it('draws shapes where the template puts them', () => {
+        const doc = template([
+            { type: 'rect', fill: 0, x1: 2, y1: 2, x2: 6, y2: 6 },
+            { type: 'circle', fill: 0, x: 20, y: 10, r: 3 },
+            { type: 'line', fill: 0, x1: 30, y1: 0, x2: 30, y2: 19 }
+        ]);
+        expect(pixel(doc, 3, 3)).toBe(0);
+        expect(pixel(doc, 7, 7)).toBe(1);
+        expect(pixel(doc, 20, 10)).toBe(0);
+        expect(pixel(doc, 20, 14)).toBe(1);
+        expect(pixel(doc, 30, 0)).toBe(0);
+        expect(pixel(doc, 30, 19)).toBe(0);
+    });
+
+    // Sizes like these pass the schema; drawing them pixel by pixel would never finish
+    it('draws huge elements no slower than the label', () => {
+        const doc = template([
+            { type: 'rect', fill: 0, x1: -1e9, y1: -1e9, x2: 1e9, y2: 1e9 },
+            { type: 'circle', fill: 0, x: 0, y: 0, r: 1e6 },
+            { type: 'line', fill: 1, x1: -1e9, y1: 10, x2: 1e9, y2: 10 },
+            { type: 'line', fill: 1, x1: 5, y1: 1e9, x2: 5, y2: 1e9 + 10 },
+            { type: 'circle', fill: 0, x: 1e6, y: 1e6, r: 1e6, rotate: 45 }
+        ]);
+        const started = Date.now();
+        const { image } = renderTemplateDocument(doc);
+        expect(Date.now() - started).toBeLessThan(2000);
+
+        expect(image.pixels[0]).toBe(0);
+        expect(image.pixels[10 * image.width + 20]).toBe(1);
+        expect(image.pixels[15 * image.width + 5]).toBe(0);
+    });
+});
@@ -0,0 +1,528 @@
+import fs from 'fs';
+import opentype from 'opentype.js';
+import { EslElement, EslTemplateDocument, EslType, QrErrorCorrection, TemplateVariables } from '../types';
+import { CODE128_PLACEHOLDER, DEFAULT_QR_ECC, QR_PLACEHOLDER, encodeCode128, encodeQrCode } from './barcodes';
+import { loadFont, resolveFontFile } from './fontFiles';
+import { normalizeRotation, rotateBounds, rotatePoint } from './itemTransforms';
+import { PaletteColor, fillToPaletteIndex, getPalette, isEslType, nearestPaletteIndex } from './palette';
+import { IndexedImage, decodeImage } from './rasterImage';
+import { resolveStoragePath } from './storage';
+import { priceVariables, splitPrice } from './priceLayout';
+import { parseFontSpec, parseTemplateYaml, parseTextBox } from './templateParser';
+import { fontMetrics, layoutText, layoutTextBox } from './textLayout';
+import { getVariableName } from './variables';
+
+// Server-side only. Draws a template the way the tag image generator does: at exactly
+// x_res × y_res, in the panel's palette, with text from the TTF files in the fonts root and
+// without anti-aliasing. The editor preview and batch rendering both go through here.
+
+export interface RenderResult {
+    image: IndexedImage;
+    // Things that could not be drawn as the template asks, such as a missing font or variable
+    warnings: string[];
+}
+
+const WHITE = 1; // Palette index of white in both the bw and bwry palettes
+const TRANSPARENT = 255; // Not in any palette: marks pixels a turned element leaves alone
+
+// Element types the `rotate` key turns, about x/y (x_pos/y_pos for images)
+const rotatableElements = ['text', 'var', 'img', 'image', 'code128', 'barcode', 'qrcode'];
+
+// How a raster's drawing is turned onto the label, for checking what lands on it
+interface Turn {
+    pivotX: number;
+    pivotY: number;
+    degrees: number;
+    labelWidth: number;
+    labelHeight: number;
+}
+
+const toNumber = (value: unknown, fallback: number): number => {
+    const num = typeof value === 'number' ? value : Number(value);
+    return value === undefined || value === null || value === '' || isNaN(num) ? fallback : num;
+};
+
+// The part of a segment inside the box from left/top to right/bottom (Liang-Barsky),
+// or null if it misses the box
+const clipSegment = (
+    x0: number, y0: number, x1: number, y1: number,
+    left: number, top: number, right: number, bottom: number
+): [number, number, number, number] | null => {
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    const edges = [[-dx, x0 - left], [dx, right - x0], [-dy, y0 - top], [dy, bottom - y0]];
+    let enter = 0;
+    let leave = 1;
+    for (let i = 0; i < edges.length; i++) {
+        const [p, q] = edges[i];
+        if (p === 0) {
+            if (q < 0) return null;
+            continue;
+        }
+        const t = q / p;
+        if (p < 0) enter = Math.max(enter, t);
+        else leave = Math.min(leave, t);
+        if (enter > leave) return null;
+    }
+    return [x0 + enter * dx, y0 + enter * dy, x0 + leave * dx, y0 + leave * dy];
+};
+
+class Raster {
+    image: IndexedImage;
+    // Label coordinates of the top left pixel, for rasters that hold a turned element
+    originX: number;
+    originY: number;
+    turn?: Turn;
+
+    constructor(width: number, height: number, palette: PaletteColor[], originX = 0, originY = 0, background = WHITE) {
+        this.image = { width, height, pixels: new Uint8Array(width * height).fill(background), palette };
+        this.originX = originX;
+        this.originY = originY;
+    }
+
+    set(x: number, y: number, index: number) {
+        const col = x - this.originX;
+        const row = y - this.originY;
+        if (col < 0 || row < 0 || col >= this.image.width || row >= this.image.height) return;
+        this.image.pixels[row * this.image.width + col] = index;
+    }
+
+    get(x: number, y: number): number {
+        const col = x - this.originX;
+        const row = y - this.originY;
+        if (col < 0 || row < 0 || col >= this.image.width || row >= this.image.height) return TRANSPARENT;
+        return this.image.pixels[row * this.image.width + col];
+    }
+
+    // Label pixels the raster holds, with `right` and `bottom` just outside. Drawing loops
+    // are cut to these first, so elements of any size take no longer than the raster.
+    get bounds() {
+        return {
+            left: this.originX,
+            top: this.originY,
+            right: this.originX + this.image.width,
+            bottom: this.originY + this.image.height
+        };
+    }
+
+    fillRect(x: number, y: number, width: number, height: number, index: number) {
+        const bounds = this.bounds;
+        const bottom = Math.min(Math.round(y + height), bounds.bottom);
+        const right = Math.min(Math.round(x + width), bounds.right);
+        for (let row = Math.max(Math.round(y), bounds.top); row < bottom; row++) {
+            for (let col = Math.max(Math.round(x), bounds.left); col < right; col++) this.set(col, row, index);
+        }
+    }
+
+    // Bresenham line, one pixel wide, including both end points. Lines reaching past the
+    // raster are first cut to it.
+    line(x0: number, y0: number, x1: number, y1: number, index: number) {
+        const { left, top, right, bottom } = this.bounds;
+        const inside = (x: number, y: number) => x >= left && x < right && y >= top && y < bottom;
+        if (!inside(x0, y0) || !inside(x1, y1)) {
+            const clipped = clipSegment(x0, y0, x1, y1, left - 1, top - 1, right, bottom);
+            if (!clipped) return;
+            [x0, y0, x1, y1] = clipped;
+        }
+        let x = Math.round(x0);
+        let y = Math.round(y0);
+        const endX = Math.round(x1);
+        const endY = Math.round(y1);
+        const dx = Math.abs(endX - x);
+        const dy = -Math.abs(endY - y);
+        const stepX = x < endX ? 1 : -1;
+        const stepY = y < endY ? 1 : -1;
+        let error = dx + dy;
+        for (;;) {
+            this.set(x, y, index);
+            if (x === endX && y === endY) break;
+            const doubled = 2 * error;
+            if (doubled >= dy) { error += dy; x += stepX; }
+            if (doubled <= dx) { error += dx; y += stepY; }
+        }
+    }
+
+    fillCircle(cx: number, cy: number, radius: number, index: number) {
+        const bounds = this.bounds;
+        const bottom = Math.min(Math.ceil(cy + radius), bounds.bottom - 1);
+        const right = Math.min(Math.ceil(cx + radius), bounds.right - 1);
+        for (let row = Math.max(Math.floor(cy - radius), bounds.top); row <= bottom; row++) {
+            for (let col = Math.max(Math.floor(cx - radius), bounds.left); col <= right; col++) {
+                if ((col - cx) ** 2 + (row - cy) ** 2 <= radius ** 2) this.set(col, row, index);
+            }
+        }
+    }
+
+    // Fill a glyph outline with the non-zero rule, sampling each pixel at its centre
+    fillPath(pathData: opentype.Path, index: number) {
+        const edges: [number, number, number, number][] = [];
+        let startX = 0, startY = 0, lastX = 0, lastY = 0;
+        const lineTo = (x: number, y: number) => {
+            if (y !== lastY) edges.push([lastX, lastY, x, y]);
+            lastX = x;
+            lastY = y;
+        };
+        const segments = 8;
+
+        pathData.commands.forEach(command => {
+            switch (command.type) {
+                case 'M':
+                    lineTo(startX, startY);
+                    startX = lastX = command.x;
+                    startY = lastY = command.y;
+                    break;
+                case 'L':
+                    lineTo(command.x, command.y);
+                    break;
+                case 'Q': {
+                    const fromX = lastX, fromY = lastY;
+                    for (let i = 1; i <= segments; i++) {
+                        const t = i / segments, u = 1 - t;
+                        lineTo(u * u * fromX + 2 * u * t * command.x1 + t * t * command.x,
+                            u * u * fromY + 2 * u * t * command.y1 + t * t * command.y);
+                    }
+                    break;
+                }
+                case 'C': {
+                    const fromX = lastX, fromY = lastY;
+                    for (let i = 1; i <= segments; i++) {
+                        const t = i / segments, u = 1 - t;
+                        lineTo(u * u * u * fromX + 3 * u * u * t * command.x1 + 3 * u * t * t * command.x2 + t * t * t * command.x,
+                            u * u * u * fromY + 3 * u * u * t * command.y1 + 3 * u * t * t * command.y2 + t * t * t * command.y);
+                    }
+                    break;
+                }
+                case 'Z':
+                    lineTo(startX, startY);
+                    break;
+            }
+        });
+        lineTo(startX, startY);
+        if (edges.length === 0) return;
+
+        const minY = Math.max(this.originY, Math.floor(Math.min(...edges.map(edge => Math.min(edge[1], edge[3])))));
+        const maxY = Math.min(this.originY + this.image.height - 1, Math.ceil(Math.max(...edges.map(edge => Math.max(edge[1], edge[3])))));
+        for (let row = minY; row <= maxY; row++) {
+            const sampleY = row + 0.5;
+            const crossings: { x: number; winding: number }[] = [];
+            edges.forEach(([x0, y0, x1, y1]) => {
+                if ((y0 <= sampleY && sampleY < y1) || (y1 <= sampleY && sampleY < y0)) {
+                    crossings.push({ x: x0 + (sampleY - y0) * (x1 - x0) / (y1 - y0), winding: y1 > y0 ? 1 : -1 });
+                }
+            });
+            crossings.sort((a, b) => a.x - b.x);
+
+            let winding = 0;
+            crossings.forEach((crossing, i) => {
+                winding += crossing.winding;
+                if (winding !== 0 && i + 1 < crossings.length) {
+                    // Pixels whose centre lies between this crossing and the next
+                    const end = Math.min(Math.ceil(crossings[i + 1].x - 0.5), this.originX + this.image.width);
+                    for (let col = Math.max(Math.ceil(crossing.x - 0.5), this.originX); col < end; col++) {
+                        this.set(col, row, index);
+                    }
+                }
+            });
+        }
+    }
+
+    // Whether a box lies entirely on the label, with its corners turned there if the raster
+    // holds a turned element
+    contains(x: number, y: number, width: number, height: number): boolean {
+        if (!this.turn) return x >= 0 && y >= 0 && x + width <= this.image.width && y + height <= this.image.height;
+        const { pivotX, pivotY, degrees, labelWidth, labelHeight } = this.turn;
+        return [[x, y], [x + width, y], [x, y + height], [x + width, y + height]].every(([cornerX, cornerY]) => {
+            const corner = rotatePoint(cornerX, cornerY, pivotX, pivotY, degrees);
+            // Allow for rounding where a right angle puts the corner exactly on the edge
+            return corner.x >= -1e-6 && corner.y >= -1e-6 && corner.x <= labelWidth + 1e-6 && corner.y <= labelHeight + 1e-6;
+        });
+    }
+
+    rotate180() {
+        this.image.pixels.reverse();
+    }
+}
+
+// Takes the place of a raster to find which pixels an element draws, without keeping them
+class ExtentRaster extends Raster {
+    left = Infinity;
+    top = Infinity;
+    right = -Infinity;
+    bottom = -Infinity;
+
+    constructor(width: number, height: number, palette: PaletteColor[], originX: number, originY: number) {
+        super(0, 0, palette, originX, originY);
+        this.image = { ...this.image, width, height };
+    }
+
+    set(x: number, y: number) {
+        const col = x - this.originX;
+        const row = y - this.originY;
+        if (col < 0 || row < 0 || col >= this.image.width || row >= this.image.height) return;
+        this.left = Math.min(this.left, x);
+        this.top = Math.min(this.top, y);
+        this.right = Math.max(this.right, x);
+        this.bottom = Math.max(this.bottom, y);
+    }
+}
+
+// The text, barcode data or QR data of an element, with variables filled in
+const elementContent = (
+    element: EslElement,
+    key: 'text' | 'data',
+    variables: TemplateVariables,
+    placeholder: (name: string) => string,
+    warnings: string[]
+): string => {
+    if (element.var !== undefined && element.var !== null) {
+        const name = String(element.var);
+        if (Object.prototype.hasOwnProperty.call(variables, name)) return String(variables[name]);
+        warnings.push(`Variable "${name}" has no value`);
+        return placeholder(name);
+    }
+    const value = element[key];
+    return value === undefined || value === null ? '' : String(value);
+};
+
+const drawText = (
+    raster: Raster,
+    element: EslElement,
+    doc: EslTemplateDocument,
+    variables: TemplateVariables,
+    warnings: string[]
+) => {
+    const text = elementContent(element, 'text', variables, name => `[${name}]`, warnings);
+    if (text === '') return;
+
+    const fonts = Array.isArray(doc.fonts) ? doc.fonts : [];
+    const spec = parseFontSpec(fonts[toNumber(element.font, 0)]);
+    if (!spec) {
+        warnings.push(`Text "${text}" uses font ${toNumber(element.font, 0)}, which is not in the font list`);
+        return;
+    }
+
+    let font: opentype.Font;
+    try {
+        font = loadFont(resolveFontFile(doc.fontbase, spec.file));
+    } catch (error) {
+        warnings.push(`Font ${spec.file} could not be loaded for text "${text}"`);
+        return;
+    }
+
+    // Variable text in a box is wrapped to it here; literal boxed text arrives already split
+    const textBox = element.type === 'var' ? parseTextBox(element._box) : null;
+    const anchor = typeof element.anchor === 'string' ? element.anchor : 'lt';
+    const layout = textBox
+        ? layoutTextBox(text, textBox.x, textBox.y, textBox.box, spec.size, size => fontMetrics(font, size))
+        : layoutText(text, toNumber(element.x, 0), toNumber(element.y, 0), anchor, fontMetrics(font, spec.size));
+    const metrics = fontMetrics(font, layout.fontSize);
+    const index = fillToPaletteIndex(element.fill, raster.image.palette);
+    let fits = true;
+
+    if (layout.truncated) warnings.push(`Text "${text}" does not fit its box and was cut`);
+    layout.lines.forEach(line => {
+        raster.fillPath(font.getPath(line.text, line.x, line.baseline, layout.fontSize), index);
+        fits = fits && raster.contains(line.x, line.baseline - metrics.ascent, line.width, metrics.ascent + metrics.descent);
+    });
+    if (!fits) warnings.push(`Text "${text}" runs past the edge of the label`);
+};
+
+const drawImage = (raster: Raster, element: EslElement, warnings: string[]) => {
+    const filename = element.filename === undefined ? '' : String(element.filename);
+    if (filename === '') return;
+
+    let source;
+    try {
+        source = decodeImage(fs.readFileSync(resolveStoragePath('images', filename)));
+    } catch (error) {
+        warnings.push(`Image ${filename} could not be loaded: ${error instanceof Error ? error.message : 'unknown error'}`);
+        return;
+    }
+
+    // Scaled to the element's size by nearest neighbour; transparent pixels are left alone
+    const left = Math.round(toNumber(element.x_pos, 0));
+    const top = Math.round(toNumber(element.y_pos, 0));
+    const width = Math.round(toNumber(element.size_x, source.width));
+    const height = Math.round(toNumber(element.size_y, source.height));
+    const palette = raster.image.palette;
+    const bounds = raster.bounds;
+    const lastRow = Math.min(height, bounds.bottom - top);
+    const lastCol = Math.min(width, bounds.right - left);
+    for (let row = Math.max(0, bounds.top - top); row < lastRow; row++) {
+        const sourceRow = Math.min(source.height - 1, Math.floor(row * source.height / height));
+        for (let col = Math.max(0, bounds.left - left); col < lastCol; col++) {
+            const sourceCol = Math.min(source.width - 1, Math.floor(col * source.width / width));
+            const offset = (sourceRow * source.width + sourceCol) * 4;
+            if (source.data[offset + 3] < 128) continue;
+            raster.set(left + col, top + row,
+                nearestPaletteIndex(source.data[offset], source.data[offset + 1], source.data[offset + 2], palette));
+        }
+    }
+};
+
+// Draw modules on a white background covering the whole symbol, like the generator.
+// Returns whether the whole symbol is on the label.
+const drawModules = (raster: Raster, rows: boolean[][], x: number, y: number, moduleWidth: number, moduleHeight: number): boolean => {
+    const width = Math.max(...rows.map(row => row.length)) * moduleWidth;
+    raster.fillRect(x, y, width, rows.length * moduleHeight, WHITE);
+    rows.forEach((modules, rowIndex) => modules.forEach((dark, col) => {
+        if (dark) raster.fillRect(x + col * moduleWidth, y + rowIndex * moduleHeight, moduleWidth, moduleHeight, 0);
+    }));
+    return raster.contains(x, y, width, rows.length * moduleHeight);
+};
+
+const drawElement = (
+    raster: Raster,
+    element: EslElement,
+    doc: EslTemplateDocument,
+    variables: TemplateVariables,
+    warnings: string[]
+) => {
+    const rotation = normalizeRotation(toNumber(element.rotate, 0));
+    if (rotation !== 0 && rotatableElements.includes(element.type)) {
+        const isImage = element.type === 'img' || element.type === 'image';
+        drawTurned(raster, toNumber(isImage ? element.x_pos : element.x, 0), toNumber(isImage ? element.y_pos : element.y, 0), rotation,
+            (turned, drawWarnings) => drawElement(turned, { ...element, rotate: 0 }, doc, variables, drawWarnings), warnings);
+        return;
+    }
+
+    const palette = raster.image.palette;
+    switch (element.type) {
+        case 'text':
+        case 'var':
+            drawText(raster, element, doc, variables, warnings);
+            break;
+        case 'rect': {
+            const x1 = toNumber(element.x1, 0);
+            const y1 = toNumber(element.y1, 0);
+            const x2 = toNumber(element.x2, x1);
+            const y2 = toNumber(element.y2, y1);
+            raster.fillRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1), fillToPaletteIndex(element.fill, palette));
+            break;
+        }
+        case 'line':
+            raster.line(toNumber(element.x1, 0), toNumber(element.y1, 0), toNumber(element.x2, 0), toNumber(element.y2, 0),
+                fillToPaletteIndex(element.fill, palette));
+            break;
+        case 'circle':
+            raster.fillCircle(toNumber(element.x, 0), toNumber(element.y, 0), toNumber(element.r, 15), fillToPaletteIndex(element.fill, palette));
+            break;
+        case 'img':
+        case 'image':
+            drawImage(raster, element, warnings);
+            break;
+        case 'code128':
+        case 'barcode': {
+            const data = elementContent(element, 'data', variables, () => CODE128_PLACEHOLDER, warnings);
+            try {
+                // `barcode` elements scale their height; the editor draws them 30 pixels tall
+                const height = element.type === 'code128' ? toNumber(element.height, 30) : 30;
+                if (!drawModules(raster, [encodeCode128(data)], toNumber(element.x, 0), toNumber(element.y, 0), 1, height)) {
+                    warnings.push(`Barcode "${data}" runs past the edge of the label`);
+                }
+            } catch (error) {
+                warnings.push(`Barcode "${data}" could not be encoded: ${(error as Error).message}`);
+            }
+            break;
+        }
+        case 'qrcode': {
+            const data = elementContent(element, 'data', variables, () => QR_PLACEHOLDER, warnings);
+            const ecc = ['L', 'M', 'Q', 'H'].includes(element.ecc as string) ? element.ecc as QrErrorCorrection : DEFAULT_QR_ECC;
+            const scale = Math.max(1, Math.round(toNumber(element.scale, 1)));
+            try {
+                if (!drawModules(raster, encodeQrCode(data, ecc), toNumber(element.x, 0), toNumber(element.y, 0), scale, scale)) {
+                    warnings.push(`QR code "${data}" runs past the edge of the label`);
+                }
+            } catch (error) {
+                warnings.push(`QR code "${data}" could not be encoded: ${(error as Error).message}`);
+            }
+            break;
+        }
+        default:
+            warnings.push(`Element type "${element.type}" is not rendered`);
+    }
+};
+
+// Prices bound to a variable are drawn from its `_int` and `_dec` parts. Records that only
+// give the whole price have it split here, as the designer's data does not come split.
+const withPriceParts = (elements: EslElement[], variables: TemplateVariables): TemplateVariables => {
+    const filled = { ...variables };
+    elements.forEach(element => {
+        const price = element && element._price as Record<string, unknown> | undefined;
+        const name = price && typeof price.data === 'string' ? getVariableName(price.data) : undefined;
+        if (name === undefined || !Object.prototype.hasOwnProperty.call(variables, name)) return;
+        const parts = splitPrice(String(variables[name]));
+        const names = priceVariables(name);
+        if (!Object.prototype.hasOwnProperty.call(filled, names.integer)) filled[names.integer] = parts.integer;
+        if (!Object.prototype.hasOwnProperty.call(filled, names.decimals)) filled[names.decimals] = parts.decimals;
+    });
+    return filled;
+};
+
+// Draw an element turned clockwise about (pivotX, pivotY). It is drawn upright on a raster
+// covering just the pixels it draws, and each label pixel it turns onto then takes the colour
+// of the pixel turned there. A first pass finds those pixels without keeping them.
+const drawTurned = (
+    raster: Raster,
+    pivotX: number,
+    pivotY: number,
+    degrees: number,
+    draw: (turned: Raster, warnings: string[]) => void,
+    warnings: string[]
+) => {
+    const { width, height, palette } = raster.image;
+    const turn: Turn = { pivotX, pivotY, degrees, labelWidth: width, labelHeight: height };
+    // Only drawing this close to the pivot can land on the label
+    const reach = Math.ceil(Math.max(
+        Math.hypot(pivotX, pivotY),
+        Math.hypot(width - pivotX, pivotY),
+        Math.hypot(pivotX, height - pivotY),
+        Math.hypot(width - pivotX, height - pivotY)
+    )) + 1;
+    const extent = new ExtentRaster(2 * reach, 2 * reach, palette, Math.floor(pivotX) - reach, Math.floor(pivotY) - reach);
+    extent.turn = turn;
+    draw(extent, []);
+    if (extent.right < extent.left) return;
+
+    const drawnWidth = extent.right - extent.left + 1;
+    const drawnHeight = extent.bottom - extent.top + 1;
+    const turned = new Raster(drawnWidth, drawnHeight, palette, extent.left, extent.top, TRANSPARENT);
+    turned.turn = turn;
+    draw(turned, warnings);
+
+    const bounds = rotateBounds({ x: extent.left, y: extent.top, width: drawnWidth, height: drawnHeight }, pivotX, pivotY, degrees);
+    for (let row = Math.max(0, Math.floor(bounds.y)); row < Math.min(height, Math.ceil(bounds.y + bounds.height)); row++) {
+        for (let col = Math.max(0, Math.floor(bounds.x)); col < Math.min(width, Math.ceil(bounds.x + bounds.width)); col++) {
+            const source = rotatePoint(col + 0.5, row + 0.5, pivotX, pivotY, -degrees);
+            const index = turned.get(Math.floor(source.x), Math.floor(source.y));
+            if (index !== TRANSPARENT) raster.set(col, row, index);
+        }
+    }
+};
+
+// Render a template document. Elements are drawn in `el` order; axis 1 turns the image upside down.
+export const renderTemplateDocument = (doc: EslTemplateDocument, variables: TemplateVariables = {}): RenderResult => {
+    const width = toNumber(doc.x_res, 0);
+    const height = toNumber(doc.y_res, 0);
+    if (!(width > 0 && height > 0 && width <= 4096 && height <= 4096)) {
+        throw new Error('x_res and y_res must be between 1 and 4096');
+    }
+
+    const eslType: EslType = isEslType(doc.type) ? doc.type : 'bwry';
+    const raster = new Raster(Math.round(width), Math.round(height), getPalette(eslType));
+    const warnings: string[] = [];
+
+    const elements = Array.isArray(doc.el) ? doc.el : [];
+    const filled = withPriceParts(elements, variables);
+    elements.forEach(element => {
+        if (element && typeof element === 'object' && typeof element.type === 'string') {
+            drawElement(raster, element, doc, filled, warnings);
+        }
+    });
+
+    if (doc.axis === 1) raster.rotate180();
+    return { image: raster.image, warnings: warnings.filter((warning, index) => warnings.indexOf(warning) === index) };
+};
+
+export const renderTemplate = (yamlContent: string, variables: TemplateVariables = {}): RenderResult =>
+    renderTemplateDocument(parseTemplateYaml(yamlContent), variables);
@@ -0,0 +1,253 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import YAML from 'yaml';
+import loadTemplate from '../pages/api/load-template';
+import saveTemplate from '../pages/api/save-template';
+import { CanvasGroup, CanvasGuide, CanvasItem, TemplateExtras } from '../types';
+import { ParsedTemplate, parseTemplate } from './templateParser';
+import { validateTemplateYaml } from './templateValidator';
+import { TemplateConfig, serializeTemplate } from './yamlGenerator';
+
+const config: TemplateConfig = { width: 296, height: 152, eslType: 'bwry', axis: 0, model: 'test-296' };
+
+const groups: CanvasGroup[] = [
+    { id: 1, name: 'Header' },
+    { id: 2, name: 'Codes', parentId: 1 }
+];
+
+const guides: CanvasGuide[] = [
+    { id: 1, orientation: 'horizontal', position: 40 },
+    { id: 2, orientation: 'vertical', position: 148 }
+];
+
+// Keys and elements the editor does not model, which a save has to write back
+const extras: TemplateExtras = {
+    rootKeys: { fontbase: '/srv/fonts' },
+    elements: [{ type: 'ellipse', x: 10, y: 10, rx: 4, ry: 2 }]
+};
+
+// One item of every type, covering rotation, groups, bounded text, prices and barcode fonts
+const items: CanvasItem[] = [
+    { id: 1, type: 'rect', x: 0, y: 0, width: 296, height: 30, color: '#ff0000', zIndex: 0, groupId: 1 },
+    { id: 2, type: 'circle', x: 270, y: 15, radius: 10, color: '#ffffff', zIndex: 1 },
+    { id: 3, type: 'line', x: 0, y: 32, x2: 296, y2: 32, strokeWidth: 1, thickness: 1, color: '#000000', zIndex: 2 },
+    {
+        id: 4, type: 'text', x: 148, y: 4, text: 'Fresh today', fontSize: 20, fontFile: 'DejaVuSans.ttf', anchor: 'mt',
+        bold: true, italic: false, underline: false, color: '#ffffff', zIndex: 3, groupId: 1
+    },
+    {
+        id: 5, type: 'text', x: 280, y: 40, text: '[name]', fontSize: 14, fontFile: 'DejaVuSans.ttf', anchor: 'lt',
+        rotation: 90, bold: false, italic: false, underline: false, color: '#000000', zIndex: 4
+    },
+    {
+        id: 6, type: 'text', x: 10, y: 40, text: 'Organic apples from the valley, picked by hand', fontSize: 16,
+        fontFile: 'DejaVuSans.ttf', anchor: 'rt', bold: false, italic: false, underline: false, color: '#000000', zIndex: 5,
+        box: { width: 120, height: 40, maxLines: 2, minFontSize: 10, align: 'right', verticalAlign: 'middle' }
+    },
+    {
+        id: 7, type: 'barcode', x: 10, y: 100, width: 120, height: 30, data: '[ean]', captionFont: 'DejaVuSans.ttf:12',
+        color: '#000000', zIndex: 6, groupId: 2, rotation: 180
+    },
+    { id: 8, type: 'barcode', x: 140, y: 100, width: 120, height: 20, data: '[sku]', color: '#000000', zIndex: 7 },
+    { id: 9, type: 'qrcode', x: 240, y: 90, size: 50, data: '[url]', scale: 2, ecc: 'H', rotation: 45, color: '#000000', zIndex: 8, groupId: 2 },
+    { id: 10, type: 'image', x: 200, y: 40, width: 40, height: 30, filename: 'logo.bmp', rotation: 270, color: '#000000', zIndex: 9 },
+    {
+        id: 11, type: 'price', x: 140, y: 40, data: '[price]', fontSize: 32, fontFile: 'DejaVuSans.ttf', separator: ',',
+        currency: '€', currencyPosition: 'after', raisedDecimals: true, integerDigits: 2, originalPrice: '[old_price]',
+        color: '#ff0000', zIndex: 10
+    }
+];
+
+const parsedConfig = (parsed: ParsedTemplate): TemplateConfig => ({
+    width: parsed.width as number,
+    height: parsed.height as number,
+    eslType: parsed.eslType as TemplateConfig['eslType'],
+    axis: parsed.axis as TemplateConfig['axis'],
+    model: parsed.model
+});
+
+const reserialize = (parsed: ParsedTemplate): string =>
+    serializeTemplate(parsed.items, parsedConfig(parsed), parsed.extras, parsed.groups, parsed.guides);
+
+// Fields the parser sets from the symbol rather than from the template
+const withoutSymbolSize = (item: CanvasItem): Partial<CanvasItem> => {
+    if (item.type === 'barcode') {
+        const { width, ...rest } = item;
+        return rest;
+    }
+    if (item.type === 'qrcode') {
+        const { size, ...rest } = item;
+        return rest;
+    }
+    return item;
+};
+
+describe('template round trip', () => {
+    const yaml = serializeTemplate(items, config, extras, groups, guides);
+    const parsed = parseTemplate(yaml);
+
+    it('writes a template the generator accepts', () => {
+        expect(validateTemplateYaml(yaml).isValid).toBe(true);
+    });
+
+    it('reads back every item as it was drawn', () => {
+        expect(parsed.items).toHaveLength(items.length);
+        items.forEach((item, index) => {
+            expect(parsed.items[index]).toMatchObject(withoutSymbolSize(item));
+        });
+    });
+
+    it('reads back the canvas settings, groups, guides and unmodelled keys', () => {
+        expect(parsedConfig(parsed)).toEqual(config);
+        expect(parsed.groups).toEqual(groups);
+        expect(parsed.guides).toEqual(guides);
+        expect(parsed.extras.rootKeys).toEqual(extras.rootKeys);
+        expect(parsed.extras.elements).toEqual(extras.elements);
+    });
+
+    it('keeps the caption font of code128 barcodes that have one', () => {
+        const barcodes = parsed.items.filter(item => item.type === 'barcode');
+        expect(barcodes.map(item => item.type === 'barcode' && item.captionFont)).toEqual([
+            'DejaVuSans.ttf:12',
+            undefined
+        ]);
+    });
+
+    it('writes the parsed template back byte for byte', () => {
+        const again = reserialize(parsed);
+        expect(again).toBe(yaml);
+        expect(parseTemplate(again)).toEqual(parsed);
+    });
+
+    it('writes the same bytes every time the canvas is serialized', () => {
+        // Save and Export both serialize the editor state this way
+        expect(serializeTemplate(items, config, extras, groups, guides)).toBe(yaml);
+    });
+});
+
+describe('template written by hand', () => {
+    const handWritten = [
+        'type: bw',
+        'x_res: 200',
+        'y_res: 96',
+        'axis: 0',
+        'fonts:',
+        '  - DejaVuSans.ttf:18',
+        '  - FreeMonoRegular.ttf:12',
+        '  - DejaVuSans.ttf:10',
+        'el:',
+        '  - { type: text, font: 0, fill: 0, anchor: lt, x: 4, y: 4, text: Milk }',
+        '  - { type: ellipse, fill: 0, x: 60, y: 10, rx: 8, ry: 4 }',
+        '  - { type: code128, var: ean, x: 4, y: 40, height: 30, font: 1, write_text: true }',
+        '  - { type: code128, data: "12345678", x: 100, y: 40, height: 20 }',
+        '  - { type: qrcode, data: "https://example.com", x: 150, y: 4, scale: 2 }',
+        ''
+    ].join('\n');
+    const first = parseTemplate(handWritten);
+    const saved = reserialize(first);
+    const second = parseTemplate(saved);
+
+    it('is written back without changes to its elements', () => {
+        expect(YAML.parse(saved).el).toEqual(YAML.parse(handWritten).el);
+        expect(reserialize(second)).toBe(saved);
+    });
+
+    it('keeps its font list in order', () => {
+        expect(YAML.parse(saved).fonts).toEqual(['DejaVuSans.ttf:18', 'FreeMonoRegular.ttf:12', 'DejaVuSans.ttf:10']);
+    });
+
+    it('adds new fonts after the loaded ones', () => {
+        const added = serializeTemplate(
+            [...first.items, { id: 9, type: 'text', x: 4, y: 80, text: 'New', fontSize: 24, fontFile: 'DejaVuSans.ttf', color: '#000000', zIndex: 9 }],
+            parsedConfig(first),
+            first.extras
+        );
+        const doc = YAML.parse(added);
+        expect(doc.fonts).toEqual(['DejaVuSans.ttf:18', 'FreeMonoRegular.ttf:12', 'DejaVuSans.ttf:10', 'DejaVuSans.ttf:24']);
+        expect(doc.el[0].font).toBe(0);
+        expect(doc.el[5].font).toBe(3);
+    });
+
+    it('keeps elements the editor does not model between the same layers', () => {
+        const reordered = first.items.map(item => ({ ...item, zIndex: item.type === 'text' ? 10 : item.zIndex }));
+        const doc = YAML.parse(serializeTemplate(reordered, parsedConfig(first), first.extras));
+        expect(doc.el.map((element: { type: string }) => element.type)).toEqual(['code128', 'ellipse', 'code128', 'qrcode', 'text']);
+    });
+
+    it('lets the panel type chosen in the editor replace the one it could not read', () => {
+        const stale = parseTemplate(handWritten.replace('type: bw', 'type: bwrx'));
+        expect(stale.extras.rootKeys.type).toBe('bwrx');
+        expect(YAML.parse(serializeTemplate(stale.items, { ...parsedConfig(first), eslType: 'bwr' }, stale.extras)).type).toBe('bwr');
+    });
+
+    it('keeps literal barcode and QR code content', () => {
+        [first, second].forEach(parsed => {
+            expect(parsed.items[1]).toMatchObject({ type: 'barcode', data: '[ean]', height: 30, captionFont: 'FreeMonoRegular.ttf:12' });
+            expect(parsed.items[2]).toMatchObject({ type: 'barcode', data: '12345678', height: 20 });
+            expect(parsed.items[2]).not.toHaveProperty('captionFont');
+            expect(parsed.items[3]).toMatchObject({ type: 'qrcode', data: 'https://example.com', scale: 2 });
+        });
+        expect(validateTemplateYaml(saved).isValid).toBe(true);
+    });
+});
+
+describe('template round trip through the server', () => {
+    let root: string;
+
+    // Minimal stand-in for the Next.js response, recording the status and JSON body
+    const call = (handler: (req: NextApiRequest, res: NextApiResponse) => void, body: Record<string, unknown>) => {
+        const result: { status: number; body: Record<string, unknown> } = { status: 200, body: {} };
+        const res = {
+            status(code: number) {
+                result.status = code;
+                return res;
+            },
+            json(data: Record<string, unknown>) {
+                result.body = data;
+                return res;
+            }
+        };
+        handler({ method: 'POST', body } as NextApiRequest, res as unknown as NextApiResponse);
+        return result;
+    };
+
+    beforeAll(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'esl-templates-'));
+        fs.mkdirSync(path.join(root, 'shelf'));
+        process.env.ESL_TEMPLATES_ROOT = root;
+        process.env.ESL_DESIGNER_CONFIG = path.join(root, 'missing-config.json');
+    });
+
+    afterAll(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('stores and loads the serialized template unchanged', () => {
+        const yaml = serializeTemplate(items, config, extras, groups, guides);
+
+        const saved = call(saveTemplate, { folderPath: 'shelf', filename: 'apples.yaml', content: yaml });
+        expect(saved.status).toBe(200);
+        expect(fs.readFileSync(path.join(root, 'shelf', 'apples.yaml'), 'utf8')).toBe(yaml);
+
+        const loaded = call(loadTemplate, { folderPath: 'shelf', fileName: 'apples.yaml' });
+        expect(loaded.status).toBe(200);
+        expect(loaded.body.content).toBe(yaml);
+        expect(reserialize(parseTemplate(loaded.body.content as string))).toBe(yaml);
+    });
+
+    it('stores templates in the template root itself', () => {
+        const yaml = serializeTemplate(items, config);
+        expect(call(saveTemplate, { folderPath: '', filename: 'root.yaml', content: yaml }).status).toBe(200);
+        expect(fs.readFileSync(path.join(root, 'root.yaml'), 'utf8')).toBe(yaml);
+        expect(call(loadTemplate, { folderPath: '', fileName: 'root.yaml' }).body.content).toBe(yaml);
+    });
+
+    it('refuses hidden paths', () => {
+        const yaml = serializeTemplate(items, config);
+        expect(call(saveTemplate, { folderPath: 'shelf/.history', filename: 'apples.yaml', content: yaml }).status).toBe(400);
+        expect(call(loadTemplate, { folderPath: 'shelf', fileName: '.apples.yaml' }).status).toBe(400);
+    });
+});
@@ -0,0 +1,161 @@
+// JSON Schema for ESL template YAML, as consumed by the tag image generator.
+// Keys that are not listed here are allowed so templates written by other tools
+// keep validating; element types the editor does not know are not checked.
+
+const coordinate = { type: 'number' };
+
+// 0=black, 1=white, 2=yellow, 3=red
+const fill = { enum: [0, 1, 2, 3] };
+
+// Two-letter text anchors: horizontal (l/m/r) then vertical (a/t/m/s/b/d)
+const anchor = { type: 'string', pattern: '^[lmr][atmsbd]$' };
+
+const fontIndex = { type: 'integer', minimum: 0 };
+
+// Fixed content of a barcode or QR code that is not bound to a variable with `var`
+const symbolData = { type: ['string', 'number'] };
+
+// Applies an element schema only to `el` entries with the given type
+const elementOfType = (type: string, schema: Record<string, unknown>) => ({
+    if: { properties: { type: { const: type } }, required: ['type'] },
+    then: schema
+});
+
+const textProperties = {
+    font: fontIndex,
+    fill,
+    anchor,
+    x: coordinate,
+    y: coordinate
+};
+
+const boxProperties = {
+    fill,
+    x1: coordinate,
+    y1: coordinate,
+    x2: coordinate,
+    y2: coordinate
+};
+
+export const eslTemplateSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'ESL template',
+    type: 'object',
+    required: ['fonts', 'type', 'x_res', 'y_res', 'el'],
+    properties: {
+        fontbase: { type: 'string' },
+        fonts: {
+            type: 'array',
+            items: { type: 'string', pattern: '^[^:]+:[1-9][0-9]*$' }
+        },
+        type: { enum: ['bw', 'bwr', 'bwy', 'bwry'] },
+        x_res: { type: 'integer', minimum: 1 },
+        y_res: { type: 'integer', minimum: 1 },
+        axis: { enum: [0, 1] },
+        // Editor-only id of the display model the template was designed for
+        _model: { type: 'string' },
+        // Editor-only group metadata, ignored by the generator
+        _groups: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'integer' },
+                    name: { type: 'string' },
+                    parent: { type: 'integer' }
+                }
+            }
+        },
+        // Editor-only ruler guides, ignored by the generator
+        _guides: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['orientation', 'position'],
+                properties: {
+                    orientation: { enum: ['horizontal', 'vertical'] },
+                    position: { type: 'number' }
+                }
+            }
+        },
+        el: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['type'],
+                properties: {
+                    type: { type: 'string' },
+                    // Degrees clockwise about the element's x/y (x_pos/y_pos for images)
+                    rotate: { type: 'number' },
+                    _group: { type: 'integer' }
+                },
+                allOf: [
+                    elementOfType('text', {
+                        required: ['text', 'font', 'x', 'y'],
+                        properties: { ...textProperties, text: { type: ['string', 'number'] } }
+                    }),
+                    elementOfType('var', {
+                        required: ['var', 'font', 'x', 'y'],
+                        properties: { ...textProperties, var: { type: 'string', minLength: 1 } }
+                    }),
+                    elementOfType('rect', {
+                        required: ['x1', 'y1', 'x2', 'y2'],
+                        properties: boxProperties
+                    }),
+                    elementOfType('line', {
+                        required: ['x1', 'y1', 'x2', 'y2'],
+                        properties: boxProperties
+                    }),
+                    elementOfType('circle', {
+                        required: ['x', 'y', 'r'],
+                        properties: {
+                            fill,
+                            x: coordinate,
+                            y: coordinate,
+                            r: { type: 'number', minimum: 0 }
+                        }
+                    }),
+                    elementOfType('img', {
+                        required: ['filename', 'x_pos', 'y_pos'],
+                        properties: {
+                            filename: { type: 'string', minLength: 1 },
+                            size_x: { type: 'number', exclusiveMinimum: 0 },
+                            size_y: { type: 'number', exclusiveMinimum: 0 },
+                            x_pos: coordinate,
+                            y_pos: coordinate
+                        }
+                    }),
+                    elementOfType('code128', {
+                        required: ['x', 'y'],
+                        anyOf: [{ required: ['var'] }, { required: ['data'] }],
+                        properties: {
+                            var: { type: 'string', minLength: 1 },
+                            data: symbolData,
+                            x: coordinate,
+                            y: coordinate,
+                            height: { type: 'number', exclusiveMinimum: 0 },
+                            font: fontIndex,
+                            font_size: { type: 'number', minimum: 0 },
+                            quiet_zone: { type: 'number', minimum: 0 },
+                            write_text: { type: 'boolean' },
+                            text_distance: { type: 'number' }
+                        }
+                    }),
+                    elementOfType('qrcode', {
+                        required: ['x', 'y'],
+                        anyOf: [{ required: ['var'] }, { required: ['data'] }],
+                        properties: {
+                            var: { type: 'string', minLength: 1 },
+                            data: symbolData,
+                            x: coordinate,
+                            y: coordinate,
+                            scale: { type: 'number', exclusiveMinimum: 0 },
+                            ecc: { enum: ['L', 'M', 'Q', 'H'] }
+                        }
+                    })
+                ]
+            }
+        }
+    }
+};
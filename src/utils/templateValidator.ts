@@ -1,17 +1,103 @@
-export function validateTemplate(template: any): boolean {
-    const requiredFields = ['title', 'price', 'description'];
+import Ajv, { ErrorObject } from 'ajv';
+import YAML from 'yaml';
+import { TemplateValidationError, ValidationResult } from '../types';
+import { ESL_COLORS, getPalette, isEslType } from './palette';
+import { eslTemplateSchema } from './templateSchema';
 
-    for (const field of requiredFields) {
-        if (!template[field]) {
-            console.error(`Validation error: Missing required field '${field}'`);
-            return false;
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validateSchema = ajv.compile(eslTemplateSchema);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Turn an Ajv error into { elementIndex, field, message }
+const toValidationError = (error: ErrorObject): TemplateValidationError => {
+    const path = error.instancePath.split('/').slice(1);
+    let elementIndex: number | undefined;
+    if (path[0] === 'el' && path.length > 1) {
+        elementIndex = Number(path[1]);
+        path.splice(0, 2);
+    }
+    if (error.keyword === 'required') {
+        path.push(error.params.missingProperty);
+    }
+
+    let message = error.message || 'is invalid';
+    if (error.keyword === 'required') {
+        message = 'is required';
+    } else if (error.keyword === 'enum') {
+        message = `must be one of ${(error.params.allowedValues as unknown[]).join(', ')}`;
+    }
+
+    return { elementIndex, field: path.join('.'), message };
+};
+
+// Font indices refer to the `fonts` list, which the schema cannot check on its own
+const checkFontIndices = (doc: Record<string, unknown>): TemplateValidationError[] => {
+    if (!Array.isArray(doc.fonts) || !Array.isArray(doc.el)) return [];
+
+    const fontCount = doc.fonts.length;
+    const errors: TemplateValidationError[] = [];
+    doc.el.forEach((element: unknown, elementIndex: number) => {
+        if (isPlainObject(element) && Number.isInteger(element.font) && (element.font as number) >= fontCount) {
+            errors.push({ elementIndex, field: 'font', message: `refers to font ${element.font} but only ${fontCount} font(s) are defined` });
+        }
+    });
+    return errors;
+};
+
+// Fills must be colours the template's panel type can show: a bw panel has no red or yellow
+const checkPaletteFills = (doc: Record<string, unknown>): TemplateValidationError[] => {
+    if (!isEslType(doc.type) || !Array.isArray(doc.el)) return [];
+
+    const eslType = doc.type;
+    const palette = getPalette(eslType);
+    const errors: TemplateValidationError[] = [];
+    doc.el.forEach((element: unknown, elementIndex: number) => {
+        if (!isPlainObject(element) || palette.some(color => color.fill === element.fill)) return;
+        const color = ESL_COLORS.find(candidate => candidate.fill === element.fill);
+        if (color) {
+            errors.push({ elementIndex, field: 'fill', message: `is ${color.name} (${color.fill}), which a ${eslType} panel cannot show` });
         }
+    });
+    return errors;
+};
+
+// Validate a parsed template document against the ESL template schema
+export const validateTemplateDocument = (doc: unknown): ValidationResult => {
+    if (!isPlainObject(doc)) {
+        return { isValid: false, errors: [{ field: '', message: 'Template must be a YAML mapping' }] };
     }
 
-    if (typeof template.price !== 'number' || template.price < 0) {
-        console.error('Validation error: Price must be a non-negative number');
-        return false;
+    const errors = validateSchema(doc)
+        ? []
+        : (validateSchema.errors || [])
+            // `if` errors only repeat the element errors reported by its `then` branch
+            .filter(error => error.keyword !== 'if')
+            .map(toValidationError);
+    errors.push(...checkFontIndices(doc), ...checkPaletteFills(doc));
+
+    return { isValid: errors.length === 0, errors };
+};
+
+// Parse and validate template YAML. Syntax errors are reported as a single root-level error.
+export const validateTemplateYaml = (yamlString: string): ValidationResult => {
+    let doc: unknown;
+    try {
+        doc = YAML.parse(yamlString);
+    } catch (error) {
+        return {
+            isValid: false,
+            errors: [{ field: '', message: `Invalid YAML: ${error instanceof Error ? error.message : 'Unknown error'}` }]
+        };
     }
+    return validateTemplateDocument(doc);
+};
 
-    return true;
-}
\ No newline at end of file
+// One-line description of an error, e.g. "el[3].x: must be number"
+export const formatValidationError = (error: TemplateValidationError): string => {
+    const location = error.elementIndex !== undefined
+        ? `el[${error.elementIndex}]${error.field ? `.${error.field}` : ''}`
+        : error.field;
+    return location ? `${location}: ${error.message}` : error.message;
+};
@@ -0,0 +1,97 @@
+// Line-by-line comparison of two texts, laid out for a side-by-side view
+
+export interface DiffLine {
+    number: number; // 1-based line number in its text
+    text: string;
+}
+
+// One row of a side-by-side diff. Removed rows only have a left line, added rows only a right one.
+export interface DiffRow {
+    kind: 'same' | 'changed' | 'removed' | 'added';
+    left?: DiffLine;
+    right?: DiffLine;
+}
+
+const splitLines = (text: string): string[] => {
+    if (text === '') return [];
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    // A trailing newline does not start another line
+    if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+    return lines;
+};
+
+// One step of a sequence comparison, by index into the left and right sequences
+export interface SequenceDiffRow {
+    kind: 'same' | 'changed' | 'removed' | 'added';
+    leftIndex?: number;
+    rightIndex?: number;
+}
+
+// Longest common subsequence table: cell [i][j] is the LCS length of left[i..] and right[j..]
+const lcsTable = <T>(left: T[], right: T[], equal: (a: T, b: T) => boolean): number[][] => {
+    const table: number[][] = [];
+    for (let i = left.length; i >= 0; i--) {
+        table[i] = [];
+        for (let j = right.length; j >= 0; j--) {
+            if (i === left.length || j === right.length) table[i][j] = 0;
+            else if (equal(left[i], right[j])) table[i][j] = table[i + 1][j + 1] + 1;
+            else table[i][j] = Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+    return table;
+};
+
+// Compare two sequences. Runs of removed entries followed by added ones are paired up as
+// changed rows, so an edited entry sits next to its old version.
+export const diffSequences = <T>(
+    left: T[],
+    right: T[],
+    equal: (a: T, b: T) => boolean = (a, b) => a === b
+): SequenceDiffRow[] => {
+    const table = lcsTable(left, right, equal);
+
+    const rows: SequenceDiffRow[] = [];
+    let removed: number[] = [];
+    let added: number[] = [];
+    const flush = () => {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            const kind = k < removed.length && k < added.length ? 'changed' : k < removed.length ? 'removed' : 'added';
+            rows.push({ kind, leftIndex: removed[k], rightIndex: added[k] });
+        }
+        removed = [];
+        added = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < left.length || j < right.length) {
+        if (i < left.length && j < right.length && equal(left[i], right[j])) {
+            flush();
+            rows.push({ kind: 'same', leftIndex: i, rightIndex: j });
+            i++;
+            j++;
+        } else if (j === right.length || (i < left.length && table[i + 1][j] >= table[i][j + 1])) {
+            removed.push(i);
+            i++;
+        } else {
+            added.push(j);
+            j++;
+        }
+    }
+    flush();
+    return rows;
+};
+
+// Rows for `before` on the left and `after` on the right
+export const diffLines = (before: string, after: string): DiffRow[] => {
+    const left = splitLines(before);
+    const right = splitLines(after);
+    const line = (lines: string[], index?: number): DiffLine | undefined =>
+        index === undefined ? undefined : { number: index + 1, text: lines[index] };
+
+    return diffSequences(left, right).map(row => ({
+        kind: row.kind,
+        left: line(left, row.leftIndex),
+        right: line(right, row.rightIndex)
+    }));
+};
@@ -0,0 +1,186 @@
+import type { Font } from 'opentype.js';
+import { TextAnchor, TextBox } from '../types';
+
+// Where the lines of a text element go, as the tag image generator lays them out. The
+// renderer and the editor canvas share this, so selection boxes and anchoring on the canvas
+// match the rendered label.
+
+// Extra space between lines of multi-line text, as in the generator's multiline text
+export const LINE_SPACING = 4;
+
+// Vertical metrics and line widths of one font at one size, in pixels
+export interface TextMetrics {
+    fontSize: number;
+    ascent: number; // Above the baseline
+    descent: number; // Below the baseline, positive
+    advance: (line: string) => number;
+}
+
+export interface TextLine {
+    text: string;
+    x: number; // Left edge
+    baseline: number;
+    width: number;
+}
+
+// Lines and the box around them, which spans every line's ascent and descent. For bounded
+// text the box is the item's own, and the font size may be smaller than the item's.
+export interface TextLayout {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fontSize: number;
+    lines: TextLine[];
+    truncated?: boolean; // Bounded text that did not fit and was cut
+}
+
+// Metrics from a TTF/OTF file, with glyph advances and kerning as the generator draws them
+export const fontMetrics = (font: Font, fontSize: number): TextMetrics => {
+    const scale = fontSize / font.unitsPerEm;
+    return {
+        fontSize,
+        ascent: font.ascender * scale,
+        descent: -font.descender * scale,
+        advance: line => font.getAdvanceWidth(line, fontSize)
+    };
+};
+
+// Stand-in metrics while a font file is loading or when it cannot be loaded, from typical
+// character widths of the kind of typeface the file name suggests
+export const estimatedMetrics = (fontSize: number, fontFile: string): TextMetrics => {
+    let widthRatio = 0.55;
+    if (/mono|courier|consol/i.test(fontFile)) {
+        widthRatio = 0.6;
+    } else if (/impact|condensed|narrow/i.test(fontFile)) {
+        widthRatio = 0.45;
+    } else if (/serif|times|georgia|palatino/i.test(fontFile) && !/sans/i.test(fontFile)) {
+        widthRatio = 0.5;
+    }
+    return {
+        fontSize,
+        ascent: fontSize * 0.8,
+        descent: fontSize * 0.2,
+        advance: line => line.length * fontSize * widthRatio
+    };
+};
+
+// Lay out text anchored at (x, y). Each line is aligned on its own for m and r anchors.
+// Top-anchored text hangs from its ascender; baseline-anchored text sits on y with its last line.
+export const layoutText = (text: string, x: number, y: number, anchor: TextAnchor | string, metrics: TextMetrics): TextLayout => {
+    const lineHeight = metrics.ascent + metrics.descent + LINE_SPACING;
+    const texts = text.split('\n');
+    const firstBaseline = anchor.endsWith('s') ? y - (texts.length - 1) * lineHeight : y + metrics.ascent;
+
+    const lines = texts.map((line, index) => {
+        const width = metrics.advance(line);
+        const left = anchor.startsWith('m') ? x - width / 2 : anchor.startsWith('r') ? x - width : x;
+        return { text: line, x: left, baseline: firstBaseline + index * lineHeight, width };
+    });
+
+    const left = Math.min(...lines.map(line => line.x));
+    const right = Math.max(...lines.map(line => line.x + line.width));
+    const top = firstBaseline - metrics.ascent;
+    return {
+        x: left,
+        y: top,
+        width: right - left,
+        height: lines[lines.length - 1].baseline + metrics.descent - top,
+        fontSize: metrics.fontSize,
+        lines
+    };
+};
+
+const ELLIPSIS = '…';
+
+// Break text into lines no wider than `width`, at spaces where possible. Words wider than
+// the box are broken between characters; newlines always start a new line.
+export const wrapText = (text: string, width: number, metrics: TextMetrics): string[] => {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(' ').filter(word => word !== '').forEach(word => {
+            const candidate = line === '' ? word : `${line} ${word}`;
+            if (metrics.advance(candidate) <= width) {
+                line = candidate;
+                return;
+            }
+            if (line !== '') lines.push(line);
+            let rest = word;
+            while (rest.length > 1 && metrics.advance(rest) > width) {
+                let cut = rest.length - 1;
+                while (cut > 1 && metrics.advance(rest.slice(0, cut)) > width) cut--;
+                lines.push(rest.slice(0, cut));
+                rest = rest.slice(cut);
+            }
+            line = rest;
+        });
+        lines.push(line);
+    });
+    return lines;
+};
+
+// Most lines the box holds: its height, and its line limit when it has one. At least one
+// line is always drawn, even in a box too low for it.
+const boxLineLimit = (box: TextBox, metrics: TextMetrics): number => {
+    const lineHeight = metrics.ascent + metrics.descent + LINE_SPACING;
+    const byHeight = Math.max(1, Math.floor((box.height + LINE_SPACING) / lineHeight));
+    return box.maxLines && box.maxLines > 0 ? Math.min(byHeight, box.maxLines) : byHeight;
+};
+
+// Shorten a line until it fits with an ellipsis after it
+const ellipsize = (line: string, width: number, metrics: TextMetrics): string => {
+    let text = line.replace(/\s+$/, '');
+    while (text !== '' && metrics.advance(text + ELLIPSIS) > width) text = text.slice(0, -1).replace(/\s+$/, '');
+    return text + ELLIPSIS;
+};
+
+// Lay out bounded text in its box at (x, y). The font size steps down from `fontSize` to the
+// box's minimum until the wrapped lines fit; text that still does not fit is cut after the
+// last line that does, with an ellipsis. `metricsAt` gives the font's metrics at a size.
+export const layoutTextBox = (
+    text: string,
+    x: number,
+    y: number,
+    box: TextBox,
+    fontSize: number,
+    metricsAt: (fontSize: number) => TextMetrics
+): TextLayout => {
+    const minFontSize = Math.max(1, Math.min(fontSize, box.minFontSize || fontSize));
+    let metrics = metricsAt(fontSize);
+    let lines = wrapText(text, box.width, metrics);
+    let limit = boxLineLimit(box, metrics);
+    for (let size = fontSize - 1; lines.length > limit && size >= minFontSize; size--) {
+        metrics = metricsAt(size);
+        lines = wrapText(text, box.width, metrics);
+        limit = boxLineLimit(box, metrics);
+    }
+
+    const truncated = lines.length > limit;
+    if (truncated) {
+        lines = lines.slice(0, limit);
+        lines[limit - 1] = ellipsize(lines[limit - 1], box.width, metrics);
+    }
+
+    const lineHeight = metrics.ascent + metrics.descent + LINE_SPACING;
+    const blockHeight = lines.length * lineHeight - LINE_SPACING;
+    const top = box.verticalAlign === 'bottom' ? y + box.height - blockHeight
+        : box.verticalAlign === 'middle' ? y + (box.height - blockHeight) / 2
+        : y;
+
+    return {
+        x,
+        y,
+        width: box.width,
+        height: box.height,
+        fontSize: metrics.fontSize,
+        truncated,
+        lines: lines.map((line, index) => {
+            const width = metrics.advance(line);
+            const left = box.align === 'right' ? x + box.width - width
+                : box.align === 'center' ? x + (box.width - width) / 2
+                : x;
+            return { text: line, x: left, baseline: top + metrics.ascent + index * lineHeight, width };
+        })
+    };
+};
@@ -0,0 +1,164 @@
+import { CanvasItem, TemplateVariables } from '../types';
+import { priceVariables, splitPrice } from './priceLayout';
+
+// Text, barcode, QR and price items whose whole content is "[name]" are filled in by the tag
+// image generator from the variable `name`. Sample records stand in for that data in the editor.
+
+// Returns the variable name for "[name]" content, or undefined for literal content
+export const getVariableName = (content: string): string | undefined => {
+    const bracketMatch = String(content || '').match(/^\[(.+)\]$/);
+    return bracketMatch ? bracketMatch[1] : undefined;
+};
+
+// The content of an item that can hold a variable
+const itemContent = (item: CanvasItem): string | undefined => {
+    if (item.type === 'text') return item.text;
+    if (item.type === 'barcode' || item.type === 'qrcode' || item.type === 'price') return item.data;
+    return undefined;
+};
+
+// The variable a price shows struck through as its original price
+const originalPriceVariable = (item: CanvasItem): string | undefined =>
+    item.type === 'price' && item.originalPrice ? getVariableName(item.originalPrice) : undefined;
+
+export const getItemVariable = (item: CanvasItem): string | undefined => {
+    const content = itemContent(item);
+    return content === undefined ? undefined : getVariableName(content);
+};
+
+// Variable names used by the items, in layer order, each listed once
+export const listVariables = (items: CanvasItem[]): string[] => {
+    const names: string[] = [];
+    items
+        .slice()
+        .sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
+        .forEach(item => {
+            [getItemVariable(item), originalPriceVariable(item)].forEach(name => {
+                if (name !== undefined && !names.includes(name)) names.push(name);
+            });
+        });
+    return names;
+};
+
+// The item as it looks with the record's value for its variable. Items without a variable,
+// or whose variable the record leaves out, are returned unchanged.
+export const applySampleRecord = (item: CanvasItem, record: TemplateVariables | null): CanvasItem => {
+    if (!record) return item;
+    const has = (name: string | undefined): name is string =>
+        name !== undefined && Object.prototype.hasOwnProperty.call(record, name);
+    const name = getItemVariable(item);
+    const original = originalPriceVariable(item);
+    if (item.type === 'price' && (has(name) || has(original))) {
+        return {
+            ...item,
+            data: has(name) ? record[name] : item.data,
+            originalPrice: has(original) ? record[original] : item.originalPrice
+        };
+    }
+    if (!has(name)) return item;
+    const value = record[name];
+    if (item.type === 'text') return { ...item, text: value };
+    if (item.type === 'barcode' || item.type === 'qrcode') return { ...item, data: value };
+    return item;
+};
+
+// A record as the tag image generator's data must give it. The generator draws a bound price
+// from its `_int` and `_dec` variables, so those are split from the whole price unless the
+// record already has them.
+export const toGeneratorRecord = (items: CanvasItem[], record: TemplateVariables): TemplateVariables => {
+    const generatorRecord = { ...record };
+    items.forEach(item => {
+        const name = item.type === 'price' ? getVariableName(item.data) : undefined;
+        if (name === undefined || !Object.prototype.hasOwnProperty.call(record, name)) return;
+        const parts = splitPrice(record[name]);
+        const names = priceVariables(name);
+        if (!Object.prototype.hasOwnProperty.call(record, names.integer)) generatorRecord[names.integer] = parts.integer;
+        if (!Object.prototype.hasOwnProperty.call(record, names.decimals)) generatorRecord[names.decimals] = parts.decimals;
+    });
+    return generatorRecord;
+};
+
+const toRecord = (value: unknown, position: number): TemplateVariables => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`Record ${position} is not an object of names and values`);
+    }
+    const record: TemplateVariables = {};
+    Object.entries(value as Record<string, unknown>).forEach(([name, field]) => {
+        if (field === null || field === undefined) return;
+        record[name] = typeof field === 'object' ? JSON.stringify(field) : String(field);
+    });
+    return record;
+};
+
+// Rows of a CSV file, with quoted fields that may contain the delimiter, quotes ("") and newlines
+const parseCsvRows = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) throw new Error('CSV file ends inside a quoted field');
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Records from a CSV file whose first row names the variables. Semicolon-separated files,
+// as spreadsheets write them in many locales, are recognised by their header row.
+export const parseCsvRecords = (text: string): TemplateVariables[] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const header = content.split(/\r?\n/, 1)[0];
+    const delimiter = (header.match(/;/g) || []).length > (header.match(/,/g) || []).length ? ';' : ',';
+    const [names, ...rows] = parseCsvRows(content, delimiter);
+    if (!names) throw new Error('CSV file is empty');
+
+    const columns = names.map(name => name.trim());
+    if (columns.some(name => name === '')) throw new Error('Every CSV column needs a name in the first row');
+
+    return rows.map(cells => {
+        const record: TemplateVariables = {};
+        columns.forEach((name, index) => {
+            record[name] = cells[index] ?? '';
+        });
+        return record;
+    });
+};
+
+// Records from JSON: an array of objects, or a single object for one record
+export const parseJsonRecords = (text: string): TemplateVariables[] => {
+    const data = JSON.parse(text);
+    const records = Array.isArray(data) ? data : [data];
+    return records.map((value, index) => toRecord(value, index + 1));
+};
+
+// Records from a sample data file, by its extension
+export const parseSampleRecords = (text: string, fileName: string): TemplateVariables[] =>
+    fileName.toLowerCase().endsWith('.csv') ? parseCsvRecords(text) : parseJsonRecords(text);
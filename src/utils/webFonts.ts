@@ -0,0 +1,51 @@
+import opentype from 'opentype.js';
+
+// Browser-side only. Loads label fonts from the server's font files: parsed, to measure
+// text with the generator's metrics, and registered as web fonts, to show it in the same
+// typeface on the canvas.
+
+// Loads by font base and file, so each file is fetched once
+const loads = new Map<string, Promise<opentype.Font | null>>();
+const faces = new Map<string, FontFace>();
+
+// CSS family name a font file is registered under
+export const webFontFamily = (file: string): string => `esl-${file.replace(/\.(ttf|otf)$/i, '').replace(/[^A-Za-z0-9_-]/g, '-')}`;
+
+const fetchFont = async (key: string, file: string, fontbase: string): Promise<opentype.Font | null> => {
+    try {
+        const response = await fetch(`/api/get-font?file=${encodeURIComponent(file)}&fontbase=${encodeURIComponent(fontbase)}`);
+        if (!response.ok) return null;
+        const data = await response.arrayBuffer();
+        const font = opentype.parse(data);
+        const face = new FontFace(webFontFamily(file), data);
+        await face.load();
+        document.fonts.add(face);
+        faces.set(key, face);
+        return font;
+    } catch (error) {
+        console.error(`Failed to load font ${file}:`, error);
+        return null;
+    }
+};
+
+// The parsed font, or null when the server does not have it or it cannot be read
+export const loadWebFont = (file: string, fontbase: string = ''): Promise<opentype.Font | null> => {
+    const key = `${fontbase}|${file}`;
+    let load = loads.get(key);
+    if (!load) {
+        load = fetchFont(key, file, fontbase);
+        loads.set(key, load);
+    }
+    return load;
+};
+
+// Drop a font file that was replaced on the server, so the next load fetches it again
+export const forgetWebFont = (file: string) => {
+    Array.from(loads.keys()).forEach(key => {
+        if (!key.endsWith(`|${file}`)) return;
+        loads.delete(key);
+        const face = faces.get(key);
+        if (face) document.fonts.delete(face);
+        faces.delete(key);
+    });
+};
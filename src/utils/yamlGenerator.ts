@@ -1,4 +1,392 @@
-export function generateYaml(templateData: any): string {
-    const yaml = require('js-yaml');
-    return yaml.dump(templateData);
-}
\ No newline at end of file
+import YAML from 'yaml';
+import {
+    CanvasGroup,
+    CanvasGuide,
+    CanvasItem,
+    EslAxis,
+    EslElement,
+    EslTemplateDocument,
+    EslType,
+    PriceItem,
+    TemplateExtras,
+    TextBox,
+    TextItem
+} from '../types';
+import { DEFAULT_FONT_FILE } from './fonts';
+import { pruneGroups } from './groups';
+import { canRotate, normalizeRotation } from './itemTransforms';
+import { layoutPrice, placeholderPrice, priceVariables } from './priceLayout';
+import { parseFontSpec } from './templateParser';
+import { TextMetrics, estimatedMetrics, layoutTextBox } from './textLayout';
+import { getVariableName } from './variables';
+
+// Canvas-level settings written to the template root
+export interface TemplateConfig {
+    width: number;
+    height: number;
+    eslType: EslType;
+    axis: EslAxis;
+    model?: string; // Id of the display model, written to `_model`
+}
+
+// Metrics of a font file at a size, used to wrap bounded text as the editor shows it
+export type FontMeasure = (fontFile: string, fontSize: number) => TextMetrics;
+
+const emptyExtras: TemplateExtras = { rootKeys: {}, elements: [] };
+
+const estimateFont: FontMeasure = (fontFile, fontSize) => estimatedMetrics(fontSize, fontFile);
+
+// Map editor colours to ESL fill values: black=0, white=1, yellow=2, red=3
+export const colorToFill = (color: string): number => {
+    switch (color.toLowerCase()) {
+        case '#000000':
+        case '#000':
+        case 'black':
+            return 0;
+        case '#ffffff':
+        case '#fff':
+        case 'white':
+            return 1;
+        case '#ffff00':
+        case '#ff0':
+        case 'yellow':
+            return 2;
+        case '#ff0000':
+        case '#f00':
+        case 'red':
+            return 3;
+        default:
+            return 0; // Default to black if unknown color
+    }
+};
+
+const getFontCombination = (item: TextItem): string =>
+    `${item.fontFile || DEFAULT_FONT_FILE}:${item.fontSize}`;
+
+// Image items loaded from disk keep their library filename; pasted data URLs get a generated one
+const getImageFilename = (item: Extract<CanvasItem, { type: 'image' }>): string => {
+    let filename = item.originalFilename || item.filename || 'image.bmp';
+    if (filename.startsWith('data:')) {
+        const extension = filename.includes('image/png') ? '.png' : '.bmp';
+        filename = `image_${item.width}x${item.height}${extension}`;
+    }
+    return filename;
+};
+
+// Formatting is editor metadata; the generator ignores keys it does not know
+const textFormatting = (item: TextItem): Partial<EslElement> =>
+    item.bold || item.italic || item.underline
+        ? {
+            _formatting: {
+                bold: item.bold || false,
+                italic: item.italic || false,
+                underline: item.underline || false
+            }
+        }
+        : {};
+
+// Bounded text as the generator can draw it: one text element per wrapped line, anchored at
+// the box edge or centre its alignment names. The first line carries the box in `_box` so
+// the editor can read the item back, and the others are marked `_box_line`. Variable text
+// is only known when the label is drawn, so it stays a single `var` element at the top of
+// its box: /api/render wraps it, but the tag image generator prints it on one line.
+const textBoxToElements = (
+    item: TextItem,
+    box: TextBox,
+    fontIndex: (combination: string) => number,
+    measure: FontMeasure
+): EslElement[] => {
+    const fontFile = item.fontFile || DEFAULT_FONT_FILE;
+    const horizontal = box.align === 'right' ? 'r' : box.align === 'center' ? 'm' : 'l';
+    const anchorX = box.align === 'right' ? item.x + box.width
+        : box.align === 'center' ? item.x + box.width / 2
+        : item.x;
+    const boxMetadata = {
+        x: item.x,
+        y: item.y,
+        width: box.width,
+        height: box.height,
+        ...(box.maxLines && { max_lines: box.maxLines }),
+        ...(box.minFontSize && { min_size: box.minFontSize }),
+        align: box.align,
+        valign: box.verticalAlign,
+        // The elements are anchored by the box; this is the anchor the text has without it
+        anchor: item.anchor || 'lt'
+    };
+
+    const varName = getVariableName(item.text);
+    if (varName !== undefined) {
+        return [{
+            type: 'var',
+            var: varName,
+            font: fontIndex(getFontCombination(item)),
+            fill: colorToFill(item.color),
+            anchor: `${horizontal}t`,
+            x: anchorX,
+            y: item.y,
+            _box: boxMetadata,
+            ...textFormatting(item)
+        }];
+    }
+
+    const text = String(item.text || '');
+    const layout = layoutTextBox(text, item.x, item.y, box, item.fontSize, fontSize => measure(fontFile, fontSize));
+    const font = fontIndex(`${fontFile}:${layout.fontSize}`);
+    return layout.lines.map((line, index) => ({
+        type: 'text',
+        text: line.text,
+        font,
+        fill: colorToFill(item.color),
+        anchor: `${horizontal}s`,
+        x: anchorX,
+        y: Math.round(line.baseline),
+        ...(index === 0
+            ? { _box: { ...boxMetadata, text, size: item.fontSize }, ...textFormatting(item) }
+            : { _box_line: true })
+    }));
+};
+
+// A price as anchored text elements: the integer part right-aligned against the decimals,
+// which keeps them in place whatever the number of digits. A bound price is written as its
+// `_int` and `_dec` variables, since the generator draws each part from its own value. The
+// first element carries the settings in `_price`; the others are marked `_price_part`.
+const priceToElements = (item: PriceItem, fontIndex: (combination: string) => number, measure: FontMeasure): EslElement[] => {
+    const fontFile = item.fontFile || DEFAULT_FONT_FILE;
+    const varName = getVariableName(item.data);
+    const hasOriginal = item.originalPrice !== undefined && item.originalPrice !== '';
+    const originalVar = hasOriginal ? getVariableName(item.originalPrice || '') : undefined;
+    const layout = layoutPrice(
+        item,
+        varName !== undefined ? placeholderPrice(item.integerDigits) : item.data,
+        !hasOriginal ? undefined : originalVar !== undefined ? placeholderPrice(item.integerDigits) : item.originalPrice,
+        fontSize => measure(fontFile, fontSize)
+    );
+    const fill = colorToFill(item.color);
+
+    const elements: EslElement[] = layout.parts.map(part => {
+        let content: EslElement = { type: 'text', text: part.text };
+        if (varName !== undefined && part.role === 'integer') content = { type: 'var', var: priceVariables(varName).integer };
+        if (varName !== undefined && part.role === 'decimals') content = { type: 'var', var: priceVariables(varName).decimals };
+        if (originalVar !== undefined && part.role === 'original') content = { type: 'var', var: originalVar };
+        return {
+            ...content,
+            font: fontIndex(`${fontFile}:${part.fontSize}`),
+            fill,
+            anchor: part.anchor,
+            x: part.x,
+            y: part.baseline
+        };
+    });
+    if (layout.strike) {
+        const { x1, x2, y, thickness } = layout.strike;
+        elements.push(thickness === 1
+            ? { type: 'line', fill, x1, y1: y, x2, y2: y }
+            : { type: 'rect', fill, x1, y1: y, x2, y2: y + thickness });
+    }
+
+    return elements.map((element, index) => index === 0
+        ? {
+            ...element,
+            _price: {
+                x: item.x,
+                y: item.y,
+                data: item.data,
+                size: item.fontSize,
+                separator: item.separator,
+                currency: item.currency,
+                currency_position: item.currencyPosition,
+                raised: item.raisedDecimals,
+                digits: item.integerDigits,
+                ...(hasOriginal && { original: item.originalPrice })
+            }
+        }
+        : { ...element, _price_part: true });
+};
+
+// Turned items carry their angle in `rotate`, applied about the element's x/y
+const rotationOf = (item: CanvasItem): Partial<EslElement> => {
+    const rotation = canRotate(item) ? normalizeRotation(item.rotation || 0) : 0;
+    return rotation !== 0 ? { rotate: rotation } : {};
+};
+
+// Barcodes and QR codes bound to a variable name it in `var`; others carry their `data`
+const symbolContent = (data: string): Partial<EslElement> => {
+    const varName = getVariableName(data);
+    return varName !== undefined ? { var: varName } : { data };
+};
+
+// Convert one canvas item to its ESL element
+const canvasItemToElement = (item: Exclude<CanvasItem, PriceItem>, fontIndex: (combination: string) => number): EslElement => {
+    switch (item.type) {
+        case 'text': {
+            const varName = getVariableName(item.text);
+            const element: EslElement = varName !== undefined
+                ? { type: 'var', var: varName }
+                : { type: 'text', text: String(item.text || '') };
+            element.font = fontIndex(getFontCombination(item));
+            element.fill = colorToFill(item.color);
+            element.anchor = item.anchor || 'lt';
+            element.x = item.x;
+            element.y = item.y;
+            return { ...element, ...textFormatting(item) };
+        }
+        case 'rect':
+            return {
+                type: 'rect',
+                fill: colorToFill(item.color),
+                x1: item.x,
+                y1: item.y,
+                x2: item.x + item.width,
+                y2: item.y + item.height
+            };
+        case 'line': {
+            const thickness = item.thickness || 1;
+            if (thickness === 1) {
+                return {
+                    type: 'line',
+                    fill: colorToFill(item.color),
+                    x1: item.x,
+                    y1: item.y,
+                    x2: item.x2,
+                    y2: item.y2
+                };
+            }
+            // Thick lines are drawn as filled bars, matching the canvas rendering
+            const isHorizontal = Math.abs(item.x2 - item.x) > Math.abs(item.y2 - item.y);
+            const x1 = Math.min(item.x, item.x2);
+            const y1 = Math.min(item.y, item.y2);
+            return {
+                type: 'rect',
+                fill: colorToFill(item.color),
+                x1,
+                y1,
+                x2: isHorizontal ? Math.max(item.x, item.x2) : x1 + thickness,
+                y2: isHorizontal ? y1 + thickness : Math.max(item.y, item.y2)
+            };
+        }
+        case 'circle':
+            return {
+                type: 'circle',
+                fill: colorToFill(item.color),
+                x: item.x,
+                y: item.y,
+                r: item.radius
+            };
+        case 'image':
+            return {
+                type: 'img',
+                filename: getImageFilename(item),
+                size_x: item.width,
+                size_y: item.height,
+                x_pos: item.x,
+                y_pos: item.y
+            };
+        case 'barcode':
+            return {
+                type: 'code128',
+                ...symbolContent(item.data),
+                x: item.x,
+                y: item.y,
+                height: item.height,
+                ...(item.captionFont && { font: fontIndex(item.captionFont) })
+            };
+        case 'qrcode':
+            return {
+                type: 'qrcode',
+                ...symbolContent(item.data),
+                x: item.x,
+                y: item.y,
+                scale: item.scale || 1,
+                ...(item.ecc && { ecc: item.ecc })
+            };
+    }
+};
+
+// Build the template document for a canvas. Items are written in layer order so the
+// generator draws them in the same stacking order as the editor. Groups only exist in
+// the editor: elements are written flat, with membership kept in `_group`/`_groups`.
+// Ruler guides are written to `_guides`, outside `el`, so they never reach the label.
+// `measure` wraps bounded text; without the label fonts at hand, widths are estimated.
+export const buildTemplateDocument = (
+    items: CanvasItem[],
+    config: TemplateConfig,
+    extras: TemplateExtras = emptyExtras,
+    groups: CanvasGroup[] = [],
+    guides: CanvasGuide[] = [],
+    measure: FontMeasure = estimateFont
+): EslTemplateDocument => {
+    const orderedItems = [...items].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0));
+
+    // One font entry per font file and size. The fonts of the loaded file keep their
+    // indices; fonts it does not have are added after them in order of first use.
+    const fonts = [...(extras.fonts || [])];
+    const fontCombinations = fonts.map(font => {
+        const spec = parseFontSpec(font);
+        return spec ? `${spec.file}:${spec.size}` : '';
+    });
+    const fontIndex = (combination: string): number => {
+        let index = fontCombinations.indexOf(combination);
+        if (index === -1) {
+            index = fontCombinations.push(combination) - 1;
+            fonts.push(combination);
+        }
+        return index;
+    };
+
+    const usedGroups = pruneGroups(groups, items);
+    const groupMetadata = (item: CanvasItem) =>
+        usedGroups.some(group => group.id === item.groupId) ? { _group: item.groupId } : {};
+
+    // Elements the editor does not model go back between the layers they were loaded between
+    const layers = extras.elementLayers || [];
+    const extraElementsAt = (layer: number): EslElement[] => extras.elements.filter((element, index) =>
+        layer < orderedItems.length ? layers[index] === layer : !(layers[index] < orderedItems.length));
+
+    const el = ([] as EslElement[]).concat(...orderedItems.map((item, layer) => {
+        const elements = item.type === 'price' ? priceToElements(item, fontIndex, measure)
+            : item.type === 'text' && item.box ? textBoxToElements(item, item.box, fontIndex, measure)
+            : [canvasItemToElement(item, fontIndex)];
+        return extraElementsAt(layer).concat(elements.map((element, index) => ({
+            ...element,
+            ...rotationOf(item),
+            ...groupMetadata(item),
+            ...(index === 0 && item.extra)
+        })));
+    }), extraElementsAt(orderedItems.length));
+
+    // Root keys from the loaded file come first, so a custom fontbase survives a save,
+    // but the settings made in the editor replace stale ones
+    const doc: EslTemplateDocument = Object.assign({ fontbase: 'fonts/' }, extras.rootKeys, {
+        fonts,
+        type: config.eslType,
+        x_res: config.width,
+        y_res: config.height,
+        axis: config.axis
+    });
+    if (config.model) {
+        doc._model = config.model;
+    }
+    if (usedGroups.length > 0) {
+        doc._groups = usedGroups.map(group =>
+            group.parentId !== undefined
+                ? { id: group.id, name: group.name, parent: group.parentId }
+                : { id: group.id, name: group.name }
+        );
+    }
+    if (guides.length > 0) {
+        doc._guides = guides.map(guide => ({ orientation: guide.orientation, position: guide.position }));
+    }
+    doc.el = el;
+    return doc;
+};
+
+// Serialize a canvas to template YAML. Every save and export path goes through here
+// so the same canvas always produces byte-identical output.
+export const serializeTemplate = (
+    items: CanvasItem[],
+    config: TemplateConfig,
+    extras: TemplateExtras = emptyExtras,
+    groups: CanvasGroup[] = [],
+    guides: CanvasGuide[] = [],
+    measure: FontMeasure = estimateFont
+): string => YAML.stringify(buildTemplateDocument(items, config, extras, groups, guides, measure));